@@ -2,12 +2,61 @@ import React, { useState, useEffect } from 'react';
 import { useGraphSimulation } from './simulation/useGraphSimulation';
 import { GraphVisualizer } from './components/GraphVisualizer';
 import { SystemLog } from './components/SystemLog';
+import { TopologyPanel } from './components/TopologyPanel';
+import { HoppingPanel } from './components/HoppingPanel';
+import { QuarantinePanel } from './components/QuarantinePanel';
+import { FaultPanel } from './components/FaultPanel';
+import { AIKernelPanel } from './components/AIKernelPanel';
+import { TransportPanel } from './components/TransportPanel';
+import { CipherPanel } from './components/CipherPanel';
+import { KeyPanel } from './components/KeyPanel';
+import { ScenarioPanel } from './components/ScenarioPanel';
+import { ClockControls } from './components/ClockControls';
+import { TimelineScrubber } from './components/TimelineScrubber';
+import { NodeInspector } from './components/NodeInspector';
+import { SCENARIO_LIBRARY } from './simulation/scenarioLibrary';
+import { StateMachineDiagram } from './components/StateMachineDiagram';
+import { MetricsDashboard } from './components/MetricsDashboard';
+import { randomSeed } from './simulation/random';
+import { describeTopology } from './simulation/topology';
+import { JammerKind, JAMMER_LABELS, JAMMER_PRESETS } from './simulation/jamming';
 import { AttackType } from './types';
-import { Shield, ShieldAlert, Radio, Activity, Network } from 'lucide-react';
+import { Shield, ShieldAlert, Radio, Activity, Network, Hash, Shuffle, Zap } from 'lucide-react';
 
 const App: React.FC = () => {
-  const { nodes, links, packets, logs, attackType, frequency, toggleAttack } = useGraphSimulation();
+  const {
+    nodes, links, packets, lostPackets, pending, transport, setTransport, logs, attackType, frequency, seed, setSeed, topology, setTopology,
+    hopping, setHopping, attacker, jammers, jammerConfigs, setJammers, toggleAttack, aiSettings, aiProvider, aiBudget, selectAIProvider, setOpenAIConfig, setAIBudget,
+    quarantines, connectivity, lockNode, unlockNode, metrics,
+    cipher, cipherReport, setEncryption, leakSessionKey, rotateSessionKey,
+    keying, linkKeys, leakedKeys, exposedKeys, keyExchangeReport, setKeying,
+    time, clock, togglePaused, setSpeed, stepTick, recording, replaying, seek, stepBack, loadRecording, scenario, scenarioReport, scenarioPending, loadScenario,
+    selectedNodeId, inspection, selectNode, compromiseNode, restoreNode, isolateNode, reconnectNode, removeNode, topologyEditor, topologyOptimizer,
+    faults, activeFaults, setFaults, cutLink, restoreLink, killNode, repairNode, repairFault, regionalOutage
+  } = useGraphSimulation();
   const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
+  const [seedInput, setSeedInput] = useState(String(seed));
+
+  // Keep the seed field in sync when the seed changes (e.g. shuffle)
+  useEffect(() => {
+    setSeedInput(String(seed));
+  }, [seed]);
+
+  const applySeedInput = () => {
+    const parsed = Number(seedInput);
+    if (Number.isFinite(parsed) && parsed !== seed) {
+      setSeed(parsed);
+    } else {
+      setSeedInput(String(seed));
+    }
+  };
+
+  // Jammer kinds are toggled individually; at least one stays deployed
+  const toggleJammer = (kind: JammerKind) => {
+    const enabled = jammerConfigs.some(j => j.kind === kind);
+    if (enabled && jammerConfigs.length === 1) return;
+    setJammers(enabled ? jammerConfigs.filter(j => j.kind !== kind) : [...jammerConfigs, JAMMER_PRESETS[kind]]);
+  };
 
   // Responsive graph container
   useEffect(() => {
@@ -42,12 +91,34 @@ const App: React.FC = () => {
           </div>
         </div>
 
-        <div className="flex items-center gap-6 text-sm font-mono">
+        <div className="flex flex-wrap items-center gap-6 text-sm font-mono">
+          <ClockControls clock={clock} time={time} onTogglePaused={togglePaused} onStep={stepTick} onSpeedChange={setSpeed} />
           <div className="flex items-center gap-2">
             <Radio size={18} className={attackType === AttackType.NONE ? "text-cyber-accent animate-pulse" : "text-cyber-warn"} />
             <span className="text-gray-400">FREQ:</span>
             <span className="text-cyber-accent font-bold text-lg">{frequency} MHz</span>
           </div>
+          <div className="flex items-center gap-2">
+            <Hash size={18} className="text-cyber-info" />
+            <span className="text-gray-400">SEED:</span>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={seedInput}
+              onChange={e => setSeedInput(e.target.value)}
+              onBlur={applySeedInput}
+              onKeyDown={e => { if (e.key === 'Enter') applySeedInput(); }}
+              className="w-20 bg-cyber-900 border border-cyber-700 rounded px-2 py-0.5 text-white font-bold focus:outline-none focus:border-cyber-accent"
+              aria-label="Simulation seed"
+            />
+            <button
+              onClick={() => setSeed(randomSeed())}
+              className="p-1 rounded border border-cyber-700 hover:border-cyber-accent text-gray-400 hover:text-cyber-accent transition-colors"
+              title="New random seed"
+            >
+              <Shuffle size={14} />
+            </button>
+          </div>
           <div className="flex items-center gap-2">
             <Activity size={18} className="text-cyber-info" />
             <span className="text-gray-400">NODES:</span>
@@ -105,15 +176,76 @@ const App: React.FC = () => {
                 <span className="font-mono font-bold">ROUTE HIJACKING</span>
                 <Network size={18} className={`group-hover:scale-110 transition-transform ${attackType === AttackType.HIJACKING ? 'animate-bounce' : ''}`} />
               </button>
+
+              <button
+                onClick={() => toggleAttack(AttackType.JAMMING)}
+                className={`w-full p-3 rounded border transition-all flex items-center justify-between group
+                    ${attackType === AttackType.JAMMING
+                    ? 'bg-orange-500/20 border-orange-500 text-orange-400 shadow-[0_0_10px_rgba(249,115,22,0.3)]'
+                    : 'bg-cyber-700 border-cyber-600 hover:border-cyber-500 text-gray-300'}`}
+              >
+                <span className="font-mono font-bold">RF JAMMING</span>
+                <Zap size={18} className={`group-hover:scale-110 transition-transform ${attackType === AttackType.JAMMING ? 'animate-bounce' : ''}`} />
+              </button>
+              <div className="grid grid-cols-3 gap-1 text-[10px] font-mono">
+                {(Object.keys(JAMMER_LABELS) as JammerKind[]).map(kind => (
+                  <button
+                    key={kind}
+                    onClick={() => toggleJammer(kind)}
+                    className={`px-1 py-1 rounded border transition-colors ${jammerConfigs.some(j => j.kind === kind)
+                      ? 'border-orange-500 text-orange-400 bg-orange-500/10'
+                      : 'border-cyber-700 text-gray-500 hover:text-gray-300'}`}
+                    title={`${JAMMER_PRESETS[kind].bandwidthMhz} MHz wide`}
+                  >
+                    {JAMMER_LABELS[kind]}
+                  </button>
+                ))}
+              </div>
             </div>
 
             <div className="mt-6 text-xs text-gray-500 font-mono border-t border-cyber-700 pt-4">
               <p>PROTOCOL: <span className="text-cyber-accent">LMR-TRG-V4</span></p>
-              <p>ENCRYPTION: <span className="text-cyber-accent">AES-256-GCM</span></p>
-              <p>TOPOLOGY: <span className="text-cyber-accent">DYNAMIC MESH</span></p>
+              <p>ENCRYPTION: {cipher.enabled
+                ? <span className="text-cyber-accent">AES-256-GCM</span>
+                : <span className="text-cyber-danger">DISABLED</span>}</p>
+              <p>TOPOLOGY: <span className="text-cyber-accent">{describeTopology(topology)}</span></p>
             </div>
           </div>
 
+          <ScenarioPanel library={SCENARIO_LIBRARY} scenario={scenario} report={scenarioReport} time={time} pending={scenarioPending} onLoad={loadScenario} />
+
+          <TopologyPanel topology={topology} nodes={nodes} links={links} onGenerate={setTopology} />
+
+          <HoppingPanel hopping={hopping} attacker={attacker} links={links} onChange={setHopping} />
+
+          <TransportPanel transport={transport} packets={packets} pending={pending} onChange={setTransport} />
+
+          <CipherPanel cipher={cipher} report={cipherReport} onToggle={setEncryption} onLeak={leakSessionKey} onRotate={rotateSessionKey} />
+
+          <KeyPanel keying={keying} linkKeys={linkKeys} leakedKeys={leakedKeys} exposedKeys={exposedKeys} report={keyExchangeReport} onChange={setKeying} />
+
+          <QuarantinePanel nodes={nodes} quarantines={quarantines} connectivity={connectivity} onLock={lockNode} onUnlock={unlockNode} />
+
+          <FaultPanel
+            faults={faults}
+            activeFaults={activeFaults}
+            nodes={nodes}
+            time={time}
+            selectedNodeId={selectedNodeId}
+            onChange={setFaults}
+            onRepair={repairFault}
+            onOutage={regionalOutage}
+          />
+
+          <AIKernelPanel
+            settings={aiSettings}
+            provider={aiProvider}
+            budget={aiBudget}
+            onSelect={selectAIProvider}
+            onConfigure={setOpenAIConfig}
+            onBudgetChange={setAIBudget}
+          />
+
           {/* Legend */}
           <div className="bg-cyber-800 p-4 rounded-lg border border-cyber-700 flex-1">
             <h3 className="text-gray-400 font-mono text-sm font-bold mb-3">VISUAL_KEY</h3>
@@ -130,6 +262,14 @@ const App: React.FC = () => {
                 <div className="w-3 h-3 rounded-full bg-[#ff0055]"></div>
                 <span>COMPROMISED</span>
               </div>
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded-full bg-[#ffffff]"></div>
+                <span>LOCKED (QUARANTINED)</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded-full bg-[#a855f7]"></div>
+                <span>FAILED (HARDWARE FAULT)</span>
+              </div>
               <div className="flex items-center gap-2">
                 <div className="w-8 h-0.5 bg-[#00ff9d]"></div>
                 <span>ACTIVE LINK</span>
@@ -138,25 +278,111 @@ const App: React.FC = () => {
                 <div className="w-8 h-0.5 bg-[#ff0055]"></div>
                 <span>UNSAFE PATH</span>
               </div>
+              <div className="flex items-center gap-2">
+                <div className="w-8 h-0.5 border-t-2 border-dashed border-[#f97316]"></div>
+                <span>JAMMED LINK</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-8 h-0.5 border-t border-dashed border-[#ff0055]"></div>
+                <span>ATTACK FRONTIER</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-2 h-2 rounded-full bg-[#ffbe0b] mx-0.5"></div>
+                <span>CLEARTEXT PACKET</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-2 h-2 rounded-full bg-[#ff0055] mx-0.5"></div>
+                <span>TAMPERED PACKET</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded-full border-2 border-[#ffbe0b]"></div>
+                <span>RETRANSMITTED PACKET</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-2 h-2 bg-[#00d4ff] rotate-45 mx-0.5"></div>
+                <span>ACK</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="w-3 text-center text-[#ff0055] font-bold leading-none">&times;</span>
+                <span>LOST PACKET</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-2 h-2 border border-[#ff0055] mx-0.5"></div>
+                <span>LEAKED LINK KEY</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 border border-[#00d4ff] rotate-45 mx-0.5"></div>
+                <span>HARDENED ROUTER</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-8 h-0.5 border-t-2 border-dashed border-[#00ff9d]"></div>
+                <span>PROPOSED LINK</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-8 h-0.5 border-t-2 border-dotted border-[#ffbe0b]"></div>
+                <span>PROPOSED REMOVAL</span>
+              </div>
             </div>
           </div>
         </section>
 
         {/* Center Graph */}
-        <section id="graph-container" className="lg:col-span-6 h-[500px] lg:h-auto relative rounded-lg overflow-hidden bg-black/50 border-2 border-cyber-700/50">
-          <GraphVisualizer
-            nodes={nodes}
-            links={links}
-            packets={packets}
-            attackType={attackType}
-            width={dimensions.width}
-            height={dimensions.height}
+        <section className="lg:col-span-6 flex flex-col gap-4">
+          <div id="graph-container" className="h-[500px] lg:h-auto lg:flex-1 lg:min-h-[500px] relative rounded-lg overflow-hidden bg-black/50 border-2 border-cyber-700/50">
+            <GraphVisualizer
+              nodes={nodes}
+              links={links}
+              packets={packets}
+              lostPackets={lostPackets}
+              attackType={attackType}
+              jammers={jammers}
+              attacker={attacker}
+              exposedLinks={exposedKeys.map(k => k.linkId)}
+              channels={hopping.channels}
+              selectedNodeId={selectedNodeId}
+              onSelectNode={selectNode}
+              editor={topologyEditor}
+              optimizer={topologyOptimizer}
+              width={dimensions.width}
+              height={dimensions.height}
+            />
+          </div>
+          <TimelineScrubber
+            recording={recording}
+            time={time}
+            replaying={replaying}
+            paused={clock.paused}
+            onSeek={seek}
+            onStepBack={stepBack}
+            onStepForward={stepTick}
+            onLoad={loadRecording}
           />
         </section>
 
         {/* Right Logs */}
-        <section className="lg:col-span-3 h-[300px] lg:h-auto">
-          <SystemLog logs={logs} />
+        <section className="lg:col-span-3 flex flex-col gap-4">
+          {inspection && (
+            <NodeInspector
+              inspection={inspection}
+              onClose={() => selectNode(null)}
+              onCompromise={compromiseNode}
+              onRestore={restoreNode}
+              onLock={nodeId => lockNode(nodeId, { kind: 'manual' })}
+              onUnlock={unlockNode}
+              onIsolate={isolateNode}
+              onReconnect={reconnectNode}
+              onRemove={removeNode}
+              onKill={killNode}
+              onRepair={repairNode}
+              onCutLink={cutLink}
+              onRestoreLink={restoreLink}
+            />
+          )}
+          <StateMachineDiagram nodes={nodes} />
+          <MetricsDashboard metrics={metrics} />
+          <div className="h-[300px] lg:h-auto lg:flex-1 lg:min-h-[300px]">
+            <SystemLog logs={logs} />
+          </div>
         </section>
       </main>
     </div>
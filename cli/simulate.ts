@@ -0,0 +1,189 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { AttackType } from '../types';
+import { HeadlessOptions, runHeadlessWithPayloads, scenarioOptions } from '../simulation/headless';
+import { Scenario, ScenarioError, parseScenario, scenarioLogLines } from '../simulation/scenario';
+import { SCENARIO_LIBRARY } from '../simulation/scenarioLibrary';
+import { DEFAULT_TOPOLOGIES, TopologyKind } from '../simulation/topology';
+import { createChannelSet } from '../simulation/hopping';
+import { JammerConfig, JammerKind, JAMMER_PRESETS } from '../simulation/jamming';
+import { DEFAULT_FAULTS } from '../simulation/faults';
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+  --seed <n>                 PRNG seed (default 1912)
+  --duration <s>             Simulated seconds to run (default 60)
+  --attack <type>            NONE | SNIFFING | MITM | HIJACKING | JAMMING (default NONE)
+  --attack-start <s>         Second at which the attack starts (default 0)
+  --attack-stop <s>          Second at which the attack stops (default: never)
+  --topology <kind>          layered | grid | erdos-renyi | barabasi-albert |
+                             watts-strogatz | ring-of-rings (default layered)
+  --no-mitigation            Disable adaptive mitigation
+  --mitigation-initial <x>   Initial mitigation strength (0-1)
+  --mitigation-step <x>      Strength added per mitigation interval (0-1)
+  --mitigation-max <x>       Mitigation strength cap (0-1)
+  --no-auto-quarantine       Never let the defense lock compromised nodes
+  --no-hopping               Park every link on a fixed channel
+  --channels <n>             Number of hop channels (default 16)
+  --dwell <ms>               Time on each channel before hopping (default 2000)
+  --hop-key <n>              Shared hopping key (default: derived from the seed)
+  --jammer <spec>            kind[:centreMhz[:bandwidthMhz]], kind = fixed | sweep |
+                             reactive; repeat for several jammers (default fixed)
+  --ttl <n>                  Hops a packet may take before it is discarded (default 8)
+  --no-acks                  DST does not acknowledge (disables retransmission)
+  --no-retransmit            Never resend unacknowledged packets
+  --rto <ms>                 Retransmission timeout (default 12000)
+  --retries <n>              Resends before a packet is given up (default 2)
+  --no-encryption            Send payloads in cleartext instead of AES-256-GCM
+  --rekey-hops <n>           Frequency hops between link rekeys, 0 = never (default 3)
+  --faults                   Inject random link, router and regional failures
+  --link-mtbf <s>            Mean time between failures of a link (default 120)
+  --node-mtbf <s>            Mean time between failures of a router (default 300)
+  --scenario <file|id>       Play a scenario JSON file or a built-in one (${SCENARIO_LIBRARY.map(s => s.id).join(', ')});
+                             it sets seed, duration, topology and settings, and the exit
+                             code is 1 if one of its assertions fails
+  --out <file>               Write the JSON trace to a file instead of stdout
+  --help                     Show this message
+`;
+
+const fail = (message: string): never => {
+    process.stderr.write(`${message}\n\n${USAGE}`);
+    process.exit(1);
+};
+
+const parseNumber = (name: string, raw: string | undefined): number | undefined => {
+    if (raw === undefined) return undefined;
+    const value = Number(raw);
+    if (!Number.isFinite(value)) fail(`Invalid value for --${name}: "${raw}"`);
+    return value;
+};
+
+// Unknown flags and flags missing their value get the usage text like any other bad input
+const { values } = (() => {
+    try {
+        return parseArgs({
+            options: {
+                seed: { type: 'string' },
+                duration: { type: 'string' },
+                attack: { type: 'string' },
+                'attack-start': { type: 'string' },
+                'attack-stop': { type: 'string' },
+                topology: { type: 'string' },
+                'no-mitigation': { type: 'boolean' },
+                'mitigation-initial': { type: 'string' },
+                'mitigation-step': { type: 'string' },
+                'mitigation-max': { type: 'string' },
+                'no-auto-quarantine': { type: 'boolean' },
+                'no-hopping': { type: 'boolean' },
+                channels: { type: 'string' },
+                dwell: { type: 'string' },
+                'hop-key': { type: 'string' },
+                jammer: { type: 'string', multiple: true },
+                ttl: { type: 'string' },
+                'no-acks': { type: 'boolean' },
+                'no-retransmit': { type: 'boolean' },
+                rto: { type: 'string' },
+                retries: { type: 'string' },
+                'no-encryption': { type: 'boolean' },
+                'rekey-hops': { type: 'string' },
+                faults: { type: 'boolean' },
+                'link-mtbf': { type: 'string' },
+                'node-mtbf': { type: 'string' },
+                scenario: { type: 'string' },
+                out: { type: 'string' },
+                help: { type: 'boolean' }
+            }
+        });
+    } catch (e) {
+        return fail((e as Error).message);
+    }
+})();
+
+if (values.help) {
+    process.stdout.write(USAGE);
+    process.exit(0);
+}
+
+const attack = (values.attack ?? AttackType.NONE).toUpperCase();
+if (!(Object.values(AttackType) as string[]).includes(attack)) {
+    fail(`Unknown attack type: "${values.attack}"`);
+}
+
+const topology = (values.topology ?? 'layered') as TopologyKind;
+if (!(topology in DEFAULT_TOPOLOGIES)) {
+    fail(`Unknown topology: "${values.topology}"`);
+}
+
+const parseJammer = (spec: string): JammerConfig => {
+    const [kind, center, bandwidth] = spec.split(':');
+    if (!(kind in JAMMER_PRESETS)) fail(`Unknown jammer kind: "${kind}"`);
+    const preset = JAMMER_PRESETS[kind as JammerKind];
+    return {
+        ...preset,
+        centerMhz: parseNumber('jammer', center) ?? preset.centerMhz,
+        bandwidthMhz: parseNumber('jammer', bandwidth) ?? preset.bandwidthMhz
+    };
+};
+
+const loadScenario = (ref: string): Scenario => {
+    const builtIn = SCENARIO_LIBRARY.find(s => s.id === ref);
+    if (builtIn) return builtIn;
+    if (!existsSync(ref)) return fail(`No scenario file or built-in scenario "${ref}"`);
+    try {
+        return parseScenario(readFileSync(ref, 'utf8'));
+    } catch (e) {
+        return fail(e instanceof ScenarioError ? `${ref}:\n${e.issues.map(i => `  ${i}`).join('\n')}` : String(e));
+    }
+};
+
+const options: HeadlessOptions = values.scenario ? scenarioOptions(loadScenario(values.scenario)) : {
+    seed: parseNumber('seed', values.seed),
+    durationSeconds: parseNumber('duration', values.duration) ?? 60,
+    attackType: attack as AttackType,
+    attackStartSeconds: parseNumber('attack-start', values['attack-start']),
+    attackStopSeconds: parseNumber('attack-stop', values['attack-stop']),
+    topology: DEFAULT_TOPOLOGIES[topology],
+    mitigation: {
+        ...(values['no-mitigation'] ? { enabled: false } : {}),
+        ...(values['no-auto-quarantine'] ? { autoQuarantine: false } : {}),
+        ...(values['mitigation-initial'] !== undefined ? { initialStrength: parseNumber('mitigation-initial', values['mitigation-initial']) } : {}),
+        ...(values['mitigation-step'] !== undefined ? { stepStrength: parseNumber('mitigation-step', values['mitigation-step']) } : {}),
+        ...(values['mitigation-max'] !== undefined ? { maxStrength: parseNumber('mitigation-max', values['mitigation-max']) } : {})
+    },
+    jammers: values.jammer?.map(parseJammer),
+    hopping: {
+        ...(values['no-hopping'] ? { enabled: false } : {}),
+        ...(values.channels !== undefined ? { channels: createChannelSet(parseNumber('channels', values.channels)) } : {}),
+        ...(values.dwell !== undefined ? { dwellMs: parseNumber('dwell', values.dwell) } : {}),
+        ...(values['hop-key'] !== undefined ? { key: parseNumber('hop-key', values['hop-key']) } : {})
+    },
+    transport: {
+        ...(values['no-acks'] ? { acks: false } : {}),
+        ...(values['no-retransmit'] ? { retransmit: false } : {}),
+        ...(values.ttl !== undefined ? { ttl: parseNumber('ttl', values.ttl) } : {}),
+        ...(values.rto !== undefined ? { timeoutMs: parseNumber('rto', values.rto) } : {}),
+        ...(values.retries !== undefined ? { maxRetries: parseNumber('retries', values.retries) } : {})
+    },
+    encryption: !values['no-encryption'],
+    keying: values['rekey-hops'] !== undefined ? { rekeyEveryHops: parseNumber('rekey-hops', values['rekey-hops']) } : undefined,
+    faults: {
+        ...(values.faults ? { enabled: true } : {}),
+        ...(values['link-mtbf'] !== undefined ? { link: { ...DEFAULT_FAULTS.link, mtbfMs: parseNumber('link-mtbf', values['link-mtbf'])! * 1000 } } : {}),
+        ...(values['node-mtbf'] !== undefined ? { node: { ...DEFAULT_FAULTS.node, mtbfMs: parseNumber('node-mtbf', values['node-mtbf'])! * 1000 } } : {})
+    }
+};
+
+const trace = await runHeadlessWithPayloads(options);
+
+const json = JSON.stringify(trace, null, 2);
+if (values.out) {
+    writeFileSync(values.out, json);
+    process.stderr.write(`Trace written to ${values.out} (${trace.summary.packetsDelivered} delivered, ${trace.summary.packetsDropped} dropped, ${trace.summary.retransmissions} retransmitted, delivery ratio ${trace.metrics.deliveryRatio?.toFixed(3) ?? 'n/a'}, ${trace.payloads?.tagFailures ?? 0} tag failures)\n`);
+} else {
+    process.stdout.write(`${json}\n`);
+}
+
+if (trace.scenario) {
+    scenarioLogLines(trace.scenario).forEach(line => process.stderr.write(`${line.message}\n`));
+    if (!trace.scenario.passed) process.exitCode = 1;
+}
@@ -0,0 +1,118 @@
+import React, { useState, useEffect } from 'react';
+import { BrainCircuit } from 'lucide-react';
+import { AIKernelSettings, AIKernelProvider, AIProviderId, OpenAICompatibleConfig } from '../services/aiKernel';
+import { AI_PROVIDER_LABELS } from '../services/aiProviders';
+import { AIBudgetStatus } from '../services/aiScheduler';
+
+interface AIKernelPanelProps {
+    settings: AIKernelSettings;
+    provider: AIKernelProvider;
+    budget: AIBudgetStatus;
+    onSelect: (provider: AIProviderId) => void;
+    onConfigure: (config: Partial<OpenAICompatibleConfig>) => void;
+    onBudgetChange: (budgetPerMinute: number) => void;
+}
+
+type ConfigField = keyof OpenAICompatibleConfig;
+
+const FIELDS: { key: ConfigField; label: string; placeholder: string }[] = [
+    { key: 'baseUrl', label: 'BASE URL', placeholder: 'http://localhost:11434/v1' },
+    { key: 'model', label: 'MODEL', placeholder: 'llama3.2' },
+    { key: 'apiKey', label: 'API KEY (OPTIONAL)', placeholder: 'none' }
+];
+
+const PROVIDERS = Object.keys(AI_PROVIDER_LABELS) as AIProviderId[];
+
+export const AIKernelPanel: React.FC<AIKernelPanelProps> = ({ settings, provider, budget, onSelect, onConfigure, onBudgetChange }) => {
+    const [inputs, setInputs] = useState<OpenAICompatibleConfig>(settings.openai);
+    const [budgetInput, setBudgetInput] = useState(String(budget.limit));
+
+    useEffect(() => setInputs(settings.openai), [settings.openai]);
+    useEffect(() => setBudgetInput(String(budget.limit)), [budget.limit]);
+
+    const apply = (key: ConfigField) => {
+        if (inputs[key] !== settings.openai[key]) onConfigure({ [key]: inputs[key].trim() });
+    };
+
+    const applyBudget = () => {
+        const value = Math.floor(Number(budgetInput));
+        if (Number.isFinite(value) && value >= 0 && value !== budget.limit) onBudgetChange(value);
+        else setBudgetInput(String(budget.limit));
+    };
+
+    const unavailable = provider.unavailableReason();
+    const isRemote = provider.id !== 'offline';
+
+    const inputClass = "w-full bg-cyber-900 border border-cyber-700 rounded px-2 py-1 text-white focus:outline-none focus:border-cyber-accent";
+
+    return (
+        <div className="bg-cyber-800 p-4 rounded-lg border border-cyber-700 shadow-md">
+            <h3 className="text-cyber-info font-mono font-bold mb-4 flex items-center gap-2">
+                <BrainCircuit size={16} /> AI KERNEL
+            </h3>
+            <div className="space-y-3 text-xs font-mono">
+                <div className="grid grid-cols-3 gap-2">
+                    {PROVIDERS.map(id => (
+                        <button
+                            key={id}
+                            onClick={() => onSelect(id)}
+                            className={`p-2 rounded border transition-all ${settings.provider === id
+                                ? 'bg-cyber-accent/10 border-cyber-accent text-cyber-accent'
+                                : 'bg-cyber-700 border-cyber-600 text-gray-300 hover:border-gray-400'}`}
+                        >
+                            {AI_PROVIDER_LABELS[id]}
+                        </button>
+                    ))}
+                </div>
+                <p className={unavailable ? 'text-cyber-warn' : 'text-gray-500'}>
+                    {provider.label}: {unavailable ? `${unavailable}, offline analysis in use` : 'ready'}
+                </p>
+
+                {/* Remote calls left this minute; the offline kernel answers once they run out */}
+                <div className={`space-y-1 ${isRemote ? '' : 'opacity-50'}`}>
+                    <div className="flex justify-between text-gray-500">
+                        <span>BUDGET</span>
+                        <span className={budget.remaining === 0 ? 'text-cyber-danger' : 'text-white'}>
+                            {budget.remaining}/{budget.limit} LEFT{budget.resetInMs > 0 ? ` (+1 IN ${Math.ceil(budget.resetInMs / 1000)}s)` : ''}
+                        </span>
+                    </div>
+                    <div className="h-1.5 rounded overflow-hidden bg-cyber-900">
+                        <div className="h-full bg-cyber-accent transition-all" style={{ width: `${budget.limit > 0 ? (budget.remaining / budget.limit) * 100 : 0}%` }} />
+                    </div>
+                    <div className="flex justify-between text-gray-600">
+                        <span>IN FLIGHT {budget.inFlight}</span>
+                        <span>CACHED {budget.cached}</span>
+                    </div>
+                </div>
+                <label className="flex items-center justify-between gap-2">
+                    <span className="text-gray-500">CALLS / MIN</span>
+                    <input
+                        type="number"
+                        min={0}
+                        step={1}
+                        value={budgetInput}
+                        onChange={e => setBudgetInput(e.target.value)}
+                        onBlur={applyBudget}
+                        onKeyDown={e => e.key === 'Enter' && applyBudget()}
+                        className="w-20 bg-cyber-900 border border-cyber-700 rounded px-2 py-1 text-white focus:outline-none focus:border-cyber-accent"
+                    />
+                </label>
+
+                {settings.provider === 'openai' && FIELDS.map(({ key, label, placeholder }) => (
+                    <label key={key} className="block">
+                        <span className="text-gray-500">{label}</span>
+                        <input
+                            type={key === 'apiKey' ? 'password' : 'text'}
+                            value={inputs[key]}
+                            placeholder={placeholder}
+                            onChange={e => setInputs(prev => ({ ...prev, [key]: e.target.value }))}
+                            onBlur={() => apply(key)}
+                            onKeyDown={e => e.key === 'Enter' && apply(key)}
+                            className={inputClass}
+                        />
+                    </label>
+                ))}
+            </div>
+        </div>
+    );
+};
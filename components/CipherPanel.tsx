@@ -0,0 +1,72 @@
+import React from 'react';
+import { KeyRound } from 'lucide-react';
+import { CipherState } from '../simulation/crypto';
+import { CipherReport } from '../simulation/payloadCipher';
+
+interface CipherPanelProps {
+    cipher: CipherState;
+    report: CipherReport | null; // null until the first payload has been processed
+    onToggle: (enabled: boolean) => void;
+    onLeak: () => void;
+    onRotate: () => void;
+}
+
+const VISIBLE_CAPTURES = 3;
+
+export const CipherPanel: React.FC<CipherPanelProps> = ({ cipher, report, onToggle, onLeak, onRotate }) => {
+    const leaked = cipher.leakedSessions.includes(cipher.sessionId);
+    const fingerprint = report?.sessionId === cipher.sessionId ? report.fingerprint : null;
+
+    const buttonClass = "flex-1 px-2 py-1 rounded border transition-colors";
+
+    return (
+        <div className="bg-cyber-800 p-4 rounded-lg border border-cyber-700 shadow-md">
+            <h3 className="text-cyber-info font-mono font-bold mb-4 flex items-center gap-2">
+                <KeyRound size={16} /> CIPHER_SUITE
+            </h3>
+            <div className="space-y-3 text-xs font-mono">
+                <label className="flex items-center justify-between">
+                    <span className="text-gray-500">AES-256-GCM PAYLOADS</span>
+                    <input
+                        type="checkbox"
+                        checked={cipher.enabled}
+                        onChange={e => onToggle(e.target.checked)}
+                        className="accent-cyber-accent"
+                    />
+                </label>
+
+                <div className="text-gray-500 space-y-1">
+                    <p>SESSION: <span className="text-white">#{cipher.sessionId}</span>
+                        {leaked && <span className="text-cyber-danger"> (KEY LEAKED)</span>}</p>
+                    <p>KEY: <span className="text-cyber-accent">{fingerprint ?? '--'}</span></p>
+                </div>
+
+                <div className="flex gap-2">
+                    <button
+                        onClick={onLeak}
+                        disabled={leaked}
+                        className={`${buttonClass} border-cyber-danger/60 text-cyber-danger hover:bg-cyber-danger/10 disabled:opacity-40`}
+                    >
+                        LEAK KEY
+                    </button>
+                    <button onClick={onRotate} className={`${buttonClass} border-cyber-700 text-gray-300 hover:border-cyber-accent hover:text-cyber-accent`}>
+                        ROTATE KEY
+                    </button>
+                </div>
+
+                {report && (
+                    <div className="border-t border-cyber-700 pt-2 text-gray-500 space-y-1">
+                        <p>SEALED: <span className="text-white">{report.sealed}</span> / VERIFIED: <span className="text-cyber-accent">{report.verified}</span></p>
+                        <p>TAG FAILURES: <span className="text-cyber-warn">{report.tagFailures}</span> / UNDETECTED: <span className={report.undetected > 0 ? 'text-cyber-danger' : 'text-white'}>{report.undetected}</span></p>
+                        <p>SNIFFED: <span className="text-cyber-danger">{report.readableCaptures} readable</span> / {report.opaqueCaptures} opaque</p>
+                        {report.captures.slice(0, VISIBLE_CAPTURES).map(c => (
+                            <p key={`${c.packetId}@${c.nodeId}`} className={`truncate ${c.readable ? 'text-cyber-danger' : 'text-gray-600'}`} title={c.content}>
+                                {c.packetId}@{c.nodeId}: {c.content}
+                            </p>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Play, Pause, StepForward, Timer } from 'lucide-react';
+import { ClockState, CLOCK_SPEED_PRESETS, formatSpeed } from '../simulation/clock';
+
+interface ClockControlsProps {
+    clock: ClockState;
+    time: number; // simulated ms
+    onTogglePaused: () => void;
+    onStep: () => void;
+    onSpeedChange: (speed: number) => void;
+}
+
+export const ClockControls: React.FC<ClockControlsProps> = ({ clock, time, onTogglePaused, onStep, onSpeedChange }) => {
+    const buttonClass = "p-1 rounded border border-cyber-700 text-gray-400 transition-colors disabled:opacity-30 disabled:cursor-not-allowed";
+
+    return (
+        <div className="flex items-center gap-2">
+            <Timer size={18} className={clock.paused ? 'text-cyber-warn' : 'text-cyber-info'} />
+            <span className={`font-bold w-20 text-right ${clock.paused ? 'text-cyber-warn' : 'text-white'}`}>
+                T+{(time / 1000).toFixed(2)}s
+            </span>
+            <button
+                onClick={onTogglePaused}
+                className={`${buttonClass} hover:border-cyber-accent hover:text-cyber-accent`}
+                title={clock.paused ? 'Resume' : 'Pause'}
+            >
+                {clock.paused ? <Play size={14} /> : <Pause size={14} />}
+            </button>
+            <button
+                onClick={onStep}
+                disabled={!clock.paused}
+                className={`${buttonClass} enabled:hover:border-cyber-info enabled:hover:text-cyber-info`}
+                title="Step one tick"
+            >
+                <StepForward size={14} />
+            </button>
+            <select
+                value={clock.speed}
+                onChange={e => onSpeedChange(Number(e.target.value))}
+                className="bg-cyber-900 border border-cyber-700 rounded px-1 py-0.5 text-white focus:outline-none focus:border-cyber-accent"
+                aria-label="Simulation speed"
+            >
+                {CLOCK_SPEED_PRESETS.map(speed => <option key={speed} value={speed}>{formatSpeed(speed)}</option>)}
+            </select>
+        </div>
+    );
+};
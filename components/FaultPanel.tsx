@@ -0,0 +1,129 @@
+import React, { useState, useEffect } from 'react';
+import { CloudLightning, Wrench } from 'lucide-react';
+import { GraphNode } from '../types';
+import { FaultConfig, FailureProfile, Fault, formatDuration } from '../simulation/faults';
+
+interface FaultPanelProps {
+    faults: FaultConfig;
+    activeFaults: Fault[];
+    nodes: GraphNode[];
+    time: number;
+    selectedNodeId: string | null; // centre for a manual regional outage
+    onChange: (faults: Partial<FaultConfig>) => void;
+    onRepair: (fault: Fault) => void;
+    onOutage: (center?: string) => void;
+}
+
+// Each group holds a FailureProfile; the region's radius has its own control
+type Group = 'link' | 'node' | 'region';
+
+interface Field {
+    group: Group;
+    key: keyof FailureProfile;
+    label: string;
+    scale: number; // shown value = stored value / scale
+    min: number;
+}
+
+const FIELDS: Field[] = [
+    { group: 'link', key: 'mtbfMs', label: 'LINK MTBF (S)', scale: 1000, min: 0 },
+    { group: 'link', key: 'mttrMs', label: 'LINK MTTR (S)', scale: 1000, min: 0.1 },
+    { group: 'node', key: 'mtbfMs', label: 'ROUTER MTBF (S)', scale: 1000, min: 0 },
+    { group: 'node', key: 'mttrMs', label: 'ROUTER MTTR (S)', scale: 1000, min: 0.1 },
+    { group: 'region', key: 'mtbfMs', label: 'OUTAGE MTBF (S)', scale: 1000, min: 0 },
+    { group: 'region', key: 'mttrMs', label: 'OUTAGE MTTR (S)', scale: 1000, min: 0.1 }
+];
+
+const fieldId = (f: Field) => `${f.group}.${f.key}`;
+const valueOf = (faults: FaultConfig, f: Field): number => faults[f.group][f.key] / f.scale;
+const toInputs = (faults: FaultConfig) => Object.fromEntries(FIELDS.map(f => [fieldId(f), String(valueOf(faults, f))]));
+
+export const FaultPanel: React.FC<FaultPanelProps> = ({ faults, activeFaults, nodes, time, selectedNodeId, onChange, onRepair, onOutage }) => {
+    const [inputs, setInputs] = useState<Record<string, string>>(() => toInputs(faults));
+
+    useEffect(() => setInputs(toInputs(faults)), [faults]);
+
+    const apply = (f: Field) => {
+        const value = Number(inputs[fieldId(f)]);
+        if (!Number.isFinite(value) || value < f.min || value === valueOf(faults, f)) {
+            setInputs(toInputs(faults));
+            return;
+        }
+        onChange({ [f.group]: { ...faults[f.group], [f.key]: Math.round(value * f.scale) } });
+    };
+
+    const labelOf = (id: string) => nodes.find(n => n.id === id)?.label ?? id;
+    const center = selectedNodeId && nodes.find(n => n.id === selectedNodeId)?.type === 'router' ? selectedNodeId : undefined;
+
+    const inputClass = "w-full bg-cyber-900 border border-cyber-700 rounded px-2 py-1 text-white focus:outline-none focus:border-cyber-accent";
+
+    return (
+        <div className="bg-cyber-800 p-4 rounded-lg border border-cyber-700 shadow-md">
+            <h3 className="text-cyber-info font-mono font-bold mb-4 flex items-center gap-2">
+                <CloudLightning size={16} /> FAULTS
+            </h3>
+            <div className="space-y-3 text-xs font-mono">
+                <label className="flex items-center justify-between">
+                    <span className="text-gray-500">RANDOM FAILURES</span>
+                    <input
+                        type="checkbox"
+                        checked={faults.enabled}
+                        onChange={e => onChange({ enabled: e.target.checked })}
+                        className="accent-cyber-accent"
+                    />
+                </label>
+
+                <div className={`grid grid-cols-2 gap-2 ${faults.enabled ? '' : 'opacity-50'}`}>
+                    {FIELDS.map(f => (
+                        <label key={fieldId(f)} className="block">
+                            <span className="text-gray-500">{f.label}</span>
+                            <input
+                                type="number"
+                                min={f.min}
+                                step={1}
+                                value={inputs[fieldId(f)]}
+                                onChange={e => setInputs(prev => ({ ...prev, [fieldId(f)]: e.target.value }))}
+                                onBlur={() => apply(f)}
+                                onKeyDown={e => e.key === 'Enter' && apply(f)}
+                                className={inputClass}
+                            />
+                        </label>
+                    ))}
+                </div>
+                <label className="flex items-center justify-between">
+                    <span className="text-gray-500">OUTAGE RADIUS (HOPS)</span>
+                    <select
+                        value={faults.region.radius}
+                        onChange={e => onChange({ region: { ...faults.region, radius: Number(e.target.value) } })}
+                        className="bg-cyber-900 border border-cyber-700 rounded px-2 py-1 text-white"
+                    >
+                        {[0, 1, 2, 3].map(r => <option key={r} value={r}>{r}</option>)}
+                    </select>
+                </label>
+                <button
+                    onClick={() => onOutage(center)}
+                    className="w-full p-2 rounded border bg-cyber-700 border-cyber-600 text-gray-300 hover:border-purple-500 hover:text-purple-400 transition-all"
+                >
+                    REGIONAL OUTAGE {center ? `AROUND ${labelOf(center)}` : '(RANDOM)'}
+                </button>
+
+                {activeFaults.length > 0 && (
+                    <ul className="border-t border-cyber-700 pt-2 space-y-1 max-h-32 overflow-y-auto">
+                        {activeFaults.map(f => (
+                            <li key={f.elementId} className="flex items-center gap-2">
+                                <span className="text-purple-400 truncate">{f.kind === 'node' ? labelOf(f.elementId) : f.elementId}</span>
+                                <span className="text-gray-600">{f.cause.toUpperCase()}</span>
+                                <span className="text-gray-500 ml-auto">
+                                    {formatDuration(time - f.since)}{f.repairAt !== null ? ` / ${formatDuration(Math.max(0, f.repairAt - time))} left` : ''}
+                                </span>
+                                <button onClick={() => onRepair(f)} className="text-gray-500 hover:text-cyber-accent" title="Repair now">
+                                    <Wrench size={12} />
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
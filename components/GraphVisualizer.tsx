@@ -1,201 +1,331 @@
-import React, { useEffect, useRef, useMemo } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
 import { GraphNode, GraphLink, Packet, NodeState, AttackType } from '../types';
 import { COLORS } from '../constants';
+import { getId, findLink, isLinkDown } from '../simulation/graph';
+import { endpointsOf } from '../simulation/topology';
+import { Jammer, jammerBand, isJammed } from '../simulation/jamming';
+import { AttackerState, getAttackFrontier } from '../simulation/attacker';
+import { LostPacket, PacketDropReason } from '../simulation/transport';
+import { linkId } from '../simulation/hopping';
+import { TopologyEditor } from '../simulation/useTopologyEditor';
+import { TopologyOptimizer } from '../simulation/useTopologyOptimizer';
+import { LayoutMode, LAYOUT_LABELS, computeLayeredLayout, computeCircularLayout, structureKey } from './layout';
+import { TopologyEditorPanel } from './TopologyEditorPanel';
+import { ProposalPanel } from './ProposalPanel';
 
 interface GraphVisualizerProps {
     nodes: GraphNode[];
     links: GraphLink[];
     packets: Packet[];
+    lostPackets: LostPacket[]; // recent drops, marked where they happened
     attackType: AttackType;
+    jammers: Jammer[];
+    attacker: AttackerState;
+    exposedLinks: string[]; // links whose current key the attacker holds
+    channels: number[]; // hop channel plan, drawn on the spectrum strip while jamming
+    selectedNodeId: string | null;
+    onSelectNode: (id: string) => void; // a click on a node that did not drag it
+    editor: TopologyEditor;
+    optimizer: TopologyOptimizer; // its pending proposal is drawn as a diff over the graph
     width: number;
     height: number;
 }
 
+const LOSS_LABELS: Record<PacketDropReason, string> = {
+    'dead-end': 'NO ROUTE',
+    'jammed': 'JAMMED',
+    'intercepted': 'INTERCEPTED',
+    'tampered': 'AUTH FAIL',
+    'ttl': 'TTL',
+    'quarantined': 'QUARANTINED',
+    'link-down': 'LINK DOWN',
+    'node-down': 'NODE DOWN'
+};
+
+// Positions live here, not on the engine's node objects
+type LayoutNode = d3.SimulationNodeDatum & { id: string; pinned: boolean };
+type LayoutLink = d3.SimulationLinkDatum<LayoutNode>;
+
+// Outline for hardened routers, set apart from the round router body
+const hexagon = (r: number) => Array.from({ length: 6 }, (_, i) => {
+    const angle = Math.PI / 6 + (i * Math.PI) / 3;
+    return `${(r * Math.cos(angle)).toFixed(2)},${(r * Math.sin(angle)).toFixed(2)}`;
+}).join(' ');
+
 export const GraphVisualizer: React.FC<GraphVisualizerProps> = ({
     nodes,
     links,
     packets,
+    lostPackets,
     attackType,
+    jammers,
+    attacker,
+    exposedLinks,
+    channels,
+    selectedNodeId,
+    onSelectNode,
+    editor,
+    optimizer,
     width,
     height
 }) => {
     const svgRef = useRef<SVGSVGElement>(null);
-    const simulationRef = useRef<d3.Simulation<GraphNode, undefined> | null>(null);
+    const simulationRef = useRef<d3.Simulation<LayoutNode, LayoutLink> | null>(null);
+    const layoutNodesRef = useRef(new Map<string, LayoutNode>());
+    const dragRef = useRef<{ id: string; moved: boolean } | null>(null);
+
+    const [layoutMode, setLayoutMode] = useState<LayoutMode>('layered');
+    const [editNodeId, setEditNodeId] = useState<string | null>(null);
+    const [relayoutToken, setRelayoutToken] = useState(0);
+    const [, setLayoutTick] = useState(0);
+
+    // Only structural changes (not per-frame state changes) trigger a relayout
+    const structure = structureKey(nodes, links);
 
-    // Initialize simulation once
+    // Initialize simulation once; it only runs in force-directed mode
     useEffect(() => {
-        if (!simulationRef.current) {
-            simulationRef.current = d3.forceSimulation<GraphNode>()
-                // We only use the link force to store the link data structure, 
-                // we don't strictly need it for positioning since we use fx/fy.
-                .force("link", d3.forceLink<GraphNode, GraphLink>().id(d => d.id))
-                .velocityDecay(1); // Stop all physics movement
-        }
+        const simulation = d3.forceSimulation<LayoutNode, LayoutLink>().stop();
+        simulation.on("tick", () => setLayoutTick(t => t + 1));
+        simulationRef.current = simulation;
+        return () => { simulation.stop(); };
     }, []);
 
-    // Update Data & Tick
+    // Compute Layout
     useEffect(() => {
         const simulation = simulationRef.current;
         if (!simulation || !width || !height) return;
 
-        // 1. CALCULATE FIXED LAYOUT
-        // This strictly positions nodes "at one place"
-        const xPad = width * 0.1;
-        const yPad = height * 0.2;
-        const availWidth = width - (xPad * 2);
-        const availHeight = height - (yPad * 2);
-
-        // Group nodes for layout
-        // Based on creation logic: 
-        // SRC (0), 
-        // Col 1 (1-4), 
-        // Col 2 (5-9), 
-        // Col 3 (10-13), 
-        // DST (14)
-
-        // Helper to assign fixed position
-        const setPos = (n: GraphNode, x: number, y: number) => {
-            n.fx = x;
-            n.fy = y;
-            n.x = x;
-            n.y = y;
-        };
-
-        nodes.forEach(node => {
-            if (node.id === 'SRC') {
-                setPos(node, xPad, height / 2);
-            } else if (node.id === 'DST') {
-                setPos(node, width - xPad, height / 2);
-            } else {
-                // Router Nodes
-                // Identify rough layer based on ID (assuming N1..N13)
-                const idNum = parseInt(node.id.replace('N', ''));
-                let col = 0;
-                let rowIdx = 0;
-                let totalInCol = 4;
-
-                if (idNum >= 1 && idNum <= 4) {
-                    col = 1;
-                    rowIdx = idNum - 1;
-                    totalInCol = 4;
-                } else if (idNum >= 5 && idNum <= 9) {
-                    col = 2;
-                    rowIdx = idNum - 5;
-                    totalInCol = 5;
-                } else if (idNum >= 10 && idNum <= 13) {
-                    col = 3;
-                    rowIdx = idNum - 10;
-                    totalInCol = 4;
-                }
-
-                // Calculate Grid Position
-                const colX = xPad + (col * (availWidth / 4));
-                // Center rows vertically
-                const rowStep = availHeight / (totalInCol - 1 || 1);
-                // Offset to center the group if needed, but simple distribution works
-                const rowY = yPad + (rowIdx * rowStep);
-
-                setPos(node, colX, rowY);
-            }
+        // 1. SYNC LAYOUT NODES WITH THE GRAPH
+        const store = layoutNodesRef.current;
+        const ids = new Set(nodes.map(n => n.id));
+        [...store.keys()].forEach(id => {
+            if (!ids.has(id)) store.delete(id);
         });
-
-        // 2. UPDATE SIMULATION DATA
-        simulation.nodes(nodes);
-        (simulation.force("link") as d3.ForceLink<GraphNode, GraphLink>).links(links);
-
-        // 3. RENDER ON TICK (Or just once since they are fixed)
-        // We run one tick to ensure attributes are set
-        simulation.alpha(1).tick();
-
-        const svg = d3.select(svgRef.current);
-
-        // Update Links
-        svg.selectAll<SVGGElement, GraphLink>(".link-group")
-            .data(links)
-            .join("g") // Use join to handle enter/update/exit cleanly
-            .attr("class", "link-group")
-            .each(function (d) {
-                const group = d3.select(this);
-                const s = d.source as GraphNode;
-                const t = d.target as GraphNode;
-
-                if (s.x === undefined || s.y === undefined || t.x === undefined || t.y === undefined) return;
-
-                // Ensure lines exist
-                if (group.select("line.link-base").empty()) {
-                    group.append("line").attr("class", "link-base").attr("stroke", "#1f2937").attr("stroke-width", 1);
-                    group.append("line").attr("class", "link-activity").attr("stroke-width", 0);
+        nodes.forEach(n => {
+            if (!store.has(n.id)) store.set(n.id, { id: n.id, x: width / 2, y: height / 2, pinned: false });
+        });
+        const layoutNodes = [...store.values()];
+
+        // 2. FORCE-DIRECTED: let d3 move everything that is not pinned
+        if (layoutMode === 'force') {
+            layoutNodes.forEach(n => {
+                if (!n.pinned) {
+                    n.fx = null;
+                    n.fy = null;
                 }
-
-                group.select("line.link-base")
-                    .attr("x1", s.x)
-                    .attr("y1", s.y)
-                    .attr("x2", t.x)
-                    .attr("y2", t.y);
-
-                group.select("line.link-activity")
-                    .attr("x1", s.x)
-                    .attr("y1", s.y)
-                    .attr("x2", t.x)
-                    .attr("y2", t.y);
-            });
-
-        // Update Nodes
-        svg.selectAll<SVGGElement, GraphNode>(".node-group")
-            .data(nodes)
-            .attr("transform", d => {
-                if (d.x === undefined || d.y === undefined) return "";
-                return `translate(${d.x},${d.y})`;
             });
 
-        // Since they are fixed, we don't need a running simulation tick listener
-        // We force one update when props change.
-
-    }, [nodes, links, width, height]);
+            // Anchor endpoints left and right so traffic still reads SRC -> DST
+            const anchor = (id: string, x: number) => {
+                const n = store.get(id);
+                if (n && !n.pinned) {
+                    n.fx = x;
+                    n.fy = height / 2;
+                }
+            };
+            const { source, target } = endpointsOf(nodes);
+            anchor(source, width * 0.1);
+            anchor(target, width * 0.9);
+
+            const layoutLinks: LayoutLink[] = links.map(l => ({ source: getId(l.source), target: getId(l.target) }));
+            simulation
+                .nodes(layoutNodes)
+                .force("link", d3.forceLink<LayoutNode, LayoutLink>(layoutLinks).id(d => d.id).distance(70))
+                .force("charge", d3.forceManyBody<LayoutNode>().strength(-220))
+                .force("center", d3.forceCenter(width / 2, height / 2))
+                .force("collide", d3.forceCollide<LayoutNode>(26))
+                .alpha(1)
+                .restart();
+            return;
+        }
 
+        // 3. STATIC LAYOUTS: fix every unpinned node at its computed slot
+        simulation.stop();
+        const targets = layoutMode === 'layered'
+            ? computeLayeredLayout(nodes, links, width, height)
+            : computeCircularLayout(nodes, width, height);
+
+        layoutNodes.forEach(n => {
+            const target = targets.get(n.id);
+            if (n.pinned || !target) return;
+            n.x = n.fx = target.x;
+            n.y = n.fy = target.y;
+        });
+        setLayoutTick(t => t + 1);
+    }, [structure, layoutMode, width, height, relayoutToken]);
+
+    const positionOf = (id: string): LayoutNode | undefined => layoutNodesRef.current.get(id);
+
+    // --- Drag & Pin ---
+
+    const toCanvas = (e: React.MouseEvent) => {
+        const rect = svgRef.current!.getBoundingClientRect();
+        return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent, id: string) => {
+        dragRef.current = { id, moved: false };
+        svgRef.current?.setPointerCapture?.(e.pointerId);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        const n = drag && positionOf(drag.id);
+        if (!drag || !n) return;
+
+        const { x, y } = toCanvas(e);
+        n.x = n.fx = Math.max(0, Math.min(width, x));
+        n.y = n.fy = Math.max(0, Math.min(height, y));
+        if (!drag.moved && layoutMode === 'force') simulationRef.current?.alphaTarget(0.3).restart();
+        drag.moved = true;
+        setLayoutTick(t => t + 1);
+    };
+
+    // Leaving the canvas ends a drag but never counts as a click
+    const handlePointerUp = (click: boolean) => {
+        const drag = dragRef.current;
+        dragRef.current = null;
+        if (!drag) return;
+        if (!drag.moved) {
+            if (click && editor.editing) pickForEdit(drag.id);
+            else if (click) onSelectNode(drag.id);
+            return;
+        }
 
-    // Calculate Packet Positions (Interpolation)
-    const renderedPackets = useMemo(() => {
-        return packets.map(p => {
-            if (!p.currentEdgeId) return null;
-
-            const link = links.find(l => {
-                const s = (l.source as GraphNode).id || (l.source as string);
-                const t = (l.target as GraphNode).id || (l.target as string);
-                return `${s}-${t}` === p.currentEdgeId || `${t}-${s}` === p.currentEdgeId;
-            });
+        const n = positionOf(drag.id);
+        if (n) n.pinned = true;
+        if (layoutMode === 'force') simulationRef.current?.alphaTarget(0);
+    };
 
-            if (!link) return null;
+    const unpin = (id: string) => {
+        const n = positionOf(id);
+        if (!n?.pinned) return;
+        n.pinned = false;
+        setRelayoutToken(t => t + 1);
+    };
 
-            const sNode = nodes.find(n => n.id === (typeof link.source === 'object' ? link.source.id : link.source));
-            const tNode = nodes.find(n => n.id === (typeof link.target === 'object' ? link.target.id : link.target));
+    const releasePins = () => {
+        layoutNodesRef.current.forEach(n => { n.pinned = false; });
+        setRelayoutToken(t => t + 1);
+    };
 
-            if (!sNode?.x || !sNode?.y || !tNode?.x || !tNode?.y) return null;
+    const pinnedCount = [...layoutNodesRef.current.values()].filter(n => n.pinned).length;
 
-            const [hopSourceId] = p.currentEdgeId.split('-');
-            const isReversed = hopSourceId !== sNode.id;
+    // --- Edit Mode ---
 
-            const x1 = isReversed ? tNode.x : sNode.x;
-            const y1 = isReversed ? tNode.y : sNode.y;
-            const x2 = isReversed ? sNode.x : tNode.x;
-            const y2 = isReversed ? sNode.y : tNode.y;
+    const editNode = editor.editing ? nodes.find(n => n.id === editNodeId) : undefined;
 
-            const x = x1 + (x2 - x1) * p.progress;
-            const y = y1 + (y2 - y1) * p.progress;
+    // The first click picks a node; a click on another node links or unlinks the pair
+    const pickForEdit = (id: string) => {
+        if (!editNode || editNode.id === id) {
+            setEditNodeId(editNode?.id === id ? null : id);
+            return;
+        }
+        if (findLink(links, editNode.id, id)) editor.removeLink(editNode.id, id);
+        else editor.addLink(editNode.id, id);
+    };
+
+    // A new router appears pinned where it was placed, linked to the picked node if there is one
+    const placeRouter = (e: React.MouseEvent) => {
+        if (!editor.editing) return;
+        const { x, y } = toCanvas(e);
+        const id = editor.addRouter(editNode ? [editNode.id] : []);
+        layoutNodesRef.current.set(id, { id, x, y, fx: x, fy: y, pinned: true });
+        setEditNodeId(id);
+    };
+
+    const toggleEditing = () => {
+        editor.setEditing(!editor.editing);
+        setEditNodeId(null);
+    };
+
+    const proposal = optimizer.proposal?.proposal;
+    const hardenTargets = new Set(proposal?.harden.map(h => h.nodeId));
+
+    const { editing, undo, redo } = editor;
+    useEffect(() => {
+        if (!editing) return;
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.target instanceof HTMLInputElement) return;
+            if (e.key === 'Escape') setEditNodeId(null);
+            if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+                e.preventDefault();
+                if (e.shiftKey) redo();
+                else undo();
+            }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [editing, undo, redo]);
 
+    // Calculate Packet Positions (Interpolation)
+    const pointAlong = (fromId: string, toId: string, progress: number) => {
+        const from = positionOf(fromId);
+        const to = positionOf(toId);
+        if (from?.x === undefined || from?.y === undefined || to?.x === undefined || to?.y === undefined) return null;
+        return { x: from.x + (to.x - from.x) * progress, y: from.y + (to.y - from.y) * progress };
+    };
+
+    const renderedPackets = packets.map(p => {
+        const point = pointAlong(p.route[p.hopIndex], p.route[p.hopIndex + 1], p.progress);
+        if (!point) return null;
+        const { x, y } = point;
+
+        // ACKs travel back as small diamonds
+        if (p.kind === 'ack') {
             return (
-                <circle
+                <rect
                     key={p.id}
+                    x={x - 2}
+                    y={y - 2}
+                    width={4}
+                    height={4}
+                    transform={`rotate(45 ${x} ${y})`}
+                    fill={COLORS.ROUTING}
+                    className="pointer-events-none"
+                />
+            );
+        }
+
+        return (
+            <g key={p.id} className="pointer-events-none">
+                {p.attempt > 0 && (
+                    <circle cx={x} cy={y} r={6} fill="none" stroke={COLORS.ANALYZING} strokeWidth={1.2} strokeDasharray="2,1.5" />
+                )}
+                <circle
                     cx={x}
                     cy={y}
                     r={3}
-                    fill={p.isEncrypted ? COLORS.HOPPING : COLORS.COMPROMISED}
-                    className="drop-shadow-[0_0_8px_rgba(0,255,157,0.8)] pointer-events-none"
+                    fill={p.tampering !== null ? COLORS.COMPROMISED : p.isEncrypted ? COLORS.HOPPING : COLORS.ANALYZING}
+                    className="drop-shadow-[0_0_8px_rgba(0,255,157,0.8)]"
                 />
-            );
-        });
-    }, [packets, links, nodes]);
+            </g>
+        );
+    });
+
+    const renderedLosses = lostPackets.map(l => {
+        const point = pointAlong(l.from, l.to, l.progress);
+        if (!point) return null;
+        const { x, y } = point;
+
+        return (
+            <g key={l.packetId} transform={`translate(${x},${y})`} className="pointer-events-none">
+                <path d="M-4,-4 L4,4 M-4,4 L4,-4" stroke={l.kind === 'ack' ? COLORS.ROUTING : COLORS.COMPROMISED} strokeWidth={1.5} />
+                <text y={-7} textAnchor="middle" fontSize={7} fill={COLORS.COMPROMISED} className="font-mono">{LOSS_LABELS[l.reason]}</text>
+            </g>
+        );
+    });
+
+    // Intrusion path: where the attacker sits and which neighbours it can reach next
+    const frontier = getAttackFrontier(nodes, links, attacker.footholds);
+    const frontierTargets = new Set(frontier.map(e => e.to));
+
+    // Spectrum strip: where links sit right now versus where the jammers are radiating
+    const spectrumMin = Math.min(...channels, ...jammers.map(j => jammerBand(j)[0]));
+    const spectrumMax = Math.max(...channels, ...jammers.map(j => jammerBand(j)[1]));
+    const spectrumX = (mhz: number) => `${((mhz - spectrumMin) / Math.max(1, spectrumMax - spectrumMin)) * 100}%`;
+    const linksOnChannel = (mhz: number) => links.filter(l => l.frequency === mhz).length;
 
     return (
         <div className="w-full h-full bg-cyber-900 relative overflow-hidden rounded-lg shadow-[inset_0_0_40px_rgba(0,0,0,0.6)]">
@@ -211,14 +341,136 @@ export const GraphVisualizer: React.FC<GraphVisualizerProps> = ({
             {/* HUD Elements */}
             <div className="absolute bottom-4 right-4 text-[10px] font-mono text-gray-600 flex flex-col items-end pointer-events-none select-none">
                 <span>COORDS: {Math.round(width)}x{Math.round(height)}</span>
-                <span>LAYOUT: FIXED_GRID</span>
+                <span>LAYOUT: {LAYOUT_LABELS[layoutMode]}</span>
+                {editor.editing && <span className="text-cyber-warn">EDIT_MODE: {nodes.length} NODES / {links.length} LINKS</span>}
+                {pinnedCount > 0 && <span>PINNED: {pinnedCount}</span>}
+                {attacker.entryPoint !== null && (
+                    <span className="text-cyber-danger">FOOTHOLDS: {attacker.footholds.length} / FRONTIER: {frontierTargets.size}</span>
+                )}
                 <span>GRID: ACTIVE</span>
                 {attackType !== AttackType.NONE && (
                     <span className="text-cyber-danger animate-pulse">THREAT_LEVEL: CRITICAL</span>
                 )}
             </div>
 
-            <svg ref={svgRef} width={width} height={height} className="block relative z-10">
+            {jammers.length > 0 && (
+                <div className="absolute bottom-4 left-4 w-60 text-[10px] font-mono text-gray-500 pointer-events-none select-none">
+                    <div className="flex justify-between mb-1">
+                        <span>SPECTRUM</span>
+                        <span className="text-orange-400">JAMMED_LINKS: {links.filter(l => l.isJammed).length}/{links.length}</span>
+                    </div>
+                    <div className="relative h-8 bg-cyber-800/80 border border-cyber-700 rounded-sm overflow-hidden">
+                        {jammers.map(j => {
+                            const [low, high] = jammerBand(j);
+                            return (
+                                <div
+                                    key={j.id}
+                                    className="absolute inset-y-0 bg-orange-500/30 border-x border-orange-500"
+                                    style={{ left: spectrumX(low), width: `calc(${spectrumX(high)} - ${spectrumX(low)})` }}
+                                />
+                            );
+                        })}
+                        {channels.map(ch => (
+                            <div
+                                key={ch}
+                                className="absolute bottom-0 w-px"
+                                style={{
+                                    left: spectrumX(ch),
+                                    height: `${Math.min(100, 15 + linksOnChannel(ch) * 20)}%`,
+                                    backgroundColor: isJammed(jammers, ch) ? COLORS.JAMMED : COLORS.HOPPING
+                                }}
+                            />
+                        ))}
+                    </div>
+                    <div className="flex justify-between">
+                        <span>{Math.round(spectrumMin)} MHz</span>
+                        <span>{Math.round(spectrumMax)} MHz</span>
+                    </div>
+                </div>
+            )}
+
+            {editNode && (
+                <TopologyEditorPanel
+                    node={editNode}
+                    onRename={editor.renameNode}
+                    onSetType={editor.setNodeType}
+                    onRemove={id => {
+                        editor.removeNode(id);
+                        setEditNodeId(null);
+                    }}
+                    onClose={() => setEditNodeId(null)}
+                />
+            )}
+
+            <ProposalPanel nodes={nodes} optimizer={optimizer} />
+
+            {/* Layout and Edit Controls */}
+            <div className="absolute top-3 right-3 z-20 flex items-center gap-1 text-[10px] font-mono">
+                <button
+                    onClick={optimizer.requestOptimization}
+                    disabled={optimizer.requesting}
+                    className={`px-2 py-1 rounded border transition-colors ${optimizer.proposal
+                        ? 'border-cyber-info text-cyber-info bg-cyber-info/10'
+                        : 'border-cyber-700 text-gray-500 enabled:hover:text-gray-300'} disabled:opacity-40 disabled:animate-pulse`}
+                    title="Ask the AI kernel for links to add or remove and routers to harden"
+                >
+                    {optimizer.requesting ? 'OPTIMIZING...' : 'OPTIMIZE'}
+                </button>
+                <button
+                    onClick={toggleEditing}
+                    className={`px-2 py-1 rounded border transition-colors ${editor.editing
+                        ? 'border-cyber-warn text-cyber-warn bg-cyber-warn/10'
+                        : 'border-cyber-700 text-gray-500 hover:text-gray-300'}`}
+                    title="Add routers, draw and delete links, retype and relabel nodes"
+                >
+                    {editor.editing ? 'EDITING' : 'EDIT'}
+                </button>
+                {editor.editing && [
+                    { label: 'UNDO', run: editor.undo, edit: editor.undoLabel },
+                    { label: 'REDO', run: editor.redo, edit: editor.redoLabel }
+                ].map(({ label, run, edit }) => (
+                    <button
+                        key={label}
+                        onClick={run}
+                        disabled={!edit}
+                        title={edit ? `${label === 'UNDO' ? 'Undo' : 'Redo'}: ${edit}` : undefined}
+                        className="px-2 py-1 rounded border border-cyber-700 text-gray-500 enabled:hover:text-gray-300 disabled:opacity-40"
+                    >
+                        {label}
+                    </button>
+                ))}
+                <span className="w-px h-4 bg-cyber-700 mx-1" />
+                {(Object.keys(LAYOUT_LABELS) as LayoutMode[]).map(mode => (
+                    <button
+                        key={mode}
+                        onClick={() => setLayoutMode(mode)}
+                        className={`px-2 py-1 rounded border transition-colors ${layoutMode === mode
+                            ? 'border-cyber-accent text-cyber-accent bg-cyber-accent/10'
+                            : 'border-cyber-700 text-gray-500 hover:text-gray-300'}`}
+                    >
+                        {LAYOUT_LABELS[mode]}
+                    </button>
+                ))}
+                {pinnedCount > 0 && (
+                    <button
+                        onClick={releasePins}
+                        className="px-2 py-1 rounded border border-cyber-700 text-gray-500 hover:text-cyber-warn"
+                        title="Unpin all dragged nodes"
+                    >
+                        RELEASE_PINS
+                    </button>
+                )}
+            </div>
+
+            <svg
+                ref={svgRef}
+                width={width}
+                height={height}
+                className="block relative z-10 touch-none"
+                onPointerMove={handlePointerMove}
+                onPointerUp={() => handlePointerUp(true)}
+                onPointerLeave={() => handlePointerUp(false)}
+            >
                 <defs>
                     <filter id="glow" x="-50%" y="-50%" width="200%" height="200%">
                         <feGaussianBlur stdDeviation="2.5" result="coloredBlur" />
@@ -229,27 +481,72 @@ export const GraphVisualizer: React.FC<GraphVisualizerProps> = ({
                     </filter>
                 </defs>
 
+                {/* Canvas background: in edit mode a click here places a router */}
+                <rect width={width} height={height} fill="transparent" onClick={placeRouter} className={editor.editing ? 'cursor-crosshair' : undefined} />
+
                 {/* Links Layer */}
                 <g className="links-layer">
                     {links.map((link, i) => {
                         const isActive = link.active;
                         const isCompromised = link.isCompromised;
+                        const isCut = isLinkDown(link, nodes) || [link.source, link.target].some(end => {
+                            const state = nodes.find(n => n.id === getId(end))?.state;
+                            return state === NodeState.LOCKED || state === NodeState.FAILED;
+                        });
+                        const s = positionOf(getId(link.source));
+                        const t = positionOf(getId(link.target));
+                        const coords = { x1: s?.x ?? 0, y1: s?.y ?? 0, x2: t?.x ?? 0, y2: t?.y ?? 0 };
 
                         return (
-                            <g key={i} className="link-group">
+                            <g
+                                key={i}
+                                className={editor.editing ? 'link-group cursor-pointer' : 'link-group'}
+                                onClick={editor.editing ? () => editor.removeLink(getId(link.source), getId(link.target)) : undefined}
+                            >
+                                {/* Wide hit area so a link can be clicked to delete it */}
+                                {editor.editing && (
+                                    <line {...coords} stroke="transparent" strokeWidth={10} className="hover:stroke-red-500/40">
+                                        <title>Delete link {linkId(link)}</title>
+                                    </line>
+                                )}
                                 <line
                                     className="link-base"
-                                    stroke="#1f2937"
+                                    {...coords}
+                                    stroke={isCut ? '#4b5563' : '#1f2937'}
                                     strokeWidth={1}
+                                    strokeDasharray={isCut ? '1,4' : undefined}
                                 />
                                 <line
                                     className="link-activity transition-all duration-300"
+                                    {...coords}
                                     stroke={isCompromised ? COLORS.COMPROMISED : COLORS.HOPPING}
                                     strokeWidth={isActive ? 2 : 0}
                                     strokeOpacity={isActive ? 1 : 0}
                                     filter={isActive ? "url(#glow)" : ""}
                                 />
                                 {/* Attack Visuals on Links */}
+                                {link.isJammed && (
+                                    <line
+                                        {...coords}
+                                        stroke={COLORS.JAMMED}
+                                        strokeWidth={3}
+                                        strokeOpacity={0.7}
+                                        strokeDasharray="2,4"
+                                        className="animate-pulse pointer-events-none"
+                                    />
+                                )}
+                                {exposedLinks.includes(linkId(link)) && (
+                                    <rect
+                                        x={(coords.x1 + coords.x2) / 2 - 3}
+                                        y={(coords.y1 + coords.y2) / 2 - 3}
+                                        width={6}
+                                        height={6}
+                                        fill="none"
+                                        stroke={COLORS.COMPROMISED}
+                                        strokeWidth={1.5}
+                                        className="pointer-events-none"
+                                    />
+                                )}
                                 {isCompromised && attackType === AttackType.SNIFFING && (
                                     <circle r={2} fill={COLORS.COMPROMISED} className="animate-ping">
                                         <animateMotion dur="2s" repeatCount="indefinite">
@@ -262,6 +559,60 @@ export const GraphVisualizer: React.FC<GraphVisualizerProps> = ({
                     })}
                 </g>
 
+                {/* Proposal Diff Layer: links the pending proposal would add and remove */}
+                {proposal && (
+                    <g className="proposal-layer pointer-events-none">
+                        {proposal.addLinks.map(l => {
+                            const s = positionOf(l.source);
+                            const t = positionOf(l.target);
+                            if (s?.x === undefined || s?.y === undefined || t?.x === undefined || t?.y === undefined) return null;
+                            return (
+                                <line
+                                    key={`add-${l.source}~${l.target}`}
+                                    x1={s.x} y1={s.y} x2={t.x} y2={t.y}
+                                    stroke={COLORS.HOPPING}
+                                    strokeWidth={2}
+                                    strokeDasharray="6,3"
+                                    className="animate-pulse"
+                                />
+                            );
+                        })}
+                        {proposal.removeLinks.map(l => {
+                            const s = positionOf(l.source);
+                            const t = positionOf(l.target);
+                            if (s?.x === undefined || s?.y === undefined || t?.x === undefined || t?.y === undefined) return null;
+                            const mx = (s.x + t.x) / 2;
+                            const my = (s.y + t.y) / 2;
+                            return (
+                                <g key={`remove-${l.source}~${l.target}`}>
+                                    <line x1={s.x} y1={s.y} x2={t.x} y2={t.y} stroke={COLORS.ANALYZING} strokeWidth={2} strokeOpacity={0.7} strokeDasharray="2,3" />
+                                    <path d={`M${mx - 4},${my - 4} L${mx + 4},${my + 4} M${mx - 4},${my + 4} L${mx + 4},${my - 4}`} stroke={COLORS.ANALYZING} strokeWidth={2} />
+                                </g>
+                            );
+                        })}
+                    </g>
+                )}
+
+                {/* Attack Frontier Layer */}
+                <g className="frontier-layer pointer-events-none">
+                    {frontier.map(edge => {
+                        const s = positionOf(edge.from);
+                        const t = positionOf(edge.to);
+                        if (s?.x === undefined || s?.y === undefined || t?.x === undefined || t?.y === undefined) return null;
+                        return (
+                            <line
+                                key={`${edge.from}>${edge.to}`}
+                                x1={s.x} y1={s.y} x2={t.x} y2={t.y}
+                                stroke={COLORS.COMPROMISED}
+                                strokeWidth={1.5}
+                                strokeOpacity={0.6}
+                                strokeDasharray="6,4"
+                                className="animate-pulse"
+                            />
+                        );
+                    })}
+                </g>
+
                 {/* Nodes Layer */}
                 <g className="nodes-layer">
                     {nodes.map(node => {
@@ -269,9 +620,16 @@ export const GraphVisualizer: React.FC<GraphVisualizerProps> = ({
                         const isSource = node.type === 'source';
                         const color = COLORS[node.state];
                         const isCompromised = node.state === NodeState.COMPROMISED;
+                        const position = positionOf(node.id);
 
                         return (
-                            <g key={node.id} className="node-group cursor-pointer">
+                            <g
+                                key={node.id}
+                                className="node-group cursor-pointer"
+                                transform={position?.x !== undefined && position?.y !== undefined ? `translate(${position.x},${position.y})` : undefined}
+                                onPointerDown={e => handlePointerDown(e, node.id)}
+                                onDoubleClick={() => unpin(node.id)}
+                            >
                                 {/* Interaction Hit Area */}
                                 <circle r={20} fill="transparent" />
 
@@ -326,11 +684,56 @@ export const GraphVisualizer: React.FC<GraphVisualizerProps> = ({
                                     </text>
                                 </g>
 
+                                {/* Quarantine Frame */}
+                                {node.state === NodeState.LOCKED && (
+                                    <rect x={-17} y={-17} width={34} height={34} fill="none" stroke={COLORS.LOCKED} strokeWidth={1} strokeDasharray="4,2" className="pointer-events-none" />
+                                )}
+
+                                {/* Hardware Fault: crossed out, unlike the red of a compromise */}
+                                {node.state === NodeState.FAILED && (
+                                    <g className="pointer-events-none">
+                                        <path d="M-7,-7 L7,7 M-7,7 L7,-7" stroke={COLORS.FAILED} strokeWidth={2} />
+                                        <circle r={15} fill="none" stroke={COLORS.FAILED} strokeWidth={1} strokeDasharray="2,3" />
+                                        <text y={-19} textAnchor="middle" fill={COLORS.FAILED} fontSize={8} className="font-mono">FAULT</text>
+                                    </g>
+                                )}
+
+                                {/* Hardened, and proposed for hardening */}
+                                {node.hardened && (
+                                    <polygon points={hexagon(14)} fill="none" stroke={COLORS.ROUTING} strokeWidth={1.5} className="pointer-events-none" />
+                                )}
+                                {hardenTargets.has(node.id) && (
+                                    <polygon points={hexagon(17)} fill="none" stroke={COLORS.ROUTING} strokeWidth={1.5} strokeDasharray="3,2" className="pointer-events-none animate-pulse" />
+                                )}
+
+                                {/* Selection Ring */}
+                                {node.id === selectedNodeId && (
+                                    <circle r={20} fill="none" stroke={COLORS.ROUTING} strokeWidth={1.5} strokeDasharray="3,3" className="pointer-events-none animate-spin-slow" />
+                                )}
+
+                                {/* Edit Pick */}
+                                {node.id === editNode?.id && (
+                                    <circle r={18} fill="none" stroke={COLORS.ANALYZING} strokeWidth={1.5} className="pointer-events-none" />
+                                )}
+
+                                {/* Pinned Marker */}
+                                {position?.pinned && (
+                                    <circle cx={12} cy={-12} r={2.5} fill={COLORS.LOCKED} className="pointer-events-none" />
+                                )}
+
                                 {/* Hopping Effect Halo */}
                                 {node.state === NodeState.HOPPING && (
                                     <circle r={22} fill="none" stroke={COLORS.HOPPING} strokeOpacity={0.2} strokeWidth={1} className="animate-ping" />
                                 )}
 
+                                {/* Intrusion Visuals */}
+                                {frontierTargets.has(node.id) && (
+                                    <circle r={16} fill="none" stroke={COLORS.COMPROMISED} strokeWidth={1} strokeDasharray="3,3" className="animate-spin-slow pointer-events-none" />
+                                )}
+                                {attacker.entryPoint === node.id && (
+                                    <text y={-26} textAnchor="middle" fill={COLORS.COMPROMISED} fontSize={8} className="font-mono pointer-events-none">ENTRY</text>
+                                )}
+
                                 {/* Attack Specific Visuals */}
                                 {isCompromised && attackType === AttackType.HIJACKING && (
                                     <text y={-15} textAnchor="middle" fill={COLORS.COMPROMISED} fontSize={10} className="font-mono font-bold">HIJACKED</text>
@@ -343,6 +746,7 @@ export const GraphVisualizer: React.FC<GraphVisualizerProps> = ({
                 {/* Packets Layer */}
                 <g className="packets-layer">
                     {renderedPackets}
+                    {renderedLosses}
                 </g>
             </svg>
         </div>
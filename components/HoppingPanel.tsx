@@ -0,0 +1,107 @@
+import React, { useState, useEffect } from 'react';
+import { Radio } from 'lucide-react';
+import { GraphLink } from '../types';
+import { HoppingConfig, createChannelSet } from '../simulation/hopping';
+import { AttackerState } from '../simulation/attacker';
+
+interface HoppingPanelProps {
+    hopping: HoppingConfig;
+    attacker: AttackerState;
+    links: GraphLink[];
+    onChange: (hopping: Partial<Omit<HoppingConfig, 'key'>>) => void;
+}
+
+export const HoppingPanel: React.FC<HoppingPanelProps> = ({ hopping, attacker, links, onChange }) => {
+    const [channelInput, setChannelInput] = useState(String(hopping.channels.length));
+    const [dwellInput, setDwellInput] = useState(String(hopping.dwellMs));
+
+    useEffect(() => {
+        setChannelInput(String(hopping.channels.length));
+        setDwellInput(String(hopping.dwellMs));
+    }, [hopping.channels.length, hopping.dwellMs]);
+
+    const applyChannels = () => {
+        const count = parseInt(channelInput, 10);
+        if (count > 0 && count !== hopping.channels.length) onChange({ channels: createChannelSet(count) });
+        else setChannelInput(String(hopping.channels.length));
+    };
+
+    const applyDwell = () => {
+        const dwellMs = Number(dwellInput);
+        if (dwellMs >= 100 && dwellMs !== hopping.dwellMs) onChange({ dwellMs });
+        else setDwellInput(String(hopping.dwellMs));
+    };
+
+    // Links per channel in the current slot, so the operator can see what a tuned attacker would hit
+    const occupancy = new Map<number, number>();
+    links.forEach(l => occupancy.set(l.frequency, (occupancy.get(l.frequency) ?? 0) + 1));
+    const busiest = Math.max(1, ...occupancy.values());
+
+    const inputClass = "w-full bg-cyber-900 border border-cyber-700 rounded px-2 py-1 text-white focus:outline-none focus:border-cyber-accent";
+
+    return (
+        <div className="bg-cyber-800 p-4 rounded-lg border border-cyber-700 shadow-md">
+            <h3 className="text-cyber-info font-mono font-bold mb-4 flex items-center gap-2">
+                <Radio size={16} /> HOP_SEQUENCER
+            </h3>
+            <div className="space-y-3 text-xs font-mono">
+                <label className="flex items-center justify-between">
+                    <span className="text-gray-500">PER-LINK HOPPING</span>
+                    <input
+                        type="checkbox"
+                        checked={hopping.enabled}
+                        onChange={e => onChange({ enabled: e.target.checked })}
+                        className="accent-cyber-accent"
+                    />
+                </label>
+
+                <div className="grid grid-cols-2 gap-2">
+                    <label className="block">
+                        <span className="text-gray-500">CHANNELS</span>
+                        <input
+                            type="number"
+                            min={1}
+                            max={64}
+                            value={channelInput}
+                            onChange={e => setChannelInput(e.target.value)}
+                            onBlur={applyChannels}
+                            onKeyDown={e => e.key === 'Enter' && applyChannels()}
+                            className={inputClass}
+                        />
+                    </label>
+                    <label className="block">
+                        <span className="text-gray-500">DWELL (MS)</span>
+                        <input
+                            type="number"
+                            min={100}
+                            step={100}
+                            value={dwellInput}
+                            onChange={e => setDwellInput(e.target.value)}
+                            onBlur={applyDwell}
+                            onKeyDown={e => e.key === 'Enter' && applyDwell()}
+                            className={inputClass}
+                        />
+                    </label>
+                </div>
+
+                <div className="flex items-end gap-px h-8" aria-label="Channel occupancy">
+                    {hopping.channels.map(ch => (
+                        <div
+                            key={ch}
+                            title={`${ch} MHz: ${occupancy.get(ch) ?? 0} link(s)`}
+                            className={`flex-1 ${ch === attacker.tunedFrequency ? 'bg-cyber-danger' : 'bg-cyber-accent/60'}`}
+                            style={{ height: `${Math.max(2, ((occupancy.get(ch) ?? 0) / busiest) * 100)}%` }}
+                        />
+                    ))}
+                </div>
+
+                <div className="text-gray-500 space-y-1">
+                    <p>KEY: <span className="text-cyber-accent">0x{hopping.key.toString(16).toUpperCase().padStart(8, '0')}</span></p>
+                    <p>ATTACKER: <span className={attacker.locked ? 'text-cyber-danger' : 'text-gray-400'}>
+                        {attacker.tunedFrequency === null ? 'IDLE' : `${attacker.tunedFrequency} MHz${attacker.locked ? ' (LOCKED ON)' : ''}`}
+                    </span></p>
+                </div>
+            </div>
+        </div>
+    );
+};
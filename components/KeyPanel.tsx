@@ -0,0 +1,74 @@
+import React, { useState, useEffect } from 'react';
+import { Key } from 'lucide-react';
+import { KeyingConfig, LinkKey, LeakedKey } from '../simulation/keying';
+import { KeyExchangeReport } from '../simulation/keyExchange';
+
+interface KeyPanelProps {
+    keying: KeyingConfig;
+    linkKeys: Record<string, LinkKey>;
+    leakedKeys: LeakedKey[];
+    exposedKeys: LeakedKey[]; // leaked keys still in use
+    report: KeyExchangeReport | null; // null until the first handshake completes
+    onChange: (keying: Partial<KeyingConfig>) => void;
+}
+
+const VISIBLE_LEAKS = 4;
+
+export const KeyPanel: React.FC<KeyPanelProps> = ({ keying, linkKeys, leakedKeys, exposedKeys, report, onChange }) => {
+    const [input, setInput] = useState(String(keying.rekeyEveryHops));
+
+    useEffect(() => setInput(String(keying.rekeyEveryHops)), [keying.rekeyEveryHops]);
+
+    const apply = () => {
+        const value = Math.floor(Number(input));
+        if (Number.isFinite(value) && value >= 0 && value !== keying.rekeyEveryHops) onChange({ rekeyEveryHops: value });
+        else setInput(String(keying.rekeyEveryHops));
+    };
+
+    const activeLinks = Object.keys(linkKeys).filter(id => linkKeys[id].active).length;
+    // The attacker kept every key it took, but only the live ones still decrypt traffic
+    const expired = leakedKeys.length - exposedKeys.length;
+
+    const inputClass = "w-full bg-cyber-900 border border-cyber-700 rounded px-2 py-1 text-white focus:outline-none focus:border-cyber-accent";
+
+    return (
+        <div className="bg-cyber-800 p-4 rounded-lg border border-cyber-700 shadow-md">
+            <h3 className="text-cyber-info font-mono font-bold mb-4 flex items-center gap-2">
+                <Key size={16} /> KEY_MANAGER
+            </h3>
+            <div className="space-y-3 text-xs font-mono">
+                <label className="block">
+                    <span className="text-gray-500">REKEY EVERY N HOPS (0 = NEVER)</span>
+                    <input
+                        type="number"
+                        min={0}
+                        step={1}
+                        value={input}
+                        onChange={e => setInput(e.target.value)}
+                        onBlur={apply}
+                        onKeyDown={e => e.key === 'Enter' && apply()}
+                        className={inputClass}
+                    />
+                </label>
+
+                <div className="text-gray-500 space-y-1">
+                    <p>KEYED LINKS: <span className="text-white">{activeLinks}</span> / ECDH P-256 + HKDF</p>
+                    <p>HANDSHAKES: <span className="text-cyber-accent">{report?.handshakes ?? 0}</span> / REKEYS: <span className="text-white">{report?.rekeys ?? 0}</span>
+                        {(report?.failures ?? 0) > 0 && <span className="text-cyber-danger"> / FAILED: {report!.failures}</span>}</p>
+                    <p>LEAKED: <span className={exposedKeys.length > 0 ? 'text-cyber-danger' : 'text-white'}>{exposedKeys.length} live</span> / {expired} expired</p>
+                </div>
+
+                {exposedKeys.length > 0 && (
+                    <div className="border-t border-cyber-700 pt-2 space-y-1">
+                        {exposedKeys.slice(-VISIBLE_LEAKS).reverse().map(l => (
+                            <p key={`${l.linkId}#${l.epoch}`} className="text-cyber-danger truncate">
+                                {l.linkId}#{l.epoch} via {l.nodeId}
+                                {report?.fingerprints[l.linkId]?.epoch === l.epoch && <span className="text-gray-600"> {report.fingerprints[l.linkId].fingerprint}</span>}
+                            </p>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
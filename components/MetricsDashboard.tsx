@@ -0,0 +1,96 @@
+import React from 'react';
+import { BarChart3 } from 'lucide-react';
+import { COLORS } from '../constants';
+import { NetworkMetrics, MetricsSample } from '../simulation/metrics';
+
+interface MetricsDashboardProps {
+    metrics: NetworkMetrics;
+}
+
+const SPARK_WIDTH = 90;
+const SPARK_HEIGHT = 20;
+
+// Gaps (null samples) break the line instead of dropping to zero
+const Sparkline: React.FC<{ values: (number | null)[]; color: string; max?: number }> = ({ values, color, max }) => {
+    const defined = values.filter((v): v is number => v !== null);
+    const top = max ?? Math.max(1, ...defined);
+    const step = values.length > 1 ? SPARK_WIDTH / (values.length - 1) : 0;
+
+    const segments: string[] = [];
+    let current = '';
+    values.forEach((v, i) => {
+        if (v === null) {
+            if (current) segments.push(current);
+            current = '';
+            return;
+        }
+        const point = `${(i * step).toFixed(1)},${(SPARK_HEIGHT - (v / top) * SPARK_HEIGHT).toFixed(1)}`;
+        current = current ? `${current} ${point}` : point;
+    });
+    if (current) segments.push(current);
+
+    return (
+        <svg width={SPARK_WIDTH} height={SPARK_HEIGHT} className="overflow-visible">
+            {segments.map((points, i) => <polyline key={i} points={points} fill="none" stroke={color} strokeWidth={1.2} />)}
+        </svg>
+    );
+};
+
+const percent = (value: number | null) => value === null ? '--' : `${(value * 100).toFixed(1)}%`;
+const ms = (value: number | null | undefined) => value === null || value === undefined ? '--' : `${Math.round(value)}ms`;
+
+const series = (samples: MetricsSample[], key: keyof Omit<MetricsSample, 'time'>) => samples.map(s => s[key]);
+
+export const MetricsDashboard: React.FC<MetricsDashboardProps> = ({ metrics }) => {
+    const { samples, dropsByCause } = metrics;
+    const rows: { label: string; value: string; spark: React.ReactNode }[] = [
+        {
+            label: 'DELIVERY',
+            value: percent(metrics.deliveryRatio),
+            spark: <Sparkline values={series(samples, 'deliveryRatio')} color={COLORS.HOPPING} max={1} />
+        },
+        {
+            label: 'LATENCY',
+            value: metrics.latencyMs ? `${ms(metrics.latencyMs.mean)} (p95 ${ms(metrics.latencyMs.p95)})` : '--',
+            spark: <Sparkline values={series(samples, 'latencyMs')} color={COLORS.ROUTING} />
+        },
+        {
+            label: 'HOPS',
+            value: metrics.hopCount ? `${metrics.hopCount.mean.toFixed(1)} (max ${metrics.hopCount.max})` : '--',
+            spark: <Sparkline values={series(samples, 'hops')} color={COLORS.ANALYZING} />
+        },
+        {
+            label: 'COMPROMISED',
+            value: percent(metrics.compromisedNodeTimeShare),
+            spark: <Sparkline values={series(samples, 'compromisedShare')} color={COLORS.COMPROMISED} max={1} />
+        },
+        {
+            label: 'DROPPED',
+            value: String(metrics.packetsDropped),
+            spark: <Sparkline values={series(samples, 'drops')} color={COLORS.JAMMED} />
+        }
+    ];
+
+    return (
+        <div className="bg-cyber-800 p-4 rounded-lg border border-cyber-700 shadow-md">
+            <h3 className="text-cyber-info font-mono font-bold mb-3 flex items-center gap-2">
+                <BarChart3 size={16} /> TELEMETRY
+            </h3>
+            <div className="space-y-2 text-[11px] font-mono">
+                {rows.map(row => (
+                    <div key={row.label} className="flex items-center justify-between gap-2">
+                        <span className="text-gray-500 w-24">{row.label}</span>
+                        <span className="text-white flex-1 truncate">{row.value}</span>
+                        {row.spark}
+                    </div>
+                ))}
+                <div className="border-t border-cyber-700 pt-2 text-gray-500 space-y-1">
+                    <p>DROPS: {Object.entries(dropsByCause).map(([cause, count]) => `${cause.toUpperCase()} ${count}`).join(' / ')}</p>
+                    <p>ACKED: {metrics.segmentsAcked} / RESENT: {metrics.retransmissions} / GAVE UP: <span className={metrics.segmentsLost > 0 ? 'text-cyber-danger' : ''}>{metrics.segmentsLost}</span></p>
+                    <p>TIME TO RECOVERY: <span className="text-cyber-accent">{ms(metrics.meanTimeToRecoveryMs)}</span>
+                        {' '}({metrics.attacks.filter(a => a.recoveredAt !== null).length}/{metrics.attacks.length} attacks recovered)</p>
+                </div>
+            </div>
+        </div>
+    );
+};
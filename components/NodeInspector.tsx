@@ -0,0 +1,159 @@
+import React from 'react';
+import { ScanSearch, X, Skull, ShieldCheck, Lock, Unlock, Unplug, Cable, Trash2, Power, Wrench, Scissors } from 'lucide-react';
+import { NodeState } from '../types';
+import { COLORS } from '../constants';
+import { NodeInspection } from '../simulation/inspector';
+import { describeRelease } from '../simulation/quarantine';
+
+interface NodeInspectorProps {
+    inspection: NodeInspection;
+    onClose: () => void;
+    onCompromise: (nodeId: string) => void;
+    onRestore: (nodeId: string) => void;
+    onLock: (nodeId: string) => void;
+    onUnlock: (nodeId: string) => void;
+    onIsolate: (nodeId: string) => void;
+    onReconnect: (nodeId: string) => void;
+    onRemove: (nodeId: string) => void;
+    onKill: (nodeId: string) => void;
+    onRepair: (nodeId: string) => void;
+    onCutLink: (source: string, target: string) => void;
+    onRestoreLink: (source: string, target: string) => void;
+}
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+const STATES = Object.keys(NodeState) as NodeState[];
+
+export const NodeInspector: React.FC<NodeInspectorProps> = ({
+    inspection, onClose, onCompromise, onRestore, onLock, onUnlock, onIsolate, onReconnect, onRemove, onKill, onRepair, onCutLink, onRestoreLink
+}) => {
+    const { node, links, packetsProcessed, compromises, timeInStates, history, quarantine, fault, isolated } = inspection;
+    const isEndpoint = node.type !== 'router';
+    const isCompromised = node.state === NodeState.COMPROMISED;
+    const isLocked = node.state === NodeState.LOCKED;
+    const isFailed = node.state === NodeState.FAILED;
+    const total = STATES.reduce((sum, s) => sum + timeInStates[s], 0);
+
+    const buttonClass = "p-2 rounded border bg-cyber-700 border-cyber-600 text-gray-300 transition-all flex items-center justify-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed";
+
+    return (
+        <div className="bg-cyber-800 p-4 rounded-lg border border-cyber-700 shadow-md">
+            <h3 className="text-cyber-info font-mono font-bold mb-4 flex items-center gap-2">
+                <ScanSearch size={16} /> INSPECTOR
+                <span className="text-white">{node.label}</span>
+                <button onClick={onClose} className="ml-auto text-gray-500 hover:text-white" title="Close">
+                    <X size={14} />
+                </button>
+            </h3>
+            <div className="space-y-3 text-xs font-mono">
+                <div className="grid grid-cols-3 gap-2">
+                    <div>
+                        <div className="text-gray-500">STATE</div>
+                        <div className="font-bold" style={{ color: COLORS[node.state] }}>{node.state}</div>
+                        {node.hardened && <div className="text-cyber-info">HARDENED</div>}
+                    </div>
+                    <div>
+                        <div className="text-gray-500">PROCESSED</div>
+                        <div className="text-white font-bold">{packetsProcessed}</div>
+                    </div>
+                    <div>
+                        <div className="text-gray-500">COMPROMISED</div>
+                        <div className={compromises > 0 ? 'text-cyber-danger font-bold' : 'text-white font-bold'}>{compromises}x</div>
+                    </div>
+                </div>
+                {quarantine && <p className="text-gray-400">Locked by {quarantine.by} at {seconds(quarantine.lockedAt)}, {describeRelease(quarantine.release)}.</p>}
+                {fault && <p className="text-gray-400">Down since {seconds(fault.since)} ({fault.cause}), {fault.repairAt !== null ? `repair due at ${seconds(fault.repairAt)}` : 'until repaired'}.</p>}
+
+                {/* Time in each state */}
+                {total > 0 && (
+                    <div className="space-y-1">
+                        <div className="flex h-2 rounded overflow-hidden bg-cyber-900">
+                            {STATES.map(s => timeInStates[s] > 0 && (
+                                <div key={s} style={{ width: `${(timeInStates[s] / total) * 100}%`, backgroundColor: COLORS[s] }} title={`${s} ${seconds(timeInStates[s])}`} />
+                            ))}
+                        </div>
+                        <div className="grid grid-cols-3 gap-x-2 text-gray-500">
+                            {STATES.filter(s => timeInStates[s] > 0).map(s => (
+                                <span key={s}><span style={{ color: COLORS[s] }}>■</span> {s.slice(0, 4)} {seconds(timeInStates[s])}</span>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {/* Neighbours and the channel each link is on */}
+                <ul className="border-t border-cyber-700 pt-2 space-y-0.5">
+                    {links.map(l => (
+                        <li key={l.id} className="flex items-center gap-2">
+                            <span style={{ color: COLORS[l.peer.state] }}>{l.peer.label}</span>
+                            <span className={`ml-auto ${l.isDown ? 'text-gray-600 line-through' : l.isJammed ? 'text-orange-500' : l.isCompromised ? 'text-cyber-danger' : 'text-gray-300'}`}>
+                                {l.frequency} MHz{l.isDown ? ' DOWN' : l.isJammed ? ' JAM' : l.isCompromised ? ' TAP' : ''}
+                            </span>
+                            {l.isFailed ? (
+                                <button onClick={() => onRestoreLink(node.id, l.peer.id)} className="text-gray-500 hover:text-cyber-accent" title="Restore link">
+                                    <Cable size={12} />
+                                </button>
+                            ) : (
+                                <button onClick={() => onCutLink(node.id, l.peer.id)} className="text-gray-500 hover:text-purple-400" title="Cut link">
+                                    <Scissors size={12} />
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+
+                {history.length > 0 && (
+                    <ul className="border-t border-cyber-700 pt-2 space-y-0.5 max-h-24 overflow-y-auto">
+                        {history.map((h, i) => (
+                            <li key={i} className="text-gray-500">
+                                {seconds(h.time)} {h.from} -&gt; <span style={{ color: COLORS[h.to] }}>{h.to}</span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {/* Operator actions */}
+                <div className="grid grid-cols-2 gap-2 border-t border-cyber-700 pt-3">
+                    {isCompromised ? (
+                        <button onClick={() => onRestore(node.id)} className={`${buttonClass} hover:border-cyber-accent hover:text-cyber-accent`}>
+                            <ShieldCheck size={14} /> RESTORE
+                        </button>
+                    ) : (
+                        <button onClick={() => onCompromise(node.id)} disabled={isEndpoint || isLocked || isFailed} className={`${buttonClass} enabled:hover:border-cyber-danger enabled:hover:text-cyber-danger`}>
+                            <Skull size={14} /> COMPROMISE
+                        </button>
+                    )}
+                    {isLocked ? (
+                        <button onClick={() => onUnlock(node.id)} className={`${buttonClass} hover:border-white hover:text-white`}>
+                            <Unlock size={14} /> UNLOCK
+                        </button>
+                    ) : (
+                        <button onClick={() => onLock(node.id)} disabled={isEndpoint || isFailed} className={`${buttonClass} enabled:hover:border-white enabled:hover:text-white`}>
+                            <Lock size={14} /> LOCK
+                        </button>
+                    )}
+                    {isolated ? (
+                        <button onClick={() => onReconnect(node.id)} className={`${buttonClass} hover:border-cyber-accent hover:text-cyber-accent`}>
+                            <Cable size={14} /> RECONNECT
+                        </button>
+                    ) : (
+                        <button onClick={() => onIsolate(node.id)} disabled={links.length === 0} className={`${buttonClass} enabled:hover:border-cyber-warn enabled:hover:text-cyber-warn`}>
+                            <Unplug size={14} /> ISOLATE
+                        </button>
+                    )}
+                    {isFailed ? (
+                        <button onClick={() => onRepair(node.id)} className={`${buttonClass} hover:border-cyber-accent hover:text-cyber-accent`}>
+                            <Wrench size={14} /> REPAIR
+                        </button>
+                    ) : (
+                        <button onClick={() => onKill(node.id)} disabled={isEndpoint || isLocked} className={`${buttonClass} enabled:hover:border-purple-500 enabled:hover:text-purple-400`}>
+                            <Power size={14} /> KILL
+                        </button>
+                    )}
+                    <button onClick={() => onRemove(node.id)} disabled={isEndpoint} className={`${buttonClass} col-span-2 enabled:hover:border-cyber-danger enabled:hover:text-cyber-danger`}>
+                        <Trash2 size={14} /> REMOVE
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
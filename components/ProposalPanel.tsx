@@ -0,0 +1,72 @@
+import React from 'react';
+import { Sparkles, Check, X } from 'lucide-react';
+import { GraphNode } from '../types';
+import { AI_PROVIDER_LABELS } from '../services/aiProviders';
+import { TopologyOptimizer } from '../simulation/useTopologyOptimizer';
+import { isEmptyProposal } from '../simulation/optimization';
+
+interface ProposalPanelProps {
+    nodes: GraphNode[];
+    optimizer: TopologyOptimizer;
+}
+
+// Floating review of the AI kernel's topology proposal, drawn as a diff on the canvas behind it
+export const ProposalPanel: React.FC<ProposalPanelProps> = ({ nodes, optimizer }) => {
+    if (!optimizer.proposal) return null;
+    const { proposal, issues, provider } = optimizer.proposal;
+    const labelOf = (id: string) => nodes.find(n => n.id === id)?.label ?? id;
+
+    const rows = [
+        ...proposal.addLinks.map(l => ({ key: `+${l.source}~${l.target}`, mark: '+', color: 'text-cyber-accent', what: `${labelOf(l.source)} - ${labelOf(l.target)}`, reason: l.reason })),
+        ...proposal.removeLinks.map(l => ({ key: `-${l.source}~${l.target}`, mark: '-', color: 'text-cyber-warn', what: `${labelOf(l.source)} - ${labelOf(l.target)}`, reason: l.reason })),
+        ...proposal.harden.map(h => ({ key: `#${h.nodeId}`, mark: '#', color: 'text-cyber-info', what: `harden ${labelOf(h.nodeId)}`, reason: h.reason }))
+    ];
+
+    return (
+        <div
+            className="absolute top-12 right-3 z-20 w-64 bg-cyber-800/95 border border-cyber-700 rounded p-3 text-[10px] font-mono space-y-2 shadow-md"
+            onPointerDown={e => e.stopPropagation()}
+        >
+            <div className="flex items-center gap-2 text-cyber-info font-bold">
+                <Sparkles size={12} /> PROPOSAL
+                <span className="ml-auto text-gray-500 font-normal">{AI_PROVIDER_LABELS[provider]}</span>
+            </div>
+            {proposal.rationale && <p className="text-gray-300">{proposal.rationale}</p>}
+            {rows.length > 0 ? (
+                <ul className="space-y-1">
+                    {rows.map(row => (
+                        <li key={row.key} className="flex gap-2">
+                            <span className={`${row.color} font-bold`}>{row.mark}</span>
+                            <span>
+                                <span className="text-white">{row.what}</span>
+                                {row.reason && <span className="block text-gray-500">{row.reason}</span>}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <p className="text-gray-500">Nothing in this proposal applies to the current network.</p>
+            )}
+            {issues.length > 0 && (
+                <ul className="text-cyber-warn space-y-0.5 max-h-20 overflow-y-auto">
+                    {issues.map(issue => <li key={issue}>! {issue}</li>)}
+                </ul>
+            )}
+            <div className="grid grid-cols-2 gap-2">
+                <button
+                    onClick={optimizer.applyProposal}
+                    disabled={isEmptyProposal(proposal)}
+                    className="py-1 rounded border border-cyber-accent text-cyber-accent flex items-center justify-center gap-1 enabled:hover:bg-cyber-accent/10 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                    <Check size={12} /> APPLY
+                </button>
+                <button
+                    onClick={optimizer.rejectProposal}
+                    className="py-1 rounded border border-cyber-700 text-gray-400 flex items-center justify-center gap-1 hover:border-cyber-danger hover:text-cyber-danger"
+                >
+                    <X size={12} /> REJECT
+                </button>
+            </div>
+        </div>
+    );
+};
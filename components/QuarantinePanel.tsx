@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Lock, Unlock } from 'lucide-react';
+import { GraphNode } from '../types';
+import { Quarantine, QuarantineRelease, ConnectivityCost, canQuarantine, describeRelease } from '../simulation/quarantine';
+
+interface QuarantinePanelProps {
+    nodes: GraphNode[];
+    quarantines: Quarantine[];
+    connectivity: ConnectivityCost;
+    onLock: (nodeId: string, release: QuarantineRelease) => void;
+    onUnlock: (nodeId: string) => void;
+}
+
+type ReleaseMode = QuarantineRelease['kind'];
+
+const RELEASE_LABELS: Record<ReleaseMode, string> = {
+    'manual': 'MANUAL',
+    'timed': 'TIMED',
+    'neighbours-clean': 'WHEN CLEAN'
+};
+
+export const QuarantinePanel: React.FC<QuarantinePanelProps> = ({ nodes, quarantines, connectivity, onLock, onUnlock }) => {
+    const [selected, setSelected] = useState('');
+    const [mode, setMode] = useState<ReleaseMode>('manual');
+    const [seconds, setSeconds] = useState(10);
+
+    const lockable = nodes.filter(canQuarantine);
+    const target = lockable.some(n => n.id === selected) ? selected : lockable[0]?.id ?? '';
+
+    const lock = () => {
+        if (!target) return;
+        const release: QuarantineRelease = mode === 'timed'
+            ? { kind: 'timed', durationMs: seconds * 1000 }
+            : mode === 'neighbours-clean'
+                ? { kind: 'neighbours-clean', minimumMs: seconds * 1000 }
+                : { kind: 'manual' };
+        onLock(target, release);
+    };
+
+    const { linksCut, reachableRouters, totalRouters, routeHops, baselineHops } = connectivity;
+    const inputClass = "w-full bg-cyber-900 border border-cyber-700 rounded px-2 py-1 text-white focus:outline-none focus:border-cyber-accent";
+
+    return (
+        <div className="bg-cyber-800 p-4 rounded-lg border border-cyber-700 shadow-md">
+            <h3 className="text-cyber-info font-mono font-bold mb-4 flex items-center gap-2">
+                <Lock size={16} /> QUARANTINE
+            </h3>
+            <div className="space-y-3 text-xs font-mono">
+                <div className="grid grid-cols-2 gap-2">
+                    <select value={target} onChange={e => setSelected(e.target.value)} className={inputClass} aria-label="Node to quarantine">
+                        {lockable.map(n => <option key={n.id} value={n.id}>{n.label} ({n.state})</option>)}
+                    </select>
+                    <select value={mode} onChange={e => setMode(e.target.value as ReleaseMode)} className={inputClass} aria-label="Release policy">
+                        {(Object.keys(RELEASE_LABELS) as ReleaseMode[]).map(m => <option key={m} value={m}>{RELEASE_LABELS[m]}</option>)}
+                    </select>
+                </div>
+                {mode !== 'manual' && (
+                    <label className="block">
+                        <span className="text-gray-500">{mode === 'timed' ? 'RELEASE AFTER (S)' : 'HOLD AT LEAST (S)'}</span>
+                        <input
+                            type="number"
+                            min={1}
+                            value={seconds}
+                            onChange={e => setSeconds(Math.max(1, Number(e.target.value) || 1))}
+                            className={inputClass}
+                        />
+                    </label>
+                )}
+                <button
+                    onClick={lock}
+                    disabled={!target}
+                    className="w-full p-2 rounded border bg-cyber-700 border-cyber-600 hover:border-white text-gray-300 hover:text-white transition-all flex items-center justify-center gap-2 disabled:opacity-40"
+                >
+                    <Lock size={14} />
+                    <span className="font-bold">LOCK NODE</span>
+                </button>
+
+                {quarantines.length > 0 && (
+                    <ul className="space-y-1">
+                        {quarantines.map(q => (
+                            <li key={q.nodeId} className="flex items-center justify-between gap-2 text-gray-400">
+                                <span>
+                                    <span className="text-white">{nodes.find(n => n.id === q.nodeId)?.label ?? q.nodeId}</span>
+                                    {' '}[{q.by.toUpperCase()}] {describeRelease(q.release)}
+                                </span>
+                                <button onClick={() => onUnlock(q.nodeId)} className="text-gray-500 hover:text-cyber-accent" title="Release now">
+                                    <Unlock size={12} />
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                <div className="border-t border-cyber-700 pt-3 text-gray-500 space-y-1">
+                    <p>LINKS CUT: <span className={linksCut > 0 ? 'text-cyber-warn' : 'text-cyber-accent'}>{linksCut}</span></p>
+                    <p>REACHABLE ROUTERS: <span className="text-cyber-accent">{reachableRouters}/{totalRouters}</span></p>
+                    <p>SRC-&gt;DST HOPS: <span className={routeHops === null ? 'text-cyber-danger' : routeHops > (baselineHops ?? 0) ? 'text-cyber-warn' : 'text-cyber-accent'}>
+                        {routeHops === null ? 'PARTITIONED' : routeHops}
+                    </span>{baselineHops !== null && routeHops !== baselineHops && <span> (baseline {baselineHops})</span>}</p>
+                </div>
+            </div>
+        </div>
+    );
+};
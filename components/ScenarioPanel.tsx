@@ -0,0 +1,107 @@
+import React, { useState, useRef } from 'react';
+import { ClipboardList, Play, Upload, Download } from 'lucide-react';
+import { Scenario, ScenarioReport, ScenarioError, parseScenario, exportScenario, describeStep, describeAssertion } from '../simulation/scenario';
+import { downloadText } from './download';
+
+interface ScenarioPanelProps {
+    library: Scenario[];
+    scenario: Scenario | null; // the one playing
+    report: ScenarioReport | null; // null until its duration has elapsed
+    time: number; // simulated ms since the scenario started
+    pending: number; // scripted events not applied yet
+    onLoad: (scenario: Scenario) => void;
+}
+
+export const ScenarioPanel: React.FC<ScenarioPanelProps> = ({ library, scenario, report, time, pending, onLoad }) => {
+    const [selectedId, setSelectedId] = useState(library[0]?.id ?? '');
+    const [importIssues, setImportIssues] = useState<string[]>([]);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            onLoad(parseScenario(await file.text()));
+            setImportIssues([]);
+        } catch (error) {
+            setImportIssues(error instanceof ScenarioError ? error.issues : [(error as Error).message]);
+        }
+    };
+
+    const selected = library.find(s => s.id === selectedId);
+    const elapsed = Math.min(time / 1000, scenario?.durationSeconds ?? 0);
+
+    const buttonClass = "p-2 rounded border bg-cyber-700 border-cyber-600 text-gray-300 transition-all flex items-center justify-center gap-2";
+    const inputClass = "w-full bg-cyber-900 border border-cyber-700 rounded px-2 py-1 text-white focus:outline-none focus:border-cyber-accent";
+
+    return (
+        <div className="bg-cyber-800 p-4 rounded-lg border border-cyber-700 shadow-md">
+            <h3 className="text-cyber-info font-mono font-bold mb-4 flex items-center gap-2">
+                <ClipboardList size={16} /> SCENARIO
+            </h3>
+            <div className="space-y-3 text-xs font-mono">
+                <select value={selectedId} onChange={e => setSelectedId(e.target.value)} className={inputClass}>
+                    {library.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+                <div className="grid grid-cols-2 gap-2">
+                    <button
+                        onClick={() => selected && onLoad(selected)}
+                        disabled={!selected}
+                        className={`${buttonClass} hover:border-cyber-accent hover:text-cyber-accent`}
+                    >
+                        <Play size={14} />
+                        <span className="font-bold">PLAY</span>
+                    </button>
+                    <button onClick={() => fileInputRef.current?.click()} className={`${buttonClass} hover:border-cyber-info hover:text-cyber-info`}>
+                        <Upload size={14} />
+                        <span className="font-bold">LOAD JSON</span>
+                    </button>
+                </div>
+                <input ref={fileInputRef} type="file" accept=".json" onChange={handleImport} className="hidden" />
+                {importIssues.length > 0 && (
+                    <ul className="text-cyber-danger space-y-1" role="alert">
+                        {importIssues.map((issue, i) => <li key={i}>! {issue}</li>)}
+                    </ul>
+                )}
+
+                {scenario && (
+                    <div className="border-t border-cyber-700 pt-2 space-y-2">
+                        <div className="flex items-center justify-between">
+                            <span className="text-white font-bold truncate" title={scenario.description}>{scenario.name}</span>
+                            <button
+                                onClick={() => downloadText(`${scenario.id}.json`, exportScenario(scenario), 'application/json')}
+                                className="text-gray-500 hover:text-cyber-accent"
+                                title="Export as JSON"
+                            >
+                                <Download size={12} />
+                            </button>
+                        </div>
+                        <p className="text-gray-500">T+{elapsed.toFixed(1)}s / {scenario.durationSeconds}s{pending > 0 && ` / ${pending} event(s) queued`}</p>
+                        <ul className="space-y-0.5">
+                            {scenario.timeline.map((step, i) => (
+                                <li key={i} className={step.at * 1000 <= time ? 'text-gray-600' : 'text-gray-300'}>
+                                    {step.at}s {describeStep(step)}
+                                </li>
+                            ))}
+                        </ul>
+                        {scenario.assertions.length > 0 && (
+                            <ul className="border-t border-cyber-700 pt-2 space-y-0.5">
+                                {scenario.assertions.map((assertion, i) => {
+                                    const result = report?.results[i];
+                                    return (
+                                        <li key={i} className={!result ? 'text-gray-500' : result.passed ? 'text-cyber-accent' : 'text-cyber-danger'}>
+                                            {!result ? '[ .. ]' : result.passed ? '[PASS]' : '[FAIL]'} {describeAssertion(assertion)}
+                                            {result && <span className="text-gray-600"> ({result.actual === null ? 'n/a' : +result.actual.toFixed(3)})</span>}
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,120 @@
+import React from 'react';
+import { Cpu } from 'lucide-react';
+import { GraphNode, NodeState } from '../types';
+import { COLORS } from '../constants';
+import { NODE_MACHINE, NodeTransition } from '../simulation/nodeMachine';
+
+interface StateMachineDiagramProps {
+    nodes: GraphNode[];
+}
+
+const WIDTH = 320;
+const HEIGHT = 250;
+const RADIUS = 24;
+const CURVE = 16; // sideways bend so A->B and B->A do not overlap
+
+// Hand-placed so the traffic cycle reads left to right and the threat states sit below it
+const POSITIONS: Record<NodeState, { x: number; y: number }> = {
+    [NodeState.IDLE]: { x: 50, y: 110 },
+    [NodeState.ANALYZING]: { x: 160, y: 35 },
+    [NodeState.ROUTING]: { x: 275, y: 80 },
+    [NodeState.HOPPING]: { x: 160, y: 135 },
+    [NodeState.COMPROMISED]: { x: 275, y: 205 },
+    [NodeState.LOCKED]: { x: 70, y: 215 },
+    [NodeState.FAILED]: { x: 172, y: 220 }
+};
+
+interface Edge {
+    from: NodeState;
+    to: NodeState;
+    labels: string[];
+}
+
+const transitionLabel = (t: NodeTransition) => t.guard ? `${t.event} [${t.guard}]` : t.event;
+
+// One edge per (from, to) pair, carrying every event that drives it
+const EDGES: Edge[] = (() => {
+    const byPair = new Map<string, Edge>();
+    NODE_MACHINE.transitions.forEach(t => t.from.forEach(from => {
+        const key = `${from}>${t.to}`;
+        if (!byPair.has(key)) byPair.set(key, { from, to: t.to, labels: [] });
+        byPair.get(key)!.labels.push(transitionLabel(t));
+    }));
+    return [...byPair.values()];
+})();
+
+const edgeGeometry = ({ from, to }: Edge) => {
+    const a = POSITIONS[from];
+    const b = POSITIONS[to];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const length = Math.hypot(dx, dy) || 1;
+    const ux = dx / length;
+    const uy = dy / length;
+    // Perpendicular offset for the control point
+    const cx = (a.x + b.x) / 2 - uy * CURVE;
+    const cy = (a.y + b.y) / 2 + ux * CURVE;
+    const start = { x: a.x + ux * RADIUS, y: a.y + uy * RADIUS };
+    const end = { x: b.x - ux * (RADIUS + 4), y: b.y - uy * (RADIUS + 4) };
+    return {
+        path: `M${start.x},${start.y} Q${cx},${cy} ${end.x},${end.y}`,
+        label: { x: (start.x + 2 * cx + end.x) / 4, y: (start.y + 2 * cy + end.y) / 4 }
+    };
+};
+
+/**
+ * Renders NODE_MACHINE itself, so the diagram cannot drift from the engine.
+ */
+export const StateMachineDiagram: React.FC<StateMachineDiagramProps> = ({ nodes }) => {
+    const counts = new Map<NodeState, number>();
+    nodes.forEach(n => counts.set(n.state, (counts.get(n.state) ?? 0) + 1));
+
+    return (
+        <div className="bg-cyber-800 p-4 rounded-lg border border-cyber-700 shadow-md">
+            <h3 className="text-cyber-info font-mono font-bold mb-2 flex items-center gap-2">
+                <Cpu size={16} /> NODE_FSM
+            </h3>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full font-mono" role="img" aria-label="Node state transition diagram">
+                <defs>
+                    <marker id="fsm-arrow" viewBox="0 0 6 6" refX={5} refY={3} markerWidth={6} markerHeight={6} orient="auto">
+                        <path d="M0,0 L6,3 L0,6 z" fill="#6b7280" />
+                    </marker>
+                </defs>
+
+                {EDGES.map(edge => {
+                    const { path, label } = edgeGeometry(edge);
+                    return (
+                        <g key={`${edge.from}>${edge.to}`}>
+                            <path d={path} fill="none" stroke="#374151" strokeWidth={1} markerEnd="url(#fsm-arrow)" />
+                            <text x={label.x} y={label.y} textAnchor="middle" fontSize={5.5} fill="#9ca3af">
+                                {edge.labels.map((l, i) => <tspan key={l} x={label.x} dy={i === 0 ? 0 : 6.5}>{l}</tspan>)}
+                            </text>
+                        </g>
+                    );
+                })}
+
+                {(Object.keys(POSITIONS) as NodeState[]).map(state => {
+                    const { x, y } = POSITIONS[state];
+                    const def = NODE_MACHINE.states[state];
+                    const count = counts.get(state) ?? 0;
+                    return (
+                        <g key={state} transform={`translate(${x},${y})`}>
+                            <circle
+                                r={RADIUS}
+                                fill="#0a0a0a"
+                                stroke={COLORS[state]}
+                                strokeWidth={count > 0 ? 2 : 1}
+                                strokeDasharray={state === NODE_MACHINE.initial ? '3,2' : undefined}
+                            />
+                            <text textAnchor="middle" y={-3} fontSize={7} fill={COLORS[state]} className="font-bold">{state}</text>
+                            <text textAnchor="middle" y={6} fontSize={6} fill="#d1d5db">{count} node{count === 1 ? '' : 's'}</text>
+                            {def.after !== undefined && (
+                                <text textAnchor="middle" y={14} fontSize={5} fill="#6b7280">after {def.after}ms</text>
+                            )}
+                        </g>
+                    );
+                })}
+            </svg>
+        </div>
+    );
+};
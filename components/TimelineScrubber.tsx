@@ -0,0 +1,142 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { History, Rewind, StepBack, StepForward, FastForward, Radio, Download, Upload } from 'lucide-react';
+import { NodeState } from '../types';
+import { SIMULATION_TICK_MS } from '../constants';
+import { Recording, RecordedMark, RecordingError, describeMark, exportRecording, parseRecording } from '../simulation/recording';
+import { downloadText } from './download';
+
+interface TimelineScrubberProps {
+    recording: Recording;
+    time: number; // simulated ms in the engine
+    replaying: boolean;
+    paused: boolean;
+    onSeek: (time: number) => void;
+    onStepBack: () => void;
+    onStepForward: () => void;
+    onLoad: (recording: Recording) => void;
+}
+
+// Simulated ms skipped by the rewind and fast-forward buttons
+const SKIP_MS = 5000;
+// Marks closer than this (% of the track) share one tick
+const BIN_PERCENT = 0.5;
+
+// Only what is worth finding again; routine hops, routing and deliveries stay in the file
+const markColor = (mark: RecordedMark): string | null => {
+    switch (mark.kind) {
+        case 'node': return mark.to === NodeState.COMPROMISED ? 'bg-cyber-danger' : mark.to === NodeState.LOCKED ? 'bg-white' : mark.to === NodeState.FAILED ? 'bg-purple-500' : null;
+        case 'link': return mark.change === 'failed' ? 'bg-orange-500' : mark.change === 'compromised' ? 'bg-cyber-danger' : null;
+        case 'packet': return mark.outcome === 'lost' ? 'bg-cyber-warn' : null;
+        case 'log': return mark.level === 'error' ? 'bg-cyber-danger' : mark.level === 'warning' ? 'bg-cyber-warn' : null;
+        default: return null;
+    }
+};
+
+export const TimelineScrubber: React.FC<TimelineScrubberProps> = ({ recording, time, replaying, paused, onSeek, onStepBack, onStepForward, onLoad }) => {
+    const [importIssues, setImportIssues] = useState<string[]>([]);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const { duration } = recording;
+    // The recording is republished periodically; live, the run is always at its end
+    const end = replaying ? duration : Math.max(duration, time);
+
+    const ticks = useMemo(() => {
+        const bins = new Map<string, { left: number; color: string; marks: RecordedMark[] }>();
+        if (duration <= 0) return [];
+        recording.marks.forEach(mark => {
+            const color = markColor(mark);
+            if (!color) return;
+            const left = Math.round((mark.time / duration) * 100 / BIN_PERCENT) * BIN_PERCENT;
+            const key = `${left}:${color}`;
+            const bin = bins.get(key) ?? { left, color, marks: [] };
+            bin.marks.push(mark);
+            bins.set(key, bin);
+        });
+        return [...bins.values()];
+    }, [recording, duration]);
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            onLoad(parseRecording(await file.text()));
+            setImportIssues([]);
+        } catch (error) {
+            setImportIssues(error instanceof RecordingError ? error.issues : [(error as Error).message]);
+        }
+    };
+
+    const buttonClass = "p-1 rounded border border-cyber-700 text-gray-400 transition-colors disabled:opacity-30 disabled:cursor-not-allowed enabled:hover:border-cyber-info enabled:hover:text-cyber-info";
+    const seconds = (ms: number) => (ms / 1000).toFixed(2);
+
+    return (
+        <div className="bg-cyber-800 p-3 rounded-lg border border-cyber-700 shadow-md text-xs font-mono space-y-2">
+            <div className="flex items-center gap-2">
+                <History size={16} className="text-cyber-info" />
+                <span className="text-cyber-info font-bold">TIMELINE</span>
+                <span className={`px-1.5 rounded border ${replaying ? 'border-cyber-warn text-cyber-warn' : 'border-cyber-danger text-cyber-danger'}`}>
+                    {replaying ? 'REPLAY' : 'REC'}
+                </span>
+                <span className="text-gray-400">T+{seconds(time)}s / {seconds(end)}s</span>
+                <span className="text-gray-600">{recording.events.length} event(s)</span>
+
+                <div className="ml-auto flex items-center gap-1">
+                    <button onClick={() => onSeek(time - SKIP_MS)} disabled={time <= 0} className={buttonClass} title="Back 5s">
+                        <Rewind size={14} />
+                    </button>
+                    <button onClick={onStepBack} disabled={time <= 0} className={buttonClass} title="Step back one tick">
+                        <StepBack size={14} />
+                    </button>
+                    <button onClick={onStepForward} disabled={!paused} className={buttonClass} title="Step forward one tick">
+                        <StepForward size={14} />
+                    </button>
+                    <button onClick={() => onSeek(time + SKIP_MS)} disabled={!replaying} className={buttonClass} title="Forward 5s">
+                        <FastForward size={14} />
+                    </button>
+                    <button onClick={() => onSeek(duration)} disabled={!replaying} className={buttonClass} title="Jump to the end and record live">
+                        <Radio size={14} />
+                    </button>
+                    <button
+                        onClick={() => downloadText(`lt-graph-recording-${recording.seed}.json`, exportRecording(recording), 'application/json')}
+                        className={buttonClass}
+                        title="Save recording"
+                    >
+                        <Download size={14} />
+                    </button>
+                    <button onClick={() => fileInputRef.current?.click()} className={buttonClass} title="Load recording">
+                        <Upload size={14} />
+                    </button>
+                    <input ref={fileInputRef} type="file" accept=".json" onChange={handleImport} className="hidden" />
+                </div>
+            </div>
+
+            <div className="relative h-5">
+                {ticks.map(t => (
+                    <div
+                        key={`${t.left}:${t.color}`}
+                        className={`absolute top-0 h-2 w-0.5 ${t.color} opacity-80`}
+                        style={{ left: `${t.left}%` }}
+                        title={`T+${seconds(t.marks[0].time)}s ${describeMark(t.marks[0])}${t.marks.length > 1 ? ` (+${t.marks.length - 1} more)` : ''}`}
+                    />
+                ))}
+                <input
+                    type="range"
+                    min={0}
+                    max={end}
+                    step={SIMULATION_TICK_MS}
+                    value={time}
+                    onChange={e => onSeek(Number(e.target.value))}
+                    className="absolute inset-x-0 bottom-0 w-full accent-cyber-accent"
+                    aria-label="Seek"
+                />
+            </div>
+
+            {importIssues.length > 0 && (
+                <ul className="text-cyber-danger space-y-1" role="alert">
+                    {importIssues.map((issue, i) => <li key={i}>! {issue}</li>)}
+                </ul>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { PenLine, X, Trash2 } from 'lucide-react';
+import { GraphNode } from '../types';
+import { MAX_LABEL_LENGTH } from '../simulation/graphEdits';
+
+interface TopologyEditorPanelProps {
+    node: GraphNode;
+    onRename: (nodeId: string, label: string) => void;
+    onSetType: (nodeId: string, nodeType: GraphNode['type']) => void;
+    onRemove: (nodeId: string) => void;
+    onClose: () => void;
+}
+
+const NODE_TYPES: GraphNode['type'][] = ['source', 'router', 'target'];
+
+// Floating editor for the node picked on the canvas in edit mode
+export const TopologyEditorPanel: React.FC<TopologyEditorPanelProps> = ({ node, onRename, onSetType, onRemove, onClose }) => {
+    const [label, setLabel] = useState(node.label);
+
+    // Follow undo/redo and picks of another node
+    useEffect(() => { setLabel(node.label); }, [node.id, node.label]);
+
+    const commitLabel = () => {
+        if (label.trim() && label.trim() !== node.label) onRename(node.id, label);
+        else setLabel(node.label);
+    };
+
+    return (
+        <div
+            className="absolute top-3 left-3 z-20 w-52 bg-cyber-800/95 border border-cyber-700 rounded p-3 text-[10px] font-mono space-y-2 shadow-md"
+            onPointerDown={e => e.stopPropagation()}
+        >
+            <div className="flex items-center gap-2 text-cyber-info font-bold">
+                <PenLine size={12} /> EDIT {node.id}
+                <button onClick={onClose} className="ml-auto text-gray-500 hover:text-white" title="Done (Esc)">
+                    <X size={12} />
+                </button>
+            </div>
+            <label className="block">
+                <span className="text-gray-500">LABEL</span>
+                <input
+                    value={label}
+                    maxLength={MAX_LABEL_LENGTH}
+                    onChange={e => setLabel(e.target.value)}
+                    onBlur={commitLabel}
+                    onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                    className="w-full mt-1 bg-cyber-900 border border-cyber-700 rounded px-2 py-1 text-white focus:border-cyber-accent outline-none"
+                />
+            </label>
+            <div>
+                <span className="text-gray-500">TYPE</span>
+                <div className="grid grid-cols-3 gap-1 mt-1">
+                    {NODE_TYPES.map(type => (
+                        <button
+                            key={type}
+                            onClick={() => onSetType(node.id, type)}
+                            // An endpoint only changes by handing its role to another node
+                            disabled={type === node.type || (type === 'router' && node.type !== 'router')}
+                            className={`py-1 rounded border uppercase transition-colors disabled:cursor-not-allowed ${type === node.type
+                                ? 'border-cyber-accent text-cyber-accent bg-cyber-accent/10'
+                                : 'border-cyber-700 text-gray-400 enabled:hover:text-white disabled:opacity-40'}`}
+                        >
+                            {type}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <p className="text-gray-500">Click another node to link or unlink it; click empty space to add a router linked here.</p>
+            <button
+                onClick={() => onRemove(node.id)}
+                disabled={node.type !== 'router'}
+                className="w-full py-1 rounded border border-cyber-700 text-gray-400 flex items-center justify-center gap-1 enabled:hover:border-cyber-danger enabled:hover:text-cyber-danger disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+                <Trash2 size={12} /> DELETE NODE
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,205 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Share2, RefreshCw, Upload, Download } from 'lucide-react';
+import { GraphNode, GraphLink } from '../types';
+import { TopologyConfig, TopologyKind, TOPOLOGY_LABELS, DEFAULT_TOPOLOGIES } from '../simulation/topology';
+import {
+    TopologyFormat, TopologyImportError, TOPOLOGY_FILE_EXTENSIONS,
+    detectTopologyFormat, parseTopology, exportTopology
+} from '../simulation/topologyIO';
+import { downloadText } from './download';
+
+interface TopologyPanelProps {
+    topology: TopologyConfig;
+    nodes: GraphNode[];
+    links: GraphLink[];
+    onGenerate: (config: TopologyConfig) => void;
+}
+
+const MIME_TYPES: Record<TopologyFormat, string> = {
+    json: 'application/json',
+    graphml: 'application/xml',
+    dot: 'text/vnd.graphviz'
+};
+
+interface ParamField {
+    key: string;
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+}
+
+// Numeric parameters per generator (layered widths are edited as a list)
+const PARAM_FIELDS: Record<TopologyKind, ParamField[]> = {
+    'layered': [{ key: 'crossConnectChance', label: 'CROSS-LINK P', min: 0, max: 1, step: 0.05 }],
+    'grid': [
+        { key: 'rows', label: 'ROWS', min: 1, max: 10, step: 1 },
+        { key: 'cols', label: 'COLS', min: 1, max: 10, step: 1 }
+    ],
+    'erdos-renyi': [
+        { key: 'routers', label: 'ROUTERS', min: 2, max: 60, step: 1 },
+        { key: 'linkProbability', label: 'LINK P', min: 0, max: 1, step: 0.05 }
+    ],
+    'barabasi-albert': [
+        { key: 'routers', label: 'ROUTERS', min: 2, max: 60, step: 1 },
+        { key: 'attachments', label: 'M (EDGES/NODE)', min: 1, max: 6, step: 1 }
+    ],
+    'watts-strogatz': [
+        { key: 'routers', label: 'ROUTERS', min: 3, max: 60, step: 1 },
+        { key: 'neighbours', label: 'K (NEIGHBOURS)', min: 2, max: 10, step: 2 },
+        { key: 'rewireProbability', label: 'REWIRE P', min: 0, max: 1, step: 0.05 }
+    ],
+    'ring-of-rings': [
+        { key: 'rings', label: 'RINGS', min: 2, max: 8, step: 1 },
+        { key: 'ringSize', label: 'RING SIZE', min: 2, max: 8, step: 1 }
+    ]
+};
+
+export const TopologyPanel: React.FC<TopologyPanelProps> = ({ topology, nodes, links, onGenerate }) => {
+    const [draft, setDraft] = useState<TopologyConfig>(topology);
+    const [widthsInput, setWidthsInput] = useState('');
+    const [importIssues, setImportIssues] = useState<string[]>([]);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    // Follow the running topology (e.g. after a reseed)
+    useEffect(() => {
+        setDraft(topology);
+        if (topology.kind === 'layered') setWidthsInput(topology.layerWidths.join(','));
+    }, [topology]);
+
+    const selectKind = (kind: TopologyKind) => {
+        const defaults = DEFAULT_TOPOLOGIES[kind];
+        setDraft(defaults);
+        if (defaults.kind === 'layered') setWidthsInput(defaults.layerWidths.join(','));
+    };
+
+    const setParam = (key: string, value: number) => {
+        if (!Number.isFinite(value)) return;
+        setDraft(d => ({ ...d, [key]: value }) as TopologyConfig);
+    };
+
+    const generate = () => {
+        if (draft.kind === 'layered') {
+            const layerWidths = widthsInput.split(',').map(w => parseInt(w.trim(), 10)).filter(w => w > 0);
+            onGenerate({ ...draft, layerWidths: layerWidths.length > 0 ? layerWidths : DEFAULT_TOPOLOGIES['layered'].layerWidths });
+        } else {
+            onGenerate(draft);
+        }
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const text = await file.text();
+            const name = file.name.replace(/\.[^.]+$/, '');
+            onGenerate(parseTopology(detectTopologyFormat(file.name, text), text, name));
+            setImportIssues([]);
+        } catch (error) {
+            setImportIssues(error instanceof TopologyImportError ? error.issues : [(error as Error).message]);
+        }
+    };
+
+    const handleExport = (format: TopologyFormat) => {
+        const name = topology.kind === 'custom' ? topology.name : `lt-graph-${topology.kind}`;
+        downloadText(`${name}.${TOPOLOGY_FILE_EXTENSIONS[format]}`, exportTopology(format, nodes, links), MIME_TYPES[format]);
+    };
+
+    const inputClass = "w-full bg-cyber-900 border border-cyber-700 rounded px-2 py-1 text-white focus:outline-none focus:border-cyber-accent";
+
+    return (
+        <div className="bg-cyber-800 p-4 rounded-lg border border-cyber-700 shadow-md">
+            <h3 className="text-cyber-info font-mono font-bold mb-4 flex items-center gap-2">
+                <Share2 size={16} /> TOPOLOGY_GENERATOR
+            </h3>
+            <div className="space-y-3 text-xs font-mono">
+                <select
+                    value={draft.kind}
+                    onChange={e => selectKind(e.target.value as TopologyKind)}
+                    className={inputClass}
+                    aria-label="Topology generator"
+                >
+                    {(Object.keys(TOPOLOGY_LABELS) as TopologyKind[]).map(kind => (
+                        <option key={kind} value={kind}>{TOPOLOGY_LABELS[kind]}</option>
+                    ))}
+                    {draft.kind === 'custom' && <option value="custom">CUSTOM ({draft.name})</option>}
+                </select>
+
+                {draft.kind === 'layered' && (
+                    <label className="block">
+                        <span className="text-gray-500">LAYER WIDTHS</span>
+                        <input
+                            type="text"
+                            value={widthsInput}
+                            onChange={e => setWidthsInput(e.target.value)}
+                            className={inputClass}
+                            placeholder="4,5,4"
+                        />
+                    </label>
+                )}
+
+                <div className="grid grid-cols-2 gap-2">
+                    {(draft.kind === 'custom' ? [] : PARAM_FIELDS[draft.kind]).map(field => (
+                        <label key={field.key} className="block">
+                            <span className="text-gray-500">{field.label}</span>
+                            <input
+                                type="number"
+                                min={field.min}
+                                max={field.max}
+                                step={field.step}
+                                value={(draft as unknown as Record<string, number>)[field.key]}
+                                onChange={e => setParam(field.key, Number(e.target.value))}
+                                className={inputClass}
+                            />
+                        </label>
+                    ))}
+                </div>
+
+                <button
+                    onClick={generate}
+                    className="w-full p-2 rounded border bg-cyber-700 border-cyber-600 hover:border-cyber-accent text-gray-300 hover:text-cyber-accent transition-all flex items-center justify-center gap-2"
+                >
+                    <RefreshCw size={14} />
+                    <span className="font-bold">REGENERATE</span>
+                </button>
+
+                <div className="border-t border-cyber-700 pt-3 space-y-2">
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".json,.graphml,.xml,.dot,.gv"
+                        onChange={handleImport}
+                        className="hidden"
+                    />
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="w-full p-2 rounded border bg-cyber-700 border-cyber-600 hover:border-cyber-info text-gray-300 hover:text-cyber-info transition-all flex items-center justify-center gap-2"
+                    >
+                        <Upload size={14} />
+                        <span className="font-bold">IMPORT</span>
+                    </button>
+                    <div className="grid grid-cols-3 gap-2">
+                        {(Object.keys(TOPOLOGY_FILE_EXTENSIONS) as TopologyFormat[]).map(format => (
+                            <button
+                                key={format}
+                                onClick={() => handleExport(format)}
+                                className="p-1.5 rounded border bg-cyber-700 border-cyber-600 hover:border-cyber-accent text-gray-400 hover:text-cyber-accent transition-all flex items-center justify-center gap-1"
+                                title={`Export as ${format.toUpperCase()}`}
+                            >
+                                <Download size={12} />
+                                {format.toUpperCase()}
+                            </button>
+                        ))}
+                    </div>
+                    {importIssues.length > 0 && (
+                        <ul className="text-cyber-danger space-y-1" role="alert">
+                            {importIssues.map((issue, i) => <li key={i}>! {issue}</li>)}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
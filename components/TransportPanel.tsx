@@ -0,0 +1,96 @@
+import React, { useState, useEffect } from 'react';
+import { Repeat } from 'lucide-react';
+import { Packet } from '../types';
+import { TransportConfig, PendingSegment } from '../simulation/transport';
+
+interface TransportPanelProps {
+    transport: TransportConfig;
+    packets: Packet[];
+    pending: PendingSegment[];
+    onChange: (transport: Partial<TransportConfig>) => void;
+}
+
+type NumericField = 'ttl' | 'timeoutMs' | 'maxRetries';
+
+const FIELDS: { key: NumericField; label: string; min: number; step: number }[] = [
+    { key: 'ttl', label: 'TTL (HOPS)', min: 1, step: 1 },
+    { key: 'timeoutMs', label: 'RTO (MS)', min: 500, step: 500 },
+    { key: 'maxRetries', label: 'RETRIES', min: 0, step: 1 }
+];
+
+export const TransportPanel: React.FC<TransportPanelProps> = ({ transport, packets, pending, onChange }) => {
+    const [inputs, setInputs] = useState<Record<NumericField, string>>({
+        ttl: String(transport.ttl),
+        timeoutMs: String(transport.timeoutMs),
+        maxRetries: String(transport.maxRetries)
+    });
+
+    useEffect(() => {
+        setInputs({ ttl: String(transport.ttl), timeoutMs: String(transport.timeoutMs), maxRetries: String(transport.maxRetries) });
+    }, [transport.ttl, transport.timeoutMs, transport.maxRetries]);
+
+    const apply = (key: NumericField, min: number) => {
+        const value = Math.floor(Number(inputs[key]));
+        if (Number.isFinite(value) && value >= min && value !== transport[key]) onChange({ [key]: value });
+        else setInputs(prev => ({ ...prev, [key]: String(transport[key]) }));
+    };
+
+    const inFlight = packets.filter(p => p.kind === 'data').length;
+    const acksInFlight = packets.length - inFlight;
+    const resending = pending.filter(s => s.attempt > 0).length;
+
+    const inputClass = "w-full bg-cyber-900 border border-cyber-700 rounded px-2 py-1 text-white focus:outline-none focus:border-cyber-accent";
+
+    return (
+        <div className="bg-cyber-800 p-4 rounded-lg border border-cyber-700 shadow-md">
+            <h3 className="text-cyber-info font-mono font-bold mb-4 flex items-center gap-2">
+                <Repeat size={16} /> TRANSPORT
+            </h3>
+            <div className="space-y-3 text-xs font-mono">
+                <label className="flex items-center justify-between">
+                    <span className="text-gray-500">ACKNOWLEDGEMENTS</span>
+                    <input
+                        type="checkbox"
+                        checked={transport.acks}
+                        onChange={e => onChange({ acks: e.target.checked })}
+                        className="accent-cyber-accent"
+                    />
+                </label>
+                <label className={`flex items-center justify-between ${transport.acks ? '' : 'opacity-50'}`}>
+                    <span className="text-gray-500">RETRANSMISSION</span>
+                    <input
+                        type="checkbox"
+                        checked={transport.retransmit}
+                        disabled={!transport.acks}
+                        onChange={e => onChange({ retransmit: e.target.checked })}
+                        className="accent-cyber-accent"
+                    />
+                </label>
+
+                <div className="grid grid-cols-3 gap-2">
+                    {FIELDS.map(({ key, label, min, step }) => (
+                        <label key={key} className="block">
+                            <span className="text-gray-500">{label}</span>
+                            <input
+                                type="number"
+                                min={min}
+                                step={step}
+                                value={inputs[key]}
+                                onChange={e => setInputs(prev => ({ ...prev, [key]: e.target.value }))}
+                                onBlur={() => apply(key, min)}
+                                onKeyDown={e => e.key === 'Enter' && apply(key, min)}
+                                className={inputClass}
+                            />
+                        </label>
+                    ))}
+                </div>
+
+                <div className="text-gray-500 space-y-1">
+                    <p>IN FLIGHT: <span className="text-white">{inFlight} data / {acksInFlight} ack</span></p>
+                    <p>AWAITING ACK: <span className="text-white">{pending.length}</span>
+                        {resending > 0 && <span className="text-cyber-warn"> ({resending} resent)</span>}</p>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,9 @@
+// Save generated text through a temporary object URL
+export const downloadText = (fileName: string, text: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = fileName;
+    anchor.click();
+    URL.revokeObjectURL(url);
+};
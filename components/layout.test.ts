@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { computeLayeredLayout, computeCircularLayout } from './layout';
+import { generateTopology, DEFAULT_TOPOLOGIES } from '../simulation/topology';
+import { createRng } from '../simulation/random';
+
+describe('layout', () => {
+    const { nodes, links } = generateTopology(DEFAULT_TOPOLOGIES['watts-strogatz'], createRng(4));
+
+    it('should place SRC leftmost and DST rightmost in the layered layout', () => {
+        const positions = computeLayeredLayout(nodes, links, 800, 600);
+        const xs = nodes.map(n => positions.get(n.id)!.x);
+
+        expect(positions.size).toBe(nodes.length);
+        expect(positions.get('SRC')!.x).toBe(Math.min(...xs));
+        expect(positions.get('DST')!.x).toBe(Math.max(...xs));
+    });
+
+    it('should give every node a distinct slot', () => {
+        [computeLayeredLayout(nodes, links, 800, 600), computeCircularLayout(nodes, 800, 600)].forEach(positions => {
+            const slots = new Set([...positions.values()].map(p => `${p.x.toFixed(1)},${p.y.toFixed(1)}`));
+            expect(slots.size).toBe(nodes.length);
+        });
+    });
+});
@@ -0,0 +1,134 @@
+import { GraphNode, GraphLink } from '../types';
+import { getId, getNeighbours } from '../simulation/graph';
+import { endpointsOf } from '../simulation/topology';
+
+export type LayoutMode = 'layered' | 'force' | 'circular';
+
+export const LAYOUT_LABELS: Record<LayoutMode, string> = {
+    layered: 'LAYERED',
+    force: 'FORCE_DIRECTED',
+    circular: 'CIRCULAR'
+};
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+const BARYCENTER_SWEEPS = 4;
+
+// Layer index per node: BFS distance from SRC, with DST alone in the last layer
+const assignLayers = (nodes: GraphNode[], links: GraphLink[]): Map<string, number> => {
+    const layers = new Map<string, number>();
+    const { source, target } = endpointsOf(nodes);
+    const startId = nodes.some(n => n.id === source) ? source : nodes[0]?.id;
+    if (startId === undefined) return layers;
+
+    layers.set(startId, 0);
+    const queue = [startId];
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        getNeighbours(links, id).forEach(n => {
+            if (!layers.has(n)) {
+                layers.set(n, layers.get(id)! + 1);
+                queue.push(n);
+            }
+        });
+    }
+
+    const routerLayers = nodes.filter(n => n.id !== target && layers.has(n.id)).map(n => layers.get(n.id)!);
+    const maxLayer = Math.max(0, ...routerLayers);
+
+    // Unreachable nodes sit in the middle rather than piling up at column 0
+    nodes.forEach(n => {
+        if (!layers.has(n.id)) layers.set(n.id, Math.max(1, Math.ceil(maxLayer / 2)));
+    });
+    if (layers.has(target)) layers.set(target, maxLayer + 1);
+
+    return layers;
+};
+
+/**
+ * Sugiyama-style layered layout: BFS layering from SRC, barycenter ordering to
+ * reduce crossings, then even spacing inside the padded canvas.
+ */
+export const computeLayeredLayout = (nodes: GraphNode[], links: GraphLink[], width: number, height: number): Map<string, Point> => {
+    const positions = new Map<string, Point>();
+    const layerOf = assignLayers(nodes, links);
+    const layerCount = Math.max(0, ...layerOf.values()) + 1;
+
+    const columns: string[][] = Array.from({ length: layerCount }, () => []);
+    nodes.forEach(n => columns[layerOf.get(n.id)!].push(n.id));
+
+    // Barycenter sweeps, alternating direction
+    const order = new Map<string, number>();
+    const indexColumn = (column: string[]) => column.forEach((id, i) => order.set(id, i));
+    columns.forEach(indexColumn);
+
+    for (let sweep = 0; sweep < BARYCENTER_SWEEPS; sweep++) {
+        const downward = sweep % 2 === 0;
+        const range = downward
+            ? columns.map((_, i) => i).slice(1)
+            : columns.map((_, i) => i).slice(0, -1).reverse();
+
+        range.forEach(layer => {
+            const reference = downward ? layer - 1 : layer + 1;
+            const barycenter = (id: string) => {
+                const adjacent = getNeighbours(links, id).filter(n => layerOf.get(n) === reference);
+                if (adjacent.length === 0) return order.get(id)!;
+                return adjacent.reduce((sum, n) => sum + order.get(n)!, 0) / adjacent.length;
+            };
+            const scored = columns[layer].map(id => ({ id, score: barycenter(id) }));
+            scored.sort((a, b) => a.score - b.score);
+            columns[layer] = scored.map(s => s.id);
+            indexColumn(columns[layer]);
+        });
+    }
+
+    const xPad = width * 0.1;
+    const yPad = height * 0.15;
+    const availWidth = width - (xPad * 2);
+    const availHeight = height - (yPad * 2);
+
+    columns.forEach((column, layer) => {
+        const x = layerCount > 1 ? xPad + layer * (availWidth / (layerCount - 1)) : width / 2;
+        column.forEach((id, row) => {
+            const y = column.length > 1 ? yPad + row * (availHeight / (column.length - 1)) : height / 2;
+            positions.set(id, { x, y });
+        });
+    });
+
+    return positions;
+};
+
+// Nodes evenly on a circle, SRC on the left and DST opposite it
+export const computeCircularLayout = (nodes: GraphNode[], width: number, height: number): Map<string, Point> => {
+    const positions = new Map<string, Point>();
+    const { source, target } = endpointsOf(nodes);
+    const routers = nodes.filter(n => n.id !== source && n.id !== target).map(n => n.id);
+    const half = Math.ceil(routers.length / 2);
+    const ring = [
+        ...(nodes.some(n => n.id === source) ? [source] : []),
+        ...routers.slice(0, half),
+        ...(nodes.some(n => n.id === target) ? [target] : []),
+        ...routers.slice(half)
+    ];
+
+    const radius = Math.max(0, Math.min(width, height) / 2 - 50);
+    ring.forEach((id, i) => {
+        const angle = Math.PI + (2 * Math.PI * i) / ring.length;
+        positions.set(id, {
+            x: width / 2 + radius * Math.cos(angle),
+            y: height / 2 + radius * Math.sin(angle)
+        });
+    });
+
+    return positions;
+};
+
+// Stable signature of the graph structure; layouts only recompute when it changes
+export const structureKey = (nodes: GraphNode[], links: GraphLink[]): string => {
+    const nodePart = nodes.map(n => `${n.id}:${n.type}`).join(',');
+    const linkPart = links.map(l => `${getId(l.source)}-${getId(l.target)}`).join(',');
+    return `${nodePart}|${linkPart}`;
+};
@@ -1,8 +1,28 @@
-export const INITIAL_NODES_COUNT = 15;
 export const PACKET_SPAWN_RATE_MS = 1500;
 export const FREQUENCY_HOP_INTERVAL_MS = 2000;
 export const MAX_LOG_ENTRIES = 50;
 
+// Simulation engine timing (simulated milliseconds)
+export const SIMULATION_TICK_MS = 20;
+export const PACKET_SPEED_PER_SECOND = 0.9; // edge progress per simulated second
+export const PACKET_SPAWN_CHANCE = 0.07; // per tick
+export const ATTACK_INTERVAL_MS = 2000;
+export const MITIGATION_STEP_MS = 2000;
+export const NODE_STATE_DURATION_MS = {
+  ANALYZING: 600,
+  ROUTING: 600,
+  HOPPING: 1500
+};
+
+// Jamming: packets on a jammed link crawl and may be lost
+export const JAMMED_SPEED_FACTOR = 0.3;
+export const JAM_DROP_RATE_PER_SECOND = 0.8;
+
+// Automated quarantine (part of adaptive mitigation)
+export const AUTO_QUARANTINE_STRENGTH = 0.5; // mitigation strength needed before the defense locks nodes
+export const AUTO_QUARANTINE_MIN_MS = 6000;
+export const MAX_DEFENSE_QUARANTINES = 2;
+
 // Colors matched to Tailwind config
 export const COLORS = {
   IDLE: '#4b5563', // gray-600
@@ -11,4 +31,6 @@ export const COLORS = {
   HOPPING: '#00ff9d', // cyber-accent
   COMPROMISED: '#ff0055', // cyber-danger
   LOCKED: '#ffffff',
+  FAILED: '#a855f7', // purple-500
+  JAMMED: '#f97316', // orange-500
 };
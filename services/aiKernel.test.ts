@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AttackType } from '../types';
+import { AIKernelProvider, AIKernelError, ThreatSituation } from './aiKernel';
+import { offlineAnalysis, severityOf } from './offlineKernel';
+import { analyzeSituation } from './aiProviders';
+import { createOpenAICompatibleProvider } from './openAICompatibleService';
+
+const situation: ThreatSituation = { attackType: AttackType.HIJACKING, activeNodeCount: 14, compromisedNodeCount: 2, frequency: 2417 };
+
+const stubProvider = (overrides: Partial<AIKernelProvider>): AIKernelProvider => ({
+    id: 'openai',
+    label: 'Stub',
+    unavailableReason: () => null,
+    analyze: async () => 'remote analysis',
+    proposeTopology: async () => ({}),
+    ...overrides
+});
+
+describe('offline kernel', () => {
+    it('should grade severity by the share of compromised nodes', () => {
+        expect(severityOf({ ...situation, attackType: AttackType.NONE, compromisedNodeCount: 0 })).toBe('nominal');
+        expect(severityOf({ ...situation, compromisedNodeCount: 0 })).toBe('contained');
+        expect(severityOf(situation)).toBe('degraded');
+        expect(severityOf({ ...situation, compromisedNodeCount: 7 })).toBe('critical');
+    });
+
+    it('should describe the same situation the same way', () => {
+        const text = offlineAnalysis(situation);
+        expect(text).toBe(offlineAnalysis({ ...situation }));
+        expect(text).toMatch(/router\(s\)|node\(s\)/);
+        expect(text).toContain('2');
+        expect(offlineAnalysis({ ...situation, attackType: AttackType.JAMMING })).not.toBe(text);
+    });
+});
+
+describe('analyzeSituation', () => {
+    it('should use the selected provider when it answers', async () => {
+        await expect(analyzeSituation(stubProvider({}), situation)).resolves.toEqual({
+            text: 'remote analysis', provider: 'openai', fallbackReason: null
+        });
+    });
+
+    it('should fall back to the offline kernel when the provider is unavailable or fails', async () => {
+        const missing = await analyzeSituation(stubProvider({ unavailableReason: () => 'API key missing' }), situation);
+        expect(missing).toEqual({ text: offlineAnalysis(situation), provider: 'offline', fallbackReason: 'Stub: API key missing' });
+
+        const failing = await analyzeSituation(stubProvider({ analyze: async () => { throw new AIKernelError('openai', 'HTTP 500'); } }), situation);
+        expect(failing.provider).toBe('offline');
+        expect(failing.fallbackReason).toBe('Stub: HTTP 500');
+    });
+
+    it('should reject a cancelled request instead of falling back', async () => {
+        const controller = new AbortController();
+        const provider = stubProvider({
+            analyze: async () => {
+                controller.abort();
+                throw new DOMException('Aborted', 'AbortError');
+            }
+        });
+        await expect(analyzeSituation(provider, situation, controller.signal)).rejects.toThrow('Aborted');
+    });
+});
+
+describe('OpenAI-compatible provider', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should post a chat completion and return the first choice', async () => {
+        const fetchMock = vi.fn().mockResolvedValue({
+            ok: true,
+            json: async () => ({ choices: [{ message: { content: ' Rerouting now. ' } }] })
+        });
+        vi.stubGlobal('fetch', fetchMock);
+
+        const provider = createOpenAICompatibleProvider({ baseUrl: 'http://lab:8080/v1/', model: 'qwen', apiKey: '' });
+        await expect(provider.analyze(situation)).resolves.toBe('Rerouting now.');
+
+        const [url, init] = fetchMock.mock.calls[0];
+        expect(url).toBe('http://lab:8080/v1/chat/completions');
+        expect(init.headers).not.toHaveProperty('Authorization');
+        expect(JSON.parse(init.body)).toMatchObject({ model: 'qwen', messages: [{ role: 'user' }] });
+    });
+
+    it('should report HTTP errors as kernel errors', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 404 }));
+        const provider = createOpenAICompatibleProvider({ baseUrl: 'http://lab:8080/v1', model: 'qwen', apiKey: 'k' });
+        await expect(provider.analyze(situation)).rejects.toThrow(AIKernelError);
+        expect(provider.unavailableReason()).toBeNull();
+        expect(createOpenAICompatibleProvider({ baseUrl: '', model: 'qwen', apiKey: '' }).unavailableReason()).toBe('no endpoint configured');
+    });
+});
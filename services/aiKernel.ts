@@ -0,0 +1,100 @@
+import { AttackType, GraphNode, NodeState } from "../types";
+
+// What the kernel is asked to comment on; every backend sees the same snapshot
+export interface ThreatSituation {
+  attackType: AttackType;
+  activeNodeCount: number;
+  compromisedNodeCount: number;
+  frequency: number; // MHz
+}
+
+// The live network and threat as the kernel sees them when asked for a better topology
+export interface TopologyRequest {
+  attackType: AttackType;
+  nodes: { id: string; label: string; type: GraphNode['type']; state: NodeState; hardened: boolean }[];
+  links: { source: string; target: string; compromised: boolean; failed: boolean }[];
+  maxChanges: number; // per kind of change
+}
+
+export type AIProviderId = 'gemini' | 'openai' | 'offline';
+
+/**
+ * One backend for the AI kernel. `analyze` resolves with a short status log
+ * and `proposeTopology` with raw JSON, or either throws an AIKernelError;
+ * callers fall back to the offline kernel, so a lab machine without network
+ * access still gets an answer.
+ */
+export interface AIKernelProvider {
+  id: AIProviderId;
+  label: string;
+  // Why the provider cannot be used right now, or null if it can
+  unavailableReason(): string | null;
+  analyze(situation: ThreatSituation, signal?: AbortSignal): Promise<string>;
+  // Untrusted JSON shaped like a topology proposal; the simulation parses and validates it
+  proposeTopology(request: TopologyRequest, signal?: AbortSignal): Promise<unknown>;
+}
+
+export class AIKernelError extends Error {
+  constructor(public readonly provider: AIProviderId, message: string) {
+    super(message);
+    this.name = 'AIKernelError';
+  }
+}
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // e.g. http://localhost:11434/v1 for Ollama
+  model: string;
+  apiKey: string; // local servers usually take none
+}
+
+export interface AIKernelSettings {
+  provider: AIProviderId;
+  openai: OpenAICompatibleConfig;
+}
+
+export const DEFAULT_OPENAI_CONFIG: OpenAICompatibleConfig = {
+  baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+  model: process.env.OPENAI_MODEL || 'llama3.2',
+  apiKey: process.env.OPENAI_API_KEY || ''
+};
+
+const envProvider = process.env.AI_PROVIDER as AIProviderId | undefined;
+
+// Gemini when a key is configured, otherwise the offline kernel
+export const DEFAULT_AI_SETTINGS: AIKernelSettings = {
+  provider: envProvider === 'gemini' || envProvider === 'openai' || envProvider === 'offline'
+    ? envProvider
+    : process.env.API_KEY ? 'gemini' : 'offline',
+  openai: DEFAULT_OPENAI_CONFIG
+};
+
+// Explicitly frame this as a fictional simulation to avoid safety filters on "attacks"
+export const buildAnalysisPrompt = ({ attackType, activeNodeCount, compromisedNodeCount, frequency }: ThreatSituation): string => `
+    Context: You are the AI kernel for a fictional cyberpunk network simulation game called "Lamarr-Turing Graph".
+
+    Scenario Status:
+    - Threat Level: ${attackType}
+    - Network Health: ${activeNodeCount - compromisedNodeCount}/${activeNodeCount} nodes active
+    - Frequency: ${frequency} MHz
+
+    Task: Provide a concise, cool-sounding status log (max 2 sentences).
+    First sentence: Describe the threat or system status using technobabble.
+    Second sentence: Describe a countermeasure (e.g., "Rerouting via spread-spectrum", "Isolating compromised nodes").
+
+    Keep it safe, fictional, and atmospheric.
+  `;
+
+export const buildTopologyPrompt = (request: TopologyRequest): string => `
+    Context: You are the AI kernel for a fictional cyberpunk network simulation game called "Lamarr-Turing Graph".
+    Traffic flows from the source node to the target node over routers; an attacker spreads from compromised routers to their neighbours.
+
+    Threat Level: ${request.attackType}
+    Nodes (id, type, state, hardened): ${request.nodes.map(n => `${n.id} ${n.type} ${n.state}${n.hardened ? ' hardened' : ''}`).join('; ')}
+    Links: ${request.links.map(l => `${l.source}-${l.target}${l.compromised ? ' tapped' : ''}${l.failed ? ' down' : ''}`).join('; ')}
+
+    Task: Propose at most ${request.maxChanges} links to add, ${request.maxChanges} links to remove and ${request.maxChanges} routers to harden
+    so traffic avoids compromised routers and the attacker has fewer ways to spread. Only use the node ids above,
+    and keep the source connected to the target. Answer with JSON only:
+    {"addLinks": [{"source": "id", "target": "id", "reason": "..."}], "removeLinks": [{"source": "id", "target": "id", "reason": "..."}],
+     "harden": [{"nodeId": "id", "reason": "..."}], "rationale": "one sentence"}
+  `;
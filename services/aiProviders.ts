@@ -0,0 +1,65 @@
+import { AIKernelProvider, AIKernelSettings, AIProviderId, AIKernelError, ThreatSituation, TopologyRequest } from "./aiKernel";
+import { geminiProvider } from "./geminiService";
+import { createOpenAICompatibleProvider } from "./openAICompatibleService";
+import { offlineProvider } from "./offlineKernel";
+
+export const AI_PROVIDER_LABELS: Record<AIProviderId, string> = {
+  gemini: 'GEMINI',
+  openai: 'OPENAI-COMPAT',
+  offline: 'OFFLINE'
+};
+
+export const createAIKernel = (settings: AIKernelSettings): AIKernelProvider => {
+  switch (settings.provider) {
+    case 'gemini':
+      return geminiProvider;
+    case 'openai':
+      return createOpenAICompatibleProvider(settings.openai);
+    case 'offline':
+      return offlineProvider;
+  }
+};
+
+interface KernelAnswer {
+  provider: AIProviderId; // who actually wrote it
+  fallbackReason: string | null; // why the selected provider was skipped
+}
+
+export interface KernelAnalysis extends KernelAnswer {
+  text: string;
+}
+
+export interface KernelProposal extends KernelAnswer {
+  raw: unknown; // not yet parsed or validated
+}
+
+/**
+ * Asks the selected provider, and the offline kernel if that one is not
+ * configured or fails. Only a cancelled request rejects.
+ */
+const withFallback = async <T>(
+  provider: AIKernelProvider,
+  ask: (p: AIKernelProvider) => Promise<T>,
+  signal?: AbortSignal
+): Promise<{ answer: T } & KernelAnswer> => {
+  let fallbackReason = provider.unavailableReason();
+  if (fallbackReason === null) {
+    try {
+      return { answer: await ask(provider), provider: provider.id, fallbackReason: null };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      fallbackReason = error instanceof AIKernelError ? error.message : String(error);
+    }
+  }
+  return { answer: await ask(offlineProvider), provider: 'offline', fallbackReason: `${provider.label}: ${fallbackReason}` };
+};
+
+export const analyzeSituation = async (provider: AIKernelProvider, situation: ThreatSituation, signal?: AbortSignal): Promise<KernelAnalysis> => {
+  const { answer, ...source } = await withFallback(provider, p => p.analyze(situation, signal), signal);
+  return { text: answer, ...source };
+};
+
+export const proposeTopology = async (provider: AIKernelProvider, request: TopologyRequest, signal?: AbortSignal): Promise<KernelProposal> => {
+  const { answer, ...source } = await withFallback(provider, p => p.proposeTopology(request, signal), signal);
+  return { raw: answer, ...source };
+};
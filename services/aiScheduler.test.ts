@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AttackType } from '../types';
+import { AIKernelProvider, ThreatSituation, TopologyRequest } from './aiKernel';
+import { createAIScheduler, isCancelled } from './aiScheduler';
+import { offlineProvider } from './offlineKernel';
+
+const situation: ThreatSituation = { attackType: AttackType.MITM, activeNodeCount: 14, compromisedNodeCount: 1, frequency: 2410 };
+
+// A remote provider whose calls stay open until resolved by hand
+const manualProvider = () => {
+    const resolvers: ((text: string) => void)[] = [];
+    const signals: AbortSignal[] = [];
+    const provider: AIKernelProvider = {
+        id: 'openai',
+        label: 'Manual',
+        unavailableReason: () => null,
+        analyze: vi.fn((_s: ThreatSituation, signal?: AbortSignal) => {
+            signals.push(signal!);
+            return new Promise<string>(resolve => resolvers.push(resolve));
+        }),
+        proposeTopology: async () => ({})
+    };
+    return { provider, resolvers, signals };
+};
+
+describe('AI scheduler', () => {
+    it('should share one call between identical requests and cache the answer across hops', async () => {
+        const { provider, resolvers } = manualProvider();
+        const scheduler = createAIScheduler();
+
+        const first = scheduler.request(provider, situation);
+        const second = scheduler.request(provider, { ...situation, frequency: 2470 });
+        expect(provider.analyze).toHaveBeenCalledTimes(1);
+        expect(scheduler.status().inFlight).toBe(1);
+
+        resolvers[0]('Splice detected.');
+        await expect(first).resolves.toMatchObject({ text: 'Splice detected.', provider: 'openai' });
+        await expect(second).resolves.toMatchObject({ text: 'Splice detected.' });
+
+        await expect(scheduler.request(provider, { ...situation, frequency: 2430 })).resolves.toMatchObject({ text: 'Splice detected.' });
+        expect(provider.analyze).toHaveBeenCalledTimes(1);
+        expect(scheduler.status()).toMatchObject({ used: 1, inFlight: 0, cached: 1 });
+    });
+
+    it('should fall back to the offline kernel once the budget is spent, and refill after a minute', async () => {
+        let now = 0;
+        const analyze = vi.fn(async () => 'remote');
+        const provider: AIKernelProvider = { id: 'gemini', label: 'Gemini', unavailableReason: () => null, analyze, proposeTopology: async () => ({}) };
+        const scheduler = createAIScheduler({ budgetPerMinute: 2, cacheTtlMs: 0 }, () => now);
+
+        await scheduler.request(provider, situation);
+        now = 10000;
+        await scheduler.request(provider, situation);
+        const spent = await scheduler.request(provider, situation);
+
+        expect(analyze).toHaveBeenCalledTimes(2);
+        expect(spent).toMatchObject({ provider: 'offline', fallbackReason: 'Gemini: budget of 2/min spent' });
+        expect(scheduler.status()).toMatchObject({ limit: 2, used: 2, remaining: 0, resetInMs: 50000 });
+
+        now = 60000;
+        expect(scheduler.status().remaining).toBe(1);
+        await expect(scheduler.request(provider, situation)).resolves.toMatchObject({ text: 'remote' });
+    });
+
+    it('should not spend budget on the offline kernel', async () => {
+        const scheduler = createAIScheduler({ budgetPerMinute: 0, cacheTtlMs: 0 });
+        await expect(scheduler.request(offlineProvider, situation)).resolves.toMatchObject({ provider: 'offline', fallbackReason: null });
+        expect(scheduler.status().used).toBe(0);
+    });
+
+    it('should cancel stale calls and keep their answers out of the log', async () => {
+        const { provider, resolvers, signals } = manualProvider();
+        const scheduler = createAIScheduler();
+
+        const stale = scheduler.request(provider, situation);
+        scheduler.cancelAnalyses();
+        resolvers[0]('too late');
+
+        expect(signals[0].aborted).toBe(true);
+        const error = await stale.catch(e => e);
+        expect(isCancelled(error)).toBe(true);
+        expect(scheduler.status().inFlight).toBe(0);
+
+        // The next identical request starts afresh rather than joining the cancelled one
+        scheduler.request(provider, situation);
+        expect(provider.analyze).toHaveBeenCalledTimes(2);
+    });
+
+    it('should leave a requested optimisation running when analyses are cancelled', async () => {
+        const signals: AbortSignal[] = [];
+        const provider: AIKernelProvider = {
+            id: 'openai',
+            label: 'Manual',
+            unavailableReason: () => null,
+            analyze: async () => 'remote',
+            proposeTopology: async (_request, signal) => {
+                signals.push(signal!);
+                return { rationale: 'remote' };
+            }
+        };
+        const scheduler = createAIScheduler();
+
+        const proposal = scheduler.propose(provider, { attackType: AttackType.MITM, nodes: [], links: [], maxChanges: 4 });
+        scheduler.cancelAnalyses();
+        await expect(proposal).resolves.toMatchObject({ raw: { rationale: 'remote' } });
+        expect(signals[0].aborted).toBe(false);
+
+        const cancelled = scheduler.propose(provider, { attackType: AttackType.MITM, nodes: [], links: [], maxChanges: 4 });
+        scheduler.cancelAll();
+        expect(isCancelled(await cancelled.catch(e => e))).toBe(true);
+    });
+
+    it('should charge topology proposals to the same budget without caching them', async () => {
+        const proposeTopology = vi.fn(async () => ({ rationale: 'remote' }));
+        const provider: AIKernelProvider = { id: 'gemini', label: 'Gemini', unavailableReason: () => null, analyze: async () => 'remote', proposeTopology };
+        const scheduler = createAIScheduler({ budgetPerMinute: 2, cacheTtlMs: 60000 });
+        const request: TopologyRequest = { attackType: AttackType.MITM, nodes: [], links: [], maxChanges: 4 };
+
+        const first = scheduler.propose(provider, request);
+        const again = scheduler.propose(provider, request);
+        await expect(first).resolves.toMatchObject({ raw: { rationale: 'remote' }, provider: 'gemini' });
+        await expect(again).resolves.toMatchObject({ raw: { rationale: 'remote' } });
+        expect(proposeTopology).toHaveBeenCalledTimes(1);
+
+        await scheduler.request(provider, situation);
+        const spent = await scheduler.propose(provider, request);
+        expect(proposeTopology).toHaveBeenCalledTimes(1);
+        expect(spent).toMatchObject({ provider: 'offline', fallbackReason: 'Gemini: budget of 2/min spent' });
+        expect(scheduler.status()).toMatchObject({ used: 2, cached: 1 });
+    });
+});
@@ -0,0 +1,168 @@
+import { AIKernelProvider, ThreatSituation, TopologyRequest } from "./aiKernel";
+import { offlineProvider } from "./offlineKernel";
+import { analyzeSituation, proposeTopology, KernelAnalysis, KernelProposal } from "./aiProviders";
+
+export interface AISchedulerConfig {
+  budgetPerMinute: number; // remote calls in any 60s window; the offline kernel is free
+  cacheTtlMs: number;
+}
+
+export const DEFAULT_AI_SCHEDULER: AISchedulerConfig = {
+  budgetPerMinute: 6,
+  cacheTtlMs: 60000
+};
+
+const WINDOW_MS = 60000;
+
+const cancelled = () => new DOMException('Request cancelled', 'AbortError');
+
+export const isCancelled = (error: unknown): boolean => error instanceof DOMException && error.name === 'AbortError';
+
+export interface AIBudgetStatus {
+  limit: number;
+  used: number; // calls in the last minute
+  remaining: number;
+  resetInMs: number; // until the oldest call leaves the window; 0 with none
+  inFlight: number;
+  cached: number;
+}
+
+/**
+ * The situation as far as the analysis cares: frequency changes on every hop
+ * without changing what there is to say, so it is left out, and the provider
+ * is in, since another backend writes another analysis.
+ */
+export const situationFingerprint = (provider: AIKernelProvider, s: ThreatSituation): string =>
+  `${provider.id}:${provider.label}|${s.attackType}|${s.compromisedNodeCount}/${s.activeNodeCount}`;
+
+interface InFlight<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+}
+
+/**
+ * Sits in front of the AI kernel: identical requests share one call, answers
+ * are cached per situation fingerprint, remote calls are held to a per-minute
+ * budget (the offline kernel answers once it is spent), and `cancelAnalyses`
+ * aborts the analyses in flight when the situation they were asked about is
+ * gone.
+ * Topology proposals share the budget but are never cached: the graph they
+ * answer for changes as soon as one is applied.
+ */
+export const createAIScheduler = (initial: AISchedulerConfig = DEFAULT_AI_SCHEDULER, now: () => number = Date.now) => {
+  let config = initial;
+  const cache = new Map<string, { analysis: KernelAnalysis; at: number }>();
+  const inFlight = new Map<string, InFlight<KernelAnalysis>>();
+  let proposal: InFlight<KernelProposal> | null = null;
+  let calls: number[] = []; // start times of remote calls, oldest first
+
+  const prune = () => {
+    const t = now();
+    calls = calls.filter(at => t - at < WINDOW_MS);
+    cache.forEach((entry, key) => {
+      if (t - entry.at >= config.cacheTtlMs) cache.delete(key);
+    });
+  };
+
+  // Records a remote call, or says why the offline kernel has to answer instead
+  const spend = (provider: AIKernelProvider): string | null => {
+    // Offline answers cost nothing, so only remote providers spend budget
+    const remote = provider.id !== 'offline' && provider.unavailableReason() === null;
+    if (remote && calls.length >= config.budgetPerMinute) return `${provider.label}: budget of ${config.budgetPerMinute}/min spent`;
+    if (remote) calls.push(now());
+    return null;
+  };
+
+  const request = (provider: AIKernelProvider, situation: ThreatSituation): Promise<KernelAnalysis> => {
+    prune();
+    const key = situationFingerprint(provider, situation);
+    const cached = cache.get(key);
+    if (cached) return Promise.resolve(cached.analysis);
+    const pending = inFlight.get(key);
+    if (pending) return pending.promise;
+
+    const overBudget = spend(provider);
+    if (overBudget) {
+      return offlineProvider.analyze(situation).then(text => ({ text, provider: 'offline' as const, fallbackReason: overBudget }));
+    }
+
+    const controller = new AbortController();
+    const promise = analyzeSituation(provider, situation, controller.signal)
+      .then(analysis => {
+        // Providers that ignore the signal still must not answer a cancelled request
+        if (controller.signal.aborted) throw cancelled();
+        // A stand-in from the offline kernel is not what was asked for, so it is not kept
+        if (!analysis.fallbackReason) cache.set(key, { analysis, at: now() });
+        return analysis;
+      }, () => {
+        // analyzeSituation only rejects once aborted, whatever the provider threw
+        throw cancelled();
+      })
+      .finally(() => {
+        if (inFlight.get(key)?.controller === controller) inFlight.delete(key);
+      });
+    inFlight.set(key, { promise, controller });
+    return promise;
+  };
+
+  // One proposal at a time; asking again while one is out gets the same answer
+  const propose = (provider: AIKernelProvider, request: TopologyRequest): Promise<KernelProposal> => {
+    prune();
+    if (proposal) return proposal.promise;
+
+    const overBudget = spend(provider);
+    if (overBudget) {
+      return offlineProvider.proposeTopology(request).then(raw => ({ raw, provider: 'offline' as const, fallbackReason: overBudget }));
+    }
+
+    const controller = new AbortController();
+    const promise = proposeTopology(provider, request, controller.signal)
+      .then(answer => {
+        if (controller.signal.aborted) throw cancelled();
+        return answer;
+      }, () => {
+        throw cancelled();
+      })
+      .finally(() => {
+        if (proposal?.controller === controller) proposal = null;
+      });
+    proposal = { promise, controller };
+    return promise;
+  };
+
+  // Cancelled requests reject with an AbortError; the spent budget is not refunded
+  const cancelAnalyses = () => {
+    inFlight.forEach(({ controller }) => controller.abort());
+    inFlight.clear();
+  };
+
+  const cancelProposal = () => {
+    proposal?.controller.abort();
+    proposal = null;
+  };
+
+  const cancelAll = () => {
+    cancelAnalyses();
+    cancelProposal();
+  };
+
+  const configure = (update: Partial<AISchedulerConfig>) => {
+    config = { ...config, ...update };
+  };
+
+  const status = (): AIBudgetStatus => {
+    prune();
+    return {
+      limit: config.budgetPerMinute,
+      used: calls.length,
+      remaining: Math.max(0, config.budgetPerMinute - calls.length),
+      resetInMs: calls.length > 0 ? Math.max(0, calls[0] + WINDOW_MS - now()) : 0,
+      inFlight: inFlight.size + (proposal ? 1 : 0),
+      cached: cache.size
+    };
+  };
+
+  return { request, propose, cancelAnalyses, cancelProposal, cancelAll, configure, status, config: () => config };
+};
+
+export type AIScheduler = ReturnType<typeof createAIScheduler>;
@@ -1,5 +1,5 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { AttackType, NodeState } from "../types";
+import { AIKernelProvider, AIKernelError, TopologyRequest, buildAnalysisPrompt, buildTopologyPrompt } from "./aiKernel";
 
 const apiKey = process.env.API_KEY || '';
 let ai: GoogleGenAI | null = null;
@@ -8,70 +8,68 @@ if (apiKey) {
   ai = new GoogleGenAI({ apiKey });
 }
 
-export const generateSystemAnalysis = async (
-  attackType: AttackType,
-  activeNodeCount: number,
-  compromisedNodeCount: number,
-  currentFrequency: number
-): Promise<string> => {
-  if (!ai) {
-    return "System Intelligence Offline: API Key missing.";
-  }
+const model = "gemini-2.5-flash";
 
-  const model = "gemini-2.5-flash";
-  
-  // Explicitly frame this as a fictional simulation to avoid safety filters on "attacks"
-  const prompt = `
-    Context: You are the AI kernel for a fictional cyberpunk network simulation game called "Lamarr-Turing Graph".
-    
-    Scenario Status:
-    - Threat Level: ${attackType}
-    - Network Health: ${activeNodeCount - compromisedNodeCount}/${activeNodeCount} nodes active
-    - Frequency: ${currentFrequency} MHz
-    
-    Task: Provide a concise, cool-sounding status log (max 2 sentences).
-    First sentence: Describe the threat or system status using technobabble.
-    Second sentence: Describe a countermeasure (e.g., "Rerouting via spread-spectrum", "Isolating compromised nodes").
-    
-    Keep it safe, fictional, and atmospheric.
-  `;
+export const geminiProvider: AIKernelProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  unavailableReason: () => (ai ? null : 'API key missing'),
+  analyze: async (situation, signal) => {
+    if (!ai) throw new AIKernelError('gemini', 'API key missing');
 
-  try {
-    const response = await ai.models.generateContent({
-      model,
-      contents: prompt,
-      config: {
-        maxOutputTokens: 100,
-        temperature: 0.7
-      }
-    });
-    return response.text || "Analysis encrypted. Decryption failed.";
-  } catch (error) {
-    console.error("Gemini analysis failed:", error);
-    return "Kernel Error: Uplink unstable.";
-  }
+    try {
+      const response = await ai.models.generateContent({
+        model,
+        contents: buildAnalysisPrompt(situation),
+        config: {
+          maxOutputTokens: 100,
+          temperature: 0.7,
+          abortSignal: signal
+        }
+      });
+      if (!response.text) throw new AIKernelError('gemini', 'empty response');
+      return response.text;
+    } catch (error) {
+      if (error instanceof AIKernelError || signal?.aborted) throw error;
+      console.error("Gemini analysis failed:", error);
+      throw new AIKernelError('gemini', 'uplink unstable');
+    }
+  },
+  proposeTopology: (request, signal) => generateTopologyOptimization(request, signal)
+};
+
+const linkChange = {
+  type: Type.OBJECT,
+  properties: { source: { type: Type.STRING }, target: { type: Type.STRING }, reason: { type: Type.STRING } },
+  required: ['source', 'target']
 };
 
-export const generateTopologyOptimization = async (): Promise<any> => {
-  if (!ai) return null;
-  
+// Topology proposal for the live network; parsed and validated by the caller
+export const generateTopologyOptimization = async (request: TopologyRequest, signal?: AbortSignal): Promise<unknown> => {
+  if (!ai) throw new AIKernelError('gemini', 'API key missing');
+
   try {
     const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: "Generate a JSON config for a secure network topology with 5 nodes.",
+        model,
+        contents: buildTopologyPrompt(request),
         config: {
             responseMimeType: "application/json",
             responseSchema: {
                 type: Type.OBJECT,
                 properties: {
-                    nodes: { type: Type.ARRAY, items: { type: Type.STRING } },
-                    connections: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { from: {type: Type.STRING}, to: {type: Type.STRING} } } }
+                    addLinks: { type: Type.ARRAY, items: linkChange },
+                    removeLinks: { type: Type.ARRAY, items: linkChange },
+                    harden: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { nodeId: { type: Type.STRING }, reason: { type: Type.STRING } }, required: ['nodeId'] } },
+                    rationale: { type: Type.STRING }
                 }
-            }
+            },
+            abortSignal: signal
         }
     });
     return JSON.parse(response.text || '{}');
-  } catch (e) {
-    return null;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error("Gemini topology optimisation failed:", error);
+    throw new AIKernelError('gemini', error instanceof SyntaxError ? 'malformed JSON' : 'uplink unstable');
   }
-}
\ No newline at end of file
+};
@@ -0,0 +1,80 @@
+import { AttackType } from "../types";
+import { AIKernelProvider, ThreatSituation } from "./aiKernel";
+import { ruleBasedProposal } from "../simulation/optimization";
+
+export type ThreatSeverity = 'nominal' | 'contained' | 'degraded' | 'critical';
+
+// By the share of routers the attacker holds
+export const severityOf = ({ attackType, activeNodeCount, compromisedNodeCount }: ThreatSituation): ThreatSeverity => {
+  if (attackType === AttackType.NONE && compromisedNodeCount === 0) return 'nominal';
+  const share = activeNodeCount > 0 ? compromisedNodeCount / activeNodeCount : 0;
+  if (share === 0) return 'contained';
+  return share < 0.3 ? 'degraded' : 'critical';
+};
+
+// First sentence: what the kernel sees. {freq}, {healthy}, {total} and {compromised} are filled in.
+const THREATS: Record<AttackType, string[]> = {
+  [AttackType.NONE]: [
+    'Carrier sweep at {freq} MHz shows a clean spectrum across {healthy}/{total} nodes.',
+    'Mesh heartbeat steady on {freq} MHz; {healthy}/{total} nodes answering.'
+  ],
+  [AttackType.SNIFFING]: [
+    'Passive tap detected riding the {freq} MHz carrier; {compromised} node(s) leaking frame headers.',
+    'Side-channel listener correlating hop timing at {freq} MHz; {healthy}/{total} nodes still dark to it.'
+  ],
+  [AttackType.MITM]: [
+    'Forged handshakes intercepted on the {freq} MHz band; {compromised} relay(s) splicing the session.',
+    'Certificate drift on {compromised} relay(s) signals an interposed proxy near {freq} MHz.'
+  ],
+  [AttackType.HIJACKING]: [
+    'Route table poisoning in progress; {compromised} router(s) advertising false paths on {freq} MHz.',
+    'Control plane seized on {compromised} node(s); traffic bent away from the {freq} MHz trunk.'
+  ],
+  [AttackType.JAMMING]: [
+    'Broadband noise floor raised around {freq} MHz; {healthy}/{total} nodes holding sync.',
+    'Narrowband interferer locked onto {freq} MHz; packet loss climbing on the jammed channels.'
+  ]
+};
+
+// Second sentence: what it does about it
+const COUNTERMEASURES: Record<ThreatSeverity, string[]> = {
+  nominal: [
+    'Maintaining passive watch and pre-seeding the next hop sequence.',
+    'Holding mitigation in reserve while traffic flows.'
+  ],
+  contained: [
+    'Accelerating frequency hopping to stay ahead of the adversary.',
+    'Tightening link keys and rerouting via spread-spectrum.'
+  ],
+  degraded: [
+    'Quarantining the breached nodes and rerouting around them.',
+    'Rotating session keys and steering traffic onto clean paths.'
+  ],
+  critical: [
+    'Mesh largely hostile: isolating breached segments and falling back to the shortest clean route.',
+    'Emergency protocol engaged: mass quarantine, key rotation and maximum hop rate.'
+  ]
+};
+
+const fill = (template: string, s: ThreatSituation) => template
+  .replace('{freq}', String(s.frequency))
+  .replace('{healthy}', String(s.activeNodeCount - s.compromisedNodeCount))
+  .replace('{total}', String(s.activeNodeCount))
+  .replace('{compromised}', String(s.compromisedNodeCount));
+
+// Same situation, same words: the variant only depends on what is being described
+export const offlineAnalysis = (situation: ThreatSituation): string => {
+  const threats = THREATS[situation.attackType];
+  const measures = COUNTERMEASURES[severityOf(situation)];
+  const variant = situation.compromisedNodeCount + Math.round(situation.frequency);
+  return `${fill(threats[variant % threats.length], situation)} ${measures[variant % measures.length]}`;
+};
+
+// Template-based kernel that needs no network, for offline labs and as the fallback for the others
+export const offlineProvider: AIKernelProvider = {
+  id: 'offline',
+  label: 'Offline (rule-based)',
+  unavailableReason: () => null,
+  analyze: async situation => offlineAnalysis(situation),
+  proposeTopology: async request => ruleBasedProposal(request)
+};
@@ -0,0 +1,60 @@
+import { AIKernelProvider, AIKernelError, OpenAICompatibleConfig, buildAnalysisPrompt, buildTopologyPrompt } from "./aiKernel";
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+}
+
+// Local models often wrap JSON in a markdown fence despite being asked not to
+const stripFence = (text: string) => text.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+// Any server speaking the OpenAI chat completions API: Ollama, llama.cpp, vLLM, LM Studio...
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): AIKernelProvider => {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const complete = async (prompt: string, options: Record<string, unknown>, signal?: AbortSignal): Promise<string> => {
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: config.model,
+          messages: [{ role: 'user', content: prompt }],
+          ...options
+        }),
+        signal
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error("OpenAI-compatible request failed:", error);
+      throw new AIKernelError('openai', `${endpoint} unreachable`);
+    }
+
+    if (!response.ok) throw new AIKernelError('openai', `HTTP ${response.status} from ${endpoint}`);
+    const data = await response.json() as ChatCompletionResponse;
+    const text = data.choices?.[0]?.message?.content?.trim();
+    if (!text) throw new AIKernelError('openai', 'empty response');
+    return text;
+  };
+
+  return {
+    id: 'openai',
+    label: `OpenAI-compatible (${config.model})`,
+    unavailableReason: () => {
+      if (!config.baseUrl.trim()) return 'no endpoint configured';
+      return config.model.trim() ? null : 'no model configured';
+    },
+    analyze: (situation, signal) => complete(buildAnalysisPrompt(situation), { max_tokens: 100, temperature: 0.7 }, signal),
+    proposeTopology: async (request, signal) => {
+      const text = await complete(buildTopologyPrompt(request), { temperature: 0.2, response_format: { type: 'json_object' } }, signal);
+      try {
+        return JSON.parse(stripFence(text));
+      } catch {
+        throw new AIKernelError('openai', 'malformed JSON');
+      }
+    }
+  };
+};
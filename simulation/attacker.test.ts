@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { AttackType, GraphLink, GraphNode, NodeState } from '../types';
+import { getAttackFrontier, compromiseChance, entryCandidates } from './attacker';
+import { createSimulationState, step, SimulationState } from './engine';
+import { getNeighbours } from './graph';
+
+const makeNode = (id: string, state = NodeState.IDLE): GraphNode => ({
+    id, type: id === 'SRC' ? 'source' : id === 'DST' ? 'target' : 'router', state, label: id
+});
+const makeLink = (source: string, target: string, isCompromised = false): GraphLink => ({
+    source, target, frequency: 100, active: false, isCompromised, isJammed: false, isFailed: false
+});
+
+describe('lateral-movement attacker', () => {
+    // SRC - N1 - N2 - N3 - DST, with N4 hanging off N2
+    const nodes = ['SRC', 'N1', 'N2', 'N3', 'N4', 'DST'].map(id => makeNode(id));
+    const links = [makeLink('SRC', 'N1'), makeLink('N1', 'N2'), makeLink('N2', 'N3'), makeLink('N3', 'DST'), makeLink('N2', 'N4')];
+
+    it('should only reach neighbours of controlled nodes', () => {
+        const frontier = getAttackFrontier(nodes, links, ['N2']);
+        expect(frontier.map(e => e.to).sort()).toEqual(['N1', 'N3', 'N4']);
+        expect(frontier.every(e => e.from === 'N2')).toBe(true);
+    });
+
+    it('should never target endpoints or locked nodes', () => {
+        const locked = nodes.map(n => n.id === 'N4' ? makeNode('N4', NodeState.LOCKED) : n);
+
+        expect(getAttackFrontier(locked, links, ['N1', 'N2', 'N3']).map(e => e.to)).toEqual([]);
+        expect(entryCandidates(locked).map(n => n.id)).toEqual(['N1', 'N2', 'N3']);
+    });
+
+    it('should weigh node state, tapped links and mitigation', () => {
+        const idle = makeNode('N1');
+        const hopping = makeNode('N1', NodeState.HOPPING);
+        const tapped = makeLink('N1', 'N2', true);
+        const untapped = makeLink('N1', 'N2');
+
+        expect(compromiseChance(AttackType.MITM, idle, tapped, 0)).toBeGreaterThan(compromiseChance(AttackType.MITM, idle, untapped, 0));
+        expect(compromiseChance(AttackType.MITM, hopping, tapped, 0)).toBeLessThan(compromiseChance(AttackType.MITM, idle, tapped, 0));
+        expect(compromiseChance(AttackType.MITM, idle, tapped, 0.9)).toBeLessThan(compromiseChance(AttackType.MITM, idle, tapped, 0));
+        expect(compromiseChance(AttackType.JAMMING, idle, tapped, 0)).toBe(0);
+    });
+
+    it('should spread from the entry point through adjacent nodes only', () => {
+        let state: SimulationState = createSimulationState(21, { mitigation: { enabled: false } });
+        const started = step(state, 0, [{ type: 'SET_ATTACK', attackType: AttackType.HIJACKING }]);
+        state = started.state;
+        const entryPoint = state.attacker.entryPoint!;
+        expect(entryPoint).toMatch(/^N\d+$/);
+
+        const order: string[] = [];
+        for (let t = 0; t < 30000; t += 100) {
+            const result = step(state, 100);
+            const controlledBefore = new Set(state.attacker.footholds);
+            result.state.attacker.footholds.filter(id => !controlledBefore.has(id)).forEach(id => {
+                // Every new foothold is the entry point or borders one held at the time
+                const neighbours = getNeighbours(result.state.links, id);
+                expect(id === entryPoint || neighbours.some(n => controlledBefore.has(n))).toBe(true);
+                controlledBefore.add(id);
+                order.push(id);
+            });
+            state = result.state;
+        }
+
+        expect(order[0]).toBe(entryPoint);
+        expect(order.length).toBeGreaterThan(1);
+        expect(state.attacker.footholds.every(id => state.nodes.find(n => n.id === id)!.state === NodeState.COMPROMISED)).toBe(true);
+    });
+});
@@ -0,0 +1,93 @@
+import { GraphNode, GraphLink, NodeState, AttackType } from '../types';
+import { getId, isLinkDown } from './graph';
+
+/**
+ * Intruder that starts from one entry point and can only move to neighbours of
+ * nodes it already controls. The radio part never knows the hopping key.
+ */
+export interface AttackerState {
+    entryPoint: string | null;
+    footholds: string[]; // compromised nodes the attacker currently controls
+    tunedFrequency: number | null;
+    locked: boolean; // last attempt matched a link, so stay on this channel
+}
+
+export interface FrontierEdge {
+    from: string; // foothold
+    to: string; // neighbour the attacker can try next
+    link: GraphLink;
+}
+
+export const createAttacker = (): AttackerState => ({ entryPoint: null, footholds: [], tunedFrequency: null, locked: false });
+
+// Chance that one attempt succeeds against an IDLE node over an untapped link
+const BASE_SUCCESS: Partial<Record<AttackType, number>> = {
+    [AttackType.SNIFFING]: 0.3,
+    [AttackType.MITM]: 0.45,
+    [AttackType.HIJACKING]: 0.6
+};
+
+const STATE_FACTOR: Record<NodeState, number> = {
+    [NodeState.IDLE]: 1,
+    [NodeState.ROUTING]: 1.2, // busy forwarding, slow to notice
+    [NodeState.ANALYZING]: 0.6, // traffic is being inspected
+    [NodeState.HOPPING]: 0.5,
+    [NodeState.COMPROMISED]: 0,
+    [NodeState.LOCKED]: 0,
+    [NodeState.FAILED]: 0
+};
+
+const TAPPED_LINK_FACTOR = 1.5; // link currently on the attacker's channel
+const UNTAPPED_LINK_FACTOR = 0.6;
+const MITIGATION_FACTOR = 0.8; // share of an attempt that full mitigation blocks
+const HARDENED_FACTOR = 0.4;
+
+const isTargetable = (node: GraphNode | undefined): node is GraphNode =>
+    !!node && node.type === 'router' && STATE_FACTOR[node.state] > 0;
+
+// Routers the attacker could use to get in
+export const entryCandidates = (nodes: GraphNode[]): GraphNode[] => nodes.filter(isTargetable);
+
+export const getAttackFrontier = (nodes: GraphNode[], links: GraphLink[], footholds: string[]): FrontierEdge[] => {
+    const controlled = new Set(footholds);
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const frontier: FrontierEdge[] = [];
+
+    links.forEach(link => {
+        if (isLinkDown(link, nodes)) return;
+        const u = getId(link.source);
+        const v = getId(link.target);
+        if (controlled.has(u) && !controlled.has(v) && isTargetable(byId.get(v))) frontier.push({ from: u, to: v, link });
+        if (controlled.has(v) && !controlled.has(u) && isTargetable(byId.get(u))) frontier.push({ from: v, to: u, link });
+    });
+
+    return frontier;
+};
+
+export const compromiseChance = (
+    attackType: AttackType,
+    target: GraphNode,
+    link: GraphLink | null, // null for the initial break-in at the entry point
+    mitigationStrength: number
+): number => {
+    const base = BASE_SUCCESS[attackType] ?? 0;
+    const linkFactor = link === null ? 1 : link.isCompromised ? TAPPED_LINK_FACTOR : UNTAPPED_LINK_FACTOR;
+    const hardening = target.hardened ? HARDENED_FACTOR : 1;
+    const chance = base * STATE_FACTOR[target.state] * linkFactor * hardening * (1 - mitigationStrength * MITIGATION_FACTOR);
+    return Math.max(0, Math.min(1, chance));
+};
+
+// Chance that a compromised router swallows a packet instead of forwarding it; sniffers only listen
+const INTERCEPT_CHANCE: Partial<Record<AttackType, number>> = {
+    [AttackType.MITM]: 0.3,
+    [AttackType.HIJACKING]: 0.7
+};
+
+export const interceptChance = (attackType: AttackType): number => INTERCEPT_CHANCE[attackType] ?? 0;
+
+// Chance that a compromised router under MITM rewrites a packet it forwards
+const TAMPER_CHANCE: Partial<Record<AttackType, number>> = {
+    [AttackType.MITM]: 0.5
+};
+
+export const tamperChance = (attackType: AttackType): number => TAMPER_CHANCE[attackType] ?? 0;
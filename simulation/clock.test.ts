@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { SIMULATION_TICK_MS } from '../constants';
+import { clampSpeed, frameAdvance, DEFAULT_CLOCK, MAX_FRAME_MS, STEP_MS } from './clock';
+import { createSimulationState, step, SimulationState } from './engine';
+
+// Drives the engine the way the UI does: one frameAdvance per animation frame
+const runFrames = (state: SimulationState, frames: number, frameMs: number, speed: number) => {
+    let current = state;
+    for (let i = 0; i < frames; i++) {
+        current = step(current, frameAdvance({ paused: false, speed }, frameMs)).state;
+    }
+    return current;
+};
+
+describe('simulation clock', () => {
+    it('should scale frames by speed and cap long ones', () => {
+        expect(frameAdvance(DEFAULT_CLOCK, 16)).toBe(16);
+        expect(frameAdvance({ paused: false, speed: 0.5 }, 16)).toBe(8);
+        expect(frameAdvance({ paused: false, speed: 10 }, 5000)).toBe(MAX_FRAME_MS * 10);
+        expect(frameAdvance({ paused: true, speed: 2 }, 16)).toBe(0);
+        expect([clampSpeed(0), clampSpeed(50), clampSpeed(NaN), clampSpeed(2.5)]).toEqual([0.1, 10, 1, 2.5]);
+    });
+
+    it('should move packets by simulated time, not by frame count', () => {
+        // Two seconds at 60 fps and 1x, at 30 fps and 1x, and at 60 fps but 2x for half the frames
+        const a = runFrames(createSimulationState(11), 120, 1000 / 60, 1);
+        const b = runFrames(createSimulationState(11), 60, 1000 / 30, 1);
+        const c = runFrames(createSimulationState(11), 60, 1000 / 60, 2);
+
+        expect(a.packets.length).toBeGreaterThan(0);
+        expect(b.packets).toEqual(a.packets);
+        expect(c.packets).toEqual(a.packets);
+    });
+
+    it('should advance exactly one tick per single step', () => {
+        let state = step(createSimulationState(11), 1010).state; // leaves a partial tick pending
+        const before = state.time;
+        state = step(state, STEP_MS).state;
+
+        expect(state.time - before).toBe(SIMULATION_TICK_MS);
+    });
+});
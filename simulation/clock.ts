@@ -0,0 +1,29 @@
+import { SIMULATION_TICK_MS } from '../constants';
+
+// The simulation clock turns wall time into simulated time; the engine only ever sees the latter
+
+export const MIN_CLOCK_SPEED = 0.1;
+export const MAX_CLOCK_SPEED = 10;
+export const CLOCK_SPEED_PRESETS = [0.1, 0.25, 0.5, 1, 2, 5, 10];
+
+// Longest wall-clock frame we simulate in one go (e.g. after the tab was in the background)
+export const MAX_FRAME_MS = 250;
+
+export interface ClockState {
+    paused: boolean;
+    speed: number; // simulated ms per wall-clock ms
+}
+
+export const DEFAULT_CLOCK: ClockState = { paused: false, speed: 1 };
+
+export const clampSpeed = (speed: number): number =>
+    Number.isFinite(speed) ? Math.min(MAX_CLOCK_SPEED, Math.max(MIN_CLOCK_SPEED, speed)) : 1;
+
+// Simulated ms to advance for a frame that took `wallMs`
+export const frameAdvance = (clock: ClockState, wallMs: number): number =>
+    clock.paused ? 0 : Math.min(Math.max(wallMs, 0), MAX_FRAME_MS) * clock.speed;
+
+// A single step always covers exactly one engine tick, whatever the speed
+export const STEP_MS = SIMULATION_TICK_MS;
+
+export const formatSpeed = (speed: number): string => `${+speed.toFixed(2)}x`;
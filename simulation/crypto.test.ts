@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { AttackType } from '../types';
+import { deriveSessionKey, nonceFor, sealPayload, openPayload, flipByte, encodeText, decodeText } from './crypto';
+import { createPayloadCipher, CipherLogEntry } from './payloadCipher';
+import { createKeyExchange } from './keyExchange';
+import { createSimulationState, step, SimulationEmission, SimulationEvent, SimulationOptions } from './engine';
+
+// Drive the engine, the key exchange and the payload cipher together, as the UI does
+const run = async (options: SimulationOptions, events: SimulationEvent[], totalMs: number) => {
+    const logs: CipherLogEntry[] = [];
+    const keyExchange = createKeyExchange(entry => logs.push(entry));
+    const cipher = createPayloadCipher(entry => logs.push(entry), keyExchange.linkKey);
+    const emissions: SimulationEmission[] = [];
+
+    let state = createSimulationState(5, options);
+    const apply = (dt: number, stepEvents: SimulationEvent[] = []) => {
+        const result = step(state, dt, stepEvents);
+        state = result.state;
+        emissions.push(...result.emissions);
+        keyExchange.observe(result.emissions, state);
+        cipher.observe(result.emissions, state);
+    };
+
+    apply(0, events);
+    for (let t = 0; t < totalMs; t += 100) apply(100);
+    await Promise.all([keyExchange.settled(), cipher.settled()]);
+
+    return { report: cipher.report(), logs, emissions };
+};
+
+const ofKind = <K extends SimulationEmission['kind']>(emissions: SimulationEmission[], kind: K) =>
+    emissions.filter((e): e is Extract<SimulationEmission, { kind: K }> => e.kind === kind);
+
+const MITM: SimulationEvent = { type: 'SET_ATTACK', attackType: AttackType.MITM };
+const SNIFFING: SimulationEvent = { type: 'SET_ATTACK', attackType: AttackType.SNIFFING };
+const NO_MITIGATION: SimulationOptions = { mitigation: { enabled: false } };
+
+describe('payload crypto', () => {
+    it('should round-trip AES-GCM and reject modified ciphertext or headers', async () => {
+        const { key } = await deriveSessionKey(1, 1);
+        const sealed = await sealPayload(key, nonceFor(1, 1), encodeText('SEG 000001'), 'data:1');
+
+        expect(decodeText((await openPayload(key, sealed, 'data:1'))!)).toBe('SEG 000001');
+        expect(await openPayload(key, { ...sealed, ciphertext: flipByte(sealed.ciphertext, 3) }, 'data:1')).toBeNull();
+        expect(await openPayload(key, sealed, 'data:2')).toBeNull();
+    });
+
+    it('should derive one key per seed and session', async () => {
+        const [a, again, nextSession, otherSeed] = await Promise.all([
+            deriveSessionKey(1, 1), deriveSessionKey(1, 1), deriveSessionKey(1, 2), deriveSessionKey(2, 1)
+        ]);
+
+        expect(again.fingerprint).toBe(a.fingerprint);
+        expect(nextSession.fingerprint).not.toBe(a.fingerprint);
+        expect(otherSeed.fingerprint).not.toBe(a.fingerprint);
+    });
+
+    it('should catch every MITM modification with the authentication tag', async () => {
+        const { report, logs, emissions } = await run(NO_MITIGATION, [MITM], 90000);
+        const rejected = ofKind(emissions, 'packetDropped').filter(e => e.reason === 'tampered');
+
+        expect(ofKind(emissions, 'packetTampered').every(e => e.tampering === 'ciphertext')).toBe(true);
+        expect(rejected.length).toBeGreaterThan(0);
+        expect(report.tagFailures).toBe(rejected.length);
+        expect(report.undetected).toBe(0);
+        expect(logs.filter(l => l.message.includes('authentication tag mismatch'))).toHaveLength(rejected.length);
+    });
+
+    it('should let tampering through when payloads travel in cleartext', async () => {
+        const { report, emissions } = await run({ ...NO_MITIGATION, encryption: false }, [MITM], 90000);
+
+        expect(report.sealed).toBe(0);
+        expect(report.tagFailures).toBe(0);
+        expect(report.undetected).toBe(ofKind(emissions, 'packetTampered').length);
+        expect(report.undetected).toBeGreaterThan(0);
+    });
+
+    it('should let an attacker holding the session key forge packets', async () => {
+        const { report, emissions } = await run(NO_MITIGATION, [{ type: 'LEAK_SESSION_KEY' }, MITM], 90000);
+
+        expect(ofKind(emissions, 'packetTampered').every(e => e.tampering === 'forged')).toBe(true);
+        expect(report.tagFailures).toBe(0);
+        expect(report.undetected).toBeGreaterThan(0);
+    });
+
+    it('should only show sniffers ciphertext until a key leaks', async () => {
+        const sealed = await run(NO_MITIGATION, [SNIFFING], 60000);
+        const leaked = await run(NO_MITIGATION, [{ type: 'LEAK_SESSION_KEY' }, SNIFFING], 60000);
+
+        expect(sealed.report.opaqueCaptures).toBeGreaterThan(0);
+        expect(sealed.report.readableCaptures).toBe(0);
+        sealed.report.captures.forEach(c => expect(c.content).toMatch(/^[0-9a-f]{24}$/));
+
+        // Captures off tapped links stay under the link key; the ones from compromised routers open
+        expect(leaked.report.readableCaptures).toBeGreaterThan(0);
+        leaked.report.captures.filter(c => c.readable).forEach(c => expect(c.content).toMatch(/^(SEG|ACK) \d{6}/));
+    });
+
+    it('should seal new traffic under a fresh key after rotation', async () => {
+        const { emissions } = await run({}, [{ type: 'LEAK_SESSION_KEY' }, { type: 'ROTATE_SESSION_KEY' }], 5000);
+        const sessions = ofKind(emissions, 'packetSpawned').map(e => e.sessionId);
+
+        expect(sessions.length).toBeGreaterThan(0);
+        expect(sessions.every(id => id === 2)).toBe(true);
+    });
+});
@@ -0,0 +1,92 @@
+import { Packet } from '../types';
+
+/**
+ * End-to-end payload protection between SRC and DST. The engine only tracks
+ * which session sealed a packet and what the attacker did to it; the actual
+ * AES-256-GCM work happens asynchronously in the payload cipher.
+ */
+export interface CipherState {
+    enabled: boolean; // seal new packets; off sends cleartext
+    sessionId: number; // key generation used for new packets
+    leakedSessions: number[]; // session keys the attacker holds
+}
+
+export const createCipherState = (enabled = true): CipherState => ({ enabled, sessionId: 1, leakedSessions: [] });
+
+/**
+ * What an attacker did to a packet in flight:
+ * - ciphertext: bits flipped in sealed data, so the GCM tag check fails
+ * - forged: decrypted, changed and resealed with a leaked key, so it passes
+ * - plaintext: cleartext changed, with nothing to detect it
+ */
+export type Tampering = NonNullable<Packet['tampering']>;
+
+export const payloadFor = (kind: Packet['kind'], seq: number): string => {
+    const id = String(seq).padStart(6, '0');
+    return kind === 'ack' ? `ACK ${id}` : `SEG ${id} LAMARR-TURING TELEMETRY`;
+};
+
+// Additional authenticated data: binds the ciphertext to its header fields
+export const payloadAad = (kind: Packet['kind'], seq: number): string => `${kind}:${seq}`;
+
+// --- WebCrypto ---
+
+export interface SessionKey {
+    sessionId: number;
+    key: CryptoKey;
+    fingerprint: string; // first bytes of SHA-256 over the raw key, for display
+}
+
+export interface SealedPayload {
+    iv: Uint8Array;
+    ciphertext: Uint8Array; // includes the 16-byte GCM tag
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const toHex = (bytes: Uint8Array): string => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Keys are derived from the seed so a run's ciphertexts are reproducible;
+ * they are still real 256-bit AES-GCM keys inside WebCrypto.
+ */
+export const deriveSessionKey = async (seed: number, sessionId: number): Promise<SessionKey> => {
+    const raw = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(`lt-graph/session/${seed}/${sessionId}`)));
+    const key = await crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', raw));
+    return { sessionId, key, fingerprint: toHex(digest.slice(0, 6)) };
+};
+
+// 96-bit nonce: session id and a per-session counter, never reused under one key
+export const nonceFor = (sessionId: number, counter: number): Uint8Array => {
+    const iv = new Uint8Array(12);
+    const view = new DataView(iv.buffer);
+    view.setUint32(0, sessionId);
+    view.setUint32(8, counter);
+    return iv;
+};
+
+export const sealPayload = async (key: CryptoKey, iv: Uint8Array, plaintext: Uint8Array, aad: string): Promise<SealedPayload> => {
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: encoder.encode(aad) }, key, plaintext);
+    return { iv, ciphertext: new Uint8Array(ciphertext) };
+};
+
+// Null when the authentication tag does not match
+export const openPayload = async (key: CryptoKey, sealed: SealedPayload, aad: string): Promise<Uint8Array | null> => {
+    try {
+        const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv, additionalData: encoder.encode(aad) }, key, sealed.ciphertext);
+        return new Uint8Array(plaintext);
+    } catch {
+        return null;
+    }
+};
+
+export const flipByte = (bytes: Uint8Array, index: number): Uint8Array => {
+    const copy = bytes.slice();
+    copy[index % copy.length] ^= 0x20;
+    return copy;
+};
+
+export const encodeText = (text: string): Uint8Array => encoder.encode(text);
+export const decodeText = (bytes: Uint8Array): string => decoder.decode(bytes);
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { createSimulationState, step, SimulationState } from './engine';
+import { AttackType, NodeState } from '../types';
+
+const runFor = (state: SimulationState, totalMs: number, sliceMs: number) => {
+    let current = state;
+    const emissions = [];
+    for (let t = 0; t < totalMs; t += sliceMs) {
+        const result = step(current, sliceMs);
+        current = result.state;
+        emissions.push(...result.emissions);
+    }
+    return { state: current, emissions };
+};
+
+describe('simulation engine', () => {
+    it('should not mutate the input state', () => {
+        const initial = createSimulationState(42);
+        const snapshot = JSON.stringify(initial);
+
+        step(initial, 5000, [{ type: 'SET_ATTACK', attackType: AttackType.MITM }]);
+
+        expect(JSON.stringify(initial)).toBe(snapshot);
+    });
+
+    it('should be deterministic regardless of how time is sliced', () => {
+        const a = runFor(createSimulationState(7), 10000, 20);
+        const b = runFor(createSimulationState(7), 10000, 100);
+
+        expect(b.state).toEqual(a.state);
+        expect(b.emissions).toEqual(a.emissions);
+    });
+
+    it('should deliver packets from SRC to DST', () => {
+        const { emissions } = runFor(createSimulationState(3), 15000, 100);
+
+        expect(emissions.some(e => e.kind === 'packetSpawned')).toBe(true);
+        expect(emissions.some(e => e.kind === 'packetDelivered')).toBe(true);
+    });
+
+    it('should compromise nodes during an attack and restore them when stopped', () => {
+        let state = step(createSimulationState(11), 0, [{ type: 'SET_ATTACK', attackType: AttackType.HIJACKING }]).state;
+        expect(state.mitigationStrength).toBeCloseTo(0.2);
+
+        const attacked = runFor(state, 6000, 50);
+        state = attacked.state;
+        expect(attacked.emissions).toContainEqual(expect.objectContaining({ kind: 'nodeState', to: NodeState.COMPROMISED }));
+        const compromised = state.nodes.filter(n => n.state === NodeState.COMPROMISED);
+        expect(compromised.every(n => n.id !== 'SRC' && n.id !== 'DST')).toBe(true);
+
+        const { state: stopped, emissions } = step(state, 0, [{ type: 'TOGGLE_ATTACK', attackType: AttackType.HIJACKING }]);
+        expect(stopped.attackType).toBe(AttackType.NONE);
+        expect(stopped.mitigationStrength).toBe(0);
+        expect(stopped.nodes.some(n => n.state === NodeState.COMPROMISED)).toBe(false);
+        expect(stopped.links.some(l => l.isCompromised)).toBe(false);
+        expect(emissions).toContainEqual(expect.objectContaining({ kind: 'log', message: 'Stopped HIJACKING simulation.' }));
+    });
+});
@@ -0,0 +1,1382 @@
+import { GraphNode, GraphLink, Packet, NodeState, AttackType, LogEntry } from '../types';
+import {
+    SIMULATION_TICK_MS, PACKET_SPEED_PER_SECOND, PACKET_SPAWN_CHANCE,
+    ATTACK_INTERVAL_MS, MITIGATION_STEP_MS,
+    JAMMED_SPEED_FACTOR, JAM_DROP_RATE_PER_SECOND,
+    AUTO_QUARANTINE_STRENGTH, AUTO_QUARANTINE_MIN_MS, MAX_DEFENSE_QUARANTINES
+} from '../constants';
+import { Rng, createRng, normalizeSeed, DEFAULT_SEED } from './random';
+import { getId, edgeKey, findLink, getNeighbours, isLinkDown } from './graph';
+import { computeRoute } from './routing';
+import { HoppingConfig, DEFAULT_HOPPING, CONTROL_CHANNEL_ID, channelFor, linkId } from './hopping';
+import { AttackerState, createAttacker, entryCandidates, getAttackFrontier, compromiseChance, interceptChance, tamperChance } from './attacker';
+import { JammerConfig, Jammer, DEFAULT_JAMMERS, createJammers, isJammed, advanceJammers, describeJammer } from './jamming';
+import { NODE_MACHINE, NodeEvent, NodeAction, resolveTransition } from './nodeMachine';
+import { Quarantine, QuarantineRelease, canQuarantine, shouldRelease, describeRelease } from './quarantine';
+import { NodeStats, createNodeStats, withTransition, withPacketProcessed } from './nodeStats';
+import { CipherState, Tampering, createCipherState, payloadFor } from './crypto';
+import {
+    KeyingConfig, DEFAULT_KEYING, LinkKey, LeakedKey, KeyExchangeReason, isLinkUp, isKeyLeaked, liveLeaks, linkKeyExposed
+} from './keying';
+import {
+    TransportConfig, DEFAULT_TRANSPORT, PendingSegment, LostPacket, PacketDropReason, LOST_MARKER_MS, pendingOutcome, describeTransport
+} from './transport';
+import { GraphEdit, checkGraphEdit, describeGraphEdit } from './graphEdits';
+import { FaultConfig, DEFAULT_FAULTS, Fault, FaultCause, profileFor, sampleDelay, regionAround, formatDuration, describeFaults } from './faults';
+import { TopologyConfig, DEFAULT_TOPOLOGY, endpointsOf, generateTopology, describeTopology, hasPath } from './topology';
+
+// Adaptive mitigation ramp applied while an attack is active
+export interface MitigationSettings {
+    enabled: boolean;
+    initialStrength: number;
+    stepStrength: number; // added every MITIGATION_STEP_MS
+    maxStrength: number;
+    autoQuarantine: boolean; // lock compromised nodes once strength reaches AUTO_QUARANTINE_STRENGTH
+}
+
+export const DEFAULT_MITIGATION: MitigationSettings = {
+    enabled: true,
+    initialStrength: 0.2,
+    stepStrength: 0.15,
+    maxStrength: 0.95,
+    autoQuarantine: true
+};
+
+// An input applied once simulated time reaches `at` (ms)
+export interface ScheduledEvent {
+    at: number;
+    event: SimulationEvent;
+}
+
+export interface SimulationOptions {
+    mitigation?: Partial<MitigationSettings>;
+    topology?: TopologyConfig;
+    hopping?: Partial<HoppingConfig>; // key defaults to one derived from the seed
+    jammers?: JammerConfig[]; // deployed when a JAMMING attack starts
+    transport?: Partial<TransportConfig>;
+    encryption?: boolean; // seal payloads with AES-256-GCM (default on)
+    keying?: Partial<KeyingConfig>;
+    faults?: Partial<FaultConfig>;
+}
+
+/**
+ * Complete, serializable simulation state. Owned by `step`; React hooks and the
+ * headless runner only ever read snapshots of it.
+ */
+export interface SimulationState {
+    time: number; // simulated ms since start
+    tickRemainder: number; // ms carried into the next step (less than one tick)
+    seed: number;
+    rngState: number;
+    topology: TopologyConfig;
+    nodes: GraphNode[];
+    links: GraphLink[];
+    packets: Packet[];
+    packetCounter: number;
+    transport: TransportConfig;
+    nextSeq: number;
+    pending: PendingSegment[]; // data SRC is waiting to see acknowledged
+    lostPackets: LostPacket[]; // drops from the last LOST_MARKER_MS
+    cipher: CipherState;
+    keying: KeyingConfig;
+    linkKeys: Record<string, LinkKey>; // by linkId
+    leakedKeys: LeakedKey[]; // every link key the attacker has obtained
+    hopping: HoppingConfig;
+    hopSlot: number;
+    frequency: number; // control channel for the current slot (shown in the header)
+    attacker: AttackerState;
+    jammerConfigs: JammerConfig[];
+    jammers: Jammer[]; // live jammers; empty unless a JAMMING attack is running
+    attackType: AttackType;
+    mitigation: MitigationSettings;
+    mitigationStrength: number;
+    stateTimers: Record<string, number>; // nodeId -> time its transient state expires
+    quarantines: Quarantine[]; // one per LOCKED node
+    nodeStats: Record<string, NodeStats>; // by nodeId
+    faults: FaultConfig;
+    activeFaults: Fault[]; // links and routers down right now
+    nextFaultAt: Record<string, number>; // by link or node id, while random faults are on
+    nextOutageAt: number | null; // next regional outage; null until scheduled
+    nextHopAt: number;
+    nextAttackAt: number | null; // null while no attack is running
+    nextMitigationAt: number | null;
+    schedule: ScheduledEvent[]; // pending scripted events, in time order
+}
+
+// Inputs applied at the start of a step
+export type SimulationEvent =
+    | { type: 'RESET'; seed: number; topology?: TopologyConfig }
+    | { type: 'TOGGLE_ATTACK'; attackType: AttackType }
+    | { type: 'SET_ATTACK'; attackType: AttackType; target?: string } // target: entry point instead of a random router
+    | { type: 'PACKET_ARRIVAL'; nodeId: string }
+    | { type: 'SET_HOPPING'; hopping: Partial<Omit<HoppingConfig, 'key'>> }
+    | { type: 'SET_JAMMERS'; jammers: JammerConfig[] }
+    | { type: 'SET_TRANSPORT'; transport: Partial<TransportConfig> }
+    | { type: 'SET_ENCRYPTION'; enabled: boolean }
+    | { type: 'LEAK_SESSION_KEY' } // hand the current session key to the attacker
+    | { type: 'ROTATE_SESSION_KEY' }
+    | { type: 'SET_KEYING'; keying: Partial<KeyingConfig> }
+    | { type: 'LOCK_NODE'; nodeId: string; release: QuarantineRelease }
+    | { type: 'UNLOCK_NODE'; nodeId: string }
+    | { type: 'COMPROMISE_NODE'; nodeId: string } // operator hands the router to the attacker
+    | { type: 'RESTORE_NODE'; nodeId: string } // operator cleans a compromised router
+    | { type: 'ISOLATE_NODE'; nodeId: string } // take every link of the node down, apart from any faults
+    | { type: 'RECONNECT_NODE'; nodeId: string } // lift the isolation; failed links stay down
+    | { type: 'REMOVE_NODE'; nodeId: string }
+    | { type: 'EDIT_GRAPH'; edit: GraphEdit } // live change from the topology editor; nothing resets
+    | { type: 'SET_MITIGATION'; mitigation: Partial<MitigationSettings> }
+    | { type: 'FAIL_LINK'; source: string; target: string; selfHeal?: boolean } // selfHeal: repaired after a sampled MTTR
+    | { type: 'RESTORE_LINK'; source: string; target: string }
+    | { type: 'FAIL_NODE'; nodeId: string; selfHeal?: boolean }
+    | { type: 'REPAIR_NODE'; nodeId: string }
+    | { type: 'REGIONAL_OUTAGE'; center?: string } // random centre when left out
+    | { type: 'SET_FAULTS'; faults: Partial<FaultConfig> }
+    | { type: 'SCHEDULE'; events: ScheduledEvent[] };
+
+// Outputs produced while stepping
+export type SimulationEmission =
+    | { kind: 'log'; time: number; source: LogEntry['source']; message: string; level: LogEntry['type'] }
+    | { kind: 'nodeState'; time: number; nodeId: string; from: NodeState; to: NodeState }
+    | {
+        kind: 'packetSpawned'; time: number; packetId: string; packetKind: Packet['kind']; seq: number; attempt: number; route: string[];
+        payload: string; sessionId: number | null; // null: sent in cleartext
+    }
+    | { kind: 'packetDelivered'; time: number; packetId: string; packetKind: Packet['kind']; seq: number; hops: number }
+    | { kind: 'packetDropped'; time: number; packetId: string; packetKind: Packet['kind']; seq: number; nodeId: string; reason: PacketDropReason }
+    | { kind: 'packetAcked'; time: number; seq: number; attempts: number; elapsedMs: number } // elapsedMs since the first transmission
+    | { kind: 'packetLost'; time: number; seq: number; attempts: number } // SRC gave up on the segment
+    | { kind: 'packetTampered'; time: number; packetId: string; nodeId: string; tampering: Tampering; byteIndex: number }
+    | {
+        kind: 'packetSniffed'; time: number; packetId: string; nodeId: string;
+        linkId: string | null; epoch: number | null; // link it was captured on and that link's key
+        linkStripped: boolean; // attacker got past the link layer
+        readable: boolean;
+    }
+    | { kind: 'keyExchange'; time: number; linkId: string; epoch: number; reason: KeyExchangeReason }
+    | { kind: 'keyLeaked'; time: number; linkId: string; epoch: number; nodeId: string }
+    | { kind: 'frequencyHop'; time: number; frequency: number }
+    | { kind: 'attack'; time: number; attackType: AttackType };
+
+export interface StepResult {
+    state: SimulationState;
+    emissions: SimulationEmission[];
+}
+
+// Working copy threaded through a single step
+interface StepContext {
+    state: SimulationState;
+    rng: Rng;
+    emissions: SimulationEmission[];
+}
+
+// Imported links keep the channel they were given as their static channel; hopping moves them like any other
+const channelOf = (topology: TopologyConfig, hopping: HoppingConfig, link: GraphLink, slot: number): number => {
+    const imported = !hopping.enabled && topology.kind === 'custom'
+        ? findLink(topology.links, getId(link.source), getId(link.target))?.frequency
+        : undefined;
+    return imported ?? channelFor(hopping, linkId(link), slot);
+};
+
+export const createSimulationState = (seed: number = DEFAULT_SEED, options: SimulationOptions = {}): SimulationState => {
+    const normalized = normalizeSeed(seed);
+    const rng = createRng(normalized);
+    const topology = options.topology ?? DEFAULT_TOPOLOGY;
+    const { nodes, links } = generateTopology(topology, rng);
+    const hopping: HoppingConfig = {
+        ...DEFAULT_HOPPING,
+        key: rng.int(0xffffffff),
+        ...options.hopping
+    };
+    links.forEach(l => { l.frequency = channelOf(topology, hopping, l, 0); });
+
+    return {
+        time: 0,
+        tickRemainder: 0,
+        seed: normalized,
+        rngState: rng.getState(),
+        topology,
+        nodes,
+        links,
+        packets: [],
+        packetCounter: 0,
+        transport: { ...DEFAULT_TRANSPORT, ...options.transport },
+        nextSeq: 1,
+        pending: [],
+        lostPackets: [],
+        cipher: createCipherState(options.encryption ?? true),
+        keying: { ...DEFAULT_KEYING, ...options.keying },
+        linkKeys: {},
+        leakedKeys: [],
+        hopping,
+        hopSlot: 0,
+        frequency: channelFor(hopping, CONTROL_CHANNEL_ID, 0),
+        attacker: createAttacker(),
+        jammerConfigs: options.jammers ?? DEFAULT_JAMMERS,
+        jammers: [],
+        attackType: AttackType.NONE,
+        mitigation: { ...DEFAULT_MITIGATION, ...options.mitigation },
+        mitigationStrength: 0,
+        stateTimers: {},
+        quarantines: [],
+        nodeStats: createNodeStats(nodes),
+        faults: { ...DEFAULT_FAULTS, ...options.faults },
+        activeFaults: [],
+        nextFaultAt: {},
+        nextOutageAt: null,
+        nextHopAt: hopping.dwellMs,
+        nextAttackAt: null,
+        nextMitigationAt: null,
+        schedule: []
+    };
+};
+
+// Options that rebuild a run with the same settings from a fresh seed (what RESET keeps)
+export const settingsOf = (state: SimulationState): SimulationOptions => {
+    const { key, ...hopping } = state.hopping;
+    return {
+        mitigation: state.mitigation,
+        topology: state.topology,
+        hopping,
+        jammers: state.jammerConfigs,
+        transport: state.transport,
+        encryption: state.cipher.enabled,
+        keying: state.keying,
+        faults: state.faults
+    };
+};
+
+// --- Node state helpers ---
+
+const runNodeAction = (ctx: StepContext, node: GraphNode, action: NodeAction) => {
+    const { state } = ctx;
+    switch (action) {
+        case 'armTimer':
+            state.stateTimers[node.id] = state.time + (NODE_MACHINE.states[node.state].after ?? 0);
+            break;
+        case 'clearTimer':
+            delete state.stateTimers[node.id];
+            break;
+        case 'releaseFoothold':
+            // A node that is no longer compromised is no longer under the attacker's control
+            state.attacker.footholds = state.attacker.footholds.filter(id => id !== node.id);
+            break;
+        case 'leakKeys':
+            leakNodeKeys(ctx, node.id);
+            break;
+    }
+};
+
+// The only way node states change; returns whether the node moved
+const sendNodeEvent = (ctx: StepContext, nodeId: string, event: NodeEvent): boolean => {
+    const { state } = ctx;
+    const node = state.nodes.find(n => n.id === nodeId);
+    if (!node) return false;
+
+    const result = resolveTransition(NODE_MACHINE, event, { node, hoppingEnabled: state.hopping.enabled });
+    if (result.kind === 'illegal') {
+        ctx.emissions.push({ kind: 'log', time: state.time, source: 'SYSTEM', message: `Illegal transition rejected: ${node.id} ${node.state} on ${event}.`, level: 'error' });
+        return false;
+    }
+    if (result.kind !== 'transition') return false;
+
+    const { to } = result.transition;
+    result.exit.forEach(action => runNodeAction(ctx, node, action));
+    ctx.emissions.push({ kind: 'nodeState', time: state.time, nodeId, from: node.state, to });
+    state.nodeStats[nodeId] = withTransition(state.nodeStats[nodeId], node.state, to, state.time);
+    node.state = to;
+    result.enter.forEach(action => runNodeAction(ctx, node, action));
+    return true;
+};
+
+const handlePacketArrival = (ctx: StepContext, nodeId: string) => {
+    const stats = ctx.state.nodeStats[nodeId];
+    if (stats) ctx.state.nodeStats[nodeId] = withPacketProcessed(stats);
+    sendNodeEvent(ctx, nodeId, 'PACKET_ARRIVED');
+};
+
+// Fire TIMEOUT for timed states (see NODE_MACHINE `after`)
+const expireStateTimers = (ctx: StepContext) => {
+    const { state } = ctx;
+    Object.entries(state.stateTimers).forEach(([nodeId, expiresAt]) => {
+        if (expiresAt > state.time) return;
+        delete state.stateTimers[nodeId];
+        sendNodeEvent(ctx, nodeId, 'TIMEOUT');
+    });
+};
+
+// --- Quarantine ---
+
+const lockNode = (ctx: StepContext, nodeId: string, by: Quarantine['by'], release: QuarantineRelease) => {
+    const { state } = ctx;
+    const node = state.nodes.find(n => n.id === nodeId);
+    const source = by === 'operator' ? 'SYSTEM' : 'AI_KERNEL';
+    if (!canQuarantine(node)) {
+        ctx.emissions.push({ kind: 'log', time: state.time, source, message: `Cannot quarantine ${nodeId}.`, level: 'warning' });
+        return;
+    }
+
+    const wasCompromised = node.state === NodeState.COMPROMISED;
+    if (!sendNodeEvent(ctx, nodeId, 'LOCK')) return;
+    state.quarantines.push({ nodeId, lockedAt: state.time, by, release });
+    ctx.emissions.push({
+        kind: 'log', time: state.time, source, level: 'warning',
+        message: `${node.label} quarantined by ${by}${wasCompromised ? ', attacker evicted' : ''} (${describeRelease(release)}).`
+    });
+};
+
+const unlockNode = (ctx: StepContext, nodeId: string, reason: string) => {
+    const { state } = ctx;
+    const quarantine = state.quarantines.find(q => q.nodeId === nodeId);
+    if (!quarantine) return;
+
+    state.quarantines = state.quarantines.filter(q => q !== quarantine);
+    sendNodeEvent(ctx, nodeId, 'UNLOCK');
+    const label = state.nodes.find(n => n.id === nodeId)?.label ?? nodeId;
+    ctx.emissions.push({ kind: 'log', time: state.time, source: 'SYSTEM', message: `${label} released from quarantine (${reason}).`, level: 'success' });
+};
+
+const releaseQuarantines = (ctx: StepContext) => {
+    const { state } = ctx;
+    state.quarantines
+        .filter(q => shouldRelease(q, state.time, state.nodes, state.links))
+        .forEach(q => unlockNode(ctx, q.nodeId, q.release.kind === 'timed' ? 'timer expired' : 'neighbours clean'));
+};
+
+/**
+ * Automated defense: lock the compromised node with the most healthy neighbours,
+ * but never one whose loss would cut SRC off from DST.
+ */
+const autoQuarantine = (ctx: StepContext) => {
+    const { state } = ctx;
+    if (!state.mitigation.autoQuarantine || state.mitigationStrength < AUTO_QUARANTINE_STRENGTH) return;
+    if (state.quarantines.filter(q => q.by === 'defense').length >= MAX_DEFENSE_QUARANTINES) return;
+
+    const lockedIds = new Set(state.nodes.filter(n => n.state === NodeState.LOCKED).map(n => n.id));
+    const { source, target } = endpointsOf(state.nodes);
+    const keepsRoute = (id: string) => {
+        const remaining = state.links.filter(l => {
+            const ends = [getId(l.source), getId(l.target)];
+            return !isLinkDown(l, state.nodes) && !ends.includes(id) && !ends.some(e => lockedIds.has(e));
+        });
+        return hasPath(remaining, source, target);
+    };
+    const exposure = (id: string) => getNeighbours(state.links, id)
+        .filter(n => state.nodes.find(node => node.id === n)?.state !== NodeState.COMPROMISED).length;
+
+    const candidates = state.nodes
+        .filter(n => n.state === NodeState.COMPROMISED && canQuarantine(n) && keepsRoute(n.id))
+        .sort((a, b) => exposure(b.id) - exposure(a.id));
+
+    if (candidates.length > 0) {
+        lockNode(ctx, candidates[0].id, 'defense', { kind: 'neighbours-clean', minimumMs: AUTO_QUARANTINE_MIN_MS });
+    }
+};
+
+// --- Faults ---
+
+const faultLog = (ctx: StepContext, message: string, level: LogEntry['type']) =>
+    ctx.emissions.push({ kind: 'log', time: ctx.state.time, source: 'SYSTEM', message, level });
+
+// When a fault started with `selfHeal` (or at random) gets repaired on its own
+const repairTime = (ctx: StepContext, kind: Fault['kind'], elementId: string, selfHeal: boolean): number | null =>
+    selfHeal ? ctx.state.time + sampleDelay(ctx.rng, profileFor(ctx.state.faults, kind, elementId).mttrMs) : null;
+
+const describeRepair = (ctx: StepContext, repairAt: number | null) =>
+    repairAt === null ? '' : `; repair in ${formatDuration(repairAt - ctx.state.time)}`;
+
+const startFault = (state: SimulationState, kind: Fault['kind'], elementId: string, cause: FaultCause, repairAt: number | null) => {
+    state.activeFaults.push({ kind, elementId, cause, since: state.time, repairAt });
+    // The next random failure is drawn once the element is back up
+    delete state.nextFaultAt[elementId];
+};
+
+// Removes the fault record and says how long it lasted, if it was recorded
+const endFault = (state: SimulationState, elementId: string): string => {
+    const fault = state.activeFaults.find(f => f.elementId === elementId);
+    state.activeFaults = state.activeFaults.filter(f => f !== fault);
+    delete state.nextFaultAt[elementId];
+    return fault ? ` after ${formatDuration(state.time - fault.since)}` : '';
+};
+
+const failLink = (ctx: StepContext, link: GraphLink, cause: FaultCause, repairAt: number | null) => {
+    link.isFailed = true;
+    link.active = false;
+    startFault(ctx.state, 'link', linkId(link), cause, repairAt);
+    const origin = cause === 'random' ? 'fault' : repairAt !== null ? 'cut by operator' : null;
+    faultLog(ctx, `Link ${linkId(link)} failed${origin ? ` (${origin}${describeRepair(ctx, repairAt)})` : ''}.`, 'warning');
+};
+
+const restoreLink = (ctx: StepContext, link: GraphLink) => {
+    link.isFailed = false;
+    link.active = false;
+    faultLog(ctx, `Link ${linkId(link)} restored${endFault(ctx.state, linkId(link))}.`, 'success');
+};
+
+const setLinkFailed = (ctx: StepContext, source: string, target: string, failed: boolean, selfHeal: boolean = false) => {
+    const { state } = ctx;
+    const link = findLink(state.links, source, target);
+    if (!link) {
+        faultLog(ctx, `No link between ${source} and ${target}.`, 'warning');
+        return;
+    }
+    if (link.isFailed === failed) return;
+
+    if (failed) failLink(ctx, link, 'manual', repairTime(ctx, 'link', linkId(link), selfHeal));
+    else restoreLink(ctx, link);
+};
+
+// Takes the router down with whatever it was carrying; the caller logs
+const failNode = (ctx: StepContext, nodeId: string, cause: FaultCause, repairAt: number | null): boolean => {
+    const { state } = ctx;
+    if (!sendNodeEvent(ctx, nodeId, 'FAIL')) return false;
+
+    const stranded = state.packets.filter(p => p.route[p.hopIndex] === nodeId || p.route[p.hopIndex + 1] === nodeId);
+    stranded.forEach(p => dropPacket(ctx, p, 'node-down', p.route[p.hopIndex], p.progress));
+    state.packets = state.packets.filter(p => !stranded.includes(p));
+    startFault(state, 'node', nodeId, cause, repairAt);
+    return true;
+};
+
+const failNodeByHand = (ctx: StepContext, nodeId: string, selfHeal: boolean) => {
+    const repairAt = repairTime(ctx, 'node', nodeId, selfHeal);
+    if (!failNode(ctx, nodeId, 'manual', repairAt)) {
+        faultLog(ctx, `Cannot fail ${nodeId}.`, 'warning');
+        return;
+    }
+    faultLog(ctx, `${labelOf(ctx.state, nodeId)} failed (killed by operator${describeRepair(ctx, repairAt)}).`, 'warning');
+};
+
+const repairNode = (ctx: StepContext, nodeId: string) => {
+    const { state } = ctx;
+    if (state.nodes.find(n => n.id === nodeId)?.state !== NodeState.FAILED || !sendNodeEvent(ctx, nodeId, 'REPAIR')) {
+        faultLog(ctx, `${nodeId} is not down.`, 'warning');
+        return;
+    }
+    faultLog(ctx, `${labelOf(state, nodeId)} back up${endFault(state, nodeId)}.`, 'success');
+};
+
+// Correlated failure: every router near the centre goes down and comes back together
+const regionalOutage = (ctx: StepContext, centerId?: string) => {
+    const { state, rng } = ctx;
+    const candidates = state.nodes.filter(n => n.type === 'router' && n.state !== NodeState.FAILED && n.state !== NodeState.LOCKED);
+    const center = centerId ?? (candidates.length > 0 ? rng.pick(candidates).id : undefined);
+    if (center === undefined || !state.nodes.some(n => n.id === center)) {
+        faultLog(ctx, 'No router available for a regional outage.', 'warning');
+        return;
+    }
+
+    const { radius, mttrMs } = state.faults.region;
+    const repairAt = state.time + sampleDelay(rng, mttrMs);
+    const down = regionAround(state.nodes, state.links, center, radius).filter(id => failNode(ctx, id, 'regional', repairAt));
+    faultLog(ctx, down.length > 0
+        ? `Regional outage around ${labelOf(state, center)}: ${down.map(id => labelOf(state, id)).join(', ')} down${describeRepair(ctx, repairAt)}.`
+        : `Regional outage around ${labelOf(state, center)} hit no running router.`, 'error');
+};
+
+const repairFault = (ctx: StepContext, fault: Fault) => {
+    const { state } = ctx;
+    if (fault.kind === 'node') {
+        if (state.nodes.find(n => n.id === fault.elementId)?.state === NodeState.FAILED) repairNode(ctx, fault.elementId);
+        else endFault(state, fault.elementId); // removed or repaired some other way
+        return;
+    }
+    const link = state.links.find(l => linkId(l) === fault.elementId);
+    if (link?.isFailed) restoreLink(ctx, link);
+    else endFault(state, fault.elementId);
+};
+
+/**
+ * Self-healing first, then random failures: each healthy link and router
+ * carries its own next-failure time, drawn from its MTBF when it is first
+ * seen or comes back up.
+ */
+const runFaults = (ctx: StepContext) => {
+    const { state, rng } = ctx;
+    state.activeFaults
+        .filter(f => f.repairAt !== null && state.time >= f.repairAt)
+        .forEach(f => repairFault(ctx, f));
+    if (!state.faults.enabled) return;
+
+    const due = (kind: Fault['kind'], elementId: string) => {
+        const at = state.nextFaultAt[elementId];
+        if (at === undefined) {
+            const { mtbfMs } = profileFor(state.faults, kind, elementId);
+            if (mtbfMs > 0) state.nextFaultAt[elementId] = state.time + sampleDelay(rng, mtbfMs);
+            return false;
+        }
+        return state.time >= at;
+    };
+
+    state.links.forEach(l => {
+        const id = linkId(l);
+        if (!l.isFailed && due('link', id)) failLink(ctx, l, 'random', repairTime(ctx, 'link', id, true));
+    });
+    state.nodes.forEach(n => {
+        if (n.type !== 'router' || n.state === NodeState.FAILED || n.state === NodeState.LOCKED || !due('node', n.id)) return;
+        const repairAt = repairTime(ctx, 'node', n.id, true);
+        if (failNode(ctx, n.id, 'random', repairAt)) faultLog(ctx, `${n.label} failed (fault${describeRepair(ctx, repairAt)}).`, 'warning');
+    });
+
+    const { mtbfMs } = state.faults.region;
+    if (mtbfMs <= 0) return;
+    if (state.nextOutageAt === null) {
+        state.nextOutageAt = state.time + sampleDelay(rng, mtbfMs);
+    } else if (state.time >= state.nextOutageAt) {
+        state.nextOutageAt = null;
+        regionalOutage(ctx);
+    }
+};
+
+// --- Operator actions ---
+
+const operatorLog = (ctx: StepContext, message: string, level: LogEntry['type']) =>
+    ctx.emissions.push({ kind: 'log', time: ctx.state.time, source: 'SYSTEM', message, level });
+
+const labelOf = (state: SimulationState, nodeId: string) => state.nodes.find(n => n.id === nodeId)?.label ?? nodeId;
+
+// Plant the attacker on a router, as if it had broken in there
+const compromiseNode = (ctx: StepContext, nodeId: string) => {
+    const { state } = ctx;
+    const node = state.nodes.find(n => n.id === nodeId);
+    const reachable = node && node.state !== NodeState.COMPROMISED && node.state !== NodeState.LOCKED;
+    if (!reachable || !sendNodeEvent(ctx, nodeId, 'COMPROMISE')) {
+        operatorLog(ctx, `Cannot compromise ${nodeId}.`, 'warning');
+        return;
+    }
+    state.attacker.footholds.push(nodeId);
+    operatorLog(ctx, `${node.label} compromised by operator.`, 'warning');
+};
+
+const restoreNode = (ctx: StepContext, nodeId: string) => {
+    const node = ctx.state.nodes.find(n => n.id === nodeId);
+    if (node?.state !== NodeState.COMPROMISED || !sendNodeEvent(ctx, nodeId, 'ATTACK_CLEARED')) {
+        operatorLog(ctx, `${nodeId} is not compromised.`, 'warning');
+        return;
+    }
+    operatorLog(ctx, `${node.label} restored by operator.`, 'success');
+};
+
+// Isolation is a flag on the node, not a fault on its links, so faults and isolation never undo each other
+const setNodeIsolated = (ctx: StepContext, nodeId: string, isolated: boolean) => {
+    const { state } = ctx;
+    const node = state.nodes.find(n => n.id === nodeId);
+    if (!node || !!node.isolated === isolated) {
+        operatorLog(ctx, isolated ? `Cannot isolate ${nodeId}.` : `${nodeId} is not isolated.`, 'warning');
+        return;
+    }
+
+    const isUp = (l: GraphLink) => !isLinkDown(l, state.nodes);
+    const upBefore = linksOf(state, nodeId).filter(isUp);
+    node.isolated = isolated;
+    const changed = linksOf(state, nodeId).filter(l => upBefore.includes(l) !== isUp(l));
+    changed.forEach(l => {
+        l.active = false;
+    });
+    operatorLog(
+        ctx,
+        isolated ? `${node.label} isolated: ${changed.length} link(s) cut.` : `${node.label} reconnected: ${changed.length} link(s) restored.`,
+        isolated ? 'warning' : 'success'
+    );
+};
+
+// Take a router out of the mesh for good; traffic on its links is lost with it
+const removeNode = (ctx: StepContext, nodeId: string) => {
+    const { state } = ctx;
+    const node = state.nodes.find(n => n.id === nodeId);
+    if (!node || node.type !== 'router') {
+        operatorLog(ctx, `Cannot remove ${nodeId}.`, 'warning');
+        return;
+    }
+
+    const cut = linksOf(state, nodeId);
+    const stranded = state.packets.filter(p => p.route[p.hopIndex] === nodeId || p.route[p.hopIndex + 1] === nodeId);
+    stranded.forEach(p => dropPacket(ctx, p, 'link-down', p.route[p.hopIndex], p.progress));
+    state.packets = state.packets.filter(p => !stranded.includes(p));
+
+    cut.forEach(l => {
+        const key = state.linkKeys[linkId(l)];
+        if (key) state.linkKeys[linkId(l)] = { ...key, active: false };
+    });
+    state.links = state.links.filter(l => !cut.includes(l));
+    state.nodes = state.nodes.filter(n => n !== node);
+    // Nothing is left to repair or fail at random
+    const gone = [nodeId, ...cut.map(l => linkId(l))];
+    state.activeFaults = state.activeFaults.filter(f => !gone.includes(f.elementId));
+    gone.forEach(id => delete state.nextFaultAt[id]);
+    state.quarantines = state.quarantines.filter(q => q.nodeId !== nodeId);
+    state.attacker.footholds = state.attacker.footholds.filter(id => id !== nodeId);
+    if (state.attacker.entryPoint === nodeId) state.attacker.entryPoint = null;
+    delete state.stateTimers[nodeId];
+    delete state.nodeStats[nodeId];
+
+    operatorLog(ctx, `${node.label} removed by operator: ${cut.length} link(s) and ${stranded.length} packet(s) lost.`, 'warning');
+};
+
+// --- Topology edits ---
+
+const addEditedLink = (state: SimulationState, source: string, target: string) => {
+    const link: GraphLink = { source, target, frequency: 0, active: false, isCompromised: false, isJammed: false, isFailed: false };
+    link.frequency = channelOf(state.topology, state.hopping, link, state.hopSlot);
+    state.links.push(link);
+};
+
+// Packets on the link are lost; packets heading for it reroute at their next hop
+const removeEditedLink = (ctx: StepContext, source: string, target: string) => {
+    const { state } = ctx;
+    const link = findLink(state.links, source, target)!;
+    const onLink = (p: Packet) => [p.route[p.hopIndex], p.route[p.hopIndex + 1]].sort().join() === [source, target].sort().join();
+    state.packets.filter(onLink).forEach(p => dropPacket(ctx, p, 'link-down', p.route[p.hopIndex], p.progress));
+    state.packets = state.packets.filter(p => !onLink(p));
+
+    const key = state.linkKeys[linkId(link)];
+    if (key) state.linkKeys[linkId(link)] = { ...key, active: false };
+    state.links = state.links.filter(l => l !== link);
+};
+
+/**
+ * Apply an edit from the topology editor to the running network. Packets,
+ * logs and every other node keep going; only what the edit touches changes.
+ */
+const editGraph = (ctx: StepContext, edit: GraphEdit) => {
+    const { state } = ctx;
+    const issue = checkGraphEdit(state.nodes, state.links, edit);
+    if (issue) {
+        operatorLog(ctx, `Edit rejected: ${issue}.`, 'warning');
+        return;
+    }
+    const summary = describeGraphEdit(state.nodes, edit);
+
+    switch (edit.kind) {
+        case 'addNode': {
+            const node: GraphNode = { id: edit.nodeId, type: 'router', state: NodeState.IDLE, label: edit.label };
+            state.nodes.push(node);
+            Object.assign(state.nodeStats, createNodeStats([node], state.time));
+            edit.peers.forEach(peer => addEditedLink(state, edit.nodeId, peer));
+            break;
+        }
+        case 'removeNode':
+            removeNode(ctx, edit.nodeId); // logs its own losses
+            return;
+        case 'addLink':
+            addEditedLink(state, edit.source, edit.target);
+            break;
+        case 'removeLink':
+            removeEditedLink(ctx, edit.source, edit.target);
+            break;
+        case 'setNodeType': {
+            // The previous holder of the role takes the node's old type, so there is always one of each
+            const node = state.nodes.find(n => n.id === edit.nodeId)!;
+            const holder = state.nodes.find(n => n.type === edit.nodeType);
+            if (holder) holder.type = node.type;
+            node.type = edit.nodeType;
+            if (state.attacker.entryPoint === node.id) state.attacker.entryPoint = null;
+            break;
+        }
+        case 'renameNode':
+            state.nodes.find(n => n.id === edit.nodeId)!.label = edit.label.trim();
+            break;
+        case 'hardenNode':
+            state.nodes.find(n => n.id === edit.nodeId)!.hardened = edit.hardened;
+            break;
+    }
+    operatorLog(ctx, `Topology edit: ${summary}.`, 'info');
+};
+
+// --- Key management ---
+
+const keyLog = (ctx: StepContext, message: string, level: LogEntry['type']) =>
+    ctx.emissions.push({ kind: 'log', time: ctx.state.time, source: 'SYSTEM', message, level });
+
+const linksOf = (state: SimulationState, nodeId: string) =>
+    state.links.filter(l => getId(l.source) === nodeId || getId(l.target) === nodeId);
+
+// The attacker inside a router learns every active key that router holds
+const leakNodeKeys = (ctx: StepContext, nodeId: string) => {
+    const { state } = ctx;
+    const leaked = linksOf(state, nodeId)
+        .map(l => linkId(l))
+        .filter(id => state.linkKeys[id]?.active && !isKeyLeaked(state.leakedKeys, id, state.linkKeys[id].epoch));
+    if (leaked.length === 0) return;
+
+    leaked.forEach(id => {
+        const { epoch } = state.linkKeys[id];
+        state.leakedKeys.push({ linkId: id, epoch, nodeId, time: state.time });
+        ctx.emissions.push({ kind: 'keyLeaked', time: state.time, linkId: id, epoch, nodeId });
+    });
+    keyLog(ctx, `Key compromise at ${nodeId}: ${leaked.map(id => `${id}#${state.linkKeys[id].epoch}`).join(', ')} exposed.`, 'error');
+};
+
+const exchangeKey = (ctx: StepContext, id: string, reason: KeyExchangeReason) => {
+    const { state } = ctx;
+    const epoch = (state.linkKeys[id]?.epoch ?? 0) + 1;
+    state.linkKeys[id] = { epoch, establishedAt: state.time, active: true };
+    ctx.emissions.push({ kind: 'keyExchange', time: state.time, linkId: id, epoch, reason });
+};
+
+const leakToCompromisedRouters = (ctx: StepContext) => {
+    ctx.state.nodes.filter(n => n.state === NodeState.COMPROMISED).forEach(n => leakNodeKeys(ctx, n.id));
+};
+
+// Handshake on links that came up; a link that goes down drops its key
+const syncLinkKeys = (ctx: StepContext) => {
+    const { state } = ctx;
+    const established: string[] = [];
+
+    state.links.forEach(l => {
+        const id = linkId(l);
+        const key = state.linkKeys[id];
+        if (!isLinkUp(l, state.nodes)) {
+            if (key?.active) state.linkKeys[id] = { ...key, active: false };
+            return;
+        }
+        if (key?.active) return;
+        exchangeKey(ctx, id, 'link-up');
+        established.push(id);
+    });
+
+    if (established.length === 0) return;
+    keyLog(ctx, established.length <= 3
+        ? `ECDH handshake complete on ${established.map(id => `${id}#${state.linkKeys[id].epoch}`).join(', ')}.`
+        : `ECDH handshakes complete on ${established.length} links.`, 'info');
+    leakToCompromisedRouters(ctx);
+};
+
+// Every active link moves to a fresh ephemeral key; old leaks stop being useful
+const rekeyLinks = (ctx: StepContext) => {
+    const { state } = ctx;
+    const ids = Object.keys(state.linkKeys).filter(id => state.linkKeys[id].active);
+    if (ids.length === 0) return;
+
+    const retired = liveLeaks(state.linkKeys, state.leakedKeys).length;
+    ids.forEach(id => exchangeKey(ctx, id, 'rekey'));
+    keyLog(ctx, `Rekeyed ${ids.length} links${retired > 0 ? `; ${retired} leaked key(s) retired` : ''}.`, 'info');
+
+    // Routers the attacker still sits in hand over their new keys straight away
+    leakToCompromisedRouters(ctx);
+};
+
+// --- Periodic processes ---
+
+// Retune every link to its channel for the current slot
+const retuneLinks = (ctx: StepContext) => {
+    const { state } = ctx;
+    state.frequency = channelFor(state.hopping, CONTROL_CHANNEL_ID, state.hopSlot);
+    state.links.forEach(l => {
+        l.frequency = channelOf(state.topology, state.hopping, l, state.hopSlot);
+        // An interception only lasts while the link stays on the attacker's channel
+        if (l.isCompromised && l.frequency !== state.attacker.tunedFrequency) l.isCompromised = false;
+    });
+};
+
+const hopChannels = (ctx: StepContext) => {
+    const { state, rng } = ctx;
+    state.hopSlot++;
+    retuneLinks(ctx);
+    ctx.emissions.push({ kind: 'frequencyHop', time: state.time, frequency: state.frequency });
+
+    if (state.keying.rekeyEveryHops > 0 && state.hopSlot % state.keying.rekeyEveryHops === 0) rekeyLinks(ctx);
+
+    state.nodes.forEach(n => {
+        if (n.state === NodeState.COMPROMISED) {
+            const baseRecovery = state.attackType === AttackType.HIJACKING ? 0.1 : 0.3;
+            const chance = baseRecovery + (state.mitigationStrength * 0.6);
+
+            if (rng.next() < chance) sendNodeEvent(ctx, n.id, 'RECOVER');
+            return;
+        }
+
+        sendNodeEvent(ctx, n.id, 'HOP');
+    });
+};
+
+/**
+ * The attacker's radio tunes to one channel per attempt; only links currently
+ * on that channel are tapped, and a hit keeps the radio locked there. The
+ * intruder breaks in at its entry point, then spreads one neighbour at a time,
+ * with better odds across tapped links.
+ */
+const runAttack = (ctx: StepContext) => {
+    const { state, rng } = ctx;
+    if (state.attackType === AttackType.JAMMING) return; // jammers act every tick instead
+
+    const attempts = state.attackType === AttackType.HIJACKING ? 2 : 1;
+    const attacker = state.attacker;
+    const log = (message: string) => ctx.emissions.push({ kind: 'log', time: state.time, source: 'ATTACK_SIM', message, level: 'warning' });
+
+    for (let i = 0; i < attempts; i++) {
+        if (!attacker.locked || attacker.tunedFrequency === null) {
+            attacker.tunedFrequency = rng.pick(state.hopping.channels);
+        }
+
+        const tapped = state.links.filter(l => l.frequency === attacker.tunedFrequency);
+        if (tapped.length > 0 && !attacker.locked) {
+            log(`Attacker locked onto ${attacker.tunedFrequency} MHz (${tapped.length} link(s) exposed).`);
+        }
+        attacker.locked = tapped.length > 0;
+        tapped.forEach(l => { l.isCompromised = true; });
+
+        // No foothold left: try to (re-)enter through the entry point
+        if (attacker.footholds.length === 0) {
+            const entry = state.nodes.find(n => n.id === attacker.entryPoint);
+            if (!entry || entry.state === NodeState.COMPROMISED || entry.state === NodeState.LOCKED) continue;
+
+            if (rng.next() < compromiseChance(state.attackType, entry, null, state.mitigationStrength) && sendNodeEvent(ctx, entry.id, 'COMPROMISE')) {
+                attacker.footholds.push(entry.id);
+                log(`Foothold established at entry point ${entry.id}.`);
+            }
+            continue;
+        }
+
+        const frontier = getAttackFrontier(state.nodes, state.links, attacker.footholds);
+        if (frontier.length === 0) continue;
+
+        const edge = rng.pick(frontier);
+        const target = state.nodes.find(n => n.id === edge.to)!;
+        if (rng.next() < compromiseChance(state.attackType, target, edge.link, state.mitigationStrength) && sendNodeEvent(ctx, target.id, 'COMPROMISE')) {
+            attacker.footholds.push(target.id);
+            log(`Lateral movement ${edge.from} -> ${target.id}${edge.link.isCompromised ? ' over tapped link' : ''}.`);
+        }
+    }
+};
+
+// Jammers cover the whole channel plan; reactive ones listen for links carrying packets
+const updateJammers = (ctx: StepContext) => {
+    const { state } = ctx;
+    if (state.jammers.length > 0) {
+        const channels = state.hopping.channels;
+        const busy = state.packets
+            .map(p => findLink(state.links, p.route[p.hopIndex], p.route[p.hopIndex + 1])?.frequency)
+            .filter((f): f is number => f !== undefined);
+
+        advanceJammers(state.jammers, SIMULATION_TICK_MS, state.time, [Math.min(...channels), Math.max(...channels)], busy)
+            .forEach(j => ctx.emissions.push({ kind: 'log', time: state.time, source: 'ATTACK_SIM', message: `Reactive jammer ${j.id} followed traffic to ${j.currentMhz} MHz.`, level: 'warning' }));
+    }
+
+    state.links.forEach(l => { l.isJammed = isJammed(state.jammers, l.frequency); });
+};
+
+const deployJammers = (ctx: StepContext) => {
+    const { state } = ctx;
+    state.jammers = createJammers(state.jammerConfigs);
+    state.jammers.forEach(j => {
+        ctx.emissions.push({ kind: 'log', time: state.time, source: 'ATTACK_SIM', message: `Jammer ${describeJammer(j)} radiating.`, level: 'warning' });
+    });
+    updateJammers(ctx);
+};
+
+// Intrusions keep their entry point when switching vectors; a fresh one is picked otherwise
+// A named target overrides that choice when it can be attacked
+const chooseEntryPoint = (ctx: StepContext, target?: string) => {
+    const { state, rng } = ctx;
+    const candidates = entryCandidates(state.nodes);
+
+    if (target !== undefined && target !== state.attacker.entryPoint) {
+        if (candidates.some(n => n.id === target)) {
+            state.attacker.entryPoint = target;
+            ctx.emissions.push({ kind: 'log', time: state.time, source: 'ATTACK_SIM', message: `Intrusion entry point: ${target}.`, level: 'warning' });
+            return;
+        }
+        ctx.emissions.push({ kind: 'log', time: state.time, source: 'ATTACK_SIM', message: `${target} cannot be targeted.`, level: 'warning' });
+    }
+    if (state.attacker.entryPoint !== null || candidates.length === 0) return;
+
+    state.attacker.entryPoint = rng.pick(candidates).id;
+    ctx.emissions.push({ kind: 'log', time: state.time, source: 'ATTACK_SIM', message: `Intrusion entry point: ${state.attacker.entryPoint}.`, level: 'warning' });
+};
+
+const setAttack = (ctx: StepContext, attackType: AttackType, target?: string) => {
+    const { state } = ctx;
+    if (state.attackType === attackType) {
+        // Same vector, new target: only the entry point moves
+        if (target !== undefined && attackType !== AttackType.NONE && attackType !== AttackType.JAMMING) chooseEntryPoint(ctx, target);
+        return;
+    }
+
+    const previous = state.attackType;
+    state.attackType = attackType;
+
+    if (attackType === AttackType.NONE) {
+        ctx.emissions.push({ kind: 'log', time: state.time, source: 'ATTACK_SIM', message: `Stopped ${previous} simulation.`, level: 'info' });
+        ctx.emissions.push({ kind: 'attack', time: state.time, attackType });
+        state.mitigationStrength = 0;
+        state.nextAttackAt = null;
+        state.nextMitigationAt = null;
+        state.nodes.forEach(n => sendNodeEvent(ctx, n.id, 'ATTACK_CLEARED'));
+        state.links.forEach(l => { l.isCompromised = false; });
+        state.attacker = createAttacker();
+        state.jammers = [];
+        updateJammers(ctx);
+        return;
+    }
+
+    ctx.emissions.push({ kind: 'log', time: state.time, source: 'ATTACK_SIM', message: `Injecting ${attackType} vector...`, level: 'error' });
+    if (attackType === AttackType.JAMMING) {
+        deployJammers(ctx);
+    } else {
+        state.jammers = [];
+        updateJammers(ctx);
+        chooseEntryPoint(ctx, target);
+    }
+    ctx.emissions.push({ kind: 'attack', time: state.time, attackType });
+    state.mitigationStrength = state.mitigation.enabled ? state.mitigation.initialStrength : 0;
+    state.nextAttackAt = state.time + ATTACK_INTERVAL_MS;
+    state.nextMitigationAt = state.mitigation.enabled ? state.time + MITIGATION_STEP_MS : null;
+};
+
+// --- Packets ---
+
+// End-to-end layer: the attacker can read what was sent in cleartext or under a session key it holds
+const isReadable = (state: SimulationState, p: Packet) => !p.isEncrypted || state.cipher.leakedSessions.includes(p.sessionId);
+
+// Sniffers copy packets passing through routers they control or leaving over tapped links
+const sniffPacket = (ctx: StepContext, p: Packet, nodeId: string, nextLink: GraphLink | undefined) => {
+    const { state } = ctx;
+    if (state.attackType !== AttackType.SNIFFING) return;
+
+    const inRouter = state.nodes.find(n => n.id === nodeId)?.state === NodeState.COMPROMISED;
+    if (!inRouter && !nextLink?.isCompromised) return;
+
+    // Inside a router the link layer is already off; over the air it takes a leaked link key
+    const linkStripped = inRouter || linkKeyExposed(nextLink, state.linkKeys, state.leakedKeys);
+    const id = nextLink ? linkId(nextLink) : null;
+    ctx.emissions.push({
+        kind: 'packetSniffed', time: state.time, packetId: p.id, nodeId,
+        linkId: id, epoch: id ? state.linkKeys[id]?.epoch ?? null : null,
+        linkStripped, readable: linkStripped && isReadable(state, p)
+    });
+};
+
+// A MITM router rewrites some packets; what that does depends on what it can decrypt
+const tamperPacket = (ctx: StepContext, p: Packet, nodeId: string): Packet['tampering'] => {
+    const { state, rng } = ctx;
+    if (p.tampering !== null || rng.next() >= tamperChance(state.attackType)) return p.tampering;
+
+    const tampering: Tampering = !p.isEncrypted ? 'plaintext' : isReadable(state, p) ? 'forged' : 'ciphertext';
+    ctx.emissions.push({ kind: 'packetTampered', time: state.time, packetId: p.id, nodeId, tampering, byteIndex: rng.int(p.data.length) });
+    return tampering;
+};
+
+// Put a new packet on the wire at `from`; null when `to` is unreachable
+const sendPacket = (ctx: StepContext, kind: Packet['kind'], seq: number, attempt: number, from: string, to: string): Packet | null => {
+    const { state } = ctx;
+    const route = computeRoute(state.nodes, state.links, from, to);
+    if (!route || route.length < 2) return null;
+
+    const packet: Packet = {
+        id: `P${++state.packetCounter}`,
+        kind,
+        seq,
+        attempt,
+        ttl: state.transport.ttl,
+        sourceId: from,
+        targetId: to,
+        route,
+        hopIndex: 0,
+        hops: 0,
+        currentEdgeId: edgeKey(route[0], route[1]),
+        progress: 0,
+        data: payloadFor(kind, seq),
+        isEncrypted: state.cipher.enabled,
+        sessionId: state.cipher.sessionId,
+        tampering: null
+    };
+    state.packets.push(packet);
+    ctx.emissions.push({
+        kind: 'packetSpawned', time: state.time, packetId: packet.id, packetKind: kind, seq, attempt, route,
+        payload: packet.data, sessionId: packet.isEncrypted ? packet.sessionId : null
+    });
+    sniffPacket(ctx, packet, from, findLink(state.links, route[0], route[1]));
+    return packet;
+};
+
+const dropPacket = (ctx: StepContext, p: Packet, reason: PacketDropReason, nodeId: string, progress: number) => {
+    const { state } = ctx;
+    ctx.emissions.push({ kind: 'packetDropped', time: state.time, packetId: p.id, packetKind: p.kind, seq: p.seq, nodeId, reason });
+    state.lostPackets.push({
+        packetId: p.id, kind: p.kind, attempt: p.attempt, reason,
+        from: p.route[p.hopIndex], to: p.route[p.hopIndex + 1], progress, time: state.time
+    });
+};
+
+const receiveAck = (ctx: StepContext, ack: Packet) => {
+    const { state } = ctx;
+    const segment = state.pending.find(s => s.seq === ack.seq);
+    if (!segment) return; // duplicate ACK, or SRC already gave up
+
+    state.pending = state.pending.filter(s => s !== segment);
+    ctx.emissions.push({ kind: 'packetAcked', time: state.time, seq: segment.seq, attempts: segment.attempt + 1, elapsedMs: state.time - segment.firstSentAt });
+};
+
+// SRC resends segments whose ACK is overdue and gives up after maxRetries
+const checkPendingSegments = (ctx: StepContext) => {
+    const { state } = ctx;
+    const stillPending: PendingSegment[] = [];
+
+    state.pending.forEach(segment => {
+        switch (pendingOutcome(segment, state.time, state.transport)) {
+            case 'waiting':
+                stillPending.push(segment);
+                break;
+            case 'retransmit': {
+                // With no route the attempt still counts; the next timeout tries again
+                const { source, target } = endpointsOf(state.nodes);
+                const packet = sendPacket(ctx, 'data', segment.seq, segment.attempt + 1, source, target);
+                stillPending.push({ ...segment, packetId: packet?.id ?? segment.packetId, attempt: segment.attempt + 1, sentAt: state.time });
+                break;
+            }
+            case 'give-up':
+                ctx.emissions.push({ kind: 'packetLost', time: state.time, seq: segment.seq, attempts: segment.attempt + 1 });
+                ctx.emissions.push({ kind: 'log', time: state.time, source: 'SYSTEM', message: `Segment #${segment.seq} lost after ${segment.attempt + 1} transmission(s).`, level: 'warning' });
+                break;
+        }
+    });
+
+    state.pending = stillPending;
+};
+
+const movePackets = (ctx: StepContext) => {
+    const { state, rng } = ctx;
+    const delta = PACKET_SPEED_PER_SECOND * SIMULATION_TICK_MS / 1000;
+    const jamDropChance = JAM_DROP_RATE_PER_SECOND * SIMULATION_TICK_MS / 1000;
+    const nextPackets: Packet[] = [];
+    const toAcknowledge: Packet[] = [];
+
+    state.packets.forEach(p => {
+        const link = findLink(state.links, p.route[p.hopIndex], p.route[p.hopIndex + 1]);
+        if (link && isLinkDown(link, state.nodes)) {
+            dropPacket(ctx, p, 'link-down', p.route[p.hopIndex], p.progress);
+            return;
+        }
+
+        // Jammed links slow packets down and lose some of them outright
+        const jammed = link?.isJammed ?? false;
+        if (jammed && rng.next() < jamDropChance) {
+            dropPacket(ctx, p, 'jammed', p.route[p.hopIndex], p.progress);
+            return;
+        }
+
+        const newProgress = p.progress + (jammed ? delta * JAMMED_SPEED_FACTOR : delta);
+
+        if (newProgress < 1) {
+            nextPackets.push({ ...p, progress: newProgress });
+            return;
+        }
+
+        // Packet reached the end of its current hop
+        const arrivedAt = p.route[p.hopIndex + 1];
+        const node = state.nodes.find(n => n.id === arrivedAt);
+        if (node?.state === NodeState.LOCKED) {
+            dropPacket(ctx, p, 'quarantined', arrivedAt, 1);
+            return;
+        }
+        handlePacketArrival(ctx, arrivedAt);
+
+        // Delivered at its endpoint: packet consumed, unless the GCM tag check fails
+        if (arrivedAt === p.targetId && p.tampering === 'ciphertext') {
+            dropPacket(ctx, p, 'tampered', arrivedAt, 1);
+            return;
+        }
+        if (arrivedAt === p.targetId) {
+            ctx.emissions.push({ kind: 'packetDelivered', time: state.time, packetId: p.id, packetKind: p.kind, seq: p.seq, hops: p.hops + 1 });
+            if (p.kind === 'ack') receiveAck(ctx, p);
+            else if (state.transport.acks) toAcknowledge.push(p);
+            return;
+        }
+
+        // A router the attacker controls may swallow the packet
+        if (node?.state === NodeState.COMPROMISED && rng.next() < interceptChance(state.attackType)) {
+            dropPacket(ctx, p, 'intercepted', arrivedAt, 1);
+            return;
+        }
+
+        const tampering = node?.state === NodeState.COMPROMISED ? tamperPacket(ctx, p, arrivedAt) : p.tampering;
+
+        const ttl = p.ttl - 1;
+        if (ttl <= 0) {
+            dropPacket(ctx, p, 'ttl', arrivedAt, 1);
+            return;
+        }
+
+        // Intermediate router: re-plan from here so state changes reroute traffic
+        const route = computeRoute(state.nodes, state.links, arrivedAt, p.targetId);
+        if (!route || route.length < 2) {
+            dropPacket(ctx, p, 'dead-end', arrivedAt, 1);
+            return;
+        }
+
+        const forwarded: Packet = {
+            ...p,
+            ttl,
+            tampering,
+            route,
+            hopIndex: 0,
+            hops: p.hops + 1,
+            currentEdgeId: edgeKey(route[0], route[1]),
+            progress: 0
+        };
+        sniffPacket(ctx, forwarded, arrivedAt, findLink(state.links, route[0], route[1]));
+        nextPackets.push(forwarded);
+    });
+
+    state.packets = nextPackets;
+
+    // DST answers each data packet over whatever route is best right now
+    toAcknowledge.forEach(p => sendPacket(ctx, 'ack', p.seq, p.attempt, p.targetId, p.sourceId));
+};
+
+const spawnPacket = (ctx: StepContext) => {
+    const { state, rng } = ctx;
+    if (rng.next() >= PACKET_SPAWN_CHANCE) return;
+
+    // Only spawn if source is not compromised
+    const { source, target } = endpointsOf(state.nodes);
+    const sourceNode = state.nodes.find(n => n.id === source);
+    if (!sourceNode || sourceNode.state === NodeState.COMPROMISED) return;
+
+    const packet = sendPacket(ctx, 'data', state.nextSeq, 0, source, target);
+    if (!packet) return;
+
+    state.nextSeq++;
+    if (state.transport.acks) {
+        state.pending.push({ seq: packet.seq, packetId: packet.id, attempt: 0, firstSentAt: state.time, sentAt: state.time });
+    }
+};
+
+// --- Step ---
+
+const applyEvent = (ctx: StepContext, event: SimulationEvent) => {
+    switch (event.type) {
+        case 'RESET': {
+            const settings = settingsOf(ctx.state);
+            const fresh = createSimulationState(event.seed, { ...settings, topology: event.topology ?? settings.topology });
+            ctx.state = fresh;
+            ctx.rng = createRng(fresh.seed, fresh.rngState);
+            ctx.emissions.push({ kind: 'log', time: 0, source: 'SYSTEM', message: `Simulation reset (seed ${fresh.seed}). ${describeTopology(fresh.topology)} topology regenerated.`, level: 'info' });
+            break;
+        }
+        case 'TOGGLE_ATTACK':
+            setAttack(ctx, ctx.state.attackType === event.attackType ? AttackType.NONE : event.attackType);
+            break;
+        case 'SET_ATTACK':
+            setAttack(ctx, event.attackType, event.target);
+            break;
+        case 'SET_MITIGATION': {
+            const { state } = ctx;
+            state.mitigation = { ...state.mitigation, ...event.mitigation };
+            if (!state.mitigation.enabled) state.mitigationStrength = 0;
+            ctx.emissions.push({
+                kind: 'log', time: state.time, source: 'SYSTEM', level: state.mitigation.enabled ? 'info' : 'warning',
+                message: state.mitigation.enabled ? 'Adaptive mitigation enabled.' : 'Adaptive mitigation disabled.'
+            });
+            break;
+        }
+        case 'FAIL_LINK':
+            setLinkFailed(ctx, event.source, event.target, true, event.selfHeal);
+            break;
+        case 'RESTORE_LINK':
+            setLinkFailed(ctx, event.source, event.target, false);
+            break;
+        case 'FAIL_NODE':
+            failNodeByHand(ctx, event.nodeId, event.selfHeal ?? false);
+            break;
+        case 'REPAIR_NODE':
+            repairNode(ctx, event.nodeId);
+            break;
+        case 'REGIONAL_OUTAGE':
+            regionalOutage(ctx, event.center);
+            break;
+        case 'SET_FAULTS': {
+            const { state } = ctx;
+            state.faults = { ...state.faults, ...event.faults };
+            // New means: redraw every pending failure time
+            state.nextFaultAt = {};
+            state.nextOutageAt = null;
+            faultLog(ctx, `Fault model: ${describeFaults(state.faults)}.`, 'info');
+            break;
+        }
+        case 'SCHEDULE': {
+            const { state } = ctx;
+            // Stable sort keeps same-time events in the order they were given
+            state.schedule = [...state.schedule, ...event.events].sort((a, b) => a.at - b.at);
+            break;
+        }
+        case 'PACKET_ARRIVAL':
+            handlePacketArrival(ctx, event.nodeId);
+            break;
+        case 'SET_HOPPING': {
+            const { state } = ctx;
+            const dwellChanged = event.hopping.dwellMs !== undefined && event.hopping.dwellMs !== state.hopping.dwellMs;
+            state.hopping = { ...state.hopping, ...event.hopping };
+            if (dwellChanged) state.nextHopAt = state.time + state.hopping.dwellMs;
+            retuneLinks(ctx);
+            updateJammers(ctx);
+            ctx.emissions.push({
+                kind: 'log', time: state.time, source: 'SYSTEM', level: 'info',
+                message: state.hopping.enabled
+                    ? `Hopping ${state.hopping.channels.length} channels, dwell ${state.hopping.dwellMs} ms.`
+                    : 'Frequency hopping disabled. Links parked on static channels.'
+            });
+            break;
+        }
+        case 'LOCK_NODE':
+            lockNode(ctx, event.nodeId, 'operator', event.release);
+            break;
+        case 'UNLOCK_NODE':
+            unlockNode(ctx, event.nodeId, 'operator');
+            break;
+        case 'COMPROMISE_NODE':
+            compromiseNode(ctx, event.nodeId);
+            break;
+        case 'RESTORE_NODE':
+            restoreNode(ctx, event.nodeId);
+            break;
+        case 'ISOLATE_NODE':
+            setNodeIsolated(ctx, event.nodeId, true);
+            break;
+        case 'RECONNECT_NODE':
+            setNodeIsolated(ctx, event.nodeId, false);
+            break;
+        case 'REMOVE_NODE':
+            removeNode(ctx, event.nodeId);
+            break;
+        case 'EDIT_GRAPH':
+            editGraph(ctx, event.edit);
+            break;
+        case 'SET_TRANSPORT': {
+            const { state } = ctx;
+            state.transport = { ...state.transport, ...event.transport };
+            // Without ACKs nothing will ever settle what SRC is waiting for
+            if (!state.transport.acks) state.pending = [];
+            ctx.emissions.push({ kind: 'log', time: state.time, source: 'SYSTEM', message: `Transport set to ${describeTransport(state.transport)}.`, level: 'info' });
+            break;
+        }
+        case 'SET_ENCRYPTION': {
+            const { state } = ctx;
+            state.cipher = { ...state.cipher, enabled: event.enabled };
+            ctx.emissions.push({
+                kind: 'log', time: state.time, source: 'SYSTEM', level: event.enabled ? 'success' : 'warning',
+                message: event.enabled ? `Payload encryption on (AES-256-GCM, session #${state.cipher.sessionId}).` : 'Payload encryption off. New packets travel in cleartext.'
+            });
+            break;
+        }
+        case 'LEAK_SESSION_KEY': {
+            const { state } = ctx;
+            if (state.cipher.leakedSessions.includes(state.cipher.sessionId)) break;
+            state.cipher = { ...state.cipher, leakedSessions: [...state.cipher.leakedSessions, state.cipher.sessionId] };
+            ctx.emissions.push({ kind: 'log', time: state.time, source: 'ATTACK_SIM', message: `Session key #${state.cipher.sessionId} leaked to the attacker.`, level: 'error' });
+            break;
+        }
+        case 'ROTATE_SESSION_KEY': {
+            const { state } = ctx;
+            state.cipher = { ...state.cipher, sessionId: state.cipher.sessionId + 1 };
+            ctx.emissions.push({ kind: 'log', time: state.time, source: 'SYSTEM', message: `Session key rotated to #${state.cipher.sessionId}.`, level: 'info' });
+            break;
+        }
+        case 'SET_KEYING': {
+            const { state } = ctx;
+            state.keying = { ...state.keying, ...event.keying };
+            keyLog(ctx, state.keying.rekeyEveryHops > 0 ? `Link keys rotate every ${state.keying.rekeyEveryHops} hop(s).` : 'Link key rotation off.', 'info');
+            break;
+        }
+        case 'SET_JAMMERS': {
+            const { state } = ctx;
+            state.jammerConfigs = event.jammers;
+            if (state.attackType !== AttackType.JAMMING) break;
+
+            // Redeploy immediately while jamming is running
+            deployJammers(ctx);
+            break;
+        }
+    }
+};
+
+const runSchedule = (ctx: StepContext) => {
+    const { state } = ctx;
+    while (state.schedule.length > 0 && state.schedule[0].at <= state.time) {
+        const [next, ...rest] = state.schedule;
+        state.schedule = rest;
+        applyEvent(ctx, next.event);
+    }
+};
+
+const tick = (ctx: StepContext) => {
+    const { state } = ctx;
+    state.time += SIMULATION_TICK_MS;
+
+    runSchedule(ctx);
+
+    expireStateTimers(ctx);
+    releaseQuarantines(ctx);
+    runFaults(ctx);
+    syncLinkKeys(ctx);
+
+    if (state.time >= state.nextHopAt) {
+        hopChannels(ctx);
+        state.nextHopAt += state.hopping.dwellMs;
+    }
+
+    updateJammers(ctx);
+
+    if (state.nextAttackAt !== null && state.time >= state.nextAttackAt) {
+        runAttack(ctx);
+        state.nextAttackAt += ATTACK_INTERVAL_MS;
+    }
+
+    if (state.nextMitigationAt !== null && state.time >= state.nextMitigationAt) {
+        state.mitigationStrength = Math.min(state.mitigationStrength + state.mitigation.stepStrength, state.mitigation.maxStrength);
+        state.nextMitigationAt += MITIGATION_STEP_MS;
+        autoQuarantine(ctx);
+    }
+
+    if (state.lostPackets.length > 0) {
+        state.lostPackets = state.lostPackets.filter(l => state.time - l.time < LOST_MARKER_MS);
+    }
+    checkPendingSegments(ctx);
+    movePackets(ctx);
+    spawnPacket(ctx);
+};
+
+// Shallow working copy; link endpoints are normalized back to ids since d3 swaps them for node objects
+const cloneState = (state: SimulationState): SimulationState => ({
+    ...state,
+    nodes: state.nodes.map(n => ({ ...n })),
+    links: state.links.map(l => ({ ...l, source: getId(l.source), target: getId(l.target) })),
+    packets: [...state.packets],
+    pending: [...state.pending],
+    lostPackets: [...state.lostPackets],
+    linkKeys: { ...state.linkKeys },
+    leakedKeys: [...state.leakedKeys],
+    attacker: { ...state.attacker, footholds: [...state.attacker.footholds] },
+    jammers: state.jammers.map(j => ({ ...j })),
+    stateTimers: { ...state.stateTimers },
+    quarantines: [...state.quarantines],
+    nodeStats: { ...state.nodeStats },
+    activeFaults: [...state.activeFaults],
+    nextFaultAt: { ...state.nextFaultAt },
+    schedule: [...state.schedule]
+});
+
+/**
+ * Advance the simulation by `dt` simulated ms after applying `events`.
+ * Time is consumed in fixed ticks, so results depend only on the seed, the
+ * events and the total elapsed time - never on how `dt` was sliced.
+ */
+export const step = (state: SimulationState, dt: number, events: SimulationEvent[] = []): StepResult => {
+    const working = cloneState(state);
+    const ctx: StepContext = {
+        state: working,
+        rng: createRng(working.seed, working.rngState),
+        emissions: []
+    };
+
+    events.forEach(event => applyEvent(ctx, event));
+
+    ctx.state.tickRemainder += Math.max(0, dt);
+    while (ctx.state.tickRemainder >= SIMULATION_TICK_MS) {
+        ctx.state.tickRemainder -= SIMULATION_TICK_MS;
+        tick(ctx);
+    }
+
+    ctx.state.rngState = ctx.rng.getState();
+    return { state: ctx.state, emissions: ctx.emissions };
+};
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { GraphLink, GraphNode, NodeState } from '../types';
+import { createSimulationState, step, SimulationState, SimulationEvent } from './engine';
+import { DEFAULT_FAULTS, regionAround, profileFor } from './faults';
+import { linkId } from './hopping';
+
+const makeNode = (id: string): GraphNode => ({
+    id, type: id === 'SRC' ? 'source' : id === 'DST' ? 'target' : 'router', state: NodeState.IDLE, label: id
+});
+const makeLink = (source: string, target: string): GraphLink => ({
+    source, target, frequency: 100, active: false, isCompromised: false, isJammed: false, isFailed: false
+});
+
+const run = (state: SimulationState, totalMs: number, events: SimulationEvent[] = []) => {
+    let current = step(state, 0, events);
+    const emissions = [...current.emissions];
+    for (let t = 0; t < totalMs; t += 100) {
+        current = step(current.state, 100);
+        emissions.push(...current.emissions);
+    }
+    return { state: current.state, messages: emissions.flatMap(e => (e.kind === 'log' ? [e.message] : [])) };
+};
+
+const stateOf = (state: SimulationState, id: string) => state.nodes.find(n => n.id === id)!.state;
+
+describe('faults', () => {
+    it('should find the routers within a few hops of a centre', () => {
+        const nodes = ['SRC', 'N1', 'N2', 'N3', 'DST'].map(makeNode);
+        const links = [makeLink('SRC', 'N1'), makeLink('N1', 'N2'), makeLink('N2', 'N3'), makeLink('N3', 'DST')];
+
+        expect(regionAround(nodes, links, 'N1', 0)).toEqual(['N1']);
+        expect(regionAround(nodes, links, 'N1', 1)).toEqual(['N1', 'N2']);
+        expect(regionAround(nodes, links, 'N2', 2)).toEqual(['N2', 'N1', 'N3']);
+    });
+
+    it('should prefer a per-element override to the default profile', () => {
+        const config = { ...DEFAULT_FAULTS, overrides: { N3: { mtbfMs: 1000, mttrMs: 100 } } };
+        expect(profileFor(config, 'node', 'N3')).toEqual({ mtbfMs: 1000, mttrMs: 100 });
+        expect(profileFor(config, 'node', 'N4')).toBe(config.node);
+    });
+
+    it('should keep a killed router down until repaired and route around it', () => {
+        const { state, messages } = run(createSimulationState(9), 5000, [{ type: 'FAIL_NODE', nodeId: 'N1' }]);
+
+        expect(stateOf(state, 'N1')).toBe(NodeState.FAILED);
+        expect(state.activeFaults).toEqual([{ kind: 'node', elementId: 'N1', cause: 'manual', since: 0, repairAt: null }]);
+        expect(messages).toContain('R-1 failed (killed by operator).');
+        expect(state.packets.every(p => !p.route.includes('N1'))).toBe(true);
+
+        const { state: repaired, messages: later } = run(state, 0, [{ type: 'REPAIR_NODE', nodeId: 'N1' }]);
+        expect(stateOf(repaired, 'N1')).toBe(NodeState.IDLE);
+        expect(repaired.activeFaults).toHaveLength(0);
+        expect(later).toContain(`R-1 back up after ${(state.time / 1000).toFixed(1)}s.`);
+    });
+
+    it('should heal a cut link after its sampled repair time', () => {
+        const initial = createSimulationState(9);
+        const link = initial.links.find(l => !l.isFailed)!;
+        const [source, target] = linkId(link).split('~');
+
+        const { state: cut } = run(initial, 0, [{ type: 'FAIL_LINK', source, target, selfHeal: true }]);
+        const fault = cut.activeFaults[0];
+        expect(fault.repairAt).toBeGreaterThan(0);
+
+        const { state: healed, messages } = run(cut, fault.repairAt! + 200);
+        expect(healed.links.find(l => linkId(l) === fault.elementId)!.isFailed).toBe(false);
+        expect(messages.some(m => m.startsWith(`Link ${fault.elementId} restored after `))).toBe(true);
+    });
+
+    it('should forget the faults of a removed router and its links', () => {
+        const initial = createSimulationState(9);
+        const [source, target] = linkId(initial.links.find(l => [l.source, l.target].includes('N1'))!).split('~');
+        const { state: failed } = run(initial, 0, [
+            { type: 'FAIL_NODE', nodeId: 'N1', selfHeal: true },
+            { type: 'FAIL_LINK', source, target, selfHeal: true }
+        ]);
+        const lastRepair = Math.max(...failed.activeFaults.map(f => f.repairAt!));
+        expect(failed.activeFaults).toHaveLength(2);
+
+        const { state: removed } = run(failed, 0, [{ type: 'REMOVE_NODE', nodeId: 'N1' }]);
+        expect(removed.activeFaults).toHaveLength(0);
+
+        const { state: later, messages } = run(removed, lastRepair + 200);
+        expect(later.nodes.some(n => n.id === 'N1')).toBe(false);
+        expect(later.activeFaults).toHaveLength(0);
+        expect(messages.filter(m => m.includes('R-1') || m.includes(linkId({ source, target } as GraphLink)))).toEqual([]);
+    });
+
+    it('should take a region down together and bring it back together', () => {
+        const initial = createSimulationState(9);
+        const { state, messages } = run(initial, 0, [{ type: 'REGIONAL_OUTAGE', center: 'N1' }]);
+        const region = regionAround(initial.nodes, initial.links, 'N1', DEFAULT_FAULTS.region.radius);
+
+        expect(region.length).toBeGreaterThan(1);
+        region.forEach(id => expect(stateOf(state, id)).toBe(NodeState.FAILED));
+        expect(new Set(state.activeFaults.map(f => f.repairAt)).size).toBe(1);
+        expect(messages.some(m => m.startsWith('Regional outage around R-1: '))).toBe(true);
+
+        const { state: healed } = run(state, state.activeFaults[0].repairAt! + 200);
+        region.forEach(id => expect(stateOf(healed, id)).not.toBe(NodeState.FAILED));
+        expect(healed.activeFaults).toHaveLength(0);
+    });
+
+    it('should fail and recover elements at random, the same way for the same seed', () => {
+        const faults = {
+            enabled: true,
+            link: { mtbfMs: 3000, mttrMs: 500 },
+            node: { mtbfMs: 6000, mttrMs: 500 },
+            region: { ...DEFAULT_FAULTS.region, mtbfMs: 0 }
+        };
+        const { messages } = run(createSimulationState(4), 8000, [{ type: 'SET_FAULTS', faults }]);
+
+        expect(messages.some(m => /^Link \S+ failed \(fault; repair in \d+\.\ds\)\.$/.test(m))).toBe(true);
+        expect(messages.some(m => /^Link \S+ restored after \d+\.\ds\.$/.test(m))).toBe(true);
+        expect(messages.some(m => / back up after \d+\.\ds\.$/.test(m))).toBe(true);
+        expect(run(createSimulationState(4), 8000, [{ type: 'SET_FAULTS', faults }]).messages).toEqual(messages);
+    });
+});
@@ -0,0 +1,68 @@
+import { GraphNode, GraphLink } from '../types';
+import { Rng } from './random';
+import { getNeighbours } from './graph';
+
+/**
+ * Random hardware faults, as opposed to attacks. Every link and router fails
+ * after an exponentially distributed time with mean MTBF and heals itself
+ * after one with mean MTTR. Regional outages take down every router within a
+ * few hops of a centre at once, and they all come back together.
+ */
+export interface FailureProfile {
+    mtbfMs: number; // mean time between failures; 0 never fails
+    mttrMs: number; // mean time to repair
+}
+
+export interface FaultConfig {
+    enabled: boolean; // random failures; manual ones work either way
+    link: FailureProfile;
+    node: FailureProfile; // routers only; endpoints never fail
+    region: FailureProfile & { radius: number }; // hops from the centre router
+    overrides: Record<string, FailureProfile>; // by link id or node id
+}
+
+export const DEFAULT_FAULTS: FaultConfig = {
+    enabled: false,
+    link: { mtbfMs: 120000, mttrMs: 8000 },
+    node: { mtbfMs: 300000, mttrMs: 15000 },
+    region: { mtbfMs: 600000, mttrMs: 20000, radius: 1 },
+    overrides: {}
+};
+
+export type FaultCause = 'random' | 'manual' | 'regional';
+
+export interface Fault {
+    kind: 'link' | 'node';
+    elementId: string; // link id or node id
+    cause: FaultCause;
+    since: number;
+    repairAt: number | null; // null: down until repaired by hand
+}
+
+export const profileFor = (config: FaultConfig, kind: Fault['kind'], elementId: string): FailureProfile =>
+    config.overrides[elementId] ?? config[kind];
+
+// Exponential with the given mean, so failures have no memory of how long the element has been up
+export const sampleDelay = (rng: Rng, meanMs: number): number => Math.max(1, Math.round(-Math.log(1 - rng.next()) * meanMs));
+
+// Routers within `radius` hops of the centre, centre first; failed links still count, it is the same area
+export const regionAround = (nodes: GraphNode[], links: GraphLink[], centerId: string, radius: number): string[] => {
+    const distance = new Map<string, number>([[centerId, 0]]);
+    const queue = [centerId];
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        if (distance.get(id)! >= radius) continue;
+        getNeighbours(links, id).forEach(n => {
+            if (distance.has(n)) return;
+            distance.set(n, distance.get(id)! + 1);
+            queue.push(n);
+        });
+    }
+    return [...distance.keys()].filter(id => nodes.find(n => n.id === id)?.type === 'router');
+};
+
+export const formatDuration = (ms: number): string => `${(ms / 1000).toFixed(1)}s`;
+
+export const describeFaults = (config: FaultConfig): string => config.enabled
+    ? `link MTBF ${formatDuration(config.link.mtbfMs)}/MTTR ${formatDuration(config.link.mttrMs)}, router MTBF ${formatDuration(config.node.mtbfMs)}/MTTR ${formatDuration(config.node.mttrMs)}`
+    : 'off';
@@ -0,0 +1,33 @@
+import { GraphNode, GraphLink } from '../types';
+
+// Helper to handle d3 object vs string id references
+export const getId = (n: string | GraphNode): string => {
+    if (typeof n === 'string') return n;
+    return n.id;
+};
+
+// Composite edge key used by packets (directional: "from-to")
+export const edgeKey = (from: string, to: string): string => `${from}-${to}`;
+
+export const findLink = (links: GraphLink[], u: string, v: string): GraphLink | undefined => {
+    return links.find(l => {
+        const s = getId(l.source);
+        const t = getId(l.target);
+        return (s === u && t === v) || (s === v && t === u);
+    });
+};
+
+// A link is down when it failed or either end is isolated; the two are tracked apart
+export const isLinkDown = (link: GraphLink, nodes: Pick<GraphNode, 'id' | 'isolated'>[]): boolean =>
+    link.isFailed || [getId(link.source), getId(link.target)].some(id => nodes.find(n => n.id === id)?.isolated === true);
+
+export const getNeighbours = (links: GraphLink[], nodeId: string): string[] => {
+    const result: string[] = [];
+    links.forEach(l => {
+        const s = getId(l.source);
+        const t = getId(l.target);
+        if (s === nodeId) result.push(t);
+        else if (t === nodeId) result.push(s);
+    });
+    return result;
+};
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { createSimulationState, step, SimulationEvent, SimulationState } from './engine';
+import { GraphEdit, invertGraphEdit, nextRouterId } from './graphEdits';
+import { getId, getNeighbours } from './graph';
+import { linkId } from './hopping';
+
+const run = (state: SimulationState, totalMs: number, events: SimulationEvent[] = []) => {
+    let current = step(state, 0, events).state;
+    for (let t = 0; t < totalMs; t += 100) current = step(current, 100).state;
+    return current;
+};
+
+const edit = (state: SimulationState, graphEdit: GraphEdit) => step(state, 0, [{ type: 'EDIT_GRAPH', edit: graphEdit }]);
+
+const shape = (state: SimulationState) => ({
+    nodes: state.nodes.map(n => `${n.id}:${n.type}:${n.label}${n.hardened ? ':hardened' : ''}`).sort(),
+    links: state.links.map(l => linkId(l)).sort()
+});
+
+describe('topology edits', () => {
+    it('should add a router to the running network without resetting it', () => {
+        const initial = run(createSimulationState(42), 3000);
+        const { nodeId, label } = nextRouterId(initial.nodes);
+        const added = edit(initial, { kind: 'addNode', nodeId, label, peers: ['N1', 'N2'] }).state;
+
+        expect(added.time).toBe(initial.time);
+        expect(added.packets).toEqual(initial.packets);
+        expect(added.nodes.find(n => n.id === nodeId)).toMatchObject({ type: 'router', label });
+        expect(getNeighbours(added.links, nodeId).sort()).toEqual(['N1', 'N2']);
+
+        // The new router takes part in hopping like any other
+        const later = run(added, 5000);
+        expect(later.nodeStats[nodeId].history.length).toBeGreaterThan(0);
+    });
+
+    it('should undo every kind of edit back to the original graph', () => {
+        const initial = run(createSimulationState(7), 1000);
+        const peerOf = (id: string) => getNeighbours(initial.links, id)[0];
+        const edits: GraphEdit[] = [
+            { kind: 'addNode', nodeId: 'N99', label: 'R-99', peers: ['SRC'] },
+            { kind: 'addLink', source: 'N99', target: 'DST' },
+            { kind: 'removeLink', source: 'N1', target: peerOf('N1') },
+            { kind: 'removeNode', nodeId: 'N2' },
+            { kind: 'setNodeType', nodeId: 'N3', nodeType: 'target' },
+            { kind: 'renameNode', nodeId: 'N4', label: 'CORE' },
+            { kind: 'hardenNode', nodeId: 'N5', hardened: true }
+        ];
+
+        let state = initial;
+        const inverses: GraphEdit[] = [];
+        edits.forEach(e => {
+            inverses.unshift(invertGraphEdit(state.nodes, state.links, e));
+            state = edit(state, e).state;
+        });
+        expect(shape(state)).not.toEqual(shape(initial));
+
+        inverses.forEach(e => { state = edit(state, e).state; });
+        expect(shape(state)).toEqual(shape(initial));
+    });
+
+    it('should hand an endpoint role over and send traffic to the new endpoint', () => {
+        const initial = createSimulationState(42);
+        const swapped = edit(initial, { kind: 'setNodeType', nodeId: 'N3', nodeType: 'target' }).state;
+
+        expect(swapped.nodes.find(n => n.id === 'N3')!.type).toBe('target');
+        expect(swapped.nodes.find(n => n.id === 'DST')!.type).toBe('router');
+
+        let current = swapped;
+        const routes: string[][] = [];
+        for (let t = 0; t < 5000; t += 100) {
+            const result = step(current, 100);
+            result.emissions.forEach(e => { if (e.kind === 'packetSpawned' && e.packetKind === 'data') routes.push(e.route); });
+            current = result.state;
+        }
+        expect(routes.length).toBeGreaterThan(0);
+        expect(routes.every(r => r[0] === 'SRC' && r[r.length - 1] === 'N3')).toBe(true);
+    });
+
+    it('should reject edits that break the network and leave it untouched', () => {
+        const initial = createSimulationState(42);
+        const rejected = (graphEdit: GraphEdit) => {
+            const { state, emissions } = edit(initial, graphEdit);
+            expect(shape(state)).toEqual(shape(initial));
+            return emissions.filter(e => e.kind === 'log').map(e => e.kind === 'log' && e.message);
+        };
+        const [a, b] = [getId(initial.links[0].source), getId(initial.links[0].target)];
+
+        expect(rejected({ kind: 'removeNode', nodeId: 'SRC' })).toEqual(['Edit rejected: SRC is the source; hand that role to another node first.']);
+        expect(rejected({ kind: 'setNodeType', nodeId: 'DST', nodeType: 'router' })[0]).toMatch(/needs a target/);
+        expect(rejected({ kind: 'addLink', source: a, target: b })[0]).toMatch(/already linked/);
+        expect(rejected({ kind: 'renameNode', nodeId: 'N1', label: '   ' })[0]).toMatch(/empty/);
+    });
+
+    it('should drop the packets travelling on a deleted link', () => {
+        const initial = run(createSimulationState(42), 3000);
+        const packet = initial.packets.find(p => p.progress > 0)!;
+        const [from, to] = [packet.route[packet.hopIndex], packet.route[packet.hopIndex + 1]];
+        const { state, emissions } = edit(initial, { kind: 'removeLink', source: to, target: from });
+
+        expect(state.packets.some(p => p.id === packet.id)).toBe(false);
+        expect(emissions.some(e => e.kind === 'packetDropped' && e.packetId === packet.id && e.reason === 'link-down')).toBe(true);
+    });
+});
@@ -0,0 +1,123 @@
+import { GraphNode, GraphLink, NodeState } from '../types';
+import { findLink, getNeighbours } from './graph';
+
+export const MAX_LABEL_LENGTH = 16;
+
+// One undoable change to the live graph. New nodes are always routers; endpoints move with setNodeType.
+export type GraphEdit =
+    | { kind: 'addNode'; nodeId: string; label: string; peers: string[] }
+    | { kind: 'removeNode'; nodeId: string }
+    | { kind: 'addLink'; source: string; target: string }
+    | { kind: 'removeLink'; source: string; target: string }
+    | { kind: 'setNodeType'; nodeId: string; nodeType: GraphNode['type'] } // the previous holder of an endpoint role takes the node's old type
+    | { kind: 'renameNode'; nodeId: string; label: string }
+    | { kind: 'hardenNode'; nodeId: string; hardened: boolean };
+
+// The next free router id and its default label, e.g. N13 / R-13
+export const nextRouterId = (nodes: GraphNode[]): { nodeId: string; label: string } => {
+    const used = nodes.map(n => /^N(\d+)$/.exec(n.id)).filter(Boolean).map(m => Number(m![1]));
+    const index = Math.max(0, ...used) + 1;
+    return { nodeId: `N${index}`, label: `R-${index}` };
+};
+
+/**
+ * Why `edit` cannot be applied to this graph, or null if it can. The engine
+ * rejects anything that would leave the network without one source and one
+ * target, or hand an endpoint role to a router the attacker or a quarantine holds.
+ */
+export const checkGraphEdit = (nodes: GraphNode[], links: GraphLink[], edit: GraphEdit): string | null => {
+    const nodeOf = (id: string) => nodes.find(n => n.id === id);
+
+    switch (edit.kind) {
+        case 'addNode': {
+            if (nodeOf(edit.nodeId)) return `node ${edit.nodeId} already exists`;
+            const unknown = edit.peers.find(id => !nodeOf(id));
+            return unknown ? `no node ${unknown}` : null;
+        }
+        case 'removeNode': {
+            const node = nodeOf(edit.nodeId);
+            if (!node) return `no node ${edit.nodeId}`;
+            return node.type === 'router' ? null : `${node.label} is the ${node.type}; hand that role to another node first`;
+        }
+        case 'addLink':
+        case 'removeLink': {
+            const unknown = [edit.source, edit.target].find(id => !nodeOf(id));
+            if (unknown) return `no node ${unknown}`;
+            if (edit.source === edit.target) return 'a link needs two different nodes';
+            const exists = !!findLink(links, edit.source, edit.target);
+            if (edit.kind === 'addLink' && exists) return `${edit.source} and ${edit.target} are already linked`;
+            if (edit.kind === 'removeLink' && !exists) return `no link between ${edit.source} and ${edit.target}`;
+            return null;
+        }
+        case 'setNodeType': {
+            const node = nodeOf(edit.nodeId);
+            if (!node) return `no node ${edit.nodeId}`;
+            if (node.type === edit.nodeType) return `${node.label} is already the ${edit.nodeType}`;
+            if (edit.nodeType === 'router') return `the network needs a ${node.type}; make another node the ${node.type} instead`;
+            if (node.state === NodeState.COMPROMISED || node.state === NodeState.LOCKED || node.state === NodeState.FAILED) {
+                return `${node.label} is ${node.state.toLowerCase()}; restore it first`;
+            }
+            return null;
+        }
+        case 'renameNode': {
+            if (!nodeOf(edit.nodeId)) return `no node ${edit.nodeId}`;
+            const label = edit.label.trim();
+            if (!label) return 'labels cannot be empty';
+            return label.length > MAX_LABEL_LENGTH ? `labels are at most ${MAX_LABEL_LENGTH} characters` : null;
+        }
+        case 'hardenNode': {
+            const node = nodeOf(edit.nodeId);
+            if (!node) return `no node ${edit.nodeId}`;
+            if (node.type !== 'router') return `${node.label} is the ${node.type}; only routers are hardened`;
+            return !!node.hardened === edit.hardened ? `${node.label} is already ${edit.hardened ? 'hardened' : 'unhardened'}` : null;
+        }
+    }
+};
+
+/**
+ * The edit that undoes `edit`, worked out against the graph before it is
+ * applied. Undoing a removal brings the router back idle, with fresh stats.
+ */
+export const invertGraphEdit = (nodes: GraphNode[], links: GraphLink[], edit: GraphEdit): GraphEdit => {
+    switch (edit.kind) {
+        case 'addNode':
+            return { kind: 'removeNode', nodeId: edit.nodeId };
+        case 'removeNode': {
+            const node = nodes.find(n => n.id === edit.nodeId)!;
+            return { kind: 'addNode', nodeId: node.id, label: node.label, peers: getNeighbours(links, node.id) };
+        }
+        case 'addLink':
+            return { kind: 'removeLink', source: edit.source, target: edit.target };
+        case 'removeLink':
+            return { kind: 'addLink', source: edit.source, target: edit.target };
+        case 'setNodeType': {
+            // Handing the role back to its previous holder swaps both nodes back
+            const holder = nodes.find(n => n.type === edit.nodeType)!;
+            return { kind: 'setNodeType', nodeId: holder.id, nodeType: edit.nodeType };
+        }
+        case 'renameNode':
+            return { kind: 'renameNode', nodeId: edit.nodeId, label: nodes.find(n => n.id === edit.nodeId)!.label };
+        case 'hardenNode':
+            return { kind: 'hardenNode', nodeId: edit.nodeId, hardened: !edit.hardened };
+    }
+};
+
+export const describeGraphEdit = (nodes: GraphNode[], edit: GraphEdit): string => {
+    const labelOf = (id: string) => nodes.find(n => n.id === id)?.label ?? id;
+    switch (edit.kind) {
+        case 'addNode':
+            return `add ${edit.label}${edit.peers.length > 0 ? ` linked to ${edit.peers.map(labelOf).join(', ')}` : ''}`;
+        case 'removeNode':
+            return `remove ${labelOf(edit.nodeId)}`;
+        case 'addLink':
+            return `link ${labelOf(edit.source)} - ${labelOf(edit.target)}`;
+        case 'removeLink':
+            return `unlink ${labelOf(edit.source)} - ${labelOf(edit.target)}`;
+        case 'setNodeType':
+            return `make ${labelOf(edit.nodeId)} the ${edit.nodeType}`;
+        case 'renameNode':
+            return `rename ${labelOf(edit.nodeId)} to ${edit.label.trim()}`;
+        case 'hardenNode':
+            return `${edit.hardened ? 'harden' : 'unharden'} ${labelOf(edit.nodeId)}`;
+    }
+};
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { runHeadless } from './headless';
+import { AttackType } from '../types';
+
+describe('runHeadless', () => {
+    it('should produce identical traces for identical options', () => {
+        const options = { seed: 9, durationSeconds: 20, attackType: AttackType.MITM, attackStartSeconds: 4 };
+        expect(JSON.stringify(runHeadless(options))).toBe(JSON.stringify(runHeadless(options)));
+    });
+
+    it('should record the attack window, packets and frequency hops', () => {
+        const trace = runHeadless({ seed: 9, durationSeconds: 20, attackType: AttackType.SNIFFING, attackStartSeconds: 4, attackStopSeconds: 12 });
+
+        expect(trace.summary.packetsDelivered).toBeGreaterThan(0);
+        expect(trace.frequencyHops).toHaveLength(10);
+        expect(trace.logs).toContainEqual(expect.objectContaining({ time: 4000, message: 'Injecting SNIFFING vector...' }));
+        expect(trace.logs).toContainEqual(expect.objectContaining({ time: 12000, message: 'Stopped SNIFFING simulation.' }));
+        expect(trace.logs.some(l => l.source === 'AI_KERNEL' && /^(Passive tap|Side-channel listener) /.test(l.message))).toBe(true);
+        expect(trace.summary.compromisedAtEnd).toEqual([]);
+    });
+});
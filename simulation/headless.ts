@@ -0,0 +1,271 @@
+import { AttackType, LogEntry, NodeState } from '../types';
+import { SIMULATION_TICK_MS } from '../constants';
+import {
+    createSimulationState, step, SimulationEvent, SimulationEmission, SimulationState, MitigationSettings
+} from './engine';
+import { DEFAULT_SEED, normalizeSeed } from './random';
+import { TopologyConfig, DEFAULT_TOPOLOGY } from './topology';
+import { HoppingConfig } from './hopping';
+import { JammerConfig } from './jamming';
+import { TransportConfig } from './transport';
+import { NetworkMetrics, createMetricsCollector } from './metrics';
+import { CipherReport, createPayloadCipher } from './payloadCipher';
+import { KeyingConfig } from './keying';
+import { FaultConfig } from './faults';
+import { KeyExchangeReport, createKeyExchange } from './keyExchange';
+import { Scenario, ScenarioReport, scenarioEvents, evaluateScenario, scenarioLogLines } from './scenario';
+import { offlineAnalysis } from '../services/offlineKernel';
+
+export const TRACE_VERSION = 2;
+
+export interface HeadlessOptions {
+    seed?: number;
+    durationSeconds: number;
+    attackType?: AttackType;
+    attackStartSeconds?: number;
+    attackStopSeconds?: number; // omitted: attack runs until the end
+    mitigation?: Partial<MitigationSettings>;
+    topology?: TopologyConfig;
+    hopping?: Partial<HoppingConfig>;
+    jammers?: JammerConfig[]; // used by JAMMING attacks
+    transport?: Partial<TransportConfig>;
+    encryption?: boolean;
+    keying?: Partial<KeyingConfig>;
+    faults?: Partial<FaultConfig>;
+    scenario?: Scenario; // played from t=0; see scenarioOptions
+}
+
+type Emission<K extends SimulationEmission['kind']> = Extract<SimulationEmission, { kind: K }>;
+
+export interface TraceLogEntry {
+    time: number;
+    source: LogEntry['source'];
+    level: LogEntry['type'];
+    message: string;
+}
+
+export interface RunTrace {
+    version: typeof TRACE_VERSION;
+    config: Required<Omit<HeadlessOptions, 'attackStopSeconds' | 'mitigation' | 'topology' | 'hopping' | 'jammers' | 'transport' | 'keying' | 'faults' | 'scenario'>> & {
+        attackStopSeconds: number | null;
+        mitigation: MitigationSettings;
+        topology: TopologyConfig;
+        hopping: HoppingConfig;
+        jammers: JammerConfig[];
+        transport: TransportConfig;
+        keying: KeyingConfig;
+        faults: FaultConfig;
+        scenario: string | null; // id
+        aiKernel: 'offline';
+    };
+    summary: { // packet counts are data packets; ACKs only appear as packetsAcked
+        packetsSpawned: number;
+        packetsDelivered: number;
+        packetsDropped: number;
+        retransmissions: number;
+        packetsAcked: number;
+        packetsLost: number;
+        frequencyHops: number;
+        nodeStateChanges: number;
+        compromisedAtEnd: string[];
+    };
+    nodeStateChanges: Omit<Emission<'nodeState'>, 'kind'>[];
+    packets: (
+        | Emission<'packetSpawned'> | Emission<'packetDelivered'> | Emission<'packetDropped'>
+        | Emission<'packetAcked'> | Emission<'packetLost'>
+    )[];
+    frequencyHops: Omit<Emission<'frequencyHop'>, 'kind'>[];
+    logs: TraceLogEntry[];
+    metrics: NetworkMetrics;
+    payloads?: CipherReport; // only from runHeadlessWithPayloads
+    keyExchange?: KeyExchangeReport; // likewise
+    scenario?: ScenarioReport;
+}
+
+const countCompromised = (state: SimulationState) => state.nodes.filter(n => n.state === NodeState.COMPROMISED).length;
+
+// The app's offline kernel, asked about the same situation the UI would send: deterministic, never touches the network
+const analysisOf = (state: SimulationState, attackType: AttackType, compromisedNodeCount: number): string =>
+    offlineAnalysis({ attackType, activeNodeCount: state.nodes.length, compromisedNodeCount, frequency: state.frequency });
+
+/**
+ * Run the engine without React or timers and collect a JSON-serializable trace.
+ */
+export const runHeadless = (
+    options: HeadlessOptions,
+    observe?: (emissions: SimulationEmission[], state: SimulationState) => void // sees every step, after the trace does
+): RunTrace => {
+    const seed = normalizeSeed(options.seed ?? DEFAULT_SEED);
+    const attackType = options.attackType ?? AttackType.NONE;
+    const attackStartSeconds = options.attackStartSeconds ?? 0;
+    const attackStopSeconds = options.attackStopSeconds ?? null;
+    const durationMs = Math.max(0, options.durationSeconds) * 1000;
+
+    let state = createSimulationState(seed, {
+        mitigation: options.mitigation,
+        topology: options.topology ?? DEFAULT_TOPOLOGY,
+        hopping: options.hopping,
+        jammers: options.jammers,
+        transport: options.transport,
+        encryption: options.encryption,
+        keying: options.keying,
+        faults: options.faults
+    });
+
+    const metrics = createMetricsCollector();
+    metrics.record(state, []);
+
+    const trace: RunTrace = {
+        version: TRACE_VERSION,
+        config: {
+            seed,
+            durationSeconds: options.durationSeconds,
+            attackType,
+            attackStartSeconds,
+            attackStopSeconds,
+            mitigation: state.mitigation,
+            topology: state.topology,
+            hopping: state.hopping,
+            jammers: state.jammerConfigs,
+            transport: state.transport,
+            encryption: state.cipher.enabled,
+            keying: state.keying,
+            faults: state.faults,
+            scenario: options.scenario?.id ?? null,
+            aiKernel: 'offline'
+        },
+        summary: {
+            packetsSpawned: 0, packetsDelivered: 0, packetsDropped: 0, retransmissions: 0, packetsAcked: 0, packetsLost: 0,
+            frequencyHops: 0, nodeStateChanges: 0, compromisedAtEnd: []
+        },
+        nodeStateChanges: [],
+        packets: [],
+        frequencyHops: [],
+        logs: [],
+        metrics: metrics.snapshot()
+    };
+
+    const addLog = (time: number, source: LogEntry['source'], level: LogEntry['type'], message: string) => {
+        trace.logs.push({ time, source, level, message });
+    };
+
+    let compromisedCount = 0;
+    const record = (emissions: SimulationEmission[]) => {
+        emissions.forEach(e => {
+            switch (e.kind) {
+                case 'log':
+                    addLog(e.time, e.source, e.level, e.message);
+                    break;
+                case 'nodeState': {
+                    const { kind, ...change } = e;
+                    trace.nodeStateChanges.push(change);
+                    break;
+                }
+                case 'packetSpawned':
+                case 'packetDelivered':
+                case 'packetDropped':
+                case 'packetAcked':
+                case 'packetLost':
+                    trace.packets.push(e);
+                    break;
+                case 'frequencyHop': {
+                    const { kind, ...hop } = e;
+                    trace.frequencyHops.push(hop);
+                    break;
+                }
+                case 'attack':
+                    if (e.attackType !== AttackType.NONE) {
+                        addLog(e.time, 'AI_KERNEL', 'warning', `Detecting ${e.attackType} signature. Initiating adaptive mitigation...`);
+                        addLog(e.time, 'AI_KERNEL', 'success', analysisOf(state, e.attackType, countCompromised(state)));
+                    }
+                    break;
+            }
+        });
+
+        // Mirror the UI's reactive analysis when new nodes fall
+        const current = countCompromised(state);
+        if (current > compromisedCount && state.attackType !== AttackType.NONE) {
+            addLog(state.time, 'AI_KERNEL', 'warning', analysisOf(state, state.attackType, current));
+        }
+        compromisedCount = current;
+    };
+
+    addLog(0, 'SYSTEM', 'info', 'Graph topology initialized. Lamarr-Turing Kernel active.');
+
+    const attackStartMs = attackStartSeconds * 1000;
+    const attackStopMs = attackStopSeconds === null ? null : attackStopSeconds * 1000;
+
+    if (options.scenario) {
+        const result = step(state, 0, scenarioEvents(options.scenario));
+        state = result.state;
+        record(result.emissions);
+        metrics.record(state, result.emissions);
+        observe?.(result.emissions, state);
+    }
+
+    while (state.time < durationMs) {
+        const events: SimulationEvent[] = [];
+        if (attackType !== AttackType.NONE) {
+            const shouldRun = state.time >= attackStartMs && (attackStopMs === null || state.time < attackStopMs);
+            const target = shouldRun ? attackType : AttackType.NONE;
+            if (state.attackType !== target) events.push({ type: 'SET_ATTACK', attackType: target });
+        }
+
+        const result = step(state, SIMULATION_TICK_MS, events);
+        state = result.state;
+        record(result.emissions);
+        metrics.record(state, result.emissions);
+        observe?.(result.emissions, state);
+    }
+
+    const data = trace.packets.filter(p => !('packetKind' in p) || p.packetKind === 'data');
+    trace.summary = {
+        packetsSpawned: data.filter(p => p.kind === 'packetSpawned').length,
+        packetsDelivered: data.filter(p => p.kind === 'packetDelivered').length,
+        packetsDropped: data.filter(p => p.kind === 'packetDropped').length,
+        retransmissions: data.filter(p => p.kind === 'packetSpawned' && p.attempt > 0).length,
+        packetsAcked: data.filter(p => p.kind === 'packetAcked').length,
+        packetsLost: data.filter(p => p.kind === 'packetLost').length,
+        frequencyHops: trace.frequencyHops.length,
+        nodeStateChanges: trace.nodeStateChanges.length,
+        compromisedAtEnd: state.nodes.filter(n => n.state === NodeState.COMPROMISED).map(n => n.id)
+    };
+
+    trace.metrics = metrics.snapshot();
+
+    if (options.scenario) {
+        trace.scenario = evaluateScenario(options.scenario, trace.metrics, state);
+        scenarioLogLines(trace.scenario).forEach(line => addLog(state.time, 'SYSTEM', line.level, line.message));
+    }
+
+    return trace;
+};
+
+// A scenario fixes its own seed, topology and length
+export const scenarioOptions = (scenario: Scenario): HeadlessOptions => ({
+    seed: scenario.seed,
+    durationSeconds: scenario.durationSeconds,
+    topology: scenario.topology,
+    scenario
+});
+
+/**
+ * Same run with real ECDH link handshakes and AES-256-GCM payloads. Both work
+ * asynchronously, so this resolves once every key has been agreed and every
+ * packet sealed and checked; their log lines are merged into the trace by time.
+ */
+export const runHeadlessWithPayloads = async (options: HeadlessOptions): Promise<RunTrace> => {
+    const cipherLogs: TraceLogEntry[] = [];
+    const keyExchange = createKeyExchange(entry => cipherLogs.push(entry));
+    const cipher = createPayloadCipher(entry => cipherLogs.push(entry), keyExchange.linkKey);
+    const trace = runHeadless(options, (emissions, state) => {
+        keyExchange.observe(emissions, state);
+        cipher.observe(emissions, state);
+    });
+
+    await Promise.all([keyExchange.settled(), cipher.settled()]);
+    trace.logs = [...trace.logs, ...cipherLogs].sort((a, b) => a.time - b.time);
+    trace.payloads = cipher.report();
+    trace.keyExchange = keyExchange.report();
+    return trace;
+};
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { AttackType } from '../types';
+import { HoppingConfig, DEFAULT_HOPPING, channelFor, createChannelSet, linkId } from './hopping';
+import { createSimulationState, step } from './engine';
+import { runHeadless } from './headless';
+
+const config = (overrides: Partial<HoppingConfig> = {}): HoppingConfig => ({ ...DEFAULT_HOPPING, key: 1234, ...overrides });
+
+describe('per-link hop sequences', () => {
+    it('should derive the same schedule from the same key', () => {
+        const a = Array.from({ length: 20 }, (_, slot) => channelFor(config(), 'N1~N2', slot));
+        const b = Array.from({ length: 20 }, (_, slot) => channelFor(config(), 'N1~N2', slot));
+
+        expect(a).toEqual(b);
+        expect(a.every(ch => DEFAULT_HOPPING.channels.includes(ch))).toBe(true);
+        expect(new Set(a).size).toBeGreaterThan(1);
+    });
+
+    it('should give different links and keys different schedules', () => {
+        const schedule = (cfg: HoppingConfig, id: string) => Array.from({ length: 20 }, (_, slot) => channelFor(cfg, id, slot));
+
+        expect(schedule(config(), 'N1~N2')).not.toEqual(schedule(config(), 'N2~N3'));
+        expect(schedule(config(), 'N1~N2')).not.toEqual(schedule(config({ key: 99 }), 'N1~N2'));
+    });
+
+    it('should park links on one channel when hopping is disabled', () => {
+        const cfg = config({ enabled: false });
+        const channels = Array.from({ length: 10 }, (_, slot) => channelFor(cfg, 'SRC~N1', slot));
+
+        expect(new Set(channels).size).toBe(1);
+    });
+
+    it('should use an order-independent link id', () => {
+        const link = { source: 'N2', target: 'N1', frequency: 0, active: false, isCompromised: false, isJammed: false, isFailed: false };
+        expect(linkId(link)).toBe('N1~N2');
+    });
+
+    it('should spread channels over the requested band', () => {
+        expect(createChannelSet(4)).toEqual([88, 113, 138, 163]);
+    });
+
+    it('should retune every link to its own channel on each hop', () => {
+        const state = createSimulationState(5);
+        const { state: hopped } = step(state, state.hopping.dwellMs);
+
+        expect(hopped.hopSlot).toBe(1);
+        hopped.links.forEach(l => {
+            expect(l.frequency).toBe(channelFor(hopped.hopping, linkId(l), 1));
+        });
+        expect(new Set(hopped.links.map(l => l.frequency)).size).toBeGreaterThan(1);
+    });
+
+    it('should only compromise links on the attacker\'s tuned channel', () => {
+        let state = step(createSimulationState(8), 0, [{ type: 'SET_ATTACK', attackType: AttackType.MITM }]).state;
+        for (let i = 0; i < 20; i++) {
+            state = step(state, 500).state;
+            state.links.filter(l => l.isCompromised).forEach(l => {
+                expect(l.frequency).toBe(state.attacker.tunedFrequency);
+            });
+        }
+    });
+
+    it('should make attacks measurably less effective than a static channel plan', () => {
+        const compromises = (enabled: boolean) => [1, 2, 3].reduce((total, seed) => {
+            const trace = runHeadless({ seed, durationSeconds: 30, attackType: AttackType.SNIFFING, mitigation: { enabled: false }, hopping: { enabled } });
+            return total + trace.nodeStateChanges.filter(c => c.to === 'COMPROMISED').length;
+        }, 0);
+
+        expect(compromises(true)).toBeLessThan(compromises(false));
+    });
+});
@@ -0,0 +1,62 @@
+import { GraphLink } from '../types';
+import { FREQUENCY_HOP_INTERVAL_MS } from '../constants';
+import { getId } from './graph';
+
+/**
+ * Lamarr-style hopping: every link follows its own pseudo-random channel
+ * sequence derived from a shared key, the link id and a slot counter. Anyone
+ * holding the key can compute where a link will be; an attacker cannot.
+ */
+export interface HoppingConfig {
+    enabled: boolean; // disabled: each link parks on its slot-0 channel
+    key: number; // shared secret
+    channels: number[]; // MHz
+    dwellMs: number; // time spent on a channel before hopping
+}
+
+export const CONTROL_CHANNEL_ID = 'CONTROL';
+
+export const createChannelSet = (count: number, baseMhz = 88, spanMhz = 100): number[] => {
+    const size = Math.max(1, Math.round(count));
+    const spacing = spanMhz / size;
+    return Array.from({ length: size }, (_, i) => Math.round(baseMhz + i * spacing));
+};
+
+export const DEFAULT_HOPPING: HoppingConfig = {
+    enabled: true,
+    key: 0x4c414d52, // overridden per run from the seed
+    channels: createChannelSet(16),
+    dwellMs: FREQUENCY_HOP_INTERVAL_MS
+};
+
+// Undirected, order-independent link id used to key hop sequences
+export const linkId = (link: GraphLink): string => {
+    const ends = [getId(link.source), getId(link.target)].sort();
+    return `${ends[0]}~${ends[1]}`;
+};
+
+const mix = (value: number): number => {
+    let h = value >>> 0;
+    h ^= h >>> 16;
+    h = Math.imul(h, 0x7feb352d);
+    h ^= h >>> 15;
+    h = Math.imul(h, 0x846ca68b);
+    h ^= h >>> 16;
+    return h >>> 0;
+};
+
+// FNV-1a
+const hashString = (value: string): number => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        h ^= value.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+};
+
+export const channelFor = (config: HoppingConfig, id: string, slot: number): number => {
+    const effectiveSlot = config.enabled ? slot : 0;
+    const index = mix(hashString(id) ^ mix(config.key ^ mix(effectiveSlot))) % config.channels.length;
+    return config.channels[index];
+};
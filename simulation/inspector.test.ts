@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { NodeState } from '../types';
+import { createSimulationState, step, SimulationEvent, SimulationState } from './engine';
+import { inspectNode } from './inspector';
+import { getId } from './graph';
+
+const run = (state: SimulationState, totalMs: number, events: SimulationEvent[] = []) => {
+    let current = step(state, 0, events).state;
+    for (let t = 0; t < totalMs; t += 100) current = step(current, 100).state;
+    return current;
+};
+
+const messages = (state: SimulationState, events: SimulationEvent[]) =>
+    step(state, 0, events).emissions.filter(e => e.kind === 'log').map(e => e.kind === 'log' && e.message);
+
+describe('node inspector', () => {
+    it('should account for every millisecond and packet a node has seen', () => {
+        const state = run(createSimulationState(42), 20000);
+        const inspection = inspectNode(state, 'N3')!;
+        const total = (Object.values(inspection.timeInStates) as number[]).reduce((sum, ms) => sum + ms, 0);
+
+        expect(total).toBe(20000);
+        expect(inspection.packetsProcessed).toBeGreaterThan(0);
+        expect(inspection.history.length).toBeGreaterThan(0);
+        expect(inspection.history[0].to).toBe(inspection.node.state); // most recent first
+        expect(inspection.links.map(l => l.peer.id).sort()).toEqual(
+            state.links.filter(l => [getId(l.source), getId(l.target)].includes('N3'))
+                .map(l => getId(l.source) === 'N3' ? getId(l.target) : getId(l.source)).sort()
+        );
+    });
+
+    it('should let the operator compromise and restore a router', () => {
+        const compromised = run(createSimulationState(42), 500, [{ type: 'COMPROMISE_NODE', nodeId: 'N4' }]);
+        expect(compromised.nodes.find(n => n.id === 'N4')!.state).toBe(NodeState.COMPROMISED);
+        expect(compromised.attacker.footholds).toContain('N4');
+        expect(inspectNode(compromised, 'N4')!.compromises).toBe(1);
+
+        const restored = step(compromised, 0, [{ type: 'RESTORE_NODE', nodeId: 'N4' }]).state;
+        expect(restored.nodes.find(n => n.id === 'N4')!.state).toBe(NodeState.IDLE);
+        expect(restored.attacker.footholds).not.toContain('N4');
+
+        expect(messages(compromised, [{ type: 'COMPROMISE_NODE', nodeId: 'SRC' }])).toEqual(['Cannot compromise SRC.']);
+    });
+
+    it('should isolate and reconnect every link of a node', () => {
+        const isolated = run(createSimulationState(42), 200, [{ type: 'ISOLATE_NODE', nodeId: 'N5' }]);
+        expect(inspectNode(isolated, 'N5')!.isolated).toBe(true);
+
+        const reconnected = step(isolated, 0, [{ type: 'RECONNECT_NODE', nodeId: 'N5' }]).state;
+        expect(inspectNode(reconnected, 'N5')!.links.every(l => !l.isFailed)).toBe(true);
+    });
+
+    it('should keep isolation and link faults apart', () => {
+        const [link] = inspectNode(createSimulationState(42), 'N5')!.links;
+        const cut = step(createSimulationState(42), 0, [
+            { type: 'FAIL_LINK', source: 'N5', target: link.peer.id },
+            { type: 'ISOLATE_NODE', nodeId: 'N5' }
+        ]).state;
+        expect(cut.links.filter(l => l.isFailed)).toHaveLength(1);
+        expect(inspectNode(cut, 'N5')!.links.every(l => l.isDown)).toBe(true);
+
+        // A repair does not reconnect the node, and reconnecting does not repair the link
+        const repaired = step(cut, 0, [{ type: 'RESTORE_LINK', source: 'N5', target: link.peer.id }]).state;
+        expect(inspectNode(repaired, 'N5')!.links.every(l => l.isDown)).toBe(true);
+        const reconnected = step(cut, 0, [{ type: 'RECONNECT_NODE', nodeId: 'N5' }]).state;
+        expect(inspectNode(reconnected, 'N5')!.links.filter(l => l.isDown).map(l => l.id)).toEqual([link.id]);
+        expect(reconnected.activeFaults.map(f => f.elementId)).toEqual([link.id]);
+    });
+
+    it('should remove a router with its links and keep routing around it', () => {
+        const initial = run(createSimulationState(42), 3000);
+        const removed = step(initial, 0, [{ type: 'REMOVE_NODE', nodeId: 'N6' }]).state;
+
+        expect(removed.nodes.some(n => n.id === 'N6')).toBe(false);
+        expect(removed.links.some(l => getId(l.source) === 'N6' || getId(l.target) === 'N6')).toBe(false);
+        expect(removed.packets.every(p => !p.route.slice(p.hopIndex, p.hopIndex + 2).includes('N6'))).toBe(true);
+        expect(inspectNode(removed, 'N6')).toBeNull();
+
+        const later = run(removed, 10000);
+        expect(later.packets.every(p => !p.route.includes('N6'))).toBe(true);
+        expect(messages(initial, [{ type: 'REMOVE_NODE', nodeId: 'DST' }])).toEqual(['Cannot remove DST.']);
+    });
+});
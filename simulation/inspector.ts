@@ -0,0 +1,64 @@
+import { GraphNode, NodeState } from '../types';
+import { SimulationState } from './engine';
+import { getId, isLinkDown } from './graph';
+import { linkId } from './hopping';
+import { Quarantine } from './quarantine';
+import { Fault } from './faults';
+import { NodeTransitionRecord, timeInStates } from './nodeStats';
+
+export interface InspectedLink {
+    id: string;
+    peer: GraphNode;
+    frequency: number;
+    isFailed: boolean; // a fault of its own, which can be restored
+    isDown: boolean; // failed, or cut off by an isolated end
+    isJammed: boolean;
+    isCompromised: boolean;
+}
+
+export interface NodeInspection {
+    node: GraphNode;
+    links: InspectedLink[]; // one per neighbour
+    packetsProcessed: number;
+    compromises: number;
+    timeInStates: Record<NodeState, number>; // ms since the run started
+    history: NodeTransitionRecord[]; // most recent first
+    quarantine: Quarantine | null;
+    fault: Fault | null; // the node's own hardware fault, not its links'
+    isolated: boolean; // cut off by the operator
+}
+
+// Everything the inspector shows for one node, read off a single engine state
+export const inspectNode = (state: SimulationState, nodeId: string): NodeInspection | null => {
+    const node = state.nodes.find(n => n.id === nodeId);
+    const stats = state.nodeStats[nodeId];
+    if (!node || !stats) return null;
+
+    const links = state.links
+        .filter(l => getId(l.source) === nodeId || getId(l.target) === nodeId)
+        .map(l => {
+            const peerId = getId(l.source) === nodeId ? getId(l.target) : getId(l.source);
+            return {
+                id: linkId(l),
+                peer: state.nodes.find(n => n.id === peerId)!,
+                frequency: l.frequency,
+                isFailed: l.isFailed,
+                isDown: isLinkDown(l, state.nodes),
+                isJammed: l.isJammed,
+                isCompromised: l.isCompromised
+            };
+        })
+        .sort((a, b) => a.peer.id.localeCompare(b.peer.id, undefined, { numeric: true }));
+
+    return {
+        node,
+        links,
+        packetsProcessed: stats.packetsProcessed,
+        compromises: stats.compromises,
+        timeInStates: timeInStates(stats, node.state, state.time),
+        history: [...stats.history].reverse(),
+        quarantine: state.quarantines.find(q => q.nodeId === nodeId) ?? null,
+        fault: state.activeFaults.find(f => f.kind === 'node' && f.elementId === nodeId) ?? null,
+        isolated: !!node.isolated
+    };
+};
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { AttackType, NodeState } from '../types';
+import { JAMMER_PRESETS, createJammers, advanceJammers, isJammed } from './jamming';
+import { createSimulationState, step, SimulationState } from './engine';
+import { runHeadless } from './headless';
+
+const run = (state: SimulationState, totalMs: number) => {
+    let current = state;
+    const emissions = [];
+    for (let t = 0; t < totalMs; t += 100) {
+        const result = step(current, 100);
+        current = result.state;
+        emissions.push(...result.emissions);
+    }
+    return { state: current, emissions };
+};
+
+describe('jammers', () => {
+    it('should only cover frequencies inside the band', () => {
+        const jammers = createJammers([{ kind: 'fixed', centerMhz: 100, bandwidthMhz: 10 }]);
+
+        expect(isJammed(jammers, 95)).toBe(true);
+        expect(isJammed(jammers, 105)).toBe(true);
+        expect(isJammed(jammers, 106)).toBe(false);
+        expect(isJammed([], 100)).toBe(false);
+    });
+
+    it('should sweep up the band and wrap around', () => {
+        const [sweeper] = createJammers([{ kind: 'sweep', centerMhz: 180, bandwidthMhz: 10, sweepMhzPerSecond: 20 }]);
+
+        advanceJammers([sweeper], 500, 0, [88, 188], []);
+        expect(sweeper.currentMhz).toBe(190 - 100);
+    });
+
+    it('should retune a reactive jammer onto traffic after its reaction time', () => {
+        const [reactive] = createJammers([{ kind: 'reactive', centerMhz: 100, bandwidthMhz: 4, reactionMs: 300 }]);
+
+        expect(advanceJammers([reactive], 20, 0, [88, 188], [150])).toEqual([]);
+        expect(advanceJammers([reactive], 20, 200, [88, 188], [150])).toEqual([]);
+        expect(advanceJammers([reactive], 20, 300, [88, 188], [150])).toEqual([reactive]);
+        expect(reactive.currentMhz).toBe(150);
+    });
+
+    it('should jam links and drop packets without compromising nodes', () => {
+        let state = createSimulationState(4, { jammers: [{ kind: 'fixed', centerMhz: 135, bandwidthMhz: 100 }] });
+        state = step(state, 0, [{ type: 'SET_ATTACK', attackType: AttackType.JAMMING }]).state;
+        expect(state.links.every(l => l.isJammed)).toBe(true);
+
+        const { state: jammed, emissions } = run(state, 15000);
+        expect(emissions).toContainEqual(expect.objectContaining({ kind: 'packetDropped', reason: 'jammed' }));
+        expect(jammed.nodes.some(n => n.state === NodeState.COMPROMISED)).toBe(false);
+
+        const stopped = step(jammed, 0, [{ type: 'SET_ATTACK', attackType: AttackType.NONE }]).state;
+        expect(stopped.jammers).toEqual([]);
+        expect(stopped.links.some(l => l.isJammed)).toBe(false);
+    });
+
+    it('should lose fewer packets to a narrowband jammer when links hop', () => {
+        const dropped = (enabled: boolean) => [1, 2, 3].reduce((total, seed) => total + runHeadless({
+            seed, durationSeconds: 25, attackType: AttackType.JAMMING, jammers: [JAMMER_PRESETS.fixed], hopping: { enabled }
+        }).summary.packetsDropped, 0);
+
+        expect(dropped(true)).toBeLessThan(dropped(false));
+    });
+});
@@ -0,0 +1,93 @@
+export type JammerKind = 'fixed' | 'sweep' | 'reactive';
+
+/**
+ * Band-limited noise source. A jammer only degrades links whose current
+ * frequency falls inside [centre - bandwidth/2, centre + bandwidth/2].
+ */
+export interface JammerConfig {
+    kind: JammerKind;
+    centerMhz: number; // starting centre; fixed jammers never move
+    bandwidthMhz: number;
+    sweepMhzPerSecond?: number; // sweep: how fast the centre moves up the band
+    reactionMs?: number; // reactive: time needed to retune onto observed traffic
+}
+
+export interface Jammer extends JammerConfig {
+    id: string;
+    currentMhz: number;
+    retuneAt: number | null; // reactive: pending retune while traffic is out of band
+}
+
+export const JAMMER_LABELS: Record<JammerKind, string> = {
+    fixed: 'FIXED_BAND',
+    sweep: 'SWEEPING',
+    reactive: 'REACTIVE'
+};
+
+export const JAMMER_PRESETS: Record<JammerKind, JammerConfig> = {
+    fixed: { kind: 'fixed', centerMhz: 120, bandwidthMhz: 14 },
+    sweep: { kind: 'sweep', centerMhz: 88, bandwidthMhz: 10, sweepMhzPerSecond: 25 },
+    reactive: { kind: 'reactive', centerMhz: 140, bandwidthMhz: 6, reactionMs: 400 }
+};
+
+export const DEFAULT_JAMMERS: JammerConfig[] = [JAMMER_PRESETS.fixed];
+
+export const createJammers = (configs: JammerConfig[]): Jammer[] =>
+    configs.map((config, i) => ({ ...config, id: `J${i + 1}`, currentMhz: config.centerMhz, retuneAt: null }));
+
+export const jammerBand = (jammer: Jammer): [number, number] =>
+    [jammer.currentMhz - jammer.bandwidthMhz / 2, jammer.currentMhz + jammer.bandwidthMhz / 2];
+
+export const isInBand = (jammer: Jammer, frequency: number): boolean => {
+    const [low, high] = jammerBand(jammer);
+    return frequency >= low && frequency <= high;
+};
+
+export const isJammed = (jammers: Jammer[], frequency: number): boolean => jammers.some(j => isInBand(j, frequency));
+
+export const describeJammer = (jammer: Jammer): string => {
+    const [low, high] = jammerBand(jammer);
+    return `${jammer.id} (${JAMMER_LABELS[jammer.kind]}) ${Math.round(low)}-${Math.round(high)} MHz`;
+};
+
+/**
+ * Move every jammer forward by `dtMs`. Sweepers wrap inside `[minMhz, maxMhz]`;
+ * reactive jammers chase the first busy frequency they are not already covering.
+ * Returns the jammers that retuned onto traffic during this call.
+ */
+export const advanceJammers = (
+    jammers: Jammer[],
+    dtMs: number,
+    time: number,
+    [minMhz, maxMhz]: [number, number],
+    busyFrequencies: number[]
+): Jammer[] => {
+    const retuned: Jammer[] = [];
+
+    jammers.forEach(j => {
+        if (j.kind === 'sweep') {
+            const span = Math.max(1, maxMhz - minMhz);
+            const moved = j.currentMhz + (j.sweepMhzPerSecond ?? 0) * dtMs / 1000;
+            j.currentMhz = moved > maxMhz ? minMhz + ((moved - minMhz) % span) : moved;
+            return;
+        }
+
+        if (j.kind !== 'reactive') return;
+
+        if (busyFrequencies.length === 0 || busyFrequencies.some(f => isInBand(j, f))) {
+            j.retuneAt = null;
+            return;
+        }
+
+        if (j.retuneAt === null) {
+            j.retuneAt = time + (j.reactionMs ?? 0);
+        }
+        if (time >= j.retuneAt) {
+            j.currentMhz = busyFrequencies[0];
+            j.retuneAt = null;
+            retuned.push(j);
+        }
+    });
+
+    return retuned;
+};
@@ -0,0 +1,79 @@
+import { SimulationEmission, SimulationState } from './engine';
+import { HandshakeResult, performHandshake } from './keying';
+import { CipherLogEntry } from './payloadCipher';
+
+export interface KeyExchangeReport {
+    handshakes: number; // completed, including rekeys
+    rekeys: number;
+    failures: number;
+    fingerprints: Record<string, { epoch: number; fingerprint: string }>; // current key per link
+}
+
+export interface KeyExchange {
+    observe: (emissions: SimulationEmission[], state: SimulationState) => void;
+    settled: () => Promise<void>;
+    report: () => KeyExchangeReport;
+    linkKey: (linkId: string, epoch: number) => Promise<CryptoKey | null>;
+}
+
+// Older epochs are dropped: nothing is sent under them any more
+const KEPT_EPOCHS = 2;
+
+const emptyReport = (): KeyExchangeReport => ({ handshakes: 0, rekeys: 0, failures: 0, fingerprints: {} });
+
+/**
+ * Runs the ECDH handshakes the engine announces with `keyExchange` emissions.
+ * Handshakes start as soon as they are observed; the report is updated in
+ * emission order, like the payload cipher.
+ */
+export const createKeyExchange = (onLog: (entry: CipherLogEntry) => void = () => {}): KeyExchange => {
+    let queue: Promise<void> = Promise.resolve();
+    let generation = 0;
+    let lastTime = 0;
+    let report = emptyReport();
+    let keys = new Map<string, Promise<HandshakeResult>>(); // by `${linkId}#${epoch}`
+
+    const observe = (emissions: SimulationEmission[], state: SimulationState) => {
+        if (state.time < lastTime) {
+            generation++;
+            report = emptyReport();
+            keys = new Map();
+        }
+        lastTime = state.time;
+
+        const current = generation;
+        emissions.forEach(e => {
+            if (e.kind !== 'keyExchange') return;
+
+            const id = `${e.linkId}#${e.epoch}`;
+            const handshake = performHandshake(id);
+            handshake.catch(() => {}); // reported below, in order
+            keys.set(id, handshake);
+            keys.delete(`${e.linkId}#${e.epoch - KEPT_EPOCHS}`);
+
+            queue = queue.then(async () => {
+                try {
+                    const { fingerprint } = await handshake;
+                    if (current !== generation) return;
+                    report.handshakes++;
+                    if (e.reason === 'rekey') report.rekeys++;
+                    report.fingerprints[e.linkId] = { epoch: e.epoch, fingerprint };
+                } catch (err) {
+                    if (current !== generation) return;
+                    report.failures++;
+                    onLog({ time: e.time, source: 'SYSTEM', level: 'error', message: `Handshake on ${id} failed: ${err instanceof Error ? err.message : String(err)}` });
+                }
+            });
+        });
+    };
+
+    return {
+        observe,
+        settled: () => queue,
+        report: () => ({ ...report, fingerprints: { ...report.fingerprints } }),
+        linkKey: async (linkId, epoch) => {
+            const handshake = keys.get(`${linkId}#${epoch}`);
+            return handshake ? handshake.then(r => r.key, () => null) : null;
+        }
+    };
+};
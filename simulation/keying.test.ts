@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { AttackType, NodeState } from '../types';
+import { performHandshake, liveLeaks } from './keying';
+import { createSimulationState, step, SimulationEmission, SimulationEvent, SimulationOptions, SimulationState } from './engine';
+import { linkId } from './hopping';
+import { getId } from './graph';
+import { encodeText, decodeText, nonceFor, sealPayload, openPayload } from './crypto';
+
+const run = (state: SimulationState, totalMs: number, events: SimulationEvent[] = []) => {
+    let current = step(state, 0, events).state;
+    const emissions: SimulationEmission[] = [];
+    for (let t = 0; t < totalMs; t += 100) {
+        const result = step(current, 100);
+        current = result.state;
+        emissions.push(...result.emissions);
+    }
+    return { state: current, emissions };
+};
+
+const ofKind = <K extends SimulationEmission['kind']>(emissions: SimulationEmission[], kind: K) =>
+    emissions.filter((e): e is Extract<SimulationEmission, { kind: K }> => e.kind === kind);
+
+const HIJACK: SimulationOptions = { mitigation: { enabled: false } };
+
+describe('link keying', () => {
+    it('should agree on a fresh AES key in every ECDH handshake', async () => {
+        const [a, b] = await Promise.all([performHandshake('N1~N2#1'), performHandshake('N1~N2#1')]);
+        const sealed = await sealPayload(a.key, nonceFor(1, 1), encodeText('SEG 000001'), 'N1~N2');
+
+        expect(decodeText((await openPayload(a.key, sealed, 'N1~N2'))!)).toBe('SEG 000001');
+        // Ephemeral keys: the same link and epoch never yields the same key twice
+        expect(b.fingerprint).not.toBe(a.fingerprint);
+        expect(await openPayload(b.key, sealed, 'N1~N2')).toBeNull();
+    });
+
+    it('should key every link when it comes up and rekey every N hops', () => {
+        const initial = createSimulationState(3, { keying: { rekeyEveryHops: 2 } });
+        const { state, emissions } = run(initial, 9000); // four hops at the default 2s dwell
+        const exchanges = ofKind(emissions, 'keyExchange');
+
+        expect(exchanges.filter(e => e.reason === 'link-up')).toHaveLength(initial.links.length);
+        expect(exchanges.filter(e => e.reason === 'rekey')).toHaveLength(initial.links.length * 2);
+        initial.links.forEach(l => expect(state.linkKeys[linkId(l)]).toMatchObject({ epoch: 3, active: true }));
+    });
+
+    it('should rehandshake under a new epoch when a quarantined node comes back', () => {
+        const initial = createSimulationState(3, { keying: { rekeyEveryHops: 0 } });
+        const { state: keyed } = run(initial, 200);
+        const { state: locked } = run(keyed, 500, [{ type: 'LOCK_NODE', nodeId: 'N1', release: { kind: 'timed', durationMs: 1000 } }]);
+        const cut = locked.links.filter(l => [l.source, l.target].some(end => getId(end) === 'N1')).map(l => linkId(l));
+
+        expect(cut.length).toBeGreaterThan(0);
+        cut.forEach(id => expect(locked.linkKeys[id].active).toBe(false));
+
+        const { state, emissions } = run(locked, 1500);
+        expect(ofKind(emissions, 'keyExchange').map(e => e.linkId).sort()).toEqual([...cut].sort());
+        cut.forEach(id => expect(state.linkKeys[id]).toMatchObject({ epoch: 2, active: true }));
+    });
+
+    it('should leak only the keys a compromised router holds right now', () => {
+        const { state, emissions } = run(createSimulationState(5, HIJACK), 30000, [{ type: 'SET_ATTACK', attackType: AttackType.HIJACKING }]);
+        const leaks = ofKind(emissions, 'keyLeaked');
+        expect(leaks.length).toBeGreaterThan(0);
+
+        // Each leak is the epoch that was live on a link of the leaking router at that moment
+        const epochs = new Map<string, number>();
+        emissions.forEach(e => {
+            if (e.kind === 'keyExchange') epochs.set(e.linkId, e.epoch);
+            if (e.kind === 'keyLeaked') {
+                expect(e.linkId.split('~')).toContain(e.nodeId);
+                expect(e.epoch).toBe(epochs.get(e.linkId));
+            }
+        });
+        expect(state.leakedKeys).toHaveLength(leaks.length);
+    });
+
+    it('should stop exposing traffic once compromised routers are gone and links rekey', () => {
+        const { state: breached } = run(createSimulationState(5, HIJACK), 30000, [{ type: 'SET_ATTACK', attackType: AttackType.HIJACKING }]);
+        expect(liveLeaks(breached.linkKeys, breached.leakedKeys).length).toBeGreaterThan(0);
+
+        // Quarantine every compromised router and let the links rekey behind them
+        const locks: SimulationEvent[] = breached.nodes
+            .filter(n => n.state === NodeState.COMPROMISED)
+            .map(n => ({ type: 'LOCK_NODE', nodeId: n.id, release: { kind: 'timed', durationMs: 60000 } }));
+        const { state } = run(breached, 8000, [{ type: 'SET_ATTACK', attackType: AttackType.NONE }, ...locks]);
+
+        expect(state.nodes.some(n => n.state === NodeState.COMPROMISED)).toBe(false);
+        expect(liveLeaks(state.linkKeys, state.leakedKeys)).toEqual([]);
+        expect(state.leakedKeys.length).toBe(breached.leakedKeys.length);
+    });
+});
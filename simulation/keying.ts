@@ -0,0 +1,94 @@
+import { GraphNode, GraphLink, NodeState } from '../types';
+import { getId, isLinkDown } from './graph';
+import { linkId } from './hopping';
+import { toHex } from './crypto';
+
+/**
+ * Hop-by-hop link keys. Neighbours agree on a fresh key with an ephemeral
+ * ECDH handshake whenever a link comes up and again every `rekeyEveryHops`
+ * frequency hops. A compromised router gives away the keys it currently
+ * holds, but not earlier or later epochs: that is the forward secrecy.
+ */
+export interface KeyingConfig {
+    rekeyEveryHops: number; // 0 keeps each link on its first key
+}
+
+export const DEFAULT_KEYING: KeyingConfig = { rekeyEveryHops: 3 };
+
+export interface LinkKey {
+    epoch: number; // increases with every handshake on the link
+    establishedAt: number;
+    active: boolean; // false once the link went down; the epoch is kept for numbering
+}
+
+export interface LeakedKey {
+    linkId: string;
+    epoch: number;
+    nodeId: string; // router that gave it away
+    time: number;
+}
+
+export type KeyExchangeReason = 'link-up' | 'rekey';
+
+// Keys only exist while the link is up and neither end is quarantined
+export const isLinkUp = (link: GraphLink, nodes: GraphNode[]): boolean => {
+    if (isLinkDown(link, nodes)) return false;
+    const ends = [getId(link.source), getId(link.target)];
+    return ends.every(id => {
+        const state = nodes.find(n => n.id === id)?.state;
+        return state !== NodeState.LOCKED && state !== NodeState.FAILED;
+    });
+};
+
+export const isKeyLeaked = (leaked: LeakedKey[], id: string, epoch: number): boolean =>
+    leaked.some(l => l.linkId === id && l.epoch === epoch);
+
+// Leaked keys that still protect traffic right now
+export const liveLeaks = (linkKeys: Record<string, LinkKey>, leaked: LeakedKey[]): LeakedKey[] =>
+    leaked.filter(l => linkKeys[l.linkId]?.active && linkKeys[l.linkId].epoch === l.epoch);
+
+export const linkKeyExposed = (link: GraphLink | undefined, linkKeys: Record<string, LinkKey>, leaked: LeakedKey[]): boolean => {
+    if (!link) return false;
+    const id = linkId(link);
+    const key = linkKeys[id];
+    return key !== undefined && key.active && isKeyLeaked(leaked, id, key.epoch);
+};
+
+// --- WebCrypto ---
+
+const ECDH = { name: 'ECDH', namedCurve: 'P-256' } as const;
+
+export interface HandshakeResult {
+    key: CryptoKey; // AES-256-GCM key both ends derived
+    fingerprint: string;
+}
+
+/**
+ * Ephemeral ECDH between the two ends of a link. Each side derives the shared
+ * secret from its own private key and the other's public key; they must agree.
+ * HKDF then turns the secret into the AES key, bound to `info` (link and epoch).
+ */
+export const performHandshake = async (info: string): Promise<HandshakeResult> => {
+    const [a, b] = await Promise.all([
+        crypto.subtle.generateKey(ECDH, false, ['deriveBits']),
+        crypto.subtle.generateKey(ECDH, false, ['deriveBits'])
+    ]);
+    const [fromA, fromB] = await Promise.all([
+        crypto.subtle.deriveBits({ name: 'ECDH', public: b.publicKey }, a.privateKey, 256),
+        crypto.subtle.deriveBits({ name: 'ECDH', public: a.publicKey }, b.privateKey, 256)
+    ]);
+
+    const secret = new Uint8Array(fromA);
+    if (toHex(secret) !== toHex(new Uint8Array(fromB))) throw new Error('ECDH peers derived different secrets');
+
+    const material = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+    const key = await crypto.subtle.deriveKey(
+        { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(32), info: new TextEncoder().encode(info) },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', secret));
+    return { key, fingerprint: toHex(digest.slice(0, 6)) };
+};
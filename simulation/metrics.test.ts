@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { AttackType } from '../types';
+import { createMetricsCollector, MAX_METRICS_SAMPLES } from './metrics';
+import { createSimulationState, step } from './engine';
+import { runHeadless } from './headless';
+
+describe('network metrics', () => {
+    it('should agree with the headless trace summary', () => {
+        const trace = runHeadless({ seed: 2, durationSeconds: 30 });
+        const { metrics, summary } = trace;
+
+        expect(metrics.packetsSpawned).toBe(summary.packetsSpawned);
+        expect(metrics.packetsDelivered).toBe(summary.packetsDelivered);
+        expect(metrics.packetsDropped).toBe(summary.packetsDropped);
+        expect(metrics.deliveryRatio).toBeGreaterThan(0);
+        expect(metrics.latencyMs!.p95).toBeGreaterThanOrEqual(metrics.latencyMs!.mean);
+        expect(metrics.hopCount!.mean).toBeGreaterThanOrEqual(1);
+        expect(metrics.compromisedNodeTimeShare).toBe(0);
+    });
+
+    it('should attribute drops to their cause', () => {
+        const { metrics } = runHeadless({
+            seed: 4,
+            durationSeconds: 30,
+            attackType: AttackType.JAMMING,
+            hopping: { enabled: false }
+        });
+        const total = Object.values(metrics.dropsByCause).reduce((sum, n) => sum + n, 0);
+
+        expect(metrics.dropsByCause.jammed).toBeGreaterThan(0);
+        expect(total).toBe(metrics.packetsDropped);
+    });
+
+    it('should measure compromise exposure and time to recovery', () => {
+        const { metrics } = runHeadless({ seed: 5, durationSeconds: 60, attackType: AttackType.HIJACKING, attackStopSeconds: 30 });
+        const [episode] = metrics.attacks;
+
+        expect(metrics.compromisedNodeTimeShare).toBeGreaterThan(0);
+        expect(episode.attackType).toBe(AttackType.HIJACKING);
+        expect(episode.firstCompromiseAt).not.toBeNull();
+        expect(episode.recoveredAt).not.toBeNull();
+        expect(metrics.meanTimeToRecoveryMs).toBe(episode.recoveredAt! - episode.startedAt);
+    });
+
+    it('should keep a bounded series and restart when time goes backwards', () => {
+        const collector = createMetricsCollector();
+        let state = createSimulationState(1);
+        collector.record(state, []);
+        for (let t = 0; t < (MAX_METRICS_SAMPLES + 10) * 1000; t += 100) {
+            const result = step(state, 100);
+            state = result.state;
+            collector.record(state, result.emissions);
+        }
+
+        expect(collector.snapshot().samples).toHaveLength(MAX_METRICS_SAMPLES);
+
+        collector.record(createSimulationState(1), []);
+        expect(collector.snapshot()).toEqual(expect.objectContaining({ time: 0, packetsSpawned: 0, samples: [] }));
+    });
+});
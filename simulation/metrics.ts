@@ -0,0 +1,211 @@
+import { AttackType, NodeState } from '../types';
+import { SimulationState, SimulationEmission } from './engine';
+import { PacketDropReason } from './transport';
+
+export const METRICS_SAMPLE_MS = 1000;
+export const MAX_METRICS_SAMPLES = 60;
+
+// One point of the rolling series; windowed values cover the last METRICS_SAMPLE_MS
+export interface MetricsSample {
+    time: number;
+    deliveryRatio: number | null;
+    latencyMs: number | null;
+    hops: number | null;
+    compromisedShare: number; // instantaneous share of routers COMPROMISED
+    drops: number;
+}
+
+export interface AttackEpisode {
+    attackType: AttackType;
+    startedAt: number;
+    firstCompromiseAt: number | null;
+    recoveredAt: number | null; // first time no router was COMPROMISED after the first compromise
+}
+
+// Packet counts cover data packets only; ACK traffic shows up as segmentsAcked
+export interface NetworkMetrics {
+    time: number;
+    packetsSpawned: number; // including retransmissions
+    packetsDelivered: number;
+    packetsDropped: number;
+    deliveryRatio: number | null; // delivered / (delivered + dropped)
+    latencyMs: { mean: number; p95: number; max: number } | null;
+    hopCount: { mean: number; max: number } | null;
+    dropsByCause: Record<PacketDropReason, number>;
+    retransmissions: number;
+    segmentsAcked: number;
+    segmentsLost: number; // given up after the last retransmission
+    compromisedNodeTimeShare: number; // COMPROMISED router-ms / total router-ms
+    attacks: AttackEpisode[];
+    meanTimeToRecoveryMs: number | null; // attack start -> recovery, over recovered episodes
+    samples: MetricsSample[];
+}
+
+export interface MetricsCollector {
+    record: (state: SimulationState, emissions: SimulationEmission[]) => void;
+    snapshot: () => NetworkMetrics;
+    reset: () => void;
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const percentile = (values: number[], p: number) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+};
+
+const countCompromisedRouters = (state: SimulationState) => {
+    const routers = state.nodes.filter(n => n.type === 'router');
+    return { compromised: routers.filter(n => n.state === NodeState.COMPROMISED).length, total: routers.length };
+};
+
+interface Recording {
+    lastTime: number;
+    spawnedAt: Map<string, number>;
+    spawned: number;
+    latencies: number[];
+    hops: number[];
+    dropsByCause: Record<PacketDropReason, number>;
+    retransmissions: number;
+    segmentsAcked: number;
+    segmentsLost: number;
+    compromisedMs: number;
+    routerMs: number;
+    counts: { compromised: number; total: number }; // held since lastTime
+    attacks: AttackEpisode[];
+    samples: MetricsSample[];
+    nextSampleAt: number;
+    window: { delivered: number; dropped: number; latencies: number[]; hops: number[] };
+}
+
+const emptyWindow = () => ({ delivered: 0, dropped: 0, latencies: [], hops: [] });
+
+const emptyRecording = (): Recording => ({
+    lastTime: 0,
+    spawnedAt: new Map(),
+    spawned: 0,
+    latencies: [],
+    hops: [],
+    dropsByCause: { 'dead-end': 0, 'jammed': 0, 'intercepted': 0, 'tampered': 0, 'ttl': 0, 'quarantined': 0, 'link-down': 0, 'node-down': 0 },
+    retransmissions: 0,
+    segmentsAcked: 0,
+    segmentsLost: 0,
+    compromisedMs: 0,
+    routerMs: 0,
+    counts: { compromised: 0, total: 0 },
+    attacks: [],
+    samples: [],
+    nextSampleAt: METRICS_SAMPLE_MS,
+    window: emptyWindow()
+});
+
+/**
+ * Accumulates metrics from engine steps. Feed it every step (including ones
+ * without emissions) so time-weighted values stay exact; a step whose time
+ * goes backwards (a RESET) starts a fresh recording.
+ */
+export const createMetricsCollector = (): MetricsCollector => {
+    let r = emptyRecording();
+
+    const reset = () => { r = emptyRecording(); };
+
+    const record = (state: SimulationState, emissions: SimulationEmission[]) => {
+        if (state.time < r.lastTime) reset();
+
+        // Node-time integrates the counts held since the previous step
+        const elapsed = state.time - r.lastTime;
+        r.compromisedMs += r.counts.compromised * elapsed;
+        r.routerMs += r.counts.total * elapsed;
+        r.lastTime = state.time;
+
+        emissions.forEach(e => {
+            if ('packetKind' in e && e.packetKind === 'ack') return;
+            switch (e.kind) {
+                case 'packetSpawned':
+                    r.spawned++;
+                    if (e.attempt > 0) r.retransmissions++;
+                    r.spawnedAt.set(e.packetId, e.time);
+                    break;
+                case 'packetDelivered': {
+                    const latency = e.time - (r.spawnedAt.get(e.packetId) ?? e.time);
+                    r.spawnedAt.delete(e.packetId);
+                    r.latencies.push(latency);
+                    r.hops.push(e.hops);
+                    r.window.delivered++;
+                    r.window.latencies.push(latency);
+                    r.window.hops.push(e.hops);
+                    break;
+                }
+                case 'packetDropped':
+                    r.spawnedAt.delete(e.packetId);
+                    r.dropsByCause[e.reason]++;
+                    r.window.dropped++;
+                    break;
+                case 'packetAcked':
+                    r.segmentsAcked++;
+                    break;
+                case 'packetLost':
+                    r.segmentsLost++;
+                    break;
+                case 'attack':
+                    if (e.attackType !== AttackType.NONE) {
+                        r.attacks.push({ attackType: e.attackType, startedAt: e.time, firstCompromiseAt: null, recoveredAt: null });
+                    }
+                    break;
+                case 'nodeState': {
+                    const episode = r.attacks[r.attacks.length - 1];
+                    if (e.to === NodeState.COMPROMISED && episode && episode.firstCompromiseAt === null) episode.firstCompromiseAt = e.time;
+                    break;
+                }
+            }
+        });
+
+        r.counts = countCompromisedRouters(state);
+        const episode = r.attacks[r.attacks.length - 1];
+        if (episode && episode.firstCompromiseAt !== null && episode.recoveredAt === null && r.counts.compromised === 0) {
+            episode.recoveredAt = state.time;
+        }
+
+        while (state.time >= r.nextSampleAt) {
+            const { window, counts } = r;
+            const completed = window.delivered + window.dropped;
+            r.samples.push({
+                time: r.nextSampleAt,
+                deliveryRatio: completed > 0 ? window.delivered / completed : null,
+                latencyMs: window.latencies.length > 0 ? mean(window.latencies) : null,
+                hops: window.hops.length > 0 ? mean(window.hops) : null,
+                compromisedShare: counts.total > 0 ? counts.compromised / counts.total : 0,
+                drops: window.dropped
+            });
+            if (r.samples.length > MAX_METRICS_SAMPLES) r.samples.shift();
+            r.window = emptyWindow();
+            r.nextSampleAt += METRICS_SAMPLE_MS;
+        }
+    };
+
+    const snapshot = (): NetworkMetrics => {
+        const dropped = Object.values(r.dropsByCause).reduce((sum, n) => sum + n, 0);
+        const delivered = r.latencies.length;
+        const recovered = r.attacks.filter(a => a.recoveredAt !== null);
+
+        return {
+            time: r.lastTime,
+            packetsSpawned: r.spawned,
+            packetsDelivered: delivered,
+            packetsDropped: dropped,
+            deliveryRatio: delivered + dropped > 0 ? delivered / (delivered + dropped) : null,
+            latencyMs: delivered > 0 ? { mean: mean(r.latencies), p95: percentile(r.latencies, 0.95), max: Math.max(...r.latencies) } : null,
+            hopCount: delivered > 0 ? { mean: mean(r.hops), max: Math.max(...r.hops) } : null,
+            dropsByCause: { ...r.dropsByCause },
+            retransmissions: r.retransmissions,
+            segmentsAcked: r.segmentsAcked,
+            segmentsLost: r.segmentsLost,
+            compromisedNodeTimeShare: r.routerMs > 0 ? r.compromisedMs / r.routerMs : 0,
+            attacks: r.attacks.map(a => ({ ...a })),
+            meanTimeToRecoveryMs: recovered.length > 0 ? mean(recovered.map(a => a.recoveredAt! - a.startedAt)) : null,
+            samples: [...r.samples]
+        };
+    };
+
+    return { record, snapshot, reset };
+};
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { AttackType, GraphNode, NodeState } from '../types';
+import { NODE_MACHINE, resolveTransition } from './nodeMachine';
+import { runHeadless } from './headless';
+
+const node = (state: NodeState, id = 'N1', type: GraphNode['type'] = 'router'): GraphNode => ({ id, type, state, label: id });
+
+describe('node state machine', () => {
+    it('should follow the declared transitions and run entry/exit actions', () => {
+        const result = resolveTransition(NODE_MACHINE, 'PACKET_ARRIVED', { node: node(NodeState.HOPPING), hoppingEnabled: true });
+
+        expect(result).toEqual(expect.objectContaining({ kind: 'transition', exit: ['clearTimer'], enter: ['armTimer'] }));
+        expect(result.kind === 'transition' && result.transition.to).toBe(NodeState.ANALYZING);
+    });
+
+    it('should distinguish ignored, guarded and illegal events', () => {
+        expect(resolveTransition(NODE_MACHINE, 'PACKET_ARRIVED', { node: node(NodeState.ROUTING), hoppingEnabled: true }))
+            .toEqual({ kind: 'ignored' });
+        expect(resolveTransition(NODE_MACHINE, 'HOP', { node: node(NodeState.IDLE), hoppingEnabled: false }))
+            .toEqual({ kind: 'blocked', guard: 'hoppingEnabled' });
+        expect(resolveTransition(NODE_MACHINE, 'COMPROMISE', { node: node(NodeState.IDLE, 'SRC', 'source'), hoppingEnabled: true }))
+            .toEqual({ kind: 'blocked', guard: 'notEndpoint' });
+        expect(resolveTransition(NODE_MACHINE, 'UNLOCK', { node: node(NodeState.IDLE), hoppingEnabled: true }))
+            .toEqual({ kind: 'illegal' });
+        expect(resolveTransition(NODE_MACHINE, 'RECOVER', { node: node(NodeState.LOCKED), hoppingEnabled: true }))
+            .toEqual({ kind: 'illegal' });
+    });
+
+    it('should give every timed state a TIMEOUT transition', () => {
+        (Object.keys(NODE_MACHINE.states) as NodeState[])
+            .filter(state => NODE_MACHINE.states[state].after !== undefined)
+            .forEach(state => {
+                expect(NODE_MACHINE.transitions.some(t => t.event === 'TIMEOUT' && t.from.includes(state))).toBe(true);
+            });
+    });
+
+    it('should only ever produce declared transitions in a full run', () => {
+        const trace = runHeadless({ seed: 5, durationSeconds: 60, attackType: AttackType.HIJACKING, attackStopSeconds: 40 });
+
+        expect(trace.logs.some(l => l.message.startsWith('Illegal transition'))).toBe(false);
+        trace.nodeStateChanges.forEach(change => {
+            expect(NODE_MACHINE.transitions.some(t => t.from.includes(change.from) && t.to === change.to)).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,134 @@
+import { GraphNode, NodeState } from '../types';
+import { NODE_STATE_DURATION_MS } from '../constants';
+
+/**
+ * Turing-style finite state machine for routers. Every node state change in
+ * the engine goes through `resolveTransition`; anything not listed here is
+ * rejected as illegal.
+ */
+export type NodeEvent =
+    | 'PACKET_ARRIVED'
+    | 'TIMEOUT' // fired when a timed state's `after` elapses
+    | 'HOP'
+    | 'COMPROMISE'
+    | 'RECOVER'
+    | 'ATTACK_CLEARED'
+    | 'LOCK'
+    | 'UNLOCK'
+    | 'FAIL' // hardware fault
+    | 'REPAIR';
+
+export type NodeGuard = 'hoppingEnabled' | 'notEndpoint';
+
+// Side effects the engine performs when a state is entered or left
+export type NodeAction = 'armTimer' | 'clearTimer' | 'releaseFoothold' | 'leakKeys';
+
+export interface NodeStateDef {
+    after?: number; // ms until TIMEOUT
+    onEnter?: NodeAction[];
+    onExit?: NodeAction[];
+    ignore?: NodeEvent[]; // events that are expected here but do nothing
+}
+
+export interface NodeTransition {
+    event: NodeEvent;
+    from: NodeState[];
+    to: NodeState;
+    guard?: NodeGuard;
+}
+
+export interface NodeMachine {
+    initial: NodeState;
+    states: Record<NodeState, NodeStateDef>;
+    transitions: NodeTransition[];
+}
+
+export interface GuardContext {
+    node: GraphNode;
+    hoppingEnabled: boolean;
+}
+
+const ACTIVE_STATES = [NodeState.IDLE, NodeState.ANALYZING, NodeState.ROUTING, NodeState.HOPPING];
+
+export const NODE_MACHINE: NodeMachine = {
+    initial: NodeState.IDLE,
+    states: {
+        [NodeState.IDLE]: { ignore: ['TIMEOUT', 'ATTACK_CLEARED'] },
+        [NodeState.ANALYZING]: {
+            after: NODE_STATE_DURATION_MS.ANALYZING,
+            onEnter: ['armTimer'],
+            onExit: ['clearTimer'],
+            ignore: ['PACKET_ARRIVED', 'HOP', 'ATTACK_CLEARED']
+        },
+        [NodeState.ROUTING]: {
+            after: NODE_STATE_DURATION_MS.ROUTING,
+            onEnter: ['armTimer'],
+            onExit: ['clearTimer'],
+            ignore: ['PACKET_ARRIVED', 'HOP', 'ATTACK_CLEARED']
+        },
+        [NodeState.HOPPING]: {
+            after: NODE_STATE_DURATION_MS.HOPPING,
+            onEnter: ['armTimer'],
+            onExit: ['clearTimer'],
+            ignore: ['HOP', 'ATTACK_CLEARED']
+        },
+        [NodeState.COMPROMISED]: {
+            onEnter: ['leakKeys'],
+            onExit: ['releaseFoothold'],
+            ignore: ['PACKET_ARRIVED', 'HOP', 'TIMEOUT']
+        },
+        [NodeState.LOCKED]: {
+            ignore: ['PACKET_ARRIVED', 'HOP', 'TIMEOUT', 'ATTACK_CLEARED', 'FAIL']
+        },
+        [NodeState.FAILED]: {
+            ignore: ['PACKET_ARRIVED', 'HOP', 'TIMEOUT', 'ATTACK_CLEARED', 'COMPROMISE', 'LOCK', 'FAIL']
+        }
+    },
+    transitions: [
+        { event: 'PACKET_ARRIVED', from: [NodeState.IDLE, NodeState.HOPPING], to: NodeState.ANALYZING },
+        { event: 'TIMEOUT', from: [NodeState.ANALYZING], to: NodeState.ROUTING },
+        { event: 'TIMEOUT', from: [NodeState.ROUTING, NodeState.HOPPING], to: NodeState.IDLE },
+        { event: 'HOP', from: [NodeState.IDLE], to: NodeState.HOPPING, guard: 'hoppingEnabled' },
+        { event: 'COMPROMISE', from: ACTIVE_STATES, to: NodeState.COMPROMISED, guard: 'notEndpoint' },
+        { event: 'RECOVER', from: [NodeState.COMPROMISED], to: NodeState.HOPPING },
+        { event: 'ATTACK_CLEARED', from: [NodeState.COMPROMISED], to: NodeState.IDLE },
+        { event: 'LOCK', from: [...ACTIVE_STATES, NodeState.COMPROMISED], to: NodeState.LOCKED, guard: 'notEndpoint' },
+        { event: 'UNLOCK', from: [NodeState.LOCKED], to: NodeState.IDLE },
+        { event: 'FAIL', from: [...ACTIVE_STATES, NodeState.COMPROMISED], to: NodeState.FAILED, guard: 'notEndpoint' },
+        { event: 'REPAIR', from: [NodeState.FAILED], to: NodeState.IDLE }
+    ]
+};
+
+const GUARDS: Record<NodeGuard, (ctx: GuardContext) => boolean> = {
+    hoppingEnabled: ctx => ctx.hoppingEnabled,
+    notEndpoint: ctx => ctx.node.type === 'router'
+};
+
+export type TransitionResult =
+    | { kind: 'transition'; transition: NodeTransition; exit: NodeAction[]; enter: NodeAction[] }
+    | { kind: 'ignored' } // listed in the state's `ignore`
+    | { kind: 'blocked'; guard: NodeGuard } // a transition exists but its guard failed
+    | { kind: 'illegal' }; // the machine has no answer for this event in this state
+
+export const resolveTransition = (
+    machine: NodeMachine,
+    event: NodeEvent,
+    ctx: GuardContext
+): TransitionResult => {
+    const from = ctx.node.state;
+    const transition = machine.transitions.find(t => t.event === event && t.from.includes(from));
+
+    if (!transition) {
+        return machine.states[from].ignore?.includes(event) ? { kind: 'ignored' } : { kind: 'illegal' };
+    }
+    if (transition.guard && !GUARDS[transition.guard](ctx)) {
+        return { kind: 'blocked', guard: transition.guard };
+    }
+
+    return {
+        kind: 'transition',
+        transition,
+        exit: machine.states[from].onExit ?? [],
+        enter: machine.states[transition.to].onEnter ?? []
+    };
+};
@@ -0,0 +1,41 @@
+import { GraphNode, NodeState } from '../types';
+
+export const NODE_HISTORY_LENGTH = 12;
+
+export interface NodeTransitionRecord {
+    time: number;
+    from: NodeState;
+    to: NodeState;
+}
+
+// Per-node counters kept in the engine state, so a seek or replay shows them as they were then
+export interface NodeStats {
+    packetsProcessed: number; // packets that arrived at the node
+    compromises: number;
+    stateMs: Record<NodeState, number>; // finished spells only; see timeInStates
+    enteredAt: number; // when the current state began
+    history: NodeTransitionRecord[]; // the last NODE_HISTORY_LENGTH transitions, oldest first
+}
+
+const emptyStateMs = () =>
+    Object.fromEntries(Object.values(NodeState).map(s => [s, 0])) as Record<NodeState, number>;
+
+export const createNodeStats = (nodes: GraphNode[], time: number = 0): Record<string, NodeStats> =>
+    Object.fromEntries(nodes.map(n => [n.id, { packetsProcessed: 0, compromises: 0, stateMs: emptyStateMs(), enteredAt: time, history: [] }]));
+
+// Stats are replaced, never mutated, so earlier states keep theirs
+export const withTransition = (stats: NodeStats, from: NodeState, to: NodeState, time: number): NodeStats => ({
+    ...stats,
+    compromises: stats.compromises + (to === NodeState.COMPROMISED ? 1 : 0),
+    stateMs: { ...stats.stateMs, [from]: stats.stateMs[from] + time - stats.enteredAt },
+    enteredAt: time,
+    history: [...stats.history.slice(-(NODE_HISTORY_LENGTH - 1)), { time, from, to }]
+});
+
+export const withPacketProcessed = (stats: NodeStats): NodeStats => ({ ...stats, packetsProcessed: stats.packetsProcessed + 1 });
+
+// Time spent in each state up to `now`, including the spell still running
+export const timeInStates = (stats: NodeStats, current: NodeState, now: number): Record<NodeState, number> => ({
+    ...stats.stateMs,
+    [current]: stats.stateMs[current] + now - stats.enteredAt
+});
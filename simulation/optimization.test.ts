@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { AttackType, GraphLink, GraphNode, NodeState } from '../types';
+import { createSimulationState, step, SimulationState } from './engine';
+import { compromiseChance } from './attacker';
+import { findLink } from './graph';
+import {
+    EMPTY_PROPOSAL, parseProposal, validateProposal, proposalEdits, ruleBasedProposal, topologyRequestOf, isEmptyProposal
+} from './optimization';
+
+const makeNode = (id: string, state: NodeState = NodeState.IDLE): GraphNode => ({
+    id, type: id === 'SRC' ? 'source' : id === 'DST' ? 'target' : 'router', state, label: id
+});
+const makeLink = (source: string, target: string): GraphLink => ({
+    source, target, frequency: 100, active: false, isCompromised: false, isJammed: false, isFailed: false
+});
+
+// Two routes from SRC to DST: over N1, and over N2 then N3
+const nodes = [makeNode('SRC'), makeNode('N1'), makeNode('N2', NodeState.COMPROMISED), makeNode('N3'), makeNode('DST')];
+const links = [makeLink('SRC', 'N1'), makeLink('N1', 'DST'), makeLink('SRC', 'N2'), makeLink('N2', 'N3'), makeLink('N3', 'DST')];
+
+const change = (source: string, target: string) => ({ source, target, reason: '' });
+
+describe('topology optimisation', () => {
+    it('should read a loosely shaped answer and drop what it cannot use', () => {
+        const { proposal, issues } = parseProposal({
+            addLinks: [{ source: 'N1' }, 'N1-N3', { source: ' N1 ', target: 'N3', reason: 'shortcut' }],
+            harden: 'N3',
+            rationale: ' Route around N2. '
+        });
+
+        expect(proposal).toEqual({ addLinks: [{ source: 'N1', target: 'N3', reason: 'shortcut' }], removeLinks: [], harden: [], rationale: 'Route around N2.' });
+        expect(issues).toEqual(['"harden" must be an array', 'addLinks[1] is not an object', 'addLinks[0] needs "source" and "target"']);
+        expect(parseProposal('{"addLinks": []}')).toEqual({ proposal: EMPTY_PROPOSAL, issues: ['Expected a JSON object'] });
+    });
+
+    it('should keep only the changes that are safe on the live graph', () => {
+        const { proposal, issues } = validateProposal(nodes, links, {
+            addLinks: [change('N1', 'N3'), change('N9', 'N1'), change('N2', 'N1'), change('SRC', 'N1'), change('N1', 'N1')],
+            removeLinks: [change('N1', 'DST'), change('N3', 'N1'), change('SRC', 'N2'), change('N3', 'DST')],
+            harden: [{ nodeId: 'N3', reason: '' }, { nodeId: 'N2', reason: '' }, { nodeId: 'SRC', reason: '' }, { nodeId: 'N3', reason: '' }],
+            rationale: ''
+        });
+
+        expect(proposal.addLinks).toEqual([change('N1', 'N3')]);
+        expect(proposal.removeLinks).toEqual([change('N1', 'DST'), change('SRC', 'N2')]);
+        expect(proposal.harden.map(h => h.nodeId)).toEqual(['N3']);
+        expect(issues).toEqual([
+            'add N9-N1: no node N9',
+            'add N2-N1: N2 is compromised',
+            'add SRC-N1: already linked',
+            'remove N3-N1: listed twice',
+            'remove N3-DST: would cut the source off from the target',
+            'harden N2: N2 is compromised; restore it first',
+            'harden SRC: SRC is the source',
+            'harden N3: N3 is already hardened',
+            'addLinks: only the first 4 are considered'
+        ]);
+    });
+
+    it('should not count routes through locked or failed routers when checking removals', () => {
+        const down = nodes.map(n => (n.id === 'N3' ? { ...n, state: NodeState.LOCKED } : n.id === 'N2' ? { ...n, state: NodeState.IDLE } : n));
+        const removal = { addLinks: [], removeLinks: [change('N1', 'DST')], harden: [], rationale: '' };
+
+        expect(validateProposal(down, links, removal).issues).toEqual(['remove N1-DST: would cut the source off from the target']);
+        const failed = down.map(n => (n.id === 'N3' ? { ...n, state: NodeState.FAILED } : n));
+        expect(validateProposal(failed, links, removal).proposal.removeLinks).toEqual([]);
+        expect(validateProposal(nodes, links, removal).proposal.removeLinks).toEqual([change('N1', 'DST')]);
+    });
+
+    it('should route around a compromised router with a proposal that validates cleanly', () => {
+        const mesh = [...links, makeLink('N1', 'N2')];
+        const proposal = ruleBasedProposal(topologyRequestOf({ ...createSimulationState(1), nodes, links: mesh } as SimulationState));
+        const checked = validateProposal(nodes, mesh, proposal);
+
+        expect(checked.issues).toEqual([]);
+        expect(checked.proposal).toEqual(proposal);
+        expect(proposal.addLinks.map(l => `${l.source}-${l.target}: ${l.reason}`)).toEqual(['N1-N3: bypass N2', 'N3-SRC: bypass N2']);
+        expect(proposal.removeLinks.map(l => `${l.source}-${l.target}`)).toEqual(['N2-N1', 'N2-N3', 'N2-SRC']);
+        expect(proposal.harden.map(h => h.nodeId)).toEqual(['N1', 'N3']);
+    });
+
+    it('should apply a proposal to the running network and make hardened routers harder to take', () => {
+        const initial = step(createSimulationState(9), 0, [{ type: 'COMPROMISE_NODE', nodeId: 'N1' }]).state;
+        const proposal = ruleBasedProposal(topologyRequestOf(initial));
+        expect(isEmptyProposal(proposal)).toBe(false);
+
+        const applied = step(initial, 0, proposalEdits(proposal).map(edit => ({ type: 'EDIT_GRAPH' as const, edit }))).state;
+        expect(applied.time).toBe(initial.time);
+        proposal.addLinks.forEach(l => expect(findLink(applied.links, l.source, l.target)).toBeDefined());
+        proposal.removeLinks.forEach(l => expect(findLink(applied.links, l.source, l.target)).toBeUndefined());
+        proposal.harden.forEach(h => expect(applied.nodes.find(n => n.id === h.nodeId)!.hardened).toBe(true));
+
+        const router = applied.nodes.find(n => n.id === proposal.harden[0].nodeId)!;
+        const plain = { ...router, hardened: false };
+        expect(compromiseChance(AttackType.MITM, router, null, 0)).toBeLessThan(compromiseChance(AttackType.MITM, plain, null, 0));
+    });
+});
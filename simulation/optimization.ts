@@ -0,0 +1,253 @@
+import { GraphNode, GraphLink, NodeState } from '../types';
+import { TopologyRequest } from '../services/aiKernel';
+import { SimulationState } from './engine';
+import { GraphEdit } from './graphEdits';
+import { findLink, getId, getNeighbours, isLinkDown } from './graph';
+import { endpointsOf, hasPath } from './topology';
+import { linkId } from './hopping';
+import { canCarryTraffic } from './routing';
+
+export const MAX_PROPOSAL_CHANGES = 4; // per kind of change
+
+export interface ProposedLink {
+    source: string;
+    target: string;
+    reason: string;
+}
+
+export interface ProposedHardening {
+    nodeId: string;
+    reason: string;
+}
+
+// Links to add and remove and routers to harden, as suggested by the AI kernel
+export interface TopologyProposal {
+    addLinks: ProposedLink[];
+    removeLinks: ProposedLink[];
+    harden: ProposedHardening[];
+    rationale: string;
+}
+
+export interface CheckedProposal {
+    proposal: TopologyProposal; // only what applies
+    issues: string[]; // what was dropped and why
+}
+
+export const EMPTY_PROPOSAL: TopologyProposal = { addLinks: [], removeLinks: [], harden: [], rationale: '' };
+
+export const topologyRequestOf = (state: SimulationState): TopologyRequest => ({
+    attackType: state.attackType,
+    nodes: state.nodes.map(n => ({ id: n.id, label: n.label, type: n.type, state: n.state, hardened: !!n.hardened })),
+    links: state.links.map(l => ({ source: getId(l.source), target: getId(l.target), compromised: l.isCompromised, failed: isLinkDown(l, state.nodes) })),
+    maxChanges: MAX_PROPOSAL_CHANGES
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// Same form as linkId, so proposed and existing links compare directly
+const pairKey = (a: string, b: string) => [a, b].sort().join('~');
+
+// Links routing can use: up, and with no locked or failed router at either end
+const carrying = (nodes: Pick<GraphNode, 'id' | 'state' | 'isolated'>[], links: GraphLink[]) => {
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    return links.filter(l => !isLinkDown(l, nodes) && canCarryTraffic(byId.get(getId(l.source))) && canCarryTraffic(byId.get(getId(l.target))));
+};
+
+/**
+ * Reads whatever the provider answered into a typed proposal. Entries of the
+ * wrong shape are dropped with an issue rather than failing the whole answer.
+ */
+export const parseProposal = (raw: unknown): CheckedProposal => {
+    if (!isObject(raw)) return { proposal: EMPTY_PROPOSAL, issues: ['Expected a JSON object'] };
+    const issues: string[] = [];
+
+    const entries = (key: string): Record<string, unknown>[] => {
+        const value = raw[key];
+        if (value === undefined) return [];
+        if (!Array.isArray(value)) {
+            issues.push(`"${key}" must be an array`);
+            return [];
+        }
+        return value.filter((entry, i) => {
+            if (isObject(entry)) return true;
+            issues.push(`${key}[${i}] is not an object`);
+            return false;
+        }) as Record<string, unknown>[];
+    };
+
+    const linkList = (key: string): ProposedLink[] => entries(key).flatMap((entry, i) => {
+        const source = text(entry.source);
+        const target = text(entry.target);
+        if (!source || !target) {
+            issues.push(`${key}[${i}] needs "source" and "target"`);
+            return [];
+        }
+        return [{ source, target, reason: text(entry.reason) }];
+    });
+
+    const harden = entries('harden').flatMap((entry, i) => {
+        const nodeId = text(entry.nodeId);
+        if (!nodeId) {
+            issues.push(`harden[${i}] needs "nodeId"`);
+            return [];
+        }
+        return [{ nodeId, reason: text(entry.reason) }];
+    });
+
+    return {
+        proposal: { addLinks: linkList('addLinks'), removeLinks: linkList('removeLinks'), harden, rationale: text(raw.rationale) },
+        issues
+    };
+};
+
+/**
+ * Keeps the parts of `proposal` that still make sense on this graph: known
+ * nodes, no duplicates, no new links into compromised routers, and no
+ * removals that would cut the source off from the target. Runs again right
+ * before a proposal is applied, since the network keeps changing meanwhile.
+ */
+export const validateProposal = (nodes: GraphNode[], links: GraphLink[], proposal: TopologyProposal): CheckedProposal => {
+    const issues: string[] = [];
+    const nodeOf = (id: string) => nodes.find(n => n.id === id);
+    const seen = new Set<string>();
+
+    const knownPair = (change: ProposedLink, kind: string) => {
+        const unknown = [change.source, change.target].find(id => !nodeOf(id));
+        if (unknown) issues.push(`${kind} ${change.source}-${change.target}: no node ${unknown}`);
+        else if (change.source === change.target) issues.push(`${kind} ${change.source}-${change.target}: a link needs two different nodes`);
+        else if (seen.has(pairKey(change.source, change.target))) issues.push(`${kind} ${change.source}-${change.target}: listed twice`);
+        else {
+            seen.add(pairKey(change.source, change.target));
+            return true;
+        }
+        return false;
+    };
+
+    const addLinks = proposal.addLinks.slice(0, MAX_PROPOSAL_CHANGES).filter(change => {
+        if (!knownPair(change, 'add')) return false;
+        if (findLink(links, change.source, change.target)) {
+            issues.push(`add ${change.source}-${change.target}: already linked`);
+            return false;
+        }
+        const hostile = [change.source, change.target].find(id => nodeOf(id)!.state === NodeState.COMPROMISED);
+        if (hostile) {
+            issues.push(`add ${change.source}-${change.target}: ${nodeOf(hostile)!.label} is compromised`);
+            return false;
+        }
+        return true;
+    });
+
+    // Removals are kept one at a time while the source still reaches the target over the new links
+    const { source, target } = endpointsOf(nodes);
+    let remaining = carrying(nodes, [...links, ...addLinks.map(a => ({ source: a.source, target: a.target } as GraphLink))]);
+    const removeLinks = proposal.removeLinks.slice(0, MAX_PROPOSAL_CHANGES).filter(change => {
+        if (!knownPair(change, 'remove')) return false;
+        const link = findLink(links, change.source, change.target);
+        if (!link) {
+            issues.push(`remove ${change.source}-${change.target}: no such link`);
+            return false;
+        }
+        const without = remaining.filter(l => linkId(l) !== linkId(link));
+        if (!hasPath(without, source, target)) {
+            issues.push(`remove ${change.source}-${change.target}: would cut the source off from the target`);
+            return false;
+        }
+        remaining = without;
+        return true;
+    });
+
+    const hardened = new Set<string>();
+    const harden = proposal.harden.slice(0, MAX_PROPOSAL_CHANGES).filter(({ nodeId }) => {
+        const node = nodeOf(nodeId);
+        let issue: string | null = null;
+        if (!node) issue = `no node ${nodeId}`;
+        else if (node.type !== 'router') issue = `${node.label} is the ${node.type}`;
+        else if (node.hardened || hardened.has(nodeId)) issue = `${node.label} is already hardened`;
+        else if (node.state === NodeState.COMPROMISED) issue = `${node.label} is compromised; restore it first`;
+        if (issue) issues.push(`harden ${nodeId}: ${issue}`);
+        else hardened.add(nodeId);
+        return !issue;
+    });
+
+    const dropped = ['addLinks', 'removeLinks', 'harden'] as const;
+    dropped.forEach(key => {
+        if (proposal[key].length > MAX_PROPOSAL_CHANGES) issues.push(`${key}: only the first ${MAX_PROPOSAL_CHANGES} are considered`);
+    });
+
+    return { proposal: { addLinks, removeLinks, harden, rationale: proposal.rationale }, issues };
+};
+
+export const isEmptyProposal = (p: TopologyProposal) => p.addLinks.length + p.removeLinks.length + p.harden.length === 0;
+
+// The graph edits that apply a validated proposal, in one undo step
+export const proposalEdits = (proposal: TopologyProposal): GraphEdit[] => [
+    ...proposal.addLinks.map(({ source, target }): GraphEdit => ({ kind: 'addLink', source, target })),
+    ...proposal.removeLinks.map(({ source, target }): GraphEdit => ({ kind: 'removeLink', source, target })),
+    ...proposal.harden.map(({ nodeId }): GraphEdit => ({ kind: 'hardenNode', nodeId, hardened: true }))
+];
+
+export const describeProposal = (p: TopologyProposal): string => {
+    const parts = [
+        p.addLinks.length > 0 ? `+${p.addLinks.length} link(s)` : null,
+        p.removeLinks.length > 0 ? `-${p.removeLinks.length} link(s)` : null,
+        p.harden.length > 0 ? `harden ${p.harden.length}` : null
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(', ') : 'no changes';
+};
+
+/**
+ * The offline kernel's proposal: bypass each compromised router by linking
+ * its clean neighbours, cut its links where the route survives without them,
+ * and harden the clean routers it could reach next (the busiest routers when
+ * nothing is compromised).
+ */
+export const ruleBasedProposal = (request: TopologyRequest): TopologyProposal => {
+    const { nodes, maxChanges } = request;
+    const links = request.links.map(l => ({ source: l.source, target: l.target, isFailed: l.failed } as GraphLink));
+    const live = links.filter(l => !l.isFailed);
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const compromised = nodes.filter(n => n.state === NodeState.COMPROMISED).map(n => n.id);
+    const isClean = (id: string) => byId.get(id)?.state !== NodeState.COMPROMISED;
+    const labelOf = (id: string) => byId.get(id)?.label ?? id;
+    const degree = (id: string) => getNeighbours(live, id).length;
+
+    const addLinks: ProposedLink[] = [];
+    const added = new Set<string>();
+    compromised.forEach(c => {
+        const peers = getNeighbours(live, c).filter(isClean).sort();
+        peers.slice(1).forEach((peer, i) => {
+            const prev = peers[i];
+            if (addLinks.length >= maxChanges || findLink(links, prev, peer) || added.has(pairKey(prev, peer))) return;
+            added.add(pairKey(prev, peer));
+            addLinks.push({ source: prev, target: peer, reason: `bypass ${labelOf(c)}` });
+        });
+    });
+
+    const { source, target } = endpointsOf(nodes as GraphNode[]);
+    let remaining = carrying(nodes, [...live, ...addLinks.map(a => ({ source: a.source, target: a.target } as GraphLink))]);
+    const removeLinks: ProposedLink[] = [];
+    compromised.forEach(c => {
+        getNeighbours(live, c).filter(isClean).sort().forEach(peer => {
+            if (removeLinks.length >= maxChanges) return;
+            const without = remaining.filter(l => linkId(l) !== pairKey(c, peer));
+            if (!hasPath(without, source, target)) return;
+            remaining = without;
+            removeLinks.push({ source: c, target: peer, reason: `deny ${labelOf(c)} a path to ${labelOf(peer)}` });
+        });
+    });
+
+    const frontier = new Set(compromised.flatMap(c => getNeighbours(live, c)));
+    const candidates = nodes
+        .filter(n => n.type === 'router' && !n.hardened && isClean(n.id) && (compromised.length === 0 || frontier.has(n.id)))
+        .sort((a, b) => degree(b.id) - degree(a.id) || a.id.localeCompare(b.id, undefined, { numeric: true }));
+    const harden = candidates.slice(0, compromised.length > 0 ? maxChanges : Math.ceil(maxChanges / 2)).map(n => ({
+        nodeId: n.id,
+        reason: compromised.length > 0 ? 'next in line for the attacker' : `hub with ${degree(n.id)} links`
+    }));
+
+    const rationale = compromised.length > 0
+        ? `Route around ${compromised.map(labelOf).join(', ')} and harden the routers the attacker can reach next.`
+        : 'No router is compromised; harden the busiest hubs ahead of an attack.';
+    return { addLinks, removeLinks, harden, rationale };
+};
@@ -0,0 +1,245 @@
+import { LogEntry } from '../types';
+import { SimulationEmission, SimulationState } from './engine';
+import {
+    SessionKey, SealedPayload, Tampering, deriveSessionKey, nonceFor, sealPayload, openPayload, flipByte,
+    encodeText, decodeText, toHex, payloadAad
+} from './crypto';
+
+export const MAX_CAPTURES = 8;
+
+// What a sniffer walked away with
+export interface SnifferCapture {
+    time: number;
+    packetId: string;
+    nodeId: string;
+    readable: boolean;
+    linkSealed: boolean; // still wrapped in the link key, so not even the end-to-end layer is visible
+    content: string; // recovered cleartext, or a ciphertext prefix in hex
+}
+
+export interface CipherReport {
+    sealed: number;
+    verified: number; // opened with a valid tag and the original payload
+    tagFailures: number; // rejected by the receiver
+    undetected: number; // accepted although an attacker changed them
+    cleartext: number; // delivered without encryption
+    captures: SnifferCapture[]; // most recent first
+    readableCaptures: number;
+    opaqueCaptures: number;
+    sessionId: number;
+    fingerprint: string | null; // of the current session key
+}
+
+export interface CipherLogEntry {
+    time: number;
+    source: LogEntry['source'];
+    level: LogEntry['type'];
+    message: string;
+}
+
+export interface PayloadCipher {
+    observe: (emissions: SimulationEmission[], state: SimulationState) => void;
+    settled: () => Promise<void>; // resolves once everything observed so far is processed
+    report: () => CipherReport;
+}
+
+// Link keys from the key exchange; without one, link-sealed captures show as a placeholder.
+// Asked when the capture is observed, since older epochs are discarded as links rekey.
+export type LinkKeyProvider = (linkId: string, epoch: number) => Promise<CryptoKey | null>;
+
+type Sniffed = Extract<SimulationEmission, { kind: 'packetSniffed' }>;
+
+interface InFlight {
+    payload: string;
+    aad: string;
+    receiver: string;
+    session: SessionKey | null; // null: cleartext
+    sealed: SealedPayload | null;
+    cleartext: Uint8Array;
+}
+
+const emptyReport = (): CipherReport => ({
+    sealed: 0, verified: 0, tagFailures: 0, undetected: 0, cleartext: 0,
+    captures: [], readableCaptures: 0, opaqueCaptures: 0, sessionId: 1, fingerprint: null
+});
+
+/**
+ * Runs real AES-256-GCM alongside the engine. The engine decides what happens
+ * to each packet; this follows its emissions, seals payloads at the sender,
+ * applies the attacker's changes to the actual bytes and verifies at the
+ * receiver. Work is queued in emission order, so results are deterministic.
+ */
+export const createPayloadCipher = (
+    onLog: (entry: CipherLogEntry) => void = () => {},
+    linkKey: LinkKeyProvider = async () => null
+): PayloadCipher => {
+    let queue: Promise<void> = Promise.resolve();
+    let generation = 0;
+    let lastTime = 0;
+    let fingerprintedSession = 0; // session whose fingerprint has been requested
+    let report = emptyReport();
+    let keys = new Map<string, Promise<SessionKey>>(); // by seed and session
+    let counters = new Map<number, number>();
+    let inFlight = new Map<string, InFlight>();
+    let linkCounters = new Map<string, number>(); // by link and epoch
+
+    const keyFor = (seed: number, sessionId: number) => {
+        const id = `${seed}/${sessionId}`;
+        if (!keys.has(id)) keys.set(id, deriveSessionKey(seed, sessionId));
+        return keys.get(id)!;
+    };
+
+    const seal = async (session: SessionKey, plaintext: Uint8Array, aad: string) => {
+        const counter = (counters.get(session.sessionId) ?? 0) + 1;
+        counters.set(session.sessionId, counter);
+        return sealPayload(session.key, nonceFor(session.sessionId, counter), plaintext, aad);
+    };
+
+    const tamper = async (packet: InFlight, tampering: Tampering, byteIndex: number) => {
+        switch (tampering) {
+            case 'ciphertext':
+                packet.sealed = { ...packet.sealed!, ciphertext: flipByte(packet.sealed!.ciphertext, byteIndex) };
+                break;
+            case 'forged': {
+                // The attacker holds this session's key: decrypt, change, reseal
+                const opened = await openPayload(packet.session!.key, packet.sealed!, packet.aad);
+                if (opened) packet.sealed = await seal(packet.session!, flipByte(opened, byteIndex), packet.aad);
+                break;
+            }
+            case 'plaintext':
+                packet.cleartext = flipByte(packet.cleartext, byteIndex);
+                break;
+        }
+    };
+
+    // What the end-to-end layer looks like on the wire, wrapped once more in the link key
+    const linkSealedBytes = async (e: Sniffed, packet: InFlight, wireKey: Promise<CryptoKey | null>) => {
+        const key = await wireKey;
+        if (!key) return null;
+        const id = `${e.linkId}#${e.epoch}`;
+        const counter = (linkCounters.get(id) ?? 0) + 1;
+        linkCounters.set(id, counter);
+        const inner = packet.sealed ? packet.sealed.ciphertext : packet.cleartext;
+        return (await sealPayload(key, nonceFor(e.epoch!, counter), inner, e.linkId!)).ciphertext;
+    };
+
+    const capture = async (e: Sniffed, packet: InFlight, wireKey: Promise<CryptoKey | null>) => {
+        let content: string;
+        if (!e.linkStripped) {
+            const bytes = await linkSealedBytes(e, packet, wireKey);
+            content = bytes ? toHex(bytes.slice(0, 12)) : '[link-sealed]';
+        } else if (!packet.sealed) content = decodeText(packet.cleartext);
+        else if (e.readable) content = decodeText((await openPayload(packet.session!.key, packet.sealed, packet.aad)) ?? new Uint8Array());
+        else content = toHex(packet.sealed.ciphertext.slice(0, 12));
+
+        if (e.readable) report.readableCaptures++;
+        else report.opaqueCaptures++;
+        report.captures = [
+            { time: e.time, packetId: e.packetId, nodeId: e.nodeId, readable: e.readable, linkSealed: !e.linkStripped, content },
+            ...report.captures
+        ].slice(0, MAX_CAPTURES);
+    };
+
+    const receive = async (time: number, packetId: string, packet: InFlight) => {
+        const opened = packet.sealed ? await openPayload(packet.session!.key, packet.sealed, packet.aad) : packet.cleartext;
+        if (!opened) {
+            report.tagFailures++;
+            onLog({ time, source: 'SYSTEM', level: 'error', message: `${packet.receiver} rejected ${packetId}: AES-GCM authentication tag mismatch.` });
+            return;
+        }
+
+        const altered = decodeText(opened) !== packet.payload;
+        if (altered) {
+            report.undetected++;
+            onLog({
+                time, source: 'SYSTEM', level: 'error',
+                message: `${packet.receiver} accepted altered ${packetId} (${packet.sealed ? 'forged with a leaked key' : 'cleartext'}).`
+            });
+        } else if (packet.sealed) {
+            report.verified++;
+        } else {
+            report.cleartext++;
+        }
+    };
+
+    const handle = async (e: SimulationEmission, seed: number, wireKey: Promise<CryptoKey | null>) => {
+        switch (e.kind) {
+            case 'packetSpawned': {
+                const session = e.sessionId === null ? null : await keyFor(seed, e.sessionId);
+                const cleartext = encodeText(e.payload);
+                const aad = payloadAad(e.packetKind, e.seq);
+                const sealed = session ? await seal(session, cleartext, aad) : null;
+                if (sealed) report.sealed++;
+                inFlight.set(e.packetId, { payload: e.payload, aad, receiver: e.route[e.route.length - 1], session, sealed, cleartext });
+                break;
+            }
+            case 'packetTampered': {
+                const packet = inFlight.get(e.packetId);
+                if (packet) await tamper(packet, e.tampering, e.byteIndex);
+                break;
+            }
+            case 'packetSniffed': {
+                const packet = inFlight.get(e.packetId);
+                if (packet) await capture(e, packet, wireKey);
+                break;
+            }
+            case 'packetDelivered':
+            case 'packetDropped': {
+                const packet = inFlight.get(e.packetId);
+                inFlight.delete(e.packetId);
+                // The receiver only opens what reached it; a 'tampered' drop is its rejection
+                if (packet && (e.kind === 'packetDelivered' || e.reason === 'tampered')) await receive(e.time, e.packetId, packet);
+                break;
+            }
+        }
+    };
+
+    const observe = (emissions: SimulationEmission[], state: SimulationState) => {
+        // Time going backwards means the engine was reset: start a new key schedule
+        if (state.time < lastTime) {
+            generation++;
+            report = emptyReport();
+            keys = new Map();
+            counters = new Map();
+            inFlight = new Map();
+            linkCounters = new Map();
+            fingerprintedSession = 0;
+        }
+        lastTime = state.time;
+
+        const { seed, cipher } = state;
+        if (fingerprintedSession !== cipher.sessionId) {
+            const current = generation;
+            fingerprintedSession = cipher.sessionId;
+            report.sessionId = cipher.sessionId;
+            queue = queue.then(async () => {
+                const session = await keyFor(seed, cipher.sessionId);
+                if (current === generation) report.fingerprint = session.fingerprint;
+            }).catch(err => {
+                onLog({ time: lastTime, source: 'SYSTEM', level: 'error', message: `Session key derivation failed: ${err instanceof Error ? err.message : String(err)}` });
+            });
+        }
+
+        const relevant = emissions.filter(e => e.kind.startsWith('packet'));
+        if (relevant.length === 0) return;
+        const wireKeys = relevant.map(e => e.kind === 'packetSniffed' && !e.linkStripped && e.linkId && e.epoch !== null
+            ? linkKey(e.linkId, e.epoch)
+            : Promise.resolve(null));
+
+        const current = generation;
+        queue = queue.then(async () => {
+            for (const [i, e] of relevant.entries()) {
+                if (current !== generation) return;
+                await handle(e, seed, wireKeys[i]);
+            }
+        }).catch(err => {
+            onLog({ time: lastTime, source: 'SYSTEM', level: 'error', message: `Payload cipher failure: ${err instanceof Error ? err.message : String(err)}` });
+        });
+    };
+
+    return {
+        observe,
+        settled: () => queue,
+        report: () => ({ ...report, captures: [...report.captures] })
+    };
+};
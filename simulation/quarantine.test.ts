@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { AttackType, GraphLink, GraphNode, NodeState } from '../types';
+import { connectivityCost, shouldRelease } from './quarantine';
+import { createSimulationState, step, SimulationState } from './engine';
+import { hasPath } from './topology';
+import { getId } from './graph';
+
+const makeNode = (id: string, state = NodeState.IDLE): GraphNode => ({
+    id, type: id === 'SRC' ? 'source' : id === 'DST' ? 'target' : 'router', state, label: id
+});
+const makeLink = (source: string, target: string): GraphLink => ({
+    source, target, frequency: 100, active: false, isCompromised: false, isJammed: false, isFailed: false
+});
+
+const run = (state: SimulationState, totalMs: number) => {
+    let current = state;
+    const emissions = [];
+    for (let t = 0; t < totalMs; t += 100) {
+        const result = step(current, 100);
+        current = result.state;
+        emissions.push(...result.emissions);
+    }
+    return { state: current, emissions };
+};
+
+describe('quarantine', () => {
+    // SRC - N1 - DST is short, SRC - N2 - N3 - DST is the detour
+    const links = [makeLink('SRC', 'N1'), makeLink('N1', 'DST'), makeLink('SRC', 'N2'), makeLink('N2', 'N3'), makeLink('N3', 'DST')];
+
+    it('should report the connectivity cost of locked nodes', () => {
+        const nodes = ['SRC', 'N1', 'N2', 'N3', 'DST'].map(id => makeNode(id, id === 'N1' ? NodeState.LOCKED : NodeState.IDLE));
+        expect(connectivityCost(nodes, links)).toEqual({
+            linksCut: 2, reachableRouters: 2, totalRouters: 3, routeHops: 3, baselineHops: 2
+        });
+
+        const partitioned = nodes.map(n => n.id === 'N2' ? makeNode('N2', NodeState.LOCKED) : n);
+        expect(connectivityCost(partitioned, links).routeHops).toBeNull();
+    });
+
+    it('should release timed and condition-based quarantines', () => {
+        const nodes = ['SRC', 'N1', 'N2', 'N3', 'DST'].map(id => makeNode(id, id === 'N3' ? NodeState.COMPROMISED : NodeState.IDLE));
+        const timed = { nodeId: 'N1', lockedAt: 1000, by: 'operator' as const, release: { kind: 'timed' as const, durationMs: 500 } };
+        const clean = { nodeId: 'N2', lockedAt: 0, by: 'defense' as const, release: { kind: 'neighbours-clean' as const, minimumMs: 0 } };
+
+        expect(shouldRelease(timed, 1400, nodes, links)).toBe(false);
+        expect(shouldRelease(timed, 1500, nodes, links)).toBe(true);
+        expect(shouldRelease(clean, 5000, nodes, links)).toBe(false);
+        expect(shouldRelease(clean, 5000, nodes.map(n => makeNode(n.id)), links)).toBe(true);
+    });
+
+    it('should lock a node out of routing and log the lock and release', () => {
+        const initial = createSimulationState(9);
+        const { state: locked, emissions } = step(initial, 0, [{ type: 'LOCK_NODE', nodeId: 'N1', release: { kind: 'timed', durationMs: 3000 } }]);
+
+        expect(locked.nodes.find(n => n.id === 'N1')!.state).toBe(NodeState.LOCKED);
+        expect(locked.quarantines).toHaveLength(1);
+        expect(emissions).toContainEqual(expect.objectContaining({ kind: 'log', message: 'R-1 quarantined by operator (for 3.0s).' }));
+
+        const { state: later, emissions: laterEmissions } = run(locked, 2900);
+        laterEmissions
+            .filter((e): e is Extract<typeof e, { kind: 'packetSpawned' }> => e.kind === 'packetSpawned')
+            .forEach(e => expect(e.route).not.toContain('N1'));
+        expect(later.nodes.find(n => n.id === 'N1')!.state).toBe(NodeState.LOCKED);
+
+        const { state: released, emissions: releaseEmissions } = run(later, 200);
+        expect(released.nodes.find(n => n.id === 'N1')!.state).toBe(NodeState.IDLE);
+        expect(released.quarantines).toEqual([]);
+        expect(releaseEmissions).toContainEqual(expect.objectContaining({ kind: 'log', message: 'R-1 released from quarantine (timer expired).' }));
+    });
+
+    it('should refuse to lock the endpoints', () => {
+        const { state, emissions } = step(createSimulationState(9), 0, [{ type: 'LOCK_NODE', nodeId: 'SRC', release: { kind: 'manual' } }]);
+
+        expect(state.quarantines).toEqual([]);
+        expect(emissions).toContainEqual(expect.objectContaining({ kind: 'log', message: 'Cannot quarantine SRC.' }));
+    });
+
+    it('should let the automated defense evict the attacker without cutting SRC off', () => {
+        let state = createSimulationState(21, { mitigation: { initialStrength: 0.5 } });
+        state = step(state, 0, [{ type: 'SET_ATTACK', attackType: AttackType.HIJACKING }]).state;
+
+        const { state: defended, emissions } = run(state, 30000);
+        const locks = emissions.filter(e => e.kind === 'log' && e.message.includes('quarantined by defense'));
+        expect(locks.length).toBeGreaterThan(0);
+
+        const lockedIds = new Set(defended.nodes.filter(n => n.state === NodeState.LOCKED).map(n => n.id));
+        const open = defended.links.filter(l => !lockedIds.has(getId(l.source)) && !lockedIds.has(getId(l.target)));
+        expect(hasPath(open, 'SRC', 'DST')).toBe(true);
+        expect(defended.attacker.footholds.some(id => lockedIds.has(id))).toBe(false);
+    });
+});
@@ -0,0 +1,81 @@
+import { GraphNode, GraphLink, NodeState } from '../types';
+import { getId, getNeighbours } from './graph';
+import { endpointsOf } from './topology';
+
+// When a LOCKED node is let back into the mesh; durations count from the lock
+export type QuarantineRelease =
+    | { kind: 'manual' }
+    | { kind: 'timed'; durationMs: number }
+    | { kind: 'neighbours-clean'; minimumMs: number }; // held at least minimumMs, then until no neighbour is COMPROMISED
+
+export interface Quarantine {
+    nodeId: string;
+    lockedAt: number;
+    by: 'operator' | 'defense';
+    release: QuarantineRelease;
+}
+
+export interface ConnectivityCost {
+    linksCut: number; // links with a LOCKED endpoint
+    reachableRouters: number; // routers SRC can still reach
+    totalRouters: number;
+    routeHops: number | null; // shortest SRC -> DST hop count with quarantines, null if partitioned
+    baselineHops: number | null; // same, ignoring quarantines
+}
+
+export const describeRelease = (release: QuarantineRelease): string => {
+    switch (release.kind) {
+        case 'manual': return 'until released';
+        case 'timed': return `for ${(release.durationMs / 1000).toFixed(1)}s`;
+        case 'neighbours-clean': return 'until neighbours are clean';
+    }
+};
+
+// Endpoints are never quarantined: locking SRC or DST would simply stop all traffic
+export const canQuarantine = (node: GraphNode | undefined): node is GraphNode =>
+    !!node && node.type === 'router' && node.state !== NodeState.LOCKED && node.state !== NodeState.FAILED;
+
+export const shouldRelease = (quarantine: Quarantine, time: number, nodes: GraphNode[], links: GraphLink[]): boolean => {
+    const { release } = quarantine;
+    switch (release.kind) {
+        case 'manual':
+            return false;
+        case 'timed':
+            return time >= quarantine.lockedAt + release.durationMs;
+        case 'neighbours-clean':
+            if (time < quarantine.lockedAt + release.minimumMs) return false;
+            return getNeighbours(links, quarantine.nodeId)
+                .every(id => nodes.find(n => n.id === id)?.state !== NodeState.COMPROMISED);
+    }
+};
+
+// BFS hop distances from `fromId`, never entering a node in `blocked`
+const hopDistances = (links: GraphLink[], fromId: string, blocked: Set<string>): Map<string, number> => {
+    const distances = new Map<string, number>([[fromId, 0]]);
+    const queue = [fromId];
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        getNeighbours(links, id).forEach(n => {
+            if (distances.has(n) || blocked.has(n)) return;
+            distances.set(n, distances.get(id)! + 1);
+            queue.push(n);
+        });
+    }
+    return distances;
+};
+
+export const connectivityCost = (nodes: GraphNode[], links: GraphLink[]): ConnectivityCost => {
+    const locked = new Set(nodes.filter(n => n.state === NodeState.LOCKED).map(n => n.id));
+    const routers = nodes.filter(n => n.type === 'router');
+    const { source, target } = endpointsOf(nodes);
+    const withQuarantine = hopDistances(links, source, locked);
+    const baseline = hopDistances(links, source, new Set());
+
+    return {
+        linksCut: links.filter(l => locked.has(getId(l.source)) || locked.has(getId(l.target))).length,
+        reachableRouters: routers.filter(n => withQuarantine.has(n.id)).length,
+        totalRouters: routers.length,
+        routeHops: withQuarantine.get(target) ?? null,
+        baselineHops: baseline.get(target) ?? null
+    };
+};
@@ -0,0 +1,42 @@
+// Seeded PRNG (mulberry32). The engine resumes it from SimulationState.rngState
+// on every step, so the same seed always reproduces the same run.
+
+export const DEFAULT_SEED = 1912;
+
+export interface Rng {
+    seed: number;
+    next: () => number;             // [0, 1)
+    int: (maxExclusive: number) => number;
+    pick: <T>(items: readonly T[]) => T;
+    reset: (seed: number) => void;
+    getState: () => number;         // internal cursor, lets a pure engine resume the stream
+}
+
+export const normalizeSeed = (seed: number): number => Math.abs(Math.floor(seed)) >>> 0;
+
+export const createRng = (initialSeed: number = DEFAULT_SEED, resumeState?: number): Rng => {
+    let state = resumeState ?? normalizeSeed(initialSeed);
+
+    const rng: Rng = {
+        seed: normalizeSeed(initialSeed),
+        next: () => {
+            state = (state + 0x6D2B79F5) >>> 0;
+            let t = state;
+            t = Math.imul(t ^ (t >>> 15), t | 1);
+            t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        },
+        int: (maxExclusive: number) => Math.floor(rng.next() * maxExclusive),
+        pick: <T>(items: readonly T[]) => items[rng.int(items.length)],
+        reset: (seed: number) => {
+            state = normalizeSeed(seed);
+            rng.seed = state;
+        },
+        getState: () => state
+    };
+
+    return rng;
+};
+
+// Fresh seed for the UI "shuffle" action; not used inside the simulation itself.
+export const randomSeed = (): number => Math.floor(Math.random() * 1_000_000);
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { AttackType, NodeState } from '../types';
+import { createSimulationState, step, SimulationEvent, SimulationState } from './engine';
+import { createRecorder, parseRecording, exportRecording, RecordingError, Recorder } from './recording';
+
+// Drives the engine like the UI: uneven frames, events dispatched between them
+const live = (seed: number, totalMs: number, script: Record<number, SimulationEvent[]>) => {
+    let state = createSimulationState(seed);
+    const recorder = createRecorder(state);
+    const seen = new Map<number, SimulationState>(); // state after all of that moment's events
+    const frames = [20, 60, 100, 40];
+    const dispatchAt = (at: number) => (script[at] ?? []).forEach(event => {
+        const result = step(state, 0, [event]);
+        state = result.state;
+        recorder.record(result.emissions, state, [event]);
+    });
+
+    dispatchAt(0);
+    for (let i = 0; state.time < totalMs; i++) {
+        const result = step(state, frames[i % frames.length]);
+        state = result.state;
+        recorder.record(result.emissions, state, []);
+        Object.keys(script).map(Number).filter(at => at > 0 && at <= state.time && !seen.has(at)).forEach(at => {
+            // Scripted times fall on frame boundaries (multiples of 220 ms)
+            expect(state.time).toBe(at);
+            dispatchAt(at);
+        });
+        seen.set(state.time, state);
+    }
+    return { state, recorder, seen };
+};
+
+const SCRIPT: Record<number, SimulationEvent[]> = {
+    0: [{ type: 'SET_HOPPING', hopping: { dwellMs: 1500 } }],
+    2200: [{ type: 'SET_ATTACK', attackType: AttackType.MITM, target: 'N6' }],
+    6600: [{ type: 'FAIL_LINK', source: 'N2', target: 'N7' }, { type: 'LOCK_NODE', nodeId: 'N9', release: { kind: 'manual' } }],
+    13200: [{ type: 'SET_ATTACK', attackType: AttackType.NONE }]
+};
+
+const issuesOf = (recording: object): string[] => {
+    try {
+        parseRecording(JSON.stringify(recording));
+        return [];
+    } catch (e) {
+        return (e as RecordingError).issues;
+    }
+};
+
+const expectSameRun = (recorder: Recorder, seen: Map<number, SimulationState>, times: number[]) => {
+    times.forEach(time => expect(recorder.seek(time).state).toEqual(seen.get(time)));
+};
+
+describe('recording', () => {
+    it('should replay the run exactly at any moment', () => {
+        const { recorder, seen } = live(42, 20000, SCRIPT);
+
+        expect(recorder.recording().events.map(e => e.at)).toEqual([0, 2200, 6600, 6600, 13200]);
+        // Backwards, across checkpoints, and right on the moments events were applied
+        expectSameRun(recorder, seen, [19800, 13200, 6600, 2200, 11000, 20020]);
+    });
+
+    it('should rebuild the same run from a saved file', () => {
+        const { recorder, seen } = live(42, 15000, SCRIPT);
+        const loaded = createRecorder(createSimulationState(1));
+        loaded.load(parseRecording(exportRecording(recorder.recording())));
+
+        expectSameRun(loaded, seen, [8800, 14960, 2200]);
+    });
+
+    it('should mark node, link and log changes on the timeline', () => {
+        const { recorder } = live(42, 15000, SCRIPT);
+        const { marks } = recorder.recording();
+
+        expect(marks).toContainEqual({ time: 6600, kind: 'link', linkId: 'N2~N7', change: 'failed' });
+        expect(marks).toContainEqual(expect.objectContaining({ time: 6600, kind: 'node', nodeId: 'N9', to: NodeState.LOCKED }));
+        expect(marks).toContainEqual(expect.objectContaining({ kind: 'log', message: 'Intrusion entry point: N6.' }));
+        expect(marks.some(m => m.kind === 'hop')).toBe(true);
+        expect(marks.some(m => m.kind === 'packet' && m.outcome === 'delivered')).toBe(true);
+    });
+
+    it('should drop the rest of the recording when a replay branches off', () => {
+        const { recorder } = live(42, 15000, SCRIPT);
+        const point = recorder.seek(4000);
+        recorder.truncate(point);
+
+        const event: SimulationEvent = { type: 'SET_ATTACK', attackType: AttackType.JAMMING };
+        const result = step(point.state, 0, [event]);
+        recorder.record(result.emissions, result.state, [event]);
+
+        const { events, marks, duration } = recorder.recording();
+        expect(events.map(e => [e.at, e.event.type])).toEqual([[0, 'SET_HOPPING'], [2200, 'SET_ATTACK'], [4000, 'SET_ATTACK']]);
+        expect(duration).toBe(4000);
+        expect(marks.every(m => m.time <= 4000)).toBe(true);
+    });
+
+    it('should start over on a reset and reject malformed files', () => {
+        const { recorder, state } = live(42, 3000, SCRIPT);
+        const reset: SimulationEvent = { type: 'RESET', seed: 99 };
+        const result = step(state, 0, [reset]);
+        recorder.record(result.emissions, result.state, [reset]);
+
+        expect(recorder.recording()).toMatchObject({ seed: 99, duration: 0, events: [], settings: { hopping: { dwellMs: 1500 } } });
+        expect(recorder.seek(0).state).toEqual(result.state);
+
+        const broken = { ...recorder.recording(), events: [{ at: 15, event: { type: 'SET_ATTACK' } }, { at: 0, event: reset }] };
+        expect(issuesOf(broken)).toEqual([
+            'events[0]: "at" must be a tick time in order and within the duration',
+            'events[1]: a recording cannot contain a RESET (it starts a new one)'
+        ]);
+        expect(issuesOf({ ...broken, schema: 'lt-graph-scenario' })).toEqual(['Expected "schema": "lt-graph-recording"']);
+    });
+
+    it('should reject events whose payload the engine could not apply', () => {
+        const { recorder } = live(42, 1000, {});
+        const events = [
+            { type: 'SET_HOPPING' },
+            { type: 'LOCK_NODE' },
+            { type: 'SET_HOPPING', hopping: { channels: [] } },
+            { type: 'LOCK_NODE', nodeId: 'N9', release: { kind: 'timed' } },
+            { type: 'SCHEDULE', events: [{ at: 0, event: { type: 'FAIL_LINK', source: 'N2' } }] },
+            { type: 'EXPLODE' }
+        ];
+        expect(issuesOf({ ...recorder.recording(), events: events.map(event => ({ at: 0, event })) })).toEqual([
+            'events[0].event.hopping must be an object',
+            'events[1].event.nodeId must be a node id',
+            'events[1].event.release must be an object',
+            'events[2].event.hopping.channels must be a list of at least 1',
+            'events[3].event.release.durationMs must be a positive number',
+            'events[4].event.events[0].event.target must be a node id',
+            'events[5].event: unknown type "EXPLODE"'
+        ]);
+    });
+
+    it('should reject settings the run could not start from', () => {
+        const { recorder } = live(42, 1000, {});
+        const { settings } = recorder.recording();
+        const broken = {
+            ...settings,
+            transport: { ...settings.transport, ttl: 'x' },
+            hopping: { ...settings.hopping, channels: [] },
+            mitigation: { ...settings.mitigation, maxStrength: 5 },
+            jammers: [{ kind: 'laser' }]
+        };
+        expect(issuesOf({ ...recorder.recording(), settings: broken })).toEqual([
+            'settings.mitigation.maxStrength must be a number from 0 to 1',
+            'settings.hopping.channels must be a list of at least 1',
+            'settings.jammers[0].kind must be one of fixed, sweep, reactive',
+            'settings.jammers[0].centerMhz must be a positive number',
+            'settings.jammers[0].bandwidthMhz must be a positive number',
+            'settings.transport.ttl must be a whole number >= 1'
+        ]);
+        expect(issuesOf({ ...recorder.recording(), settings: 'default' })).toEqual(['settings must be an object']);
+    });
+});
@@ -0,0 +1,283 @@
+import { LogEntry, NodeState, Packet } from '../types';
+import { SIMULATION_TICK_MS } from '../constants';
+import { SimulationState, SimulationEvent, SimulationEmission, SimulationOptions, createSimulationState, settingsOf, step } from './engine';
+import { linkId } from './hopping';
+import { isLinkDown } from './graph';
+import { normalizeSeed } from './random';
+import { isNumber, isObject, isArray, checkEvent, checkSettings } from './validation';
+
+export const RECORDING_SCHEMA = 'lt-graph-recording';
+export const RECORDING_SCHEMA_VERSION = 1;
+
+// Simulated ms between kept snapshots; a seek replays at most this much from the nearest one
+export const CHECKPOINT_MS = 5000;
+
+// An input to the run: replaying these on top of the base reproduces it exactly
+export interface RecordedEvent {
+    at: number; // simulated ms, always on a tick boundary
+    event: SimulationEvent;
+}
+
+export type PacketOutcome = 'delivered' | 'dropped' | 'lost';
+export type LinkChange = 'failed' | 'restored' | 'compromised' | 'secured';
+
+// What happened, for the timeline; derived from the run and not needed to replay it
+export type RecordedMark =
+    | { time: number; kind: 'node'; nodeId: string; to: NodeState }
+    | { time: number; kind: 'link'; linkId: string; change: LinkChange }
+    | { time: number; kind: 'packet'; seq: number; packetKind: Packet['kind']; outcome: PacketOutcome }
+    | { time: number; kind: 'hop'; frequency: number }
+    | { time: number; kind: 'log'; source: LogEntry['source']; message: string; level: LogEntry['type'] };
+
+export interface Recording {
+    schema: typeof RECORDING_SCHEMA;
+    version: typeof RECORDING_SCHEMA_VERSION;
+    seed: number;
+    settings: SimulationOptions; // as they were at the reset the recording starts from
+    duration: number; // simulated ms
+    events: RecordedEvent[];
+    marks: RecordedMark[];
+}
+
+// A moment in a recording and how many of its events the state already includes
+export interface ReplayPoint {
+    state: SimulationState;
+    applied: number;
+}
+
+export class RecordingError extends Error {
+    constructor(public readonly issues: string[]) {
+        super(`Invalid recording: ${issues.join('; ')}`);
+        this.name = 'RecordingError';
+    }
+}
+
+// --- Marks ---
+
+interface LinkFlags {
+    failed: boolean;
+    compromised: boolean;
+}
+
+const flagsOf = (state: SimulationState): Map<string, LinkFlags> =>
+    new Map(state.links.map(l => [linkId(l), { failed: isLinkDown(l, state.nodes), compromised: l.isCompromised }]));
+
+const markOf = (e: SimulationEmission): RecordedMark | null => {
+    switch (e.kind) {
+        case 'nodeState': return { time: e.time, kind: 'node', nodeId: e.nodeId, to: e.to };
+        case 'packetDelivered': return { time: e.time, kind: 'packet', seq: e.seq, packetKind: e.packetKind, outcome: 'delivered' };
+        case 'packetDropped': return { time: e.time, kind: 'packet', seq: e.seq, packetKind: e.packetKind, outcome: 'dropped' };
+        case 'packetLost': return { time: e.time, kind: 'packet', seq: e.seq, packetKind: 'data', outcome: 'lost' };
+        case 'frequencyHop': return { time: e.time, kind: 'hop', frequency: e.frequency };
+        case 'log': return { time: e.time, kind: 'log', source: e.source, message: e.message, level: e.level };
+        default: return null;
+    }
+};
+
+// Links have no emissions of their own, so changes are read off consecutive states
+const linkMarks = (previous: Map<string, LinkFlags>, state: SimulationState): RecordedMark[] => {
+    const marks: RecordedMark[] = [];
+    state.links.forEach(l => {
+        const id = linkId(l);
+        const before = previous.get(id);
+        if (!before) return;
+        const failed = isLinkDown(l, state.nodes);
+        if (before.failed !== failed) marks.push({ time: state.time, kind: 'link', linkId: id, change: failed ? 'failed' : 'restored' });
+        if (before.compromised !== l.isCompromised) marks.push({ time: state.time, kind: 'link', linkId: id, change: l.isCompromised ? 'compromised' : 'secured' });
+    });
+    return marks;
+};
+
+export const describeMark = (mark: RecordedMark): string => {
+    switch (mark.kind) {
+        case 'node': return `${mark.nodeId} -> ${mark.to}`;
+        case 'link': return `Link ${mark.linkId} ${mark.change}`;
+        case 'packet': return `${mark.packetKind === 'ack' ? 'ACK' : 'SEG'} ${mark.seq} ${mark.outcome}`;
+        case 'hop': return `Hop to ${mark.frequency} MHz`;
+        case 'log': return mark.message;
+    }
+};
+
+// --- Recorder ---
+
+export interface Recorder {
+    recording: () => Recording;
+    record: (emissions: SimulationEmission[], state: SimulationState, events: SimulationEvent[]) => void;
+    seek: (time: number) => ReplayPoint;
+    truncate: (point: ReplayPoint) => void; // drop everything after the point, e.g. when a replay branches off
+    load: (recording: Recording) => void;
+}
+
+/**
+ * Records a run as its base settings plus every event applied to it, and replays
+ * it to any moment. The engine is deterministic, so a replay matches the original
+ * tick for tick; snapshots along the way keep seeks short.
+ */
+export const createRecorder = (initial: SimulationState): Recorder => {
+    let rec: Recording;
+    let checkpoints = new Map<number, ReplayPoint>(); // by CHECKPOINT_MS bucket
+    let flags = new Map<string, LinkFlags>();
+    let lastTime = 0;
+
+    const start = (state: SimulationState) => {
+        rec = {
+            schema: RECORDING_SCHEMA,
+            version: RECORDING_SCHEMA_VERSION,
+            seed: state.seed,
+            settings: settingsOf(state),
+            duration: state.time,
+            events: [],
+            marks: []
+        };
+        checkpoints = new Map();
+        flags = flagsOf(state);
+        lastTime = state.time;
+    };
+    start(initial);
+
+    const keep = (point: ReplayPoint) => {
+        const bucket = Math.floor(point.state.time / CHECKPOINT_MS);
+        if (!checkpoints.has(bucket)) checkpoints.set(bucket, point);
+    };
+
+    const record = (emissions: SimulationEmission[], state: SimulationState, events: SimulationEvent[]) => {
+        // A reset starts a new recording; events are applied before the step's ticks
+        const reset = events.map(e => e.type).lastIndexOf('RESET');
+        if (reset >= 0) start(state);
+        const at = reset >= 0 ? 0 : lastTime;
+        events.slice(reset + 1).forEach(event => rec.events.push({ at, event }));
+
+        emissions.forEach(e => {
+            const mark = markOf(e);
+            if (mark) rec.marks.push(mark);
+        });
+        rec.marks.push(...linkMarks(flags, state));
+        flags = flagsOf(state);
+
+        lastTime = state.time;
+        rec.duration = Math.max(rec.duration, state.time);
+        keep({ state, applied: rec.events.length });
+    };
+
+    const latestCheckpoint = (time: number): ReplayPoint | null => {
+        for (let bucket = Math.floor(time / CHECKPOINT_MS); bucket >= 0; bucket--) {
+            const point = checkpoints.get(bucket);
+            if (point && point.state.time <= time) return point;
+        }
+        return null;
+    };
+
+    const seek = (time: number): ReplayPoint => {
+        const target = Math.min(Math.max(0, Math.round(time / SIMULATION_TICK_MS) * SIMULATION_TICK_MS), rec.duration);
+        let { state, applied } = latestCheckpoint(target) ?? { state: createSimulationState(rec.seed, rec.settings), applied: 0 };
+
+        // Whole ticks only, stopping at checkpoint boundaries to keep snapshots on the way
+        const advanceTo = (to: number) => {
+            while (state.time < to) {
+                const boundary = (Math.floor(state.time / CHECKPOINT_MS) + 1) * CHECKPOINT_MS;
+                state = step(state, Math.min(to, boundary) - state.time).state;
+                if (state.time === boundary) keep({ state, applied });
+            }
+        };
+
+        while (applied < rec.events.length && rec.events[applied].at <= target) {
+            const next = rec.events[applied];
+            advanceTo(next.at);
+            state = step(state, 0, [next.event]).state;
+            applied++;
+        }
+        advanceTo(target);
+        return { state, applied };
+    };
+
+    const truncate = ({ state, applied }: ReplayPoint) => {
+        rec.events = rec.events.slice(0, applied);
+        rec.marks = rec.marks.filter(m => m.time <= state.time);
+        rec.duration = state.time;
+        checkpoints.forEach((point, bucket) => {
+            if (point.state.time > state.time || point.applied > applied) checkpoints.delete(bucket);
+        });
+        flags = flagsOf(state);
+        lastTime = state.time;
+    };
+
+    const load = (recording: Recording) => {
+        rec = recording;
+        checkpoints = new Map();
+    };
+
+    return { recording: () => rec, record, seek, truncate, load };
+};
+
+// --- File format ---
+
+const isRecordedMark = (v: unknown): v is RecordedMark => isObject(v) && isNumber(v.time) && typeof v.kind === 'string';
+
+export const validateRecording = (data: unknown): Recording => {
+    if (!isObject(data)) throw new RecordingError(['Expected a JSON object']);
+    if (data.schema !== RECORDING_SCHEMA) throw new RecordingError([`Expected "schema": "${RECORDING_SCHEMA}"`]);
+    if (data.version !== RECORDING_SCHEMA_VERSION) {
+        throw new RecordingError([`Unsupported recording version ${data.version} (expected ${RECORDING_SCHEMA_VERSION})`]);
+    }
+
+    const { seed, settings, duration, events, marks } = data;
+    const issues: string[] = [];
+    const validSeed = isNumber(seed);
+    if (!validSeed) issues.push('"seed" must be a number');
+    const validSettings = checkSettings(settings, 'settings', issues);
+    const validDuration = isNumber(duration) && duration >= 0;
+    const validEvents = isArray(events);
+    const validMarks = isArray(marks);
+
+    if (!validDuration) issues.push('"duration" must be a number of ms (>= 0)');
+    if (!validEvents) issues.push('"events" must be an array');
+    if (!validMarks) issues.push('"marks" must be an array');
+    if (!(validSeed && validSettings && validDuration && validEvents && validMarks)) throw new RecordingError(issues);
+
+    let previous = 0;
+    const recorded = events.filter((raw, i): raw is RecordedEvent => {
+        if (!isObject(raw) || !isObject(raw.event)) {
+            issues.push(`events[${i}] needs an "event"`);
+        } else if (raw.event.type === 'RESET') {
+            issues.push(`events[${i}]: a recording cannot contain a RESET (it starts a new one)`);
+        } else if (!isNumber(raw.at) || raw.at % SIMULATION_TICK_MS !== 0 || raw.at < previous || raw.at > duration) {
+            issues.push(`events[${i}]: "at" must be a tick time in order and within the duration`);
+        } else if (checkEvent(raw.event, `events[${i}].event`, issues)) {
+            previous = raw.at;
+            return true;
+        }
+        return false;
+    });
+    const marked = marks.filter(isRecordedMark);
+    if (marked.length < marks.length) issues.push('every mark needs a "time" and a "kind"');
+    if (issues.length > 0) throw new RecordingError(issues);
+
+    try {
+        createSimulationState(normalizeSeed(seed), settings);
+    } catch (e) {
+        throw new RecordingError([`Run cannot be rebuilt: ${(e as Error).message}`]);
+    }
+
+    return {
+        schema: RECORDING_SCHEMA,
+        version: RECORDING_SCHEMA_VERSION,
+        seed: normalizeSeed(seed),
+        settings,
+        duration,
+        events: recorded,
+        marks: marked
+    };
+};
+
+export const parseRecording = (text: string): Recording => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (e) {
+        throw new RecordingError([`Not valid JSON: ${(e as Error).message}`]);
+    }
+    return validateRecording(data);
+};
+
+// One line: recordings are long and mostly read back by the app
+export const exportRecording = (recording: Recording): string => JSON.stringify(recording);
@@ -0,0 +1,81 @@
+import { GraphNode, GraphLink, NodeState } from '../types';
+import { getId, isLinkDown } from './graph';
+
+// Link cost modifiers. LOCKED or FAILED nodes and links that are down are never routed through.
+const COST = {
+    BASE: 1,
+    COMPROMISED_LINK: 5,
+    COMPROMISED_NODE: 10
+};
+
+export const canCarryTraffic = (node: Pick<GraphNode, 'state'> | undefined): boolean =>
+    !!node && node.state !== NodeState.LOCKED && node.state !== NodeState.FAILED;
+
+const nodeCost = (node: GraphNode | undefined): number => {
+    if (!canCarryTraffic(node)) return Infinity;
+    if (node.state === NodeState.COMPROMISED) return COST.COMPROMISED_NODE;
+    return 0;
+};
+
+/**
+ * Shortest path (Dijkstra) from `fromId` to `toId`, weighted by link and node state.
+ * Returns the list of node ids including both endpoints, or null when unreachable.
+ */
+export const computeRoute = (
+    nodes: GraphNode[],
+    links: GraphLink[],
+    fromId: string,
+    toId: string
+): string[] | null => {
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    if (!byId.has(fromId) || !byId.has(toId)) return null;
+
+    const adjacency = new Map<string, { to: string; cost: number }[]>();
+    links.forEach(l => {
+        if (isLinkDown(l, nodes)) return;
+        const s = getId(l.source);
+        const t = getId(l.target);
+        const cost = COST.BASE + (l.isCompromised ? COST.COMPROMISED_LINK : 0);
+        if (!adjacency.has(s)) adjacency.set(s, []);
+        if (!adjacency.has(t)) adjacency.set(t, []);
+        adjacency.get(s)!.push({ to: t, cost });
+        adjacency.get(t)!.push({ to: s, cost });
+    });
+
+    const dist = new Map<string, number>([[fromId, 0]]);
+    const prev = new Map<string, string>();
+    const visited = new Set<string>();
+
+    while (true) {
+        let current: string | null = null;
+        let best = Infinity;
+        for (const [id, d] of dist) {
+            if (!visited.has(id) && d < best) {
+                best = d;
+                current = id;
+            }
+        }
+        if (current === null || current === toId) break;
+        const from: string = current;
+        visited.add(from);
+
+        (adjacency.get(from) || []).forEach(({ to, cost }) => {
+            if (visited.has(to)) return;
+            const penalty = nodeCost(byId.get(to));
+            if (penalty === Infinity) return;
+            const candidate = best + cost + penalty;
+            if (candidate < (dist.get(to) ?? Infinity)) {
+                dist.set(to, candidate);
+                prev.set(to, from);
+            }
+        });
+    }
+
+    if (!dist.has(toId)) return null;
+
+    const path = [toId];
+    while (path[0] !== fromId) {
+        path.unshift(prev.get(path[0])!);
+    }
+    return path;
+};
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { NodeState } from '../types';
+import { SIMULATION_TICK_MS } from '../constants';
+import { Scenario, ScenarioError, parseScenario, exportScenario, scenarioEvents, evaluateScenario } from './scenario';
+import { SCENARIO_LIBRARY } from './scenarioLibrary';
+import { runHeadless, scenarioOptions } from './headless';
+import { createSimulationState, step } from './engine';
+import { createMetricsCollector } from './metrics';
+import { computeRoute } from './routing';
+import { linkId } from './hopping';
+import { findLink } from './graph';
+
+const drill = SCENARIO_LIBRARY.find(s => s.id === 'mitm-containment')!;
+
+const issuesOf = (scenario: object): string[] => {
+    try {
+        parseScenario(JSON.stringify(scenario));
+        return [];
+    } catch (e) {
+        return (e as ScenarioError).issues;
+    }
+};
+
+describe('scenarios', () => {
+    it('should round-trip every library scenario through JSON', () => {
+        SCENARIO_LIBRARY.forEach(s => expect(parseScenario(exportScenario(s))).toEqual(s));
+    });
+
+    it('should report every reference the topology does not have', () => {
+        const broken = {
+            ...drill,
+            timeline: [
+                { at: 1, action: 'startAttack', attack: 'MITM', target: 'N99' },
+                { at: 2, action: 'failLink', link: ['SRC', 'DST'] },
+                { at: -1, action: 'stopAttacks' },
+                { at: 3, action: 'explode' }
+            ],
+            assertions: [{ metric: 'happiness', op: '>', value: 1 }]
+        };
+
+        expect(issuesOf(broken)).toEqual([
+            'timeline[0]: unknown node "N99" in "target"',
+            'timeline[1]: no link between "SRC" and "DST"',
+            'timeline[2] needs a time "at" (seconds, >= 0)',
+            'timeline[3]: unknown action "explode"',
+            expect.stringMatching(/^assertions\[0\]: "metric" must be one of deliveryRatio, /)
+        ]);
+        expect(issuesOf({ ...drill, version: 2 })).toEqual(['Unsupported scenario version 2 (expected 1)']);
+    });
+
+    it('should check generator parameters and custom graphs like an import', () => {
+        expect(issuesOf({ ...drill, topology: { kind: 'grid' } })).toEqual([
+            'topology.rows must be a whole number from 1 to 10',
+            'topology.cols must be a whole number from 1 to 10'
+        ]);
+        expect(issuesOf({ ...drill, topology: { kind: 'watts-strogatz', routers: 6, neighbours: 3, rewireProbability: 2 } })).toEqual([
+            'topology.rewireProbability must be a number from 0 to 1'
+        ]);
+        expect(issuesOf({ ...drill, topology: { kind: 'barabasi-albert', routers: 4, attachments: 4 } })).toEqual([
+            'topology.attachments must be less than routers'
+        ]);
+
+        const node = (id: string) => ({ id, type: id === 'SRC' ? 'source' : id === 'DST' ? 'target' : 'router', label: id });
+        const link = (source: string, target: string) => ({ source, target, frequency: 100 });
+        const custom = {
+            kind: 'custom',
+            name: 'lab',
+            nodes: ['SRC', 'N1', 'N1', 'N2', 'DST'].map(node),
+            links: [link('SRC', 'N1'), link('N1', 'N9'), link('N2', 'DST')]
+        };
+        expect(issuesOf({ ...drill, timeline: [], topology: custom })).toEqual([
+            'topology: Duplicate node id "N1"',
+            'topology: Link #2 (N1 - N9) references unknown node "N9"'
+        ]);
+        expect(issuesOf({ ...drill, timeline: [], topology: { ...custom, nodes: ['SRC', 'N1', 'N2', 'DST'].map(node), links: [link('SRC', 'N1'), link('N2', 'DST')] } }))
+            .toEqual(['topology: "DST" is not reachable from "SRC"']);
+    });
+
+    it('should check each setting against what the engine accepts', () => {
+        expect(issuesOf({ ...drill, settings: { transport: 'nope', mitigation: 5 } })).toEqual([
+            'settings.mitigation must be an object',
+            'settings.transport must be an object'
+        ]);
+        expect(issuesOf({ ...drill, settings: { hopping: { enabled: true, channels: [] }, keying: { rekeyEveryHops: -1 }, faults: { regionRadius: 1 } } })).toEqual([
+            'settings.hopping.channels must be a list of at least 1',
+            'settings.keying.rekeyEveryHops must be a whole number >= 0',
+            'settings.faults: unknown field "regionRadius"'
+        ]);
+    });
+
+    it('should apply each timeline step at its time in headless runs', () => {
+        const trace = runHeadless(scenarioOptions(drill));
+        const at = (time: number, message: string) => expect(trace.logs).toContainEqual(expect.objectContaining({ time, message }));
+
+        at(5000, 'Intrusion entry point: N6.');
+        at(12000, 'Link N2~N7 failed.');
+        at(15000, 'R-9 quarantined by operator (until released).');
+        at(30000, 'Stopped MITM simulation.');
+        expect(trace.config.scenario).toBe('mitm-containment');
+        expect(trace.scenario).toMatchObject({ id: 'mitm-containment', time: 45000, passed: true });
+    });
+
+    it('should keep traffic and keys off a failed link', () => {
+        let state = createSimulationState(42);
+        state = step(state, 0, [{ type: 'FAIL_LINK', source: 'N7', target: 'N2' }]).state;
+        state = step(state, 1000).state;
+
+        const link = findLink(state.links, 'N2', 'N7')!;
+        expect(link.isFailed).toBe(true);
+        expect(state.linkKeys[linkId(link)]).toBeUndefined();
+        expect(computeRoute(state.nodes, [link], 'N2', 'N7')).toBeNull();
+    });
+
+    it('should end the same way when its events are dispatched one by one', () => {
+        // The UI dispatches each event separately and advances in frames
+        const collector = createMetricsCollector();
+        let state = createSimulationState(1);
+        scenarioEvents(drill).forEach(event => {
+            state = step(state, 0, [event]).state;
+        });
+        collector.record(state, []);
+        while (state.time < drill.durationSeconds * 1000) {
+            const result = step(state, SIMULATION_TICK_MS);
+            state = result.state;
+            collector.record(state, result.emissions);
+        }
+
+        const ui = evaluateScenario(drill, collector.snapshot(), state);
+        const headless = runHeadless(scenarioOptions(drill));
+        expect(ui).toEqual(headless.scenario);
+        expect(collector.snapshot().packetsDelivered).toBe(headless.metrics.packetsDelivered);
+    });
+
+    it('should fail assertions the run does not meet', () => {
+        const strict: Scenario = { ...drill, assertions: [{ metric: 'compromisedAtEnd', op: '>', value: 0 }, { metric: 'lockedAtEnd', op: '==', value: 1 }] };
+        const { scenario, nodeStateChanges } = runHeadless(scenarioOptions(strict));
+
+        expect(scenario!.passed).toBe(false);
+        expect(scenario!.results.map(r => r.passed)).toEqual([false, true]);
+        expect(nodeStateChanges.some(c => c.nodeId === 'N9' && c.to === NodeState.LOCKED)).toBe(true);
+    });
+});
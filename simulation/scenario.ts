@@ -0,0 +1,352 @@
+import { AttackType, NodeState } from '../types';
+import {
+    createSimulationState, SimulationEvent, SimulationState, ScheduledEvent, MitigationSettings, DEFAULT_MITIGATION
+} from './engine';
+import { findLink } from './graph';
+import { HoppingConfig, DEFAULT_HOPPING } from './hopping';
+import { TransportConfig, DEFAULT_TRANSPORT } from './transport';
+import { KeyingConfig, DEFAULT_KEYING } from './keying';
+import { FaultConfig, DEFAULT_FAULTS } from './faults';
+import { DEFAULT_JAMMERS } from './jamming';
+import { TopologyConfig, DEFAULT_TOPOLOGY } from './topology';
+import { NetworkMetrics } from './metrics';
+import { normalizeSeed } from './random';
+import {
+    isNumber, isObject, isArray, isOneOf, isKeyOf, partOf, checkBoolean, checkTopology, checkMitigation, checkHopping,
+    checkTransport, checkKeying, checkFaults
+} from './validation';
+
+export const SCENARIO_SCHEMA = 'lt-graph-scenario';
+export const SCENARIO_SCHEMA_VERSION = 1;
+
+// What a timeline entry does; `at` is in simulated seconds from the start
+export type ScenarioAction =
+    | { action: 'startAttack'; attack: Exclude<AttackType, AttackType.NONE>; target?: string }
+    | { action: 'stopAttacks' }
+    | { action: 'failLink'; link: [string, string] }
+    | { action: 'restoreLink'; link: [string, string] }
+    | { action: 'lockNode'; node: string; seconds?: number } // omitted: until unlocked
+    | { action: 'unlockNode'; node: string }
+    | { action: 'failNode'; node: string }
+    | { action: 'repairNode'; node: string }
+    | { action: 'regionalOutage'; node?: string } // centre; omitted: a random router
+    | { action: 'leakSessionKey' }
+    | { action: 'rotateSessionKey' };
+
+export type ScenarioStep = ScenarioAction & { at: number };
+
+// Anything left out runs with the defaults, whatever the UI was set to before
+export interface ScenarioSettings {
+    mitigation?: Partial<MitigationSettings>;
+    hopping?: Partial<Omit<HoppingConfig, 'key'>>;
+    transport?: Partial<TransportConfig>;
+    encryption?: boolean;
+    keying?: Partial<KeyingConfig>;
+    faults?: Partial<FaultConfig>;
+}
+
+export type AssertionMetric =
+    | 'deliveryRatio' | 'packetsDelivered' | 'packetsDropped' | 'retransmissions' | 'segmentsAcked' | 'segmentsLost'
+    | 'latencyMeanMs' | 'latencyP95Ms' | 'compromisedNodeTimeShare' | 'meanTimeToRecoveryMs' | 'compromisedAtEnd' | 'lockedAtEnd';
+
+export type AssertionOperator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+// Checked against the metrics once the scenario's duration has elapsed
+export interface ScenarioAssertion {
+    metric: AssertionMetric;
+    op: AssertionOperator;
+    value: number;
+}
+
+export interface Scenario {
+    schema: typeof SCENARIO_SCHEMA;
+    version: typeof SCENARIO_SCHEMA_VERSION;
+    id: string;
+    name: string;
+    description: string;
+    seed: number;
+    durationSeconds: number;
+    topology: TopologyConfig;
+    settings: ScenarioSettings;
+    timeline: ScenarioStep[];
+    assertions: ScenarioAssertion[];
+}
+
+export interface AssertionResult extends ScenarioAssertion {
+    actual: number | null; // null when the metric has no value (e.g. nothing delivered)
+    passed: boolean;
+}
+
+export interface ScenarioReport {
+    id: string;
+    name: string;
+    time: number; // when the assertions were checked
+    passed: boolean;
+    results: AssertionResult[];
+}
+
+export class ScenarioError extends Error {
+    constructor(public readonly issues: string[]) {
+        super(`Invalid scenario: ${issues.join('; ')}`);
+        this.name = 'ScenarioError';
+    }
+}
+
+const METRICS: Record<AssertionMetric, (metrics: NetworkMetrics, state: SimulationState) => number | null> = {
+    deliveryRatio: m => m.deliveryRatio,
+    packetsDelivered: m => m.packetsDelivered,
+    packetsDropped: m => m.packetsDropped,
+    retransmissions: m => m.retransmissions,
+    segmentsAcked: m => m.segmentsAcked,
+    segmentsLost: m => m.segmentsLost,
+    latencyMeanMs: m => m.latencyMs?.mean ?? null,
+    latencyP95Ms: m => m.latencyMs?.p95 ?? null,
+    compromisedNodeTimeShare: m => m.compromisedNodeTimeShare,
+    meanTimeToRecoveryMs: m => m.meanTimeToRecoveryMs,
+    compromisedAtEnd: (_, s) => s.nodes.filter(n => n.state === NodeState.COMPROMISED).length,
+    lockedAtEnd: (_, s) => s.quarantines.length
+};
+
+export const ASSERTION_METRICS = Object.keys(METRICS) as AssertionMetric[];
+
+const OPERATORS: Record<AssertionOperator, (actual: number, expected: number) => boolean> = {
+    '<': (a, b) => a < b,
+    '<=': (a, b) => a <= b,
+    '>': (a, b) => a > b,
+    '>=': (a, b) => a >= b,
+    '==': (a, b) => a === b,
+    '!=': (a, b) => a !== b
+};
+
+const ATTACKS = Object.values(AttackType).filter(a => a !== AttackType.NONE);
+
+export const describeAssertion = (a: ScenarioAssertion): string => `${a.metric} ${a.op} ${a.value}`;
+
+export const describeStep = (step: ScenarioStep): string => {
+    switch (step.action) {
+        case 'startAttack': return `start ${step.attack}${step.target ? ` on ${step.target}` : ''}`;
+        case 'stopAttacks': return 'stop all attacks';
+        case 'failLink': return `fail link ${step.link.join('–')}`;
+        case 'restoreLink': return `restore link ${step.link.join('–')}`;
+        case 'lockNode': return `lock ${step.node}${step.seconds !== undefined ? ` for ${step.seconds}s` : ''}`;
+        case 'unlockNode': return `unlock ${step.node}`;
+        case 'failNode': return `fail ${step.node}`;
+        case 'repairNode': return `repair ${step.node}`;
+        case 'regionalOutage': return `regional outage${step.node ? ` around ${step.node}` : ''}`;
+        case 'leakSessionKey': return 'leak the session key';
+        case 'rotateSessionKey': return 'rotate the session key';
+    }
+};
+
+// --- Validation ---
+
+// True when the step is well formed; otherwise says why in `issues`
+const checkStep = (raw: unknown, i: number, nodeIds: Set<string>, state: SimulationState, issues: string[]): raw is ScenarioStep => {
+    const where = `timeline[${i}]`;
+    if (!isObject(raw)) {
+        issues.push(`${where} must be an object`);
+        return false;
+    }
+    const before = issues.length;
+    if (!isNumber(raw.at) || raw.at < 0) issues.push(`${where} needs a time "at" (seconds, >= 0)`);
+
+    const node = (id: unknown, field: string) => {
+        if (typeof id !== 'string' || !nodeIds.has(id)) issues.push(`${where}: unknown node ${JSON.stringify(id)} in "${field}"`);
+    };
+    const link = (ends: unknown) => {
+        const [a, b] = isArray(ends) ? ends : [];
+        if (!isArray(ends) || ends.length !== 2 || typeof a !== 'string' || typeof b !== 'string') {
+            issues.push(`${where}: "link" must be a pair of node ids`);
+        } else if (!findLink(state.links, a, b)) {
+            issues.push(`${where}: no link between "${a}" and "${b}"`);
+        }
+    };
+
+    switch (raw.action) {
+        case 'startAttack':
+            if (!isOneOf(ATTACKS, raw.attack)) issues.push(`${where}: "attack" must be one of ${ATTACKS.join(', ')}`);
+            if (raw.target !== undefined) node(raw.target, 'target');
+            break;
+        case 'failLink':
+        case 'restoreLink':
+            link(raw.link);
+            break;
+        case 'lockNode':
+            node(raw.node, 'node');
+            if (raw.seconds !== undefined && (!isNumber(raw.seconds) || raw.seconds <= 0)) issues.push(`${where}: "seconds" must be positive`);
+            break;
+        case 'unlockNode':
+        case 'failNode':
+        case 'repairNode':
+            node(raw.node, 'node');
+            break;
+        case 'regionalOutage':
+            if (raw.node !== undefined) node(raw.node, 'node');
+            break;
+        case 'stopAttacks':
+        case 'leakSessionKey':
+        case 'rotateSessionKey':
+            break;
+        default:
+            issues.push(`${where}: unknown action ${JSON.stringify(raw.action)}`);
+    }
+    return issues.length === before;
+};
+
+const checkAssertion = (raw: unknown, i: number, issues: string[]): raw is ScenarioAssertion => {
+    if (!isObject(raw) || !isOneOf(ASSERTION_METRICS, raw.metric)) {
+        issues.push(`assertions[${i}]: "metric" must be one of ${ASSERTION_METRICS.join(', ')}`);
+    } else if (!isKeyOf(OPERATORS, raw.op)) {
+        issues.push(`assertions[${i}]: "op" must be one of ${Object.keys(OPERATORS).join(' ')}`);
+    } else if (!isNumber(raw.value)) {
+        issues.push(`assertions[${i}]: "value" must be a number`);
+    } else {
+        return true;
+    }
+    return false;
+};
+
+const checkSettings = partOf<ScenarioSettings>({
+    mitigation: checkMitigation,
+    hopping: checkHopping,
+    transport: checkTransport,
+    encryption: checkBoolean,
+    keying: checkKeying,
+    faults: checkFaults
+});
+
+/**
+ * Check a parsed scenario, including that the nodes and links it names exist
+ * in the topology its seed generates. Every problem is reported at once.
+ */
+export const validateScenario = (data: unknown): Scenario => {
+    if (!isObject(data)) throw new ScenarioError(['Expected a JSON object']);
+    if (data.schema !== SCENARIO_SCHEMA) throw new ScenarioError([`Expected "schema": "${SCENARIO_SCHEMA}"`]);
+    if (data.version !== SCENARIO_SCHEMA_VERSION) {
+        throw new ScenarioError([`Unsupported scenario version ${data.version} (expected ${SCENARIO_SCHEMA_VERSION})`]);
+    }
+
+    const { id, name, description, seed, durationSeconds, topology = DEFAULT_TOPOLOGY, settings = {}, timeline, assertions = [] } = data;
+    const validId = typeof id === 'string' && /^[a-z0-9-]+$/.test(id);
+    const validName = typeof name === 'string' && name.trim() !== '';
+    const validSeed = isNumber(seed);
+    const validDuration = isNumber(durationSeconds) && durationSeconds > 0;
+    const validTimeline = isArray(timeline);
+    const validAssertions = isArray(assertions);
+
+    const issues: string[] = [];
+    const validTopology = checkTopology(topology, 'topology', issues);
+    if (!validId) issues.push('"id" must be lowercase letters, digits and dashes');
+    if (!validName) issues.push('"name" is required');
+    if (!validSeed) issues.push('"seed" must be a number');
+    if (!validDuration) issues.push('"durationSeconds" must be positive');
+    const validSettings = checkSettings(settings, 'settings', issues);
+    if (!validTimeline) issues.push('"timeline" must be an array');
+    if (!validAssertions) issues.push('"assertions" must be an array');
+    if (!(validId && validName && validSeed && validDuration && validTopology && validSettings && validTimeline && validAssertions)) {
+        throw new ScenarioError(issues);
+    }
+
+    let state: SimulationState;
+    try {
+        state = createSimulationState(normalizeSeed(seed), { topology });
+    } catch (e) {
+        throw new ScenarioError([`Topology cannot be built: ${(e as Error).message}`]);
+    }
+    const nodeIds = new Set(state.nodes.map(n => n.id));
+
+    const steps = timeline.filter((raw, i): raw is ScenarioStep => checkStep(raw, i, nodeIds, state, issues));
+    const checks = assertions.filter((raw, i): raw is ScenarioAssertion => checkAssertion(raw, i, issues));
+    if (issues.length > 0) throw new ScenarioError(issues);
+
+    return {
+        schema: SCENARIO_SCHEMA,
+        version: SCENARIO_SCHEMA_VERSION,
+        id,
+        name: name.trim(),
+        description: typeof description === 'string' ? description : '',
+        seed: normalizeSeed(seed),
+        durationSeconds,
+        topology,
+        settings, // merged over the defaults field by field when loaded
+        timeline: steps,
+        assertions: checks
+    };
+};
+
+export const parseScenario = (text: string): Scenario => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (e) {
+        throw new ScenarioError([`Not valid JSON: ${(e as Error).message}`]);
+    }
+    return validateScenario(data);
+};
+
+export const exportScenario = (scenario: Scenario): string => JSON.stringify(scenario, null, 2);
+
+// --- Playback ---
+
+const stepEvents = (step: ScenarioStep): SimulationEvent[] => {
+    switch (step.action) {
+        case 'startAttack': return [{ type: 'SET_ATTACK', attackType: step.attack, target: step.target }];
+        case 'stopAttacks': return [{ type: 'SET_ATTACK', attackType: AttackType.NONE }];
+        case 'failLink': return [{ type: 'FAIL_LINK', source: step.link[0], target: step.link[1] }];
+        case 'restoreLink': return [{ type: 'RESTORE_LINK', source: step.link[0], target: step.link[1] }];
+        case 'lockNode': return [{
+            type: 'LOCK_NODE', nodeId: step.node,
+            release: step.seconds === undefined ? { kind: 'manual' } : { kind: 'timed', durationMs: step.seconds * 1000 }
+        }];
+        case 'unlockNode': return [{ type: 'UNLOCK_NODE', nodeId: step.node }];
+        case 'failNode': return [{ type: 'FAIL_NODE', nodeId: step.node }];
+        case 'repairNode': return [{ type: 'REPAIR_NODE', nodeId: step.node }];
+        case 'regionalOutage': return [{ type: 'REGIONAL_OUTAGE', center: step.node }];
+        case 'leakSessionKey': return [{ type: 'LEAK_SESSION_KEY' }];
+        case 'rotateSessionKey': return [{ type: 'ROTATE_SESSION_KEY' }];
+    }
+};
+
+/**
+ * Everything needed to play a scenario from a fresh engine: reset to its seed
+ * and topology, apply its settings over the defaults, then hand the engine the
+ * timeline. The UI dispatches these; the headless runner applies them at t=0.
+ */
+export const scenarioEvents = (scenario: Scenario): SimulationEvent[] => {
+    const { settings } = scenario;
+    const { key, ...hopping } = DEFAULT_HOPPING;
+    const schedule: ScheduledEvent[] = scenario.timeline.flatMap(step =>
+        stepEvents(step).map(event => ({ at: step.at * 1000, event }))
+    );
+
+    return [
+        { type: 'RESET', seed: scenario.seed, topology: scenario.topology },
+        { type: 'SET_MITIGATION', mitigation: { ...DEFAULT_MITIGATION, ...settings.mitigation } },
+        { type: 'SET_HOPPING', hopping: { ...hopping, ...settings.hopping } },
+        { type: 'SET_JAMMERS', jammers: DEFAULT_JAMMERS },
+        { type: 'SET_TRANSPORT', transport: { ...DEFAULT_TRANSPORT, ...settings.transport } },
+        { type: 'SET_ENCRYPTION', enabled: settings.encryption ?? true },
+        { type: 'SET_KEYING', keying: { ...DEFAULT_KEYING, ...settings.keying } },
+        { type: 'SET_FAULTS', faults: { ...DEFAULT_FAULTS, ...settings.faults } },
+        { type: 'SCHEDULE', events: schedule }
+    ];
+};
+
+export const scenarioLogLines = (report: ScenarioReport): { level: 'success' | 'error'; message: string }[] => {
+    const passed = report.results.filter(r => r.passed).length;
+    return [
+        { level: report.passed ? 'success' : 'error', message: `Scenario "${report.name}" ${report.passed ? 'PASSED' : 'FAILED'} (${passed}/${report.results.length} assertions).` },
+        ...report.results.filter(r => !r.passed).map(r => ({
+            level: 'error' as const,
+            message: `Assertion failed: ${describeAssertion(r)} (actual ${r.actual === null ? 'n/a' : +r.actual.toFixed(3)}).`
+        }))
+    ];
+};
+
+export const evaluateScenario = (scenario: Scenario, metrics: NetworkMetrics, state: SimulationState): ScenarioReport => {
+    const results = scenario.assertions.map(assertion => {
+        const actual = METRICS[assertion.metric](metrics, state);
+        return { ...assertion, actual, passed: actual !== null && OPERATORS[assertion.op](actual, assertion.value) };
+    });
+    return { id: scenario.id, name: scenario.name, time: state.time, passed: results.every(r => r.passed), results };
+};
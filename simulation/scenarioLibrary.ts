@@ -0,0 +1,67 @@
+import { AttackType } from '../types';
+import { Scenario, SCENARIO_SCHEMA, SCENARIO_SCHEMA_VERSION } from './scenario';
+import { DEFAULT_TOPOLOGY } from './topology';
+
+// Built-in training exercises; the same JSON shape can be exported and loaded from a file
+export const SCENARIO_LIBRARY: Scenario[] = [
+    {
+        schema: SCENARIO_SCHEMA,
+        version: SCENARIO_SCHEMA_VERSION,
+        id: 'mitm-containment',
+        name: 'MITM containment',
+        description: 'A man-in-the-middle lands on N6 while link N2–N7 fails. The operator locks N9 to contain the spread, then the attack stops.',
+        seed: 42,
+        durationSeconds: 45,
+        topology: DEFAULT_TOPOLOGY,
+        settings: {},
+        timeline: [
+            { at: 5, action: 'startAttack', attack: AttackType.MITM, target: 'N6' },
+            { at: 12, action: 'failLink', link: ['N2', 'N7'] },
+            { at: 15, action: 'lockNode', node: 'N9' },
+            { at: 30, action: 'stopAttacks' }
+        ],
+        assertions: [
+            { metric: 'deliveryRatio', op: '>=', value: 0.8 },
+            { metric: 'compromisedAtEnd', op: '==', value: 0 }
+        ]
+    },
+    {
+        schema: SCENARIO_SCHEMA,
+        version: SCENARIO_SCHEMA_VERSION,
+        id: 'sniffer-key-leak',
+        name: 'Sniffer and leaked session key',
+        description: 'A sniffer spreads unopposed, the session key leaks at 10s and is rotated at 20s. Traffic keeps flowing; the question is what was exposed.',
+        seed: 1912,
+        durationSeconds: 40,
+        topology: DEFAULT_TOPOLOGY,
+        settings: { mitigation: { enabled: false } },
+        timeline: [
+            { at: 3, action: 'startAttack', attack: AttackType.SNIFFING },
+            { at: 10, action: 'leakSessionKey' },
+            { at: 20, action: 'rotateSessionKey' },
+            { at: 35, action: 'stopAttacks' }
+        ],
+        assertions: [
+            { metric: 'deliveryRatio', op: '>=', value: 0.9 }
+        ]
+    },
+    {
+        schema: SCENARIO_SCHEMA,
+        version: SCENARIO_SCHEMA_VERSION,
+        id: 'jamming-without-hopping',
+        name: 'Jamming without hopping',
+        description: 'Hopping is switched off before a jammer comes up at 5s. Retransmission has to carry the traffic until the jammer stops at 25s.',
+        seed: 7,
+        durationSeconds: 40,
+        topology: DEFAULT_TOPOLOGY,
+        settings: { hopping: { enabled: false } },
+        timeline: [
+            { at: 5, action: 'startAttack', attack: AttackType.JAMMING },
+            { at: 25, action: 'stopAttacks' }
+        ],
+        assertions: [
+            { metric: 'retransmissions', op: '>', value: 0 },
+            { metric: 'deliveryRatio', op: '>=', value: 0.5 }
+        ]
+    }
+];
@@ -1,83 +1,166 @@
 import { renderHook, act } from '@testing-library/react';
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
+import { useSimulationEngine } from './useSimulationEngine';
 import { useNodeState } from './useNodeState';
-import { usePacketSystem } from './usePacketSystem';
 import { useAttackSimulation } from './useAttackSimulation';
-import { AttackType, NodeState } from '../types';
+import { generateTopology, DEFAULT_TOPOLOGY } from './topology';
+import { computeRoute } from './routing';
+import { createRng } from './random';
+import { offlineAnalysis } from '../services/offlineKernel';
+import { ThreatSituation } from '../services/aiKernel';
+import { AttackType, NodeState, GraphNode, GraphLink } from '../types';
 
 describe('useNodeState', () => {
-    beforeEach(() => {
-        vi.useFakeTimers();
-    });
-
-    afterEach(() => {
-        vi.useRealTimers();
+    const renderEngine = () => renderHook(() => {
+        const engine = useSimulationEngine(42);
+        return { engine, nodeState: useNodeState(engine) };
     });
 
     it('should initialize with nodes and links', () => {
-        const { result } = renderHook(() => useNodeState());
+        const { result } = renderEngine();
 
         act(() => {
-            result.current.initializeGraph();
+            result.current.nodeState.initializeGraph(42);
         });
 
-        expect(result.current.nodes.length).toBeGreaterThan(0);
-        expect(result.current.links.length).toBeGreaterThan(0);
-        expect(result.current.nodes[0].id).toBe('SRC');
+        expect(result.current.nodeState.nodes.length).toBeGreaterThan(0);
+        expect(result.current.nodeState.links.length).toBeGreaterThan(0);
+        expect(result.current.nodeState.nodes[0].id).toBe('SRC');
     });
 
     it('should handle packet arrival and state transitions', () => {
-        const { result } = renderHook(() => useNodeState());
-
-        act(() => {
-            result.current.initializeGraph();
-        });
+        const { result } = renderEngine();
 
-        const targetNodeId = result.current.nodes[1].id;
+        const targetNodeId = result.current.nodeState.nodes[1].id;
 
         act(() => {
-            result.current.handlePacketArrival(targetNodeId);
+            result.current.nodeState.handlePacketArrival(targetNodeId);
         });
 
-        expect(result.current.nodes[1].state).toBe(NodeState.ANALYZING);
+        expect(result.current.nodeState.nodes[1].state).toBe(NodeState.ANALYZING);
 
         act(() => {
-            vi.advanceTimersByTime(600); // ANALYZING duration
+            result.current.engine.advance(600); // ANALYZING duration
         });
 
-        expect(result.current.nodes[1].state).toBe(NodeState.ROUTING);
+        expect(result.current.nodeState.nodes[1].state).toBe(NodeState.ROUTING);
 
         act(() => {
-            vi.advanceTimersByTime(600); // ROUTING duration
+            result.current.engine.advance(600); // ROUTING duration
         });
 
-        expect(result.current.nodes[1].state).toBe(NodeState.IDLE);
+        expect(result.current.nodeState.nodes[1].state).toBe(NodeState.IDLE);
     });
 });
 
 describe('useAttackSimulation', () => {
+    const mockKernel = () => ({
+        analyze: vi.fn((situation: ThreatSituation) => Promise.resolve({ text: offlineAnalysis(situation), provider: 'offline' as const, fallbackReason: null })),
+        propose: vi.fn(() => Promise.resolve({ raw: {}, provider: 'offline' as const, fallbackReason: null })),
+        cancelAnalyses: vi.fn()
+    });
+
     it('should toggle attack state', () => {
-        const mockSetNodes = vi.fn();
-        const mockSetLinks = vi.fn();
         const mockAddLog = vi.fn();
-        const nodes = [];
-        const frequency = 50;
+        const engineLogs: string[] = [];
+
+        const { result } = renderHook(() => {
+            const engine = useSimulationEngine(42);
+            return { engine, attack: useAttackSimulation(engine, mockAddLog, mockKernel()) };
+        });
+        result.current.engine.subscribe(emissions => emissions.forEach(e => {
+            if (e.kind === 'log') engineLogs.push(`${e.source}:${e.level}:${e.message}`);
+        }));
+
+        expect(result.current.attack.attackType).toBe(AttackType.NONE);
+
+        act(() => {
+            result.current.attack.toggleAttack(AttackType.SNIFFING);
+        });
+
+        expect(result.current.attack.attackType).toBe(AttackType.SNIFFING);
+        expect(engineLogs).toContainEqual(expect.stringMatching(/^ATTACK_SIM:error:Injecting/));
+        expect(mockAddLog).toHaveBeenCalledWith('AI_KERNEL', expect.stringContaining('Detecting'), 'warning');
+
+        act(() => {
+            result.current.attack.toggleAttack(AttackType.SNIFFING);
+        });
+
+        expect(result.current.attack.attackType).toBe(AttackType.NONE);
+    });
 
-        const { result } = renderHook(() => useAttackSimulation(nodes, mockSetNodes, mockSetLinks, frequency, mockAddLog));
+    it('should ask the kernel once per attack, not on every frequency hop', () => {
+        const mockAddLog = vi.fn();
+        const kernel = mockKernel();
 
-        expect(result.current.attackType).toBe(AttackType.NONE);
+        const { result } = renderHook(() => {
+            const engine = useSimulationEngine(42);
+            return { engine, attack: useAttackSimulation(engine, mockAddLog, kernel) };
+        });
 
         act(() => {
-            result.current.toggleAttack(AttackType.SNIFFING);
+            result.current.attack.toggleAttack(AttackType.JAMMING);
+        });
+        const frequency = result.current.engine.state.frequency;
+        act(() => {
+            result.current.engine.advance(4500); // at least two hops
         });
 
-        expect(result.current.attackType).toBe(AttackType.SNIFFING);
-        expect(mockAddLog).toHaveBeenCalledWith('ATTACK_SIM', expect.stringContaining('Injecting'), 'error');
+        expect(result.current.engine.state.frequency).not.toBe(frequency);
+        const detections = mockAddLog.mock.calls.filter(([, message]) => String(message).startsWith('Detecting'));
+        expect(detections).toHaveLength(1);
+        expect(kernel.analyze.mock.calls.filter(([s]) => s.compromisedNodeCount === 0)).toHaveLength(1);
 
+        // Switching the attack cancels whatever was still being asked about the old one
         act(() => {
-            result.current.toggleAttack(AttackType.SNIFFING);
+            result.current.attack.toggleAttack(AttackType.JAMMING);
         });
+        expect(kernel.cancelAnalyses).toHaveBeenCalledTimes(3);
+    });
+});
+
+describe('computeRoute', () => {
+    const makeNode = (id: string, state: NodeState = NodeState.IDLE): GraphNode => ({
+        id, type: 'router', state, label: id
+    });
+    const makeLink = (source: string, target: string): GraphLink => ({
+        source, target, frequency: 50, active: false, isCompromised: false, isJammed: false, isFailed: false
+    });
+
+    // SRC -> N1 -> DST is short, SRC -> N2 -> N3 -> DST is the detour
+    const links = [
+        makeLink('SRC', 'N1'), makeLink('N1', 'DST'),
+        makeLink('SRC', 'N2'), makeLink('N2', 'N3'), makeLink('N3', 'DST')
+    ];
+
+    it('should find the shortest path from SRC to DST', () => {
+        const nodes = ['SRC', 'N1', 'N2', 'N3', 'DST'].map(id => makeNode(id));
+        expect(computeRoute(nodes, links, 'SRC', 'DST')).toEqual(['SRC', 'N1', 'DST']);
+    });
+
+    it('should route around compromised and locked nodes', () => {
+        const compromised = ['SRC', 'N1', 'N2', 'N3', 'DST'].map(id => makeNode(id, id === 'N1' ? NodeState.COMPROMISED : NodeState.IDLE));
+        expect(computeRoute(compromised, links, 'SRC', 'DST')).toEqual(['SRC', 'N2', 'N3', 'DST']);
+
+        const locked = ['SRC', 'N1', 'N2', 'N3', 'DST'].map(id => makeNode(id, id === 'N1' || id === 'N3' ? NodeState.LOCKED : NodeState.IDLE));
+        expect(computeRoute(locked, links, 'SRC', 'DST')).toBeNull();
+    });
+});
+
+describe('seeded simulation', () => {
+    it('should reproduce the same random sequence for the same seed', () => {
+        const a = createRng(42);
+        const b = createRng(42);
+        const seqA = Array.from({ length: 5 }, () => a.next());
+        expect(Array.from({ length: 5 }, () => b.next())).toEqual(seqA);
+
+        a.reset(42);
+        expect(Array.from({ length: 5 }, () => a.next())).toEqual(seqA);
+    });
 
-        expect(result.current.attackType).toBe(AttackType.NONE);
+    it('should generate identical topologies for the same seed', () => {
+        const first = generateTopology(DEFAULT_TOPOLOGY, createRng(7));
+        const second = generateTopology(DEFAULT_TOPOLOGY, createRng(7));
+        expect(second.links).toEqual(first.links);
     });
 });
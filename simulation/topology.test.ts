@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { generateTopology, hasPath, DEFAULT_TOPOLOGIES, TopologyKind, SOURCE_ID, DESTINATION_ID } from './topology';
+import { getId } from './graph';
+import { createRng } from './random';
+
+describe('generateTopology', () => {
+    const kinds = Object.keys(DEFAULT_TOPOLOGIES) as TopologyKind[];
+
+    it.each(kinds)('should connect SRC to DST for %s across seeds', kind => {
+        for (let seed = 1; seed <= 20; seed++) {
+            const { nodes, links } = generateTopology(DEFAULT_TOPOLOGIES[kind], createRng(seed));
+
+            expect(nodes.map(n => n.id)).toContain(SOURCE_ID);
+            expect(nodes.map(n => n.id)).toContain(DESTINATION_ID);
+            expect(hasPath(links, SOURCE_ID, DESTINATION_ID)).toBe(true);
+
+            // No self-loops, no duplicate edges, no dangling references
+            const ids = new Set(nodes.map(n => n.id));
+            const keys = links.map(l => [getId(l.source), getId(l.target)].sort().join('|'));
+            expect(new Set(keys).size).toBe(keys.length);
+            links.forEach(l => {
+                expect(getId(l.source)).not.toBe(getId(l.target));
+                expect(ids.has(getId(l.source)) && ids.has(getId(l.target))).toBe(true);
+            });
+        }
+    });
+
+    it('should repair disconnected random graphs', () => {
+        const { links } = generateTopology({ kind: 'erdos-renyi', routers: 20, linkProbability: 0 }, createRng(3));
+        expect(hasPath(links, SOURCE_ID, DESTINATION_ID)).toBe(true);
+    });
+
+    it('should honour layered widths', () => {
+        const { nodes } = generateTopology({ kind: 'layered', layerWidths: [2, 3, 2, 3], crossConnectChance: 0.5 }, createRng(1));
+        expect(nodes).toHaveLength(12);
+        expect(nodes[nodes.length - 1]).toMatchObject({ id: DESTINATION_ID, type: 'target' });
+    });
+});
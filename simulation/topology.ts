@@ -0,0 +1,329 @@
+import { GraphNode, GraphLink, NodeState } from '../types';
+import { Rng } from './random';
+import { getId, getNeighbours } from './graph';
+
+export const SOURCE_ID = 'SRC';
+export const DESTINATION_ID = 'DST';
+
+// Traffic runs from the 'source' node to the 'target' node; generated graphs use SRC and DST
+export const endpointsOf = (nodes: GraphNode[]): { source: string; target: string } => ({
+    source: nodes.find(n => n.type === 'source')?.id ?? SOURCE_ID,
+    target: nodes.find(n => n.type === 'target')?.id ?? DESTINATION_ID
+});
+
+// Named generators; a TopologyConfig may also be a CustomTopology
+export type TopologyKind = 'layered' | 'grid' | 'erdos-renyi' | 'barabasi-albert' | 'watts-strogatz' | 'ring-of-rings';
+
+export type TopologyConfig =
+    | { kind: 'layered'; layerWidths: number[]; crossConnectChance: number }
+    | { kind: 'grid'; rows: number; cols: number }
+    | { kind: 'erdos-renyi'; routers: number; linkProbability: number }
+    | { kind: 'barabasi-albert'; routers: number; attachments: number }
+    | { kind: 'watts-strogatz'; routers: number; neighbours: number; rewireProbability: number }
+    | { kind: 'ring-of-rings'; rings: number; ringSize: number }
+    | CustomTopology;
+
+// A fixed graph (imported or hand-built) rather than a generator
+export interface CustomTopology {
+    kind: 'custom';
+    name: string;
+    nodes: GraphNode[];
+    links: GraphLink[];
+}
+
+export interface Topology {
+    nodes: GraphNode[];
+    links: GraphLink[];
+}
+
+export const TOPOLOGY_LABELS: Record<TopologyKind, string> = {
+    'layered': 'LAYERED MESH',
+    'grid': 'GRID',
+    'erdos-renyi': 'ERDŐS–RÉNYI',
+    'barabasi-albert': 'BARABÁSI–ALBERT',
+    'watts-strogatz': 'WATTS–STROGATZ',
+    'ring-of-rings': 'RING OF RINGS'
+};
+
+export const DEFAULT_TOPOLOGIES: { [K in TopologyKind]: Extract<TopologyConfig, { kind: K }> } = {
+    'layered': { kind: 'layered', layerWidths: [4, 5, 4], crossConnectChance: 0.5 },
+    'grid': { kind: 'grid', rows: 3, cols: 4 },
+    'erdos-renyi': { kind: 'erdos-renyi', routers: 13, linkProbability: 0.25 },
+    'barabasi-albert': { kind: 'barabasi-albert', routers: 13, attachments: 2 },
+    'watts-strogatz': { kind: 'watts-strogatz', routers: 13, neighbours: 4, rewireProbability: 0.2 },
+    'ring-of-rings': { kind: 'ring-of-rings', rings: 3, ringSize: 4 }
+};
+
+export const DEFAULT_TOPOLOGY: TopologyConfig = DEFAULT_TOPOLOGIES['layered'];
+
+export const describeTopology = (config: TopologyConfig): string => {
+    return config.kind === 'custom' ? `CUSTOM (${config.name})` : TOPOLOGY_LABELS[config.kind];
+};
+
+// Shared builder: endpoints plus `count` routers N1..Nn, with duplicate-safe links
+const createBuilder = (count: number) => {
+    const routers: GraphNode[] = Array.from({ length: count }, (_, i) => ({
+        id: `N${i + 1}`,
+        type: 'router',
+        state: NodeState.IDLE,
+        label: `R-${i + 1}`
+    }));
+    const nodes: GraphNode[] = [
+        { id: SOURCE_ID, type: 'source', state: NodeState.IDLE, label: 'SRC' },
+        ...routers,
+        { id: DESTINATION_ID, type: 'target', state: NodeState.IDLE, label: 'DST' }
+    ];
+
+    const links: GraphLink[] = [];
+    const addLink = (u: string, v: string) => {
+        // Prevent self-loops and duplicates
+        if (u === v) return false;
+        if (links.find(l => (l.source === u && l.target === v) || (l.target === u && l.source === v))) return false;
+        links.push({
+            source: u,
+            target: v,
+            frequency: 50,
+            active: false,
+            isCompromised: false,
+            isJammed: false,
+            isFailed: false
+        });
+        return true;
+    };
+
+    return { nodes, routers, links, addLink };
+};
+
+const clampInt = (value: number, min: number, max: number) => Math.max(min, Math.min(max, Math.round(value)));
+
+// --- Generators ---
+
+// SRC, then feed-forward router layers of the given widths, then DST
+const generateLayered = (rng: Rng, { layerWidths, crossConnectChance }: Extract<TopologyConfig, { kind: 'layered' }>) => {
+    const widths = layerWidths.map(w => clampInt(w, 1, 12)).slice(0, 8);
+    const { nodes, routers, links, addLink } = createBuilder(widths.reduce((a, b) => a + b, 0));
+
+    // 1. Define Layers for topology
+    const layers: GraphNode[][] = [[nodes[0]]];
+    let offset = 0;
+    widths.forEach(w => {
+        layers.push(routers.slice(offset, offset + w));
+        offset += w;
+    });
+    layers.push([nodes[nodes.length - 1]]);
+
+    // 2. Connect Layers (Feed-forward)
+    for (let i = 0; i < layers.length - 1; i++) {
+        const currentLayer = layers[i];
+        const nextLayer = layers[i + 1];
+
+        currentLayer.forEach(u => {
+            const primaryTarget = nextLayer[Math.floor(rng.next() * nextLayer.length)];
+            addLink(u.id, primaryTarget.id);
+
+            const redundancy = 1 + Math.floor(rng.next() * 2);
+            for (let r = 0; r < redundancy; r++) {
+                const randomTarget = nextLayer[Math.floor(rng.next() * nextLayer.length)];
+                addLink(u.id, randomTarget.id);
+            }
+        });
+    }
+
+    // 3. Cross-connects within middle layers (Mesh effect)
+    for (let layerIdx = 1; layerIdx < layers.length - 1; layerIdx++) {
+        const layer = layers[layerIdx];
+        for (let i = 0; i < layer.length - 1; i++) {
+            if (rng.next() > 1 - crossConnectChance) {
+                addLink(layer[i].id, layer[i + 1].id);
+            }
+        }
+    }
+
+    return { nodes, links };
+};
+
+// rows x cols lattice; SRC feeds the first column, DST drains the last
+const generateGrid = (_rng: Rng, config: Extract<TopologyConfig, { kind: 'grid' }>) => {
+    const rows = clampInt(config.rows, 1, 10);
+    const cols = clampInt(config.cols, 1, 10);
+    const { nodes, routers, links, addLink } = createBuilder(rows * cols);
+    const at = (r: number, c: number) => routers[r * cols + c].id;
+
+    for (let r = 0; r < rows; r++) {
+        for (let c = 0; c < cols; c++) {
+            if (c + 1 < cols) addLink(at(r, c), at(r, c + 1));
+            if (r + 1 < rows) addLink(at(r, c), at(r + 1, c));
+        }
+        addLink(SOURCE_ID, at(r, 0));
+        addLink(at(r, cols - 1), DESTINATION_ID);
+    }
+
+    return { nodes, links };
+};
+
+// Every router pair linked independently with probability p
+const generateErdosRenyi = (rng: Rng, config: Extract<TopologyConfig, { kind: 'erdos-renyi' }>) => {
+    const { nodes, routers, links, addLink } = createBuilder(clampInt(config.routers, 2, 60));
+
+    for (let i = 0; i < routers.length; i++) {
+        for (let j = i + 1; j < routers.length; j++) {
+            if (rng.next() < config.linkProbability) addLink(routers[i].id, routers[j].id);
+        }
+    }
+
+    // Endpoints attach to two random routers each
+    for (let i = 0; i < 2; i++) {
+        addLink(SOURCE_ID, rng.pick(routers).id);
+        addLink(DESTINATION_ID, rng.pick(routers).id);
+    }
+
+    return { nodes, links };
+};
+
+// Preferential attachment: each new router links to `m` existing ones weighted by degree
+const generateBarabasiAlbert = (rng: Rng, config: Extract<TopologyConfig, { kind: 'barabasi-albert' }>) => {
+    const count = clampInt(config.routers, 2, 60);
+    const m = clampInt(config.attachments, 1, count - 1);
+    const { nodes, routers, links, addLink } = createBuilder(count);
+
+    // Degree-weighted pool: a router appears once per incident link
+    const pool: string[] = [];
+    const connect = (u: string, v: string) => {
+        if (addLink(u, v)) pool.push(u, v);
+    };
+
+    // Seed clique of m + 1 routers
+    for (let i = 0; i <= m; i++) {
+        for (let j = i + 1; j <= m; j++) connect(routers[i].id, routers[j].id);
+    }
+
+    for (let i = m + 1; i < count; i++) {
+        const targets = new Set<string>();
+        while (targets.size < m) {
+            targets.add(pool.length > 0 ? rng.pick(pool) : routers[rng.int(i)].id);
+        }
+        targets.forEach(t => connect(routers[i].id, t));
+    }
+
+    // Endpoints attach preferentially as well
+    for (let i = 0; i < m; i++) {
+        addLink(SOURCE_ID, rng.pick(pool.length > 0 ? pool : routers.map(r => r.id)));
+        addLink(DESTINATION_ID, rng.pick(pool.length > 0 ? pool : routers.map(r => r.id)));
+    }
+
+    return { nodes, links };
+};
+
+// Ring lattice with k nearest neighbours, each edge rewired with probability beta
+const generateWattsStrogatz = (rng: Rng, config: Extract<TopologyConfig, { kind: 'watts-strogatz' }>) => {
+    const count = clampInt(config.routers, 3, 60);
+    const half = clampInt(config.neighbours / 2, 1, Math.floor((count - 1) / 2));
+    const { nodes, routers, links, addLink } = createBuilder(count);
+
+    for (let i = 0; i < count; i++) {
+        for (let j = 1; j <= half; j++) {
+            const u = routers[i].id;
+            let v = routers[(i + j) % count].id;
+            if (rng.next() < config.rewireProbability) {
+                const candidate = rng.pick(routers).id;
+                if (candidate !== u && !getNeighbours(links, u).includes(candidate)) v = candidate;
+            }
+            addLink(u, v);
+        }
+    }
+
+    // Endpoints sit on opposite sides of the ring
+    addLink(SOURCE_ID, routers[0].id);
+    addLink(SOURCE_ID, routers[1].id);
+    addLink(DESTINATION_ID, routers[Math.floor(count / 2)].id);
+    addLink(DESTINATION_ID, routers[(Math.floor(count / 2) + 1) % count].id);
+
+    return { nodes, links };
+};
+
+// Small rings whose gateway routers form an outer ring
+const generateRingOfRings = (_rng: Rng, config: Extract<TopologyConfig, { kind: 'ring-of-rings' }>) => {
+    const rings = clampInt(config.rings, 2, 8);
+    const ringSize = clampInt(config.ringSize, 2, 8);
+    const { nodes, routers, links, addLink } = createBuilder(rings * ringSize);
+    const at = (ring: number, i: number) => routers[ring * ringSize + (i % ringSize)].id;
+
+    for (let ring = 0; ring < rings; ring++) {
+        for (let i = 0; i < ringSize; i++) addLink(at(ring, i), at(ring, i + 1));
+        addLink(at(ring, 0), at((ring + 1) % rings, 0));
+    }
+
+    addLink(SOURCE_ID, at(0, Math.floor(ringSize / 2)));
+    addLink(DESTINATION_ID, at(Math.floor(rings / 2), Math.floor(ringSize / 2)));
+
+    return { nodes, links };
+};
+
+// --- Connectivity ---
+
+const componentOf = (links: GraphLink[], startId: string): Set<string> => {
+    const seen = new Set<string>([startId]);
+    const queue = [startId];
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        getNeighbours(links, id).forEach(n => {
+            if (!seen.has(n)) {
+                seen.add(n);
+                queue.push(n);
+            }
+        });
+    }
+    return seen;
+};
+
+export const hasPath = (links: GraphLink[], fromId: string, toId: string): boolean => {
+    return componentOf(links, fromId).has(toId);
+};
+
+// Bridge every component into the one holding SRC, so SRC always reaches DST
+const ensureConnectivity = (rng: Rng, { nodes, links }: Topology): Topology => {
+    const result = [...links];
+    let main = componentOf(result, SOURCE_ID);
+
+    nodes.forEach(node => {
+        if (main.has(node.id)) return;
+        const component = [...componentOf(result, node.id)];
+        const routersInMain = nodes.filter(n => main.has(n.id) && n.type === 'router');
+        const anchor = routersInMain.length > 0 ? rng.pick(routersInMain).id : SOURCE_ID;
+        const member = component.find(id => id !== DESTINATION_ID) ?? component[0];
+
+        result.push({ source: anchor, target: member, frequency: 50, active: false, isCompromised: false, isJammed: false, isFailed: false });
+        main = componentOf(result, SOURCE_ID);
+    });
+
+    return { nodes, links: result };
+};
+
+/**
+ * Build a topology from a named, parameterized generator. Every generated
+ * result is checked and repaired so that DST is reachable from SRC.
+ */
+export const generateTopology = (config: TopologyConfig, rng: Rng): Topology => {
+    let topology: Topology;
+    switch (config.kind) {
+        case 'layered': topology = generateLayered(rng, config); break;
+        case 'grid': topology = generateGrid(rng, config); break;
+        case 'erdos-renyi': topology = generateErdosRenyi(rng, config); break;
+        case 'barabasi-albert': topology = generateBarabasiAlbert(rng, config); break;
+        case 'watts-strogatz': topology = generateWattsStrogatz(rng, config); break;
+        case 'ring-of-rings': topology = generateRingOfRings(rng, config); break;
+        case 'custom':
+            // Custom graphs are validated on import and used exactly as given
+            return {
+                nodes: config.nodes.map(n => ({ id: n.id, type: n.type, label: n.label, state: NodeState.IDLE })),
+                links: config.links.map(l => ({ ...l, source: getId(l.source), target: getId(l.target), active: false, isCompromised: false, isJammed: false, isFailed: false }))
+            };
+    }
+
+    const connected = ensureConnectivity(rng, topology);
+    if (!hasPath(connected.links, SOURCE_ID, DESTINATION_ID)) {
+        throw new Error(`Topology "${config.kind}" could not connect ${SOURCE_ID} to ${DESTINATION_ID}`);
+    }
+    return connected;
+};
+
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+    exportTopology, parseTopology, parseDot, parseGraphML, parseTopologyJson,
+    detectTopologyFormat, TopologyFormat, TopologyImportError
+} from './topologyIO';
+import { generateTopology, DEFAULT_TOPOLOGY } from './topology';
+import { createSimulationState, step } from './engine';
+import { DEFAULT_HOPPING } from './hopping';
+import { getId } from './graph';
+import { createRng } from './random';
+
+const issuesOf = (fn: () => unknown): string[] => {
+    try {
+        fn();
+    } catch (e) {
+        if (e instanceof TopologyImportError) return e.issues;
+        throw e;
+    }
+    throw new Error('Expected a TopologyImportError');
+};
+
+describe('topology import/export', () => {
+    const { nodes, links } = generateTopology(DEFAULT_TOPOLOGY, createRng(5));
+    links[0].frequency = 123;
+    nodes[1].label = 'Edge "A" & <B>';
+
+    it.each(['json', 'graphml', 'dot'] as TopologyFormat[])('should round-trip %s', format => {
+        const parsed = parseTopology(format, exportTopology(format, nodes, links), 'roundtrip');
+
+        expect(parsed.kind).toBe('custom');
+        expect(parsed.nodes.map(n => [n.id, n.type, n.label])).toEqual(nodes.map(n => [n.id, n.type, n.label]));
+        expect(parsed.links.map(l => [getId(l.source), getId(l.target), l.frequency]))
+            .toEqual(links.map(l => [getId(l.source), getId(l.target), l.frequency]));
+    });
+
+    it('should report unknown references, duplicate edges and missing endpoints', () => {
+        const issues = issuesOf(() => parseTopologyJson(JSON.stringify({
+            schema: 'lt-graph-topology',
+            version: 1,
+            nodes: [{ id: 'SRC' }, { id: 'N1' }],
+            links: [{ source: 'SRC', target: 'N1' }, { source: 'N1', target: 'SRC' }, { source: 'N1', target: 'N9' }, { source: 'N1' }]
+        })));
+
+        expect(issues).toContain('Missing target node "DST"');
+        expect(issues).toContain('Duplicate edge between "N1" and "SRC"');
+        expect(issues).toContain('Link #3 (N1 - N9) references unknown node "N9"');
+        expect(issues).toContain('Link #4 is missing its target');
+    });
+
+    it('should reject unknown schema versions', () => {
+        expect(issuesOf(() => parseTopologyJson('{"schema":"lt-graph-topology","version":7,"nodes":[],"links":[]}')))
+            .toEqual(['Unsupported schema version 7 (expected 1)']);
+    });
+
+    it('should accept DOT written by other tools', () => {
+        const parsed = parseDot(`
+            // hand-written
+            graph lab {
+                node [shape=circle];
+                SRC -- A -- B -- DST;
+                A -- DST [frequency=99]
+                B [label="Core"];
+            }
+        `);
+
+        expect(parsed.nodes.map(n => n.id)).toEqual(['SRC', 'A', 'B', 'DST']);
+        expect(parsed.nodes.find(n => n.id === 'B')?.label).toBe('Core');
+        expect(parsed.nodes.find(n => n.id === 'DST')?.type).toBe('target');
+        expect(parsed.links).toHaveLength(4);
+        expect(parsed.links[3].frequency).toBe(99);
+    });
+
+    it('should keep imported frequencies as static channels until hopping starts', () => {
+        const topology = parseDot('graph { SRC -- A [frequency=91]; A -- DST [frequency=97]; }');
+        const parked = createSimulationState(3, { topology, hopping: { enabled: false } });
+        expect(parked.links.map(l => l.frequency)).toEqual([91, 97]);
+
+        const hopping = step(parked, 0, [{ type: 'SET_HOPPING', hopping: { enabled: true } }]).state;
+        hopping.links.forEach(l => expect(DEFAULT_HOPPING.channels).toContain(l.frequency));
+        expect(step(hopping, 0, [{ type: 'SET_HOPPING', hopping: { enabled: false } }]).state.links.map(l => l.frequency)).toEqual([91, 97]);
+    });
+
+    it('should resolve GraphML data keys by attribute name', () => {
+        const parsed = parseGraphML(`<?xml version="1.0"?>
+            <graphml>
+              <key id="d0" for="node" attr.name="label" attr.type="string"/>
+              <graph edgedefault="undirected">
+                <node id="SRC"/><node id="R"><data key="d0">Relay</data></node><node id="DST"/>
+                <edge source="SRC" target="R"/><edge source="R" target="DST"/>
+              </graph>
+            </graphml>`);
+
+        expect(parsed.nodes[1]).toMatchObject({ id: 'R', label: 'Relay', type: 'router' });
+    });
+
+    it('should detect formats from file names and content', () => {
+        expect(detectTopologyFormat('net.gv', '')).toBe('dot');
+        expect(detectTopologyFormat('net.txt', '<graphml/>')).toBe('graphml');
+        expect(detectTopologyFormat('net', ' {"schema":1}')).toBe('json');
+    });
+});
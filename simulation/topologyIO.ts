@@ -0,0 +1,455 @@
+import { GraphNode, GraphLink, NodeState } from '../types';
+import { getId } from './graph';
+import { CustomTopology, SOURCE_ID, DESTINATION_ID, hasPath } from './topology';
+
+export type TopologyFormat = 'json' | 'graphml' | 'dot';
+
+export const TOPOLOGY_SCHEMA = 'lt-graph-topology';
+export const TOPOLOGY_SCHEMA_VERSION = 1;
+
+const NODE_TYPES: GraphNode['type'][] = ['source', 'target', 'router'];
+const DEFAULT_FREQUENCY = 50;
+
+export class TopologyImportError extends Error {
+    constructor(public readonly format: TopologyFormat, public readonly issues: string[]) {
+        super(`Invalid ${format.toUpperCase()} topology: ${issues.join('; ')}`);
+        this.name = 'TopologyImportError';
+    }
+}
+
+// Loosely-typed records as they come out of a parser, before validation
+interface RawNode {
+    id?: string;
+    type?: string;
+    label?: string;
+}
+
+interface RawLink {
+    source?: string;
+    target?: string;
+    frequency?: string | number;
+}
+
+const inferType = (id: string): GraphNode['type'] => {
+    if (id === SOURCE_ID) return 'source';
+    if (id === DESTINATION_ID) return 'target';
+    return 'router';
+};
+
+/**
+ * Validate parsed records and turn them into a CustomTopology. Every problem is
+ * collected so the user sees them all at once.
+ */
+const buildTopology = (format: TopologyFormat, name: string, rawNodes: RawNode[], rawLinks: RawLink[]): CustomTopology => {
+    const issues: string[] = [];
+    const nodes: GraphNode[] = [];
+    const ids = new Set<string>();
+
+    rawNodes.forEach((raw, i) => {
+        const id = raw.id?.trim();
+        if (!id) {
+            issues.push(`Node #${i + 1} has no id`);
+            return;
+        }
+        if (ids.has(id)) {
+            issues.push(`Duplicate node id "${id}"`);
+            return;
+        }
+        const type = (raw.type ?? inferType(id)) as GraphNode['type'];
+        if (!NODE_TYPES.includes(type)) {
+            issues.push(`Node "${id}" has unknown type "${raw.type}"`);
+            return;
+        }
+        ids.add(id);
+        nodes.push({ id, type, label: raw.label?.trim() || id, state: NodeState.IDLE });
+    });
+
+    // Exactly one node of each endpoint type; traffic runs between them
+    const sources = nodes.filter(n => n.type === 'source');
+    const targets = nodes.filter(n => n.type === 'target');
+    if (sources.length === 0) issues.push(`Missing source node "${SOURCE_ID}"`);
+    if (targets.length === 0) issues.push(`Missing target node "${DESTINATION_ID}"`);
+    if (sources.length > 1) issues.push(`More than one source node: ${sources.map(n => `"${n.id}"`).join(', ')}`);
+    if (targets.length > 1) issues.push(`More than one target node: ${targets.map(n => `"${n.id}"`).join(', ')}`);
+
+    const links: GraphLink[] = [];
+    const edges = new Set<string>();
+
+    rawLinks.forEach((raw, i) => {
+        const source = raw.source?.trim();
+        const target = raw.target?.trim();
+        const linkName = `Link #${i + 1}${source && target ? ` (${source} - ${target})` : ''}`;
+
+        if (!source || !target) {
+            issues.push(`${linkName} is missing its ${!source ? 'source' : 'target'}`);
+            return;
+        }
+        const unknown = [source, target].filter(id => !ids.has(id));
+        if (unknown.length > 0) {
+            issues.push(`${linkName} references unknown node ${unknown.map(id => `"${id}"`).join(' and ')}`);
+            return;
+        }
+        if (source === target) {
+            issues.push(`${linkName} is a self-loop`);
+            return;
+        }
+        const key = [source, target].sort().join('\u0000');
+        if (edges.has(key)) {
+            issues.push(`Duplicate edge between "${source}" and "${target}"`);
+            return;
+        }
+
+        const frequency = raw.frequency === undefined || raw.frequency === '' ? DEFAULT_FREQUENCY : Number(raw.frequency);
+        if (!Number.isFinite(frequency)) {
+            issues.push(`${linkName} has an invalid frequency "${raw.frequency}"`);
+            return;
+        }
+
+        edges.add(key);
+        links.push({ source, target, frequency, active: false, isCompromised: false, isJammed: false, isFailed: false });
+    });
+
+    if (issues.length === 0 && !hasPath(links, sources[0].id, targets[0].id)) {
+        issues.push(`"${targets[0].id}" is not reachable from "${sources[0].id}"`);
+    }
+
+    if (issues.length > 0) throw new TopologyImportError(format, issues);
+    return { kind: 'custom', name, nodes, links };
+};
+
+/**
+ * What is wrong with a custom topology carried inside a scenario or recording.
+ * The engine uses those graphs as given, so the fields must already have the
+ * right types before the same checks as an import run over them.
+ */
+export const customTopologyIssues = (nodes: unknown[], links: unknown[]): string[] => {
+    const issues: string[] = [];
+    const rawNodes = nodes.filter((n, i): n is RawNode & { id: string; type: string; label: string } => {
+        const valid = isObject(n) && typeof n.id === 'string' && typeof n.type === 'string' && typeof n.label === 'string';
+        if (!valid) issues.push(`Node #${i + 1} needs a string "id", "type" and "label"`);
+        return valid;
+    });
+    const rawLinks = links.filter((l, i): l is RawLink & { source: string; target: string; frequency: number } => {
+        const valid = isObject(l) && typeof l.source === 'string' && typeof l.target === 'string' && typeof l.frequency === 'number';
+        if (!valid) issues.push(`Link #${i + 1} needs "source" and "target" ids and a numeric "frequency"`);
+        return valid;
+    });
+    if (issues.length > 0) return issues;
+
+    try {
+        buildTopology('json', 'custom', rawNodes, rawLinks);
+    } catch (e) {
+        if (e instanceof TopologyImportError) return e.issues;
+        throw e;
+    }
+    return [];
+};
+
+// --- JSON ---
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isArray = (v: unknown): v is unknown[] => Array.isArray(v);
+
+export const exportTopologyJson = (nodes: GraphNode[], links: GraphLink[]): string => {
+    return JSON.stringify({
+        schema: TOPOLOGY_SCHEMA,
+        version: TOPOLOGY_SCHEMA_VERSION,
+        nodes: nodes.map(n => ({ id: n.id, type: n.type, label: n.label })),
+        links: links.map(l => ({ source: getId(l.source), target: getId(l.target), frequency: l.frequency }))
+    }, null, 2);
+};
+
+export const parseTopologyJson = (text: string, name = 'import'): CustomTopology => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (e) {
+        throw new TopologyImportError('json', [`Not valid JSON: ${(e as Error).message}`]);
+    }
+
+    if (!isObject(data) || data.schema !== TOPOLOGY_SCHEMA) {
+        throw new TopologyImportError('json', [`Expected "schema": "${TOPOLOGY_SCHEMA}"`]);
+    }
+    if (data.version !== TOPOLOGY_SCHEMA_VERSION) {
+        throw new TopologyImportError('json', [`Unsupported schema version ${data.version} (expected ${TOPOLOGY_SCHEMA_VERSION})`]);
+    }
+    const { nodes, links } = data;
+    if (!isArray(nodes) || !isArray(links)) {
+        throw new TopologyImportError('json', ['"nodes" and "links" must be arrays']);
+    }
+
+    const str = (v: unknown) => (v === undefined || v === null ? undefined : String(v));
+    const fields = (entry: unknown): Record<string, unknown> => (isObject(entry) ? entry : {});
+    return buildTopology('json', name,
+        nodes.map(fields).map(n => ({ id: str(n.id), type: str(n.type), label: str(n.label) })),
+        links.map(fields).map(l => ({ source: str(l.source), target: str(l.target), frequency: typeof l.frequency === 'number' ? l.frequency : str(l.frequency) }))
+    );
+};
+
+// --- GraphML ---
+
+const escapeXml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export const exportGraphML = (nodes: GraphNode[], links: GraphLink[]): string => {
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+        '  <key id="type" for="node" attr.name="type" attr.type="string"/>',
+        '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+        '  <key id="frequency" for="edge" attr.name="frequency" attr.type="double"/>',
+        '  <graph id="lt-graph" edgedefault="undirected">',
+        ...nodes.map(n =>
+            `    <node id="${escapeXml(n.id)}"><data key="type">${escapeXml(n.type)}</data><data key="label">${escapeXml(n.label)}</data></node>`
+        ),
+        ...links.map(l =>
+            `    <edge source="${escapeXml(getId(l.source))}" target="${escapeXml(getId(l.target))}"><data key="frequency">${l.frequency}</data></edge>`
+        ),
+        '  </graph>',
+        '</graphml>'
+    ];
+    return lines.join('\n');
+};
+
+export const parseGraphML = (text: string, name = 'import'): CustomTopology => {
+    if (typeof DOMParser === 'undefined') {
+        throw new TopologyImportError('graphml', ['GraphML import needs a DOM (DOMParser is unavailable)']);
+    }
+
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new TopologyImportError('graphml', ['Not well-formed XML']);
+    }
+    const graph = doc.getElementsByTagName('graph')[0];
+    if (!graph) {
+        throw new TopologyImportError('graphml', ['No <graph> element found']);
+    }
+
+    // Other tools use generated key ids (d0, d1...); resolve them via attr.name
+    const keyNames = new Map<string, string>();
+    Array.from(doc.getElementsByTagName('key')).forEach(key => {
+        keyNames.set(key.getAttribute('id') ?? '', key.getAttribute('attr.name') ?? key.getAttribute('id') ?? '');
+    });
+    const readData = (el: Element) => {
+        const data: Record<string, string> = {};
+        Array.from(el.getElementsByTagName('data')).forEach(d => {
+            const key = d.getAttribute('key') ?? '';
+            data[keyNames.get(key) ?? key] = d.textContent ?? '';
+        });
+        return data;
+    };
+
+    const rawNodes: RawNode[] = Array.from(graph.getElementsByTagName('node')).map(el => {
+        const data = readData(el);
+        return { id: el.getAttribute('id') ?? undefined, type: data.type, label: data.label };
+    });
+    const rawLinks: RawLink[] = Array.from(graph.getElementsByTagName('edge')).map(el => ({
+        source: el.getAttribute('source') ?? undefined,
+        target: el.getAttribute('target') ?? undefined,
+        frequency: readData(el).frequency
+    }));
+
+    return buildTopology('graphml', name, rawNodes, rawLinks);
+};
+
+// --- Graphviz DOT ---
+
+const quoteDot = (value: string | number) => `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+export const exportDot = (nodes: GraphNode[], links: GraphLink[]): string => {
+    const lines = [
+        'graph "lt-graph" {',
+        ...nodes.map(n => `  ${quoteDot(n.id)} [type=${quoteDot(n.type)}, label=${quoteDot(n.label)}];`),
+        ...links.map(l => `  ${quoteDot(getId(l.source))} -- ${quoteDot(getId(l.target))} [frequency=${l.frequency}];`),
+        '}'
+    ];
+    return lines.join('\n');
+};
+
+type DotToken = { kind: 'id' | 'punct'; value: string };
+
+const tokenizeDot = (text: string): DotToken[] => {
+    const tokens: DotToken[] = [];
+    let i = 0;
+    while (i < text.length) {
+        const ch = text[i];
+        if (/\s/.test(ch)) { i++; continue; }
+        if (text.startsWith('//', i) || (ch === '#' && (i === 0 || text[i - 1] === '\n'))) {
+            while (i < text.length && text[i] !== '\n') i++;
+            continue;
+        }
+        if (text.startsWith('/*', i)) {
+            const end = text.indexOf('*/', i + 2);
+            i = end === -1 ? text.length : end + 2;
+            continue;
+        }
+        if (text.startsWith('--', i) || text.startsWith('->', i)) {
+            tokens.push({ kind: 'punct', value: text.slice(i, i + 2) });
+            i += 2;
+            continue;
+        }
+        if ('{}[];,='.includes(ch)) {
+            tokens.push({ kind: 'punct', value: ch });
+            i++;
+            continue;
+        }
+        if (ch === '"') {
+            let value = '';
+            i++;
+            while (i < text.length && text[i] !== '"') {
+                if (text[i] === '\\' && i + 1 < text.length) i++;
+                value += text[i++];
+            }
+            if (i >= text.length) throw new TopologyImportError('dot', ['Unterminated string']);
+            i++;
+            tokens.push({ kind: 'id', value });
+            continue;
+        }
+        const match = /^[A-Za-z0-9_.\u0080-\uffff-]+/.exec(text.slice(i));
+        if (!match) {
+            throw new TopologyImportError('dot', [`Unexpected character "${ch}"`]);
+        }
+        // A bare id never swallows an edge operator
+        const value = match[0].split(/--|->/)[0];
+        tokens.push({ kind: 'id', value });
+        i += value.length;
+    }
+    return tokens;
+};
+
+/**
+ * Parse the DOT subset LT-Graph writes plus what common tools emit: node and
+ * edge statements, edge chains, attribute lists and comments. Nodes that only
+ * appear in edges are declared implicitly, as in Graphviz.
+ */
+export const parseDot = (text: string, name = 'import'): CustomTopology => {
+    const tokens = tokenizeDot(text);
+    let pos = 0;
+    const peek = () => tokens[pos];
+    const next = () => tokens[pos++];
+    const expect = (value: string) => {
+        const token = next();
+        if (!token || token.value !== value) {
+            throw new TopologyImportError('dot', [`Expected "${value}" but found ${token ? `"${token.value}"` : 'end of input'}`]);
+        }
+    };
+
+    const readAttrs = (): Record<string, string> => {
+        const attrs: Record<string, string> = {};
+        while (peek()?.value === '[') {
+            next();
+            while (peek() && peek().value !== ']') {
+                const key = next();
+                if (key.kind !== 'id') throw new TopologyImportError('dot', [`Unexpected "${key.value}" in attribute list`]);
+                expect('=');
+                const value = next();
+                if (!value || value.kind !== 'id') throw new TopologyImportError('dot', [`Missing value for attribute "${key.value}"`]);
+                attrs[key.value] = value.value;
+                if (peek()?.value === ',' || peek()?.value === ';') next();
+            }
+            expect(']');
+        }
+        return attrs;
+    };
+
+    if (peek()?.value === 'strict') next();
+    const header = next();
+    if (!header || (header.value !== 'graph' && header.value !== 'digraph')) {
+        throw new TopologyImportError('dot', ['Expected "graph" or "digraph"']);
+    }
+    if (peek()?.kind === 'id') next();
+    expect('{');
+
+    const nodeOrder: string[] = [];
+    const nodeAttrs = new Map<string, Record<string, string>>();
+    const declare = (id: string, attrs: Record<string, string> = {}) => {
+        if (!nodeAttrs.has(id)) {
+            nodeOrder.push(id);
+            nodeAttrs.set(id, {});
+        }
+        Object.assign(nodeAttrs.get(id)!, attrs);
+    };
+    const rawLinks: RawLink[] = [];
+
+    while (peek() && peek().value !== '}') {
+        const token = next();
+        if (token.value === ';') continue;
+        if (token.value === '{' || token.value === 'subgraph') {
+            throw new TopologyImportError('dot', ['Subgraphs are not supported']);
+        }
+        if (token.kind !== 'id') throw new TopologyImportError('dot', [`Unexpected "${token.value}"`]);
+
+        // Default attribute statements (graph/node/edge [...]) are ignored
+        if (['graph', 'node', 'edge'].includes(token.value) && peek()?.value === '[') {
+            readAttrs();
+            continue;
+        }
+        // Graph attribute assignment (id = id)
+        if (peek()?.value === '=') {
+            next();
+            next();
+            continue;
+        }
+
+        const chain = [token.value];
+        while (peek()?.value === '--' || peek()?.value === '->') {
+            next();
+            const target = next();
+            if (!target || target.kind !== 'id') throw new TopologyImportError('dot', [`Edge from "${chain[chain.length - 1]}" has no target`]);
+            chain.push(target.value);
+        }
+        const attrs = readAttrs();
+
+        if (chain.length === 1) {
+            declare(chain[0], attrs);
+        } else {
+            chain.forEach(id => declare(id));
+            for (let i = 0; i < chain.length - 1; i++) {
+                rawLinks.push({ source: chain[i], target: chain[i + 1], frequency: attrs.frequency });
+            }
+        }
+    }
+    expect('}');
+
+    const rawNodes: RawNode[] = nodeOrder.map(id => ({ id, type: nodeAttrs.get(id)!.type, label: nodeAttrs.get(id)!.label }));
+    return buildTopology('dot', name, rawNodes, rawLinks);
+};
+
+// --- Format dispatch ---
+
+export const detectTopologyFormat = (fileName: string, text: string): TopologyFormat => {
+    const lower = fileName.toLowerCase();
+    if (lower.endsWith('.json')) return 'json';
+    if (lower.endsWith('.graphml') || lower.endsWith('.xml')) return 'graphml';
+    if (lower.endsWith('.dot') || lower.endsWith('.gv')) return 'dot';
+
+    const trimmed = text.trimStart();
+    if (trimmed.startsWith('{')) return 'json';
+    if (trimmed.startsWith('<')) return 'graphml';
+    return 'dot';
+};
+
+export const parseTopology = (format: TopologyFormat, text: string, name?: string): CustomTopology => {
+    switch (format) {
+        case 'json': return parseTopologyJson(text, name);
+        case 'graphml': return parseGraphML(text, name);
+        case 'dot': return parseDot(text, name);
+    }
+};
+
+export const exportTopology = (format: TopologyFormat, nodes: GraphNode[], links: GraphLink[]): string => {
+    switch (format) {
+        case 'json': return exportTopologyJson(nodes, links);
+        case 'graphml': return exportGraphML(nodes, links);
+        case 'dot': return exportDot(nodes, links);
+    }
+};
+
+export const TOPOLOGY_FILE_EXTENSIONS: Record<TopologyFormat, string> = {
+    json: 'json',
+    graphml: 'graphml',
+    dot: 'dot'
+};
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { AttackType } from '../types';
+import { DEFAULT_TRANSPORT, PendingSegment, pendingOutcome } from './transport';
+import { runHeadless } from './headless';
+
+const segment = (attempt: number): PendingSegment => ({ seq: 1, packetId: 'P1', attempt, firstSentAt: 0, sentAt: 1000 });
+
+describe('transport', () => {
+    it('should resend overdue segments until the retries run out', () => {
+        const config = { ...DEFAULT_TRANSPORT, timeoutMs: 500, maxRetries: 2 };
+
+        expect(pendingOutcome(segment(0), 1499, config)).toBe('waiting');
+        expect(pendingOutcome(segment(0), 1500, config)).toBe('retransmit');
+        expect(pendingOutcome(segment(2), 1500, config)).toBe('give-up');
+        expect(pendingOutcome(segment(0), 1500, { ...config, retransmit: false })).toBe('give-up');
+    });
+
+    it('should acknowledge delivered data with the same sequence number', () => {
+        const trace = runHeadless({ seed: 2, durationSeconds: 30 });
+        const delivered = new Set<number>();
+        const acked: number[] = [];
+        trace.packets.forEach(p => {
+            if (p.kind === 'packetDelivered' && p.packetKind === 'data') delivered.add(p.seq);
+            if (p.kind === 'packetAcked') acked.push(p.seq);
+        });
+
+        expect(acked.length).toBeGreaterThan(0);
+        acked.forEach(seq => expect(delivered.has(seq)).toBe(true));
+    });
+
+    it('should send no ACKs and keep nothing pending when acknowledgements are off', () => {
+        const trace = runHeadless({ seed: 2, durationSeconds: 30, transport: { acks: false } });
+
+        expect(trace.packets.some(p => p.kind === 'packetSpawned' && p.packetKind === 'ack')).toBe(false);
+        expect(trace.summary.packetsAcked).toBe(0);
+        expect(trace.summary.retransmissions).toBe(0);
+    });
+
+    it('should discard packets whose TTL runs out', () => {
+        const trace = runHeadless({ seed: 2, durationSeconds: 20, transport: { ttl: 2, acks: false } });
+
+        expect(trace.summary.packetsDelivered).toBe(0);
+        expect(trace.metrics.dropsByCause.ttl).toBe(trace.summary.packetsDropped);
+    });
+
+    it('should retransmit lost segments at most maxRetries times', () => {
+        const trace = runHeadless({
+            seed: 3,
+            durationSeconds: 60,
+            attackType: AttackType.JAMMING,
+            hopping: { enabled: false },
+            transport: { timeoutMs: 8000, maxRetries: 2 }
+        });
+        const transmissions = new Map<number, number>();
+        trace.packets.forEach(p => {
+            if (p.kind === 'packetSpawned' && p.packetKind === 'data') transmissions.set(p.seq, (transmissions.get(p.seq) ?? 0) + 1);
+        });
+
+        expect(trace.summary.retransmissions).toBeGreaterThan(0);
+        expect(trace.summary.packetsLost).toBeGreaterThan(0);
+        expect(Math.max(...transmissions.values())).toBe(3);
+        trace.packets.forEach(p => {
+            if (p.kind === 'packetLost') expect(transmissions.get(p.seq)).toBe(p.attempts);
+        });
+    });
+
+    it('should let compromised routers intercept traffic', () => {
+        const trace = runHeadless({ seed: 5, durationSeconds: 90, attackType: AttackType.HIJACKING, mitigation: { enabled: false } });
+
+        expect(trace.metrics.dropsByCause.intercepted).toBeGreaterThan(0);
+    });
+});
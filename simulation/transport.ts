@@ -0,0 +1,56 @@
+import { Packet } from '../types';
+
+// End-to-end delivery rules shared by SRC and DST
+export interface TransportConfig {
+    ttl: number; // hops a packet may take before it is discarded
+    acks: boolean; // DST acknowledges every data packet
+    retransmit: boolean; // SRC resends unacknowledged data (needs acks)
+    timeoutMs: number; // wait for an ACK before resending
+    maxRetries: number; // resends before a segment is given up
+}
+
+export const DEFAULT_TRANSPORT: TransportConfig = {
+    ttl: 8,
+    acks: true,
+    retransmit: true,
+    timeoutMs: 12000,
+    maxRetries: 2
+};
+
+export type PacketDropReason = 'dead-end' | 'jammed' | 'intercepted' | 'tampered' | 'ttl' | 'quarantined' | 'link-down' | 'node-down';
+
+// A data segment SRC has sent and not yet seen acknowledged
+export interface PendingSegment {
+    seq: number;
+    packetId: string; // latest transmission
+    attempt: number; // 0 for the original transmission
+    firstSentAt: number;
+    sentAt: number;
+}
+
+// Where a packet was when it was lost, kept briefly so the graph can mark the spot
+export interface LostPacket {
+    packetId: string;
+    kind: Packet['kind'];
+    attempt: number;
+    reason: PacketDropReason;
+    from: string;
+    to: string;
+    progress: number;
+    time: number;
+}
+
+export const LOST_MARKER_MS = 1500;
+
+export type PendingOutcome = 'waiting' | 'retransmit' | 'give-up';
+
+export const pendingOutcome = (segment: PendingSegment, time: number, config: TransportConfig): PendingOutcome => {
+    if (time < segment.sentAt + config.timeoutMs) return 'waiting';
+    return config.retransmit && segment.attempt < config.maxRetries ? 'retransmit' : 'give-up';
+};
+
+export const describeTransport = (config: TransportConfig): string => {
+    if (!config.acks) return `TTL ${config.ttl}, unacknowledged`;
+    if (!config.retransmit) return `TTL ${config.ttl}, ACKs only`;
+    return `TTL ${config.ttl}, RTO ${(config.timeoutMs / 1000).toFixed(1)}s x${config.maxRetries}`;
+};
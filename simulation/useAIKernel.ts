@@ -0,0 +1,51 @@
+import { useState, useMemo, useCallback } from 'react';
+import { LogEntry } from '../types';
+import { AIKernelSettings, AIProviderId, OpenAICompatibleConfig, ThreatSituation, TopologyRequest, DEFAULT_AI_SETTINGS } from '../services/aiKernel';
+import { createAIKernel } from '../services/aiProviders';
+import { createAIScheduler, DEFAULT_AI_SCHEDULER } from '../services/aiScheduler';
+
+type AddLog = (source: LogEntry['source'], message: string, type: LogEntry['type']) => void;
+
+// Which backend writes the AI_KERNEL log lines, switchable while the simulation runs, behind one request scheduler
+export const useAIKernel = (addLog: AddLog) => {
+    const [aiSettings, setAISettings] = useState<AIKernelSettings>(DEFAULT_AI_SETTINGS);
+    const [scheduler] = useState(() => createAIScheduler());
+    const [, setAIBudgetLimit] = useState(DEFAULT_AI_SCHEDULER.budgetPerMinute); // only re-renders the panel
+    const aiProvider = useMemo(() => createAIKernel(aiSettings), [aiSettings]);
+
+    const selectAIProvider = useCallback((provider: AIProviderId) => {
+        setAISettings(prev => ({ ...prev, provider }));
+        const selected = createAIKernel({ ...aiSettings, provider });
+        const reason = selected.unavailableReason();
+        addLog('SYSTEM', `AI kernel switched to ${selected.label}${reason ? ` (${reason}; offline analysis until fixed)` : ''}.`, reason ? 'warning' : 'info');
+    }, [aiSettings, addLog]);
+
+    const setOpenAIConfig = useCallback((config: Partial<OpenAICompatibleConfig>) => {
+        setAISettings(prev => ({ ...prev, openai: { ...prev.openai, ...config } }));
+    }, []);
+
+    const setAIBudget = useCallback((budgetPerMinute: number) => {
+        scheduler.configure({ budgetPerMinute });
+        setAIBudgetLimit(budgetPerMinute);
+    }, [scheduler]);
+
+    // What the attack and optimiser hooks ask through, bound to the selected provider
+    const aiKernel = useMemo(() => ({
+        analyze: (situation: ThreatSituation) => scheduler.request(aiProvider, situation),
+        propose: (request: TopologyRequest) => scheduler.propose(aiProvider, request),
+        // A new attack makes pending analyses stale, but not an optimisation the operator asked for
+        cancelAnalyses: scheduler.cancelAnalyses
+    }), [scheduler, aiProvider]);
+
+    return {
+        aiSettings,
+        aiProvider,
+        aiKernel,
+        aiBudget: scheduler.status(), // re-read on every render, which the running clock keeps frequent
+        selectAIProvider,
+        setOpenAIConfig,
+        setAIBudget
+    };
+};
+
+export type AIKernelClient = ReturnType<typeof useAIKernel>['aiKernel'];
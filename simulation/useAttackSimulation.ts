@@ -1,48 +1,61 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { GraphNode, GraphLink, AttackType, NodeState, LogEntry } from '../types';
-import { generateSystemAnalysis } from '../services/geminiService';
+import { useEffect, useCallback, useRef } from 'react';
+import { AttackType, NodeState, LogEntry } from '../types';
+import { KernelAnalysis } from '../services/aiProviders';
+import { isCancelled } from '../services/aiScheduler';
+import { AIKernelClient } from './useAIKernel';
+import { SimulationEngine } from './useSimulationEngine';
+import { JammerConfig } from './jamming';
 
 export const useAttackSimulation = (
-    nodes: GraphNode[],
-    setNodes: React.Dispatch<React.SetStateAction<GraphNode[]>>,
-    setLinks: React.Dispatch<React.SetStateAction<GraphLink[]>>,
-    frequency: number,
-    addLog: (source: LogEntry['source'], message: string, type: LogEntry['type']) => void
+    { state, dispatch }: SimulationEngine,
+    addLog: (source: LogEntry['source'], message: string, type: LogEntry['type']) => void,
+    aiKernel: AIKernelClient
 ) => {
-    const [attackType, setAttackType] = useState<AttackType>(AttackType.NONE);
-    const [mitigationStrength, setMitigationStrength] = useState(0);
+    const { nodes, attackType, frequency, mitigationStrength, jammers, jammerConfigs } = state;
 
     const toggleAttack = useCallback((type: AttackType) => {
-        if (attackType === type) {
-            setAttackType(AttackType.NONE);
-            addLog('ATTACK_SIM', `Stopped ${type} simulation.`, 'info');
-        } else {
-            setAttackType(type);
-            addLog('ATTACK_SIM', `Injecting ${type} vector...`, 'error');
+        dispatch({ type: 'TOGGLE_ATTACK', attackType: type });
+    }, [dispatch]);
+
+    const setJammers = useCallback((configs: JammerConfig[]) => {
+        dispatch({ type: 'SET_JAMMERS', jammers: configs });
+    }, [dispatch]);
+
+    // Switching provider applies to the next analysis rather than triggering one,
+    // and the analysis reads nodes and frequency without re-running on every hop
+    const kernelRef = useRef(aiKernel);
+    kernelRef.current = aiKernel;
+    const latest = useRef({ nodes, frequency });
+    latest.current = { nodes, frequency };
+
+    // Say once when the selected provider is skipped, not on every analysis
+    const lastFallback = useRef<string | null>(null);
+    const logAnalysis = useCallback((analysis: KernelAnalysis, type: LogEntry['type']) => {
+        if (analysis.fallbackReason && analysis.fallbackReason !== lastFallback.current) {
+            addLog('SYSTEM', `AI provider unavailable (${analysis.fallbackReason}); using offline analysis.`, 'warning');
         }
-    }, [attackType, addLog]);
+        lastFallback.current = analysis.fallbackReason;
+        addLog('AI_KERNEL', analysis.text, type);
+    }, [addLog]);
 
-    // AI Analysis & Mitigation Adaptation
+    // AI Analysis on attack changes (mitigation itself adapts inside the engine)
     useEffect(() => {
+        // Anything still being asked about the previous attack is stale now
+        kernelRef.current.cancelAnalyses();
         if (attackType !== AttackType.NONE) {
+            const { nodes, frequency } = latest.current;
             const compromisedCount = nodes.filter(n => n.state === NodeState.COMPROMISED).length;
             addLog('AI_KERNEL', `Detecting ${attackType} signature. Initiating adaptive mitigation...`, 'warning');
 
-            setMitigationStrength(0.2);
-            const adaptationInterval = setInterval(() => {
-                setMitigationStrength(prev => Math.min(prev + 0.15, 0.95));
-            }, 2000);
-
-            generateSystemAnalysis(attackType, nodes.length, compromisedCount, frequency)
-                .then(analysis => addLog('AI_KERNEL', analysis, 'success'))
-                .catch(() => addLog('SYSTEM', 'AI Intelligence unavailable.', 'error'));
-
-            return () => clearInterval(adaptationInterval);
+            kernelRef.current.analyze({ attackType, activeNodeCount: nodes.length, compromisedNodeCount: compromisedCount, frequency })
+                .then(analysis => logAnalysis(analysis, 'success'))
+                .catch(error => {
+                    if (!isCancelled(error)) addLog('SYSTEM', 'AI Intelligence unavailable.', 'error');
+                });
         } else {
             addLog('SYSTEM', 'Threat levels nominal. Monitoring traffic.', 'info');
-            setMitigationStrength(0);
         }
-    }, [attackType, frequency, addLog]);
+    }, [attackType, addLog, logAnalysis]);
 
     const prevCompromisedCount = useRef<number>(0);
 
@@ -51,51 +64,20 @@ export const useAttackSimulation = (
         const currentCompromisedCount = nodes.filter(n => n.state === NodeState.COMPROMISED).length;
 
         if (currentCompromisedCount > prevCompromisedCount.current && attackType !== AttackType.NONE) {
-            generateSystemAnalysis(attackType, nodes.length, currentCompromisedCount, frequency)
-                .then(analysis => addLog('AI_KERNEL', analysis, 'warning'))
+            kernelRef.current.analyze({ attackType, activeNodeCount: nodes.length, compromisedNodeCount: currentCompromisedCount, frequency: latest.current.frequency })
+                .then(analysis => logAnalysis(analysis, 'warning'))
                 .catch(() => { });
         }
 
         prevCompromisedCount.current = currentCompromisedCount;
-    }, [nodes, attackType, frequency, addLog]);
-
-    // Attack Simulation Loop
-    useEffect(() => {
-        if (attackType === AttackType.NONE) {
-            setNodes(ns => ns.map(n => ({ ...n, state: n.state === NodeState.COMPROMISED ? NodeState.IDLE : n.state })));
-            setLinks(ls => ls.map(l => ({ ...l, isCompromised: false })));
-            return;
-        }
-
-        const interval = setInterval(() => {
-            setNodes(currentNodes => {
-                const newNodes = [...currentNodes];
-                const attackCount = attackType === AttackType.HIJACKING ? 2 : 1;
-
-                for (let i = 0; i < attackCount; i++) {
-                    const victimIdx = Math.floor(Math.random() * newNodes.length);
-                    const victim = newNodes[victimIdx];
-
-                    if (victim.id !== 'SRC' && victim.id !== 'DST' && victim.state !== NodeState.LOCKED && victim.state !== NodeState.COMPROMISED) {
-                        newNodes[victimIdx] = { ...victim, state: NodeState.COMPROMISED };
-                    }
-                }
-                return newNodes;
-            });
-
-            setLinks(currentLinks => currentLinks.map(l => {
-                if (Math.random() > 0.9) return { ...l, isCompromised: true };
-                return l;
-            }));
-
-        }, 2000);
-
-        return () => clearInterval(interval);
-    }, [attackType, setNodes, setLinks]);
+    }, [nodes, attackType, logAnalysis]);
 
     return {
         attackType,
         mitigationStrength,
-        toggleAttack
+        jammers,
+        jammerConfigs,
+        toggleAttack,
+        setJammers
     };
 };
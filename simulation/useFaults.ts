@@ -0,0 +1,42 @@
+import { useCallback } from 'react';
+import { SimulationEngine } from './useSimulationEngine';
+import { FaultConfig, FailureProfile, Fault } from './faults';
+
+// Fault injection from the UI; manual cuts and kills heal after a sampled MTTR like random ones
+export const useFaults = ({ state, dispatch }: SimulationEngine) => {
+    const { faults, activeFaults } = state;
+
+    const setFaults = useCallback((update: Partial<FaultConfig>) => dispatch({ type: 'SET_FAULTS', faults: update }), [dispatch]);
+    const cutLink = useCallback((source: string, target: string) => dispatch({ type: 'FAIL_LINK', source, target, selfHeal: true }), [dispatch]);
+    const restoreLink = useCallback((source: string, target: string) => dispatch({ type: 'RESTORE_LINK', source, target }), [dispatch]);
+    const killNode = useCallback((nodeId: string) => dispatch({ type: 'FAIL_NODE', nodeId, selfHeal: true }), [dispatch]);
+    const repairNode = useCallback((nodeId: string) => dispatch({ type: 'REPAIR_NODE', nodeId }), [dispatch]);
+    // Link faults are keyed by link id, i.e. both ends joined with '~'
+    const repairFault = useCallback((fault: Fault) => {
+        if (fault.kind === 'node') repairNode(fault.elementId);
+        else {
+            const [source, target] = fault.elementId.split('~');
+            restoreLink(source, target);
+        }
+    }, [repairNode, restoreLink]);
+    const regionalOutage = useCallback((center?: string) => dispatch({ type: 'REGIONAL_OUTAGE', center }), [dispatch]);
+
+    // null goes back to the default profile for that kind of element
+    const setOverride = useCallback((elementId: string, profile: FailureProfile | null) => {
+        const { [elementId]: _previous, ...rest } = faults.overrides;
+        setFaults({ overrides: profile ? { ...rest, [elementId]: profile } : rest });
+    }, [faults.overrides, setFaults]);
+
+    return {
+        faults,
+        activeFaults,
+        setFaults,
+        cutLink,
+        restoreLink,
+        killNode,
+        repairNode,
+        repairFault,
+        regionalOutage,
+        setOverride
+    };
+};
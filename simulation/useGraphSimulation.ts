@@ -1,52 +1,149 @@
 import { useState, useEffect, useCallback } from 'react';
 import { LogEntry } from '../types';
-import { FREQUENCY_HOP_INTERVAL_MS } from '../constants';
+import { MAX_LOG_ENTRIES } from '../constants';
+import { useSimulationEngine } from './useSimulationEngine';
 import { useNodeState } from './useNodeState';
 import { usePacketSystem } from './usePacketSystem';
 import { useAttackSimulation } from './useAttackSimulation';
+import { useQuarantine } from './useQuarantine';
+import { useMetrics } from './useMetrics';
+import { usePayloadCipher } from './usePayloadCipher';
+import { useKeyManagement } from './useKeyManagement';
+import { useScenario } from './useScenario';
+import { useSimulationClock } from './useSimulationClock';
+import { useRecording } from './useRecording';
+import { useNodeInspector } from './useNodeInspector';
+import { useTopologyEditor } from './useTopologyEditor';
+import { useTopologyOptimizer } from './useTopologyOptimizer';
+import { useFaults } from './useFaults';
+import { useAIKernel } from './useAIKernel';
+import { DEFAULT_SEED } from './random';
+import { TopologyConfig } from './topology';
 
-export const useGraphSimulation = () => {
+export const useGraphSimulation = (initialSeed: number = DEFAULT_SEED) => {
     const [logs, setLogs] = useState<LogEntry[]>([]);
 
     const addLog = useCallback((source: LogEntry['source'], message: string, type: LogEntry['type']) => {
         setLogs(prev => {
             const newLog: LogEntry = { id: Date.now().toString() + Math.random(), timestamp: new Date(), source, message, type };
-            return [...prev.slice(-49), newLog];
+            return [...prev.slice(-(MAX_LOG_ENTRIES - 1)), newLog];
         });
     }, []);
 
-    const {
-        nodes, setNodes, links, setLinks, frequency,
-        initializeGraph, handlePacketArrival, updateFrequency
-    } = useNodeState();
+    const engine = useSimulationEngine(initialSeed);
+    const { subscribe } = engine;
 
-    const {
-        attackType, mitigationStrength, toggleAttack
-    } = useAttackSimulation(nodes, setNodes, setLinks, frequency, addLog);
+    const { nodes, links, frequency, topology, hopping, attacker, initializeGraph, setHopping } = useNodeState(engine);
+    const { aiSettings, aiProvider, aiKernel, aiBudget, selectAIProvider, setOpenAIConfig, setAIBudget } = useAIKernel(addLog);
+    const { attackType, jammers, jammerConfigs, toggleAttack, setJammers } = useAttackSimulation(engine, addLog, aiKernel);
+    const { packets, lostPackets, pending, transport, setTransport } = usePacketSystem(engine);
+    const { quarantines, connectivity, lockNode, unlockNode } = useQuarantine(engine);
+    const { metrics } = useMetrics(engine);
+    const { cipher, cipherReport, keyExchangeReport, setEncryption, leakSessionKey, rotateSessionKey } = usePayloadCipher(engine, addLog);
+    const { keying, linkKeys, leakedKeys, exposedKeys, setKeying } = useKeyManagement(engine);
+    const { scenario, scenarioReport, scenarioPending, loadScenario } = useScenario(engine, addLog);
+    const { selectedNodeId, inspection, selectNode, compromiseNode, restoreNode, isolateNode, reconnectNode, removeNode } = useNodeInspector(engine);
+    const topologyEditor = useTopologyEditor(engine);
+    const topologyOptimizer = useTopologyOptimizer(engine, aiKernel, topologyEditor, addLog);
+    const { faults, activeFaults, setFaults, cutLink, restoreLink, killNode, repairNode, repairFault, regionalOutage } = useFaults(engine);
+    const { recording, replaying, advanceClock, seek, stepBack, loadRecording } = useRecording(engine, addLog);
+    const { clock, togglePaused, setSpeed, stepTick } = useSimulationClock(advanceClock);
 
-    const { packets } = usePacketSystem(nodes, links, handlePacketArrival);
+    // Forward engine log emissions to the kernel log
+    useEffect(() => subscribe(emissions => {
+        emissions.forEach(e => {
+            if (e.kind === 'log') addLog(e.source, e.message, e.level);
+        });
+    }), [subscribe, addLog]);
 
     // Initialize
     useEffect(() => {
-        initializeGraph();
         addLog('SYSTEM', 'Graph topology initialized. Lamarr-Turing Kernel active.', 'info');
-    }, [initializeGraph, addLog]);
+    }, [addLog]);
 
-    // Frequency Hopping Loop
-    useEffect(() => {
-        const interval = setInterval(() => {
-            updateFrequency(mitigationStrength, attackType);
-        }, FREQUENCY_HOP_INTERVAL_MS);
-        return () => clearInterval(interval);
-    }, [updateFrequency, mitigationStrength, attackType]);
+    // Restart the run from a new seed: same seed => same topology, traffic and attacks
+    const setSeed = useCallback((newSeed: number) => initializeGraph(newSeed), [initializeGraph]);
+
+    // Regenerate the network with another generator, keeping the current seed
+    const seed = engine.state.seed;
+    const setTopology = useCallback((config: TopologyConfig) => initializeGraph(seed, config), [initializeGraph, seed]);
 
     return {
         nodes,
         links,
         packets,
+        lostPackets,
+        pending,
+        transport,
+        setTransport,
         logs,
         attackType,
         frequency,
-        toggleAttack
+        seed,
+        setSeed,
+        topology,
+        setTopology,
+        hopping,
+        setHopping,
+        attacker,
+        jammers,
+        jammerConfigs,
+        setJammers,
+        toggleAttack,
+        aiSettings,
+        aiProvider,
+        aiBudget,
+        selectAIProvider,
+        setOpenAIConfig,
+        setAIBudget,
+        quarantines,
+        connectivity,
+        lockNode,
+        unlockNode,
+        metrics,
+        cipher,
+        cipherReport,
+        setEncryption,
+        leakSessionKey,
+        rotateSessionKey,
+        keying,
+        linkKeys,
+        leakedKeys,
+        exposedKeys,
+        keyExchangeReport,
+        setKeying,
+        time: engine.state.time,
+        clock,
+        togglePaused,
+        setSpeed,
+        stepTick,
+        recording,
+        replaying,
+        seek,
+        stepBack,
+        loadRecording,
+        selectedNodeId,
+        inspection,
+        selectNode,
+        compromiseNode,
+        restoreNode,
+        isolateNode,
+        reconnectNode,
+        removeNode,
+        topologyEditor,
+        topologyOptimizer,
+        faults,
+        activeFaults,
+        setFaults,
+        cutLink,
+        restoreLink,
+        killNode,
+        repairNode,
+        repairFault,
+        regionalOutage,
+        scenario,
+        scenarioReport,
+        scenarioPending,
+        loadScenario
     };
-};
\ No newline at end of file
+};
@@ -0,0 +1,19 @@
+import { useCallback } from 'react';
+import { SimulationEngine } from './useSimulationEngine';
+import { KeyingConfig, liveLeaks } from './keying';
+
+export const useKeyManagement = ({ state, dispatch }: SimulationEngine) => {
+    const { keying, linkKeys, leakedKeys } = state;
+
+    const setKeying = useCallback((update: Partial<KeyingConfig>) => {
+        dispatch({ type: 'SET_KEYING', keying: update });
+    }, [dispatch]);
+
+    return {
+        keying,
+        linkKeys,
+        leakedKeys,
+        exposedKeys: liveLeaks(linkKeys, leakedKeys),
+        setKeying
+    };
+};
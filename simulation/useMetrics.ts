@@ -0,0 +1,28 @@
+import { useState, useEffect, useRef } from 'react';
+import { SimulationEngine } from './useSimulationEngine';
+import { NetworkMetrics, createMetricsCollector } from './metrics';
+
+// Simulated ms between dashboard refreshes; recording itself happens every step
+const PUBLISH_INTERVAL_MS = 500;
+
+export const useMetrics = ({ state, subscribe }: SimulationEngine) => {
+    const collectorRef = useRef(createMetricsCollector());
+    const [metrics, setMetrics] = useState<NetworkMetrics>(() => collectorRef.current.snapshot());
+    const initialStateRef = useRef(state);
+
+    useEffect(() => {
+        const collector = collectorRef.current;
+        collector.record(initialStateRef.current, []);
+        let publishedAt = -Infinity;
+
+        return subscribe((emissions, current) => {
+            collector.record(current, emissions);
+            if (current.time < publishedAt || current.time - publishedAt >= PUBLISH_INTERVAL_MS) {
+                publishedAt = current.time;
+                setMetrics(collector.snapshot());
+            }
+        });
+    }, [subscribe]);
+
+    return { metrics };
+};
@@ -0,0 +1,36 @@
+import { useState, useCallback } from 'react';
+import { SimulationEngine } from './useSimulationEngine';
+import { inspectNode } from './inspector';
+
+// Click-to-select node inspection plus the operator actions an instructor uses to stage situations
+export const useNodeInspector = ({ state, dispatch }: SimulationEngine) => {
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+
+    // Clicking the selected node again closes the inspector
+    const selectNode = useCallback((nodeId: string | null) => {
+        setSelectedId(prev => (prev === nodeId ? null : nodeId));
+    }, []);
+
+    const compromiseNode = useCallback((nodeId: string) => dispatch({ type: 'COMPROMISE_NODE', nodeId }), [dispatch]);
+    const restoreNode = useCallback((nodeId: string) => dispatch({ type: 'RESTORE_NODE', nodeId }), [dispatch]);
+    const isolateNode = useCallback((nodeId: string) => dispatch({ type: 'ISOLATE_NODE', nodeId }), [dispatch]);
+    const reconnectNode = useCallback((nodeId: string) => dispatch({ type: 'RECONNECT_NODE', nodeId }), [dispatch]);
+    const removeNode = useCallback((nodeId: string) => {
+        dispatch({ type: 'REMOVE_NODE', nodeId });
+        setSelectedId(null);
+    }, [dispatch]);
+
+    // A node that no longer exists (removed, or a reset) simply deselects
+    const inspection = selectedId ? inspectNode(state, selectedId) : null;
+
+    return {
+        selectedNodeId: inspection ? selectedId : null,
+        inspection,
+        selectNode,
+        compromiseNode,
+        restoreNode,
+        isolateNode,
+        reconnectNode,
+        removeNode
+    };
+};
@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from 'react';
+import { LogEntry } from '../types';
+import { SimulationEngine } from './useSimulationEngine';
+import { CipherReport, CipherLogEntry, createPayloadCipher } from './payloadCipher';
+import { KeyExchangeReport, createKeyExchange } from './keyExchange';
+
+type AddLog = (source: LogEntry['source'], message: string, type: LogEntry['type']) => void;
+
+// Real ECDH and AES-GCM run beside the engine; the panels refresh whenever queued work catches up
+export const usePayloadCipher = ({ state, dispatch, subscribe }: SimulationEngine, addLog: AddLog) => {
+    const [report, setReport] = useState<CipherReport | null>(null);
+    const [keyReport, setKeyReport] = useState<KeyExchangeReport | null>(null);
+
+    useEffect(() => {
+        const onLog = (entry: CipherLogEntry) => addLog(entry.source, entry.message, entry.level);
+        const keyExchange = createKeyExchange(onLog);
+        const cipher = createPayloadCipher(onLog, keyExchange.linkKey);
+        let active = true;
+        let refreshing = false;
+
+        const unsubscribe = subscribe((emissions, current) => {
+            // Handshakes first, so captures on this step find their link keys
+            keyExchange.observe(emissions, current);
+            cipher.observe(emissions, current);
+            if (refreshing) return;
+            refreshing = true;
+            Promise.all([keyExchange.settled(), cipher.settled()]).then(() => {
+                if (!active) return;
+                setReport(cipher.report());
+                setKeyReport(keyExchange.report());
+            }).catch(() => {
+                // Both queues log their own failures; the next step refreshes again
+            }).finally(() => {
+                refreshing = false;
+            });
+        });
+
+        return () => {
+            active = false;
+            unsubscribe();
+        };
+    }, [subscribe, addLog]);
+
+    const setEncryption = useCallback((enabled: boolean) => {
+        dispatch({ type: 'SET_ENCRYPTION', enabled });
+    }, [dispatch]);
+
+    const leakSessionKey = useCallback(() => {
+        dispatch({ type: 'LEAK_SESSION_KEY' });
+    }, [dispatch]);
+
+    const rotateSessionKey = useCallback(() => {
+        dispatch({ type: 'ROTATE_SESSION_KEY' });
+    }, [dispatch]);
+
+    return {
+        cipher: state.cipher,
+        cipherReport: report,
+        keyExchangeReport: keyReport,
+        setEncryption,
+        leakSessionKey,
+        rotateSessionKey
+    };
+};
@@ -0,0 +1,23 @@
+import { useCallback } from 'react';
+import { SimulationEngine } from './useSimulationEngine';
+import { QuarantineRelease, connectivityCost } from './quarantine';
+import { isLinkDown } from './graph';
+
+export const useQuarantine = ({ state, dispatch }: SimulationEngine) => {
+    const { nodes, links, quarantines } = state;
+
+    const lockNode = useCallback((nodeId: string, release: QuarantineRelease) => {
+        dispatch({ type: 'LOCK_NODE', nodeId, release });
+    }, [dispatch]);
+
+    const unlockNode = useCallback((nodeId: string) => {
+        dispatch({ type: 'UNLOCK_NODE', nodeId });
+    }, [dispatch]);
+
+    return {
+        quarantines,
+        connectivity: connectivityCost(nodes, links.filter(l => !isLinkDown(l, nodes))),
+        lockNode,
+        unlockNode
+    };
+};
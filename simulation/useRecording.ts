@@ -0,0 +1,142 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { LogEntry } from '../types';
+import { SIMULATION_TICK_MS } from '../constants';
+import { SimulationEngine } from './useSimulationEngine';
+import { SimulationState } from './engine';
+import { Recording, createRecorder } from './recording';
+
+type AddLog = (source: LogEntry['source'], message: string, type: LogEntry['type']) => void;
+
+// Simulated ms between timeline refreshes while recording
+const PUBLISH_INTERVAL_MS = 500;
+
+interface Replay {
+    applied: number; // recorded events already in the engine state
+    carry: number; // ms short of the next whole tick
+}
+
+/**
+ * Records the live run and plays it back from any moment. Seeking loads a replayed
+ * snapshot into the engine; from there recorded events are re-dispatched at their
+ * tick until the replay catches up and recording carries on. Acting during a replay
+ * branches off: the rest of the recording is dropped.
+ */
+export const useRecording = ({ state, advance, dispatch, subscribe, load }: SimulationEngine, addLog: AddLog) => {
+    const recorderRef = useRef<ReturnType<typeof createRecorder> | null>(null);
+    if (recorderRef.current === null) recorderRef.current = createRecorder(state);
+    const [recording, setRecording] = useState<Recording>(() => recorderRef.current!.recording());
+    const [replaying, setReplaying] = useState(false);
+
+    const currentRef = useRef<SimulationState>(state);
+    const replayRef = useRef<Replay | null>(null);
+    const replayStepRef = useRef(false); // the engine is stepping on the replay's behalf
+
+    const publish = useCallback(() => setRecording({ ...recorderRef.current!.recording() }), []);
+
+    const finishReplay = useCallback((branched: boolean) => {
+        replayRef.current = null;
+        setReplaying(false);
+        publish();
+        if (branched) addLog('SYSTEM', `Replay branched off at T+${(currentRef.current.time / 1000).toFixed(2)}s; later recording discarded.`, 'warning');
+    }, [publish, addLog]);
+
+    useEffect(() => {
+        let publishedAt = -Infinity;
+
+        return subscribe((emissions, current, events) => {
+            currentRef.current = current;
+            const recorder = recorderRef.current!;
+            const replay = replayRef.current;
+            if (replayStepRef.current) return;
+
+            if (replay) {
+                if (events.length === 0) return; // only the replay moves time while it runs
+                // The operator acted mid-replay: keep what led here and record onwards
+                recorder.truncate({ state: current, applied: replay.applied });
+                finishReplay(true);
+            }
+
+            recorder.record(emissions, current, events);
+            if (events.length > 0 || current.time < publishedAt || current.time - publishedAt >= PUBLISH_INTERVAL_MS) {
+                publishedAt = current.time;
+                publish();
+            }
+        });
+    }, [subscribe, publish, finishReplay]);
+
+    const replayStep = useCallback((run: () => void) => {
+        replayStepRef.current = true;
+        try {
+            run();
+        } finally {
+            replayStepRef.current = false;
+        }
+    }, []);
+
+    // What the clock drives: live time, or the recording re-applied tick by tick
+    const advanceClock = useCallback((dt: number) => {
+        const replay = replayRef.current;
+        if (!replay) {
+            advance(dt);
+            return;
+        }
+
+        const recorder = recorderRef.current!;
+        const { events, duration } = recorder.recording();
+        replay.carry += dt;
+        let ticks = Math.floor(replay.carry / SIMULATION_TICK_MS);
+        replay.carry -= ticks * SIMULATION_TICK_MS;
+        // Stop at the end of the recording; what follows is recorded live again
+        ticks = Math.min(ticks, (duration - currentRef.current.time) / SIMULATION_TICK_MS);
+
+        replayStep(() => {
+            while (true) {
+                const next = events[replay.applied];
+                const time = currentRef.current.time;
+                if (!next || next.at > time + ticks * SIMULATION_TICK_MS) break;
+                const upTo = (next.at - time) / SIMULATION_TICK_MS;
+                if (upTo > 0) advance(upTo * SIMULATION_TICK_MS);
+                dispatch(next.event);
+                replay.applied++;
+                ticks -= upTo;
+            }
+            if (ticks > 0) advance(ticks * SIMULATION_TICK_MS);
+        });
+
+        if (currentRef.current.time >= duration) {
+            // Caught up: anything from here on is new
+            recorder.truncate({ state: currentRef.current, applied: replay.applied });
+            finishReplay(false);
+            addLog('SYSTEM', 'Replay caught up with the recording; recording live.', 'info');
+        }
+    }, [advance, dispatch, replayStep, finishReplay, addLog]);
+
+    const seek = useCallback((time: number) => {
+        const recorder = recorderRef.current!;
+        const point = recorder.seek(time);
+        const live = point.state.time >= recorder.recording().duration;
+        replayRef.current = live ? null : { applied: point.applied, carry: 0 };
+        setReplaying(!live);
+        replayStep(() => load(point.state));
+        if (live) recorder.truncate(point);
+        publish();
+    }, [load, replayStep, publish]);
+
+    const stepBack = useCallback(() => seek(currentRef.current.time - SIMULATION_TICK_MS), [seek]);
+
+    // Takes `next` only once its start rebuilds; otherwise the run already here stays and the error goes to the caller
+    const loadRecording = useCallback((next: Recording) => {
+        const recorder = recorderRef.current!;
+        const previous = recorder.recording();
+        recorder.load(next);
+        try {
+            seek(0);
+        } catch (error) {
+            recorder.load(previous);
+            throw error;
+        }
+        addLog('SYSTEM', `Recording loaded: ${(next.duration / 1000).toFixed(1)}s, ${next.events.length} event(s), seed ${next.seed}.`, 'info');
+    }, [seek, addLog]);
+
+    return { recording, replaying, advanceClock, seek, stepBack, loadRecording };
+};
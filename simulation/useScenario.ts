@@ -0,0 +1,65 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { LogEntry } from '../types';
+import { SimulationEngine } from './useSimulationEngine';
+import { createMetricsCollector } from './metrics';
+import { Scenario, ScenarioReport, scenarioEvents, evaluateScenario, scenarioLogLines } from './scenario';
+
+type AddLog = (source: LogEntry['source'], message: string, type: LogEntry['type']) => void;
+
+interface ActiveScenario {
+    scenario: Scenario;
+    started: boolean; // its own RESET has been applied
+    lastTime: number;
+    done: boolean;
+}
+
+// Plays a scenario through the same events the headless runner applies, and checks it at the end
+export const useScenario = ({ state, dispatch, subscribe }: SimulationEngine, addLog: AddLog) => {
+    const [scenario, setScenario] = useState<Scenario | null>(null);
+    const [report, setReport] = useState<ScenarioReport | null>(null);
+    const activeRef = useRef<ActiveScenario | null>(null);
+
+    useEffect(() => {
+        const collector = createMetricsCollector();
+
+        return subscribe((emissions, current) => {
+            const active = activeRef.current;
+            if (!active) return;
+
+            if (!active.started) {
+                active.started = true;
+                collector.reset();
+            } else if (current.time < active.lastTime) {
+                // Any other reset abandons the run
+                activeRef.current = null;
+                setScenario(null);
+                addLog('SYSTEM', `Scenario "${active.scenario.name}" abandoned.`, 'warning');
+                return;
+            }
+            active.lastTime = current.time;
+            collector.record(current, emissions);
+
+            if (!active.done && current.time >= active.scenario.durationSeconds * 1000) {
+                active.done = true;
+                const result = evaluateScenario(active.scenario, collector.snapshot(), current);
+                setReport(result);
+                scenarioLogLines(result).forEach(line => addLog('SYSTEM', line.message, line.level));
+            }
+        });
+    }, [subscribe, addLog]);
+
+    const loadScenario = useCallback((next: Scenario) => {
+        activeRef.current = { scenario: next, started: false, lastTime: 0, done: false };
+        setScenario(next);
+        setReport(null);
+        scenarioEvents(next).forEach(dispatch);
+        addLog('SYSTEM', `Scenario "${next.name}" loaded: ${next.timeline.length} step(s) over ${next.durationSeconds}s.`, 'info');
+    }, [dispatch, addLog]);
+
+    return {
+        scenario,
+        scenarioReport: report,
+        scenarioPending: scenario ? state.schedule.length : 0,
+        loadScenario
+    };
+};
@@ -0,0 +1,34 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { ClockState, DEFAULT_CLOCK, STEP_MS, clampSpeed, frameAdvance } from './clock';
+
+// The one place wall time enters the simulation: animation frames are scaled by the
+// clock speed and handed to `advance` (the engine's, or a replay in front of it)
+export const useSimulationClock = (advance: (dt: number) => void) => {
+    const [clock, setClock] = useState<ClockState>(DEFAULT_CLOCK);
+    const clockRef = useRef(clock);
+    clockRef.current = clock;
+
+    useEffect(() => {
+        let frame = 0;
+        let last = performance.now();
+        const loop = (now: number) => {
+            const dt = frameAdvance(clockRef.current, now - last);
+            if (dt > 0) advance(dt);
+            last = now;
+            frame = requestAnimationFrame(loop);
+        };
+        frame = requestAnimationFrame(loop);
+        return () => cancelAnimationFrame(frame);
+    }, [advance]);
+
+    const setPaused = useCallback((paused: boolean) => setClock(prev => ({ ...prev, paused })), []);
+    const togglePaused = useCallback(() => setClock(prev => ({ ...prev, paused: !prev.paused })), []);
+    const setSpeed = useCallback((speed: number) => setClock(prev => ({ ...prev, speed: clampSpeed(speed) })), []);
+
+    // Advance exactly one engine tick; only meaningful while paused
+    const stepTick = useCallback(() => {
+        if (clockRef.current.paused) advance(STEP_MS);
+    }, [advance]);
+
+    return { clock, setPaused, togglePaused, setSpeed, stepTick };
+};
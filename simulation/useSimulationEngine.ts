@@ -0,0 +1,48 @@
+import { useState, useRef, useCallback, useMemo } from 'react';
+import { SimulationState, SimulationEvent, SimulationEmission, createSimulationState, step } from './engine';
+import { DEFAULT_SEED } from './random';
+
+// Called after every step, even one without emissions; `events` are the ones that step applied
+export type EmissionListener = (emissions: SimulationEmission[], state: SimulationState, events: SimulationEvent[]) => void;
+
+export interface SimulationEngine {
+    state: SimulationState;
+    advance: (dt: number) => void;
+    dispatch: (event: SimulationEvent) => void;
+    subscribe: (listener: EmissionListener) => () => void;
+    load: (state: SimulationState) => void; // jump to a snapshot, e.g. when seeking a recording
+}
+
+// Holds the engine state and republishes every step as a React snapshot
+export const useSimulationEngine = (initialSeed: number = DEFAULT_SEED): SimulationEngine => {
+    const stateRef = useRef<SimulationState | null>(null);
+    if (stateRef.current === null) {
+        stateRef.current = createSimulationState(initialSeed);
+    }
+
+    const [state, setState] = useState<SimulationState>(stateRef.current);
+    const listenersRef = useRef(new Set<EmissionListener>());
+
+    const run = useCallback((dt: number, events: SimulationEvent[]) => {
+        const result = step(stateRef.current!, dt, events);
+        stateRef.current = result.state;
+        setState(result.state);
+        listenersRef.current.forEach(listener => listener(result.emissions, result.state, events));
+    }, []);
+
+    const load = useCallback((next: SimulationState) => {
+        stateRef.current = next;
+        setState(next);
+        listenersRef.current.forEach(listener => listener([], next, []));
+    }, []);
+
+    const advance = useCallback((dt: number) => run(dt, []), [run]);
+    const dispatch = useCallback((event: SimulationEvent) => run(0, [event]), [run]);
+
+    const subscribe = useCallback((listener: EmissionListener) => {
+        listenersRef.current.add(listener);
+        return () => { listenersRef.current.delete(listener); };
+    }, []);
+
+    return useMemo(() => ({ state, advance, dispatch, subscribe, load }), [state, advance, dispatch, subscribe, load]);
+};
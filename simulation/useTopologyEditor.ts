@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { GraphNode } from '../types';
+import { SimulationEngine } from './useSimulationEngine';
+import { GraphEdit, checkGraphEdit, invertGraphEdit, nextRouterId, describeGraphEdit } from './graphEdits';
+
+// Each entry is one operator action, a single edit or a whole applied proposal, kept as the edits that undo it
+export interface EditHistory {
+    undo: GraphEdit[][]; // most recent last
+    redo: GraphEdit[][];
+}
+
+const EMPTY_HISTORY: EditHistory = { undo: [], redo: [] };
+
+/**
+ * Live topology editing with undo/redo. Every edit goes to the engine as an
+ * EDIT_GRAPH event, so packets and logs carry on, recordings replay it, and
+ * the stacks hold the inverse edits rather than whole graphs.
+ */
+export const useTopologyEditor = ({ state, dispatch, subscribe }: SimulationEngine) => {
+    const [editing, setEditing] = useState(false);
+    const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+    const stateRef = useRef(state);
+
+    // Edits can land several per frame, so check them against the newest state
+    useEffect(() => subscribe((_emissions, next, events) => {
+        const rewound = next.time < stateRef.current.time || events.some(e => e.type === 'RESET');
+        stateRef.current = next;
+        // A reset or seek puts back a graph the stacks know nothing about
+        if (rewound) setHistory(EMPTY_HISTORY);
+    }), [subscribe]);
+
+    // Invalid edits still go to the engine, which logs why they were rejected. Dispatch is
+    // synchronous, so each inverse is worked out against the graph just before its edit.
+    const perform = useCallback((edits: GraphEdit[]): GraphEdit[] => {
+        const inverses: GraphEdit[] = [];
+        edits.forEach(edit => {
+            const { nodes, links } = stateRef.current;
+            if (!checkGraphEdit(nodes, links, edit)) inverses.unshift(invertGraphEdit(nodes, links, edit));
+            dispatch({ type: 'EDIT_GRAPH', edit });
+        });
+        return inverses;
+    }, [dispatch]);
+
+    // Several edits as one undo step
+    const applyEdits = useCallback((edits: GraphEdit[]) => {
+        const inverses = perform(edits);
+        if (inverses.length > 0) setHistory(h => ({ undo: [...h.undo, inverses], redo: [] }));
+    }, [perform]);
+
+    const applyEdit = useCallback((edit: GraphEdit) => applyEdits([edit]), [applyEdits]);
+
+    const undo = useCallback(() => {
+        const edits = history.undo[history.undo.length - 1];
+        if (!edits) return;
+        const inverses = perform(edits);
+        setHistory(h => ({ undo: h.undo.slice(0, -1), redo: inverses.length > 0 ? [...h.redo, inverses] : h.redo }));
+    }, [history, perform]);
+
+    const redo = useCallback(() => {
+        const edits = history.redo[history.redo.length - 1];
+        if (!edits) return;
+        const inverses = perform(edits);
+        setHistory(h => ({ undo: inverses.length > 0 ? [...h.undo, inverses] : h.undo, redo: h.redo.slice(0, -1) }));
+    }, [history, perform]);
+
+    const addRouter = useCallback((peers: string[] = []) => {
+        const { nodeId, label } = nextRouterId(stateRef.current.nodes);
+        applyEdit({ kind: 'addNode', nodeId, label, peers });
+        return nodeId;
+    }, [applyEdit]);
+
+    const addLink = useCallback((source: string, target: string) => applyEdit({ kind: 'addLink', source, target }), [applyEdit]);
+    const removeLink = useCallback((source: string, target: string) => applyEdit({ kind: 'removeLink', source, target }), [applyEdit]);
+    const removeNode = useCallback((nodeId: string) => applyEdit({ kind: 'removeNode', nodeId }), [applyEdit]);
+    const setNodeType = useCallback((nodeId: string, nodeType: GraphNode['type']) => applyEdit({ kind: 'setNodeType', nodeId, nodeType }), [applyEdit]);
+    const renameNode = useCallback((nodeId: string, label: string) => applyEdit({ kind: 'renameNode', nodeId, label }), [applyEdit]);
+
+    const describe = (edits: GraphEdit[] | undefined) => {
+        if (!edits) return null;
+        const first = describeGraphEdit(state.nodes, edits[0]);
+        return edits.length > 1 ? `${first} and ${edits.length - 1} more` : first;
+    };
+
+    return {
+        editing,
+        setEditing,
+        undoLabel: describe(history.undo[history.undo.length - 1]),
+        redoLabel: describe(history.redo[history.redo.length - 1]),
+        undo,
+        redo,
+        applyEdits,
+        addRouter,
+        addLink,
+        removeLink,
+        removeNode,
+        setNodeType,
+        renameNode
+    };
+};
+
+export type TopologyEditor = ReturnType<typeof useTopologyEditor>;
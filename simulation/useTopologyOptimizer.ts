@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { LogEntry } from '../types';
+import { AIProviderId } from '../services/aiKernel';
+import { isCancelled } from '../services/aiScheduler';
+import { AIKernelClient } from './useAIKernel';
+import { SimulationEngine } from './useSimulationEngine';
+import { TopologyEditor } from './useTopologyEditor';
+import {
+    TopologyProposal, topologyRequestOf, parseProposal, validateProposal, proposalEdits, isEmptyProposal, describeProposal
+} from './optimization';
+
+type AddLog = (source: LogEntry['source'], message: string, type: LogEntry['type']) => void;
+
+interface PendingProposal {
+    proposal: TopologyProposal; // as parsed; validated again against every new graph
+    provider: AIProviderId;
+    parseIssues: string[];
+}
+
+/**
+ * Asks the AI kernel for a safer topology and holds the answer for review.
+ * The proposal shown is always validated against the live graph, and applying
+ * it goes through the topology editor, so the whole proposal is one undo step.
+ */
+export const useTopologyOptimizer = (engine: SimulationEngine, aiKernel: AIKernelClient, editor: TopologyEditor, addLog: AddLog) => {
+    const { state, subscribe } = engine;
+    const [pending, setPending] = useState<PendingProposal | null>(null);
+    const [requesting, setRequesting] = useState(false);
+    const stateRef = useRef(state);
+    const generation = useRef(0); // bumped whenever an answer in flight stops applying
+
+    useEffect(() => subscribe((_emissions, next, events) => {
+        const rewound = next.time < stateRef.current.time || events.some(e => e.type === 'RESET');
+        stateRef.current = next;
+        // The proposal was for a graph that is no longer there
+        if (rewound) {
+            generation.current++;
+            setPending(null);
+            setRequesting(false);
+        }
+    }), [subscribe]);
+
+    const requestOptimization = useCallback(() => {
+        const asked = ++generation.current;
+        setRequesting(true);
+        aiKernel.propose(topologyRequestOf(stateRef.current))
+            .then(answer => {
+                if (asked !== generation.current) return;
+                if (answer.fallbackReason) addLog('SYSTEM', `AI provider unavailable (${answer.fallbackReason}); using offline proposal.`, 'warning');
+                const parsed = parseProposal(answer.raw);
+                const { nodes, links } = stateRef.current;
+                const checked = validateProposal(nodes, links, parsed.proposal);
+                const issues = [...parsed.issues, ...checked.issues];
+                addLog('AI_KERNEL', `Topology proposal: ${describeProposal(checked.proposal)}${checked.proposal.rationale ? ` — ${checked.proposal.rationale}` : ''}`, 'info');
+                if (issues.length > 0) addLog('SYSTEM', `Proposal changes dropped: ${issues.join('; ')}.`, 'warning');
+                setPending({ proposal: parsed.proposal, provider: answer.provider, parseIssues: parsed.issues });
+            })
+            .catch(error => {
+                if (asked === generation.current && !isCancelled(error)) addLog('SYSTEM', 'AI topology optimisation unavailable.', 'error');
+            })
+            .finally(() => {
+                if (asked === generation.current) setRequesting(false);
+            });
+    }, [aiKernel, addLog]);
+
+    // The network kept running while the operator read it, so check once more
+    const applyProposal = useCallback(() => {
+        if (!pending) return;
+        const { nodes, links } = stateRef.current;
+        const { proposal, issues } = validateProposal(nodes, links, pending.proposal);
+        if (isEmptyProposal(proposal)) {
+            addLog('SYSTEM', `Proposal no longer applies: ${issues.join('; ') || 'no changes'}.`, 'warning');
+        } else {
+            editor.applyEdits(proposalEdits(proposal));
+            addLog('SYSTEM', `Proposal applied: ${describeProposal(proposal)}.`, 'success');
+        }
+        setPending(null);
+    }, [pending, editor, addLog]);
+
+    const rejectProposal = useCallback(() => {
+        if (!pending) return;
+        addLog('SYSTEM', 'Proposal rejected; topology unchanged.', 'info');
+        setPending(null);
+    }, [pending, addLog]);
+
+    const checked = pending && validateProposal(state.nodes, state.links, pending.proposal);
+
+    return {
+        // What applying would do right now, and what it would leave out
+        proposal: pending && checked ? { proposal: checked.proposal, issues: [...pending.parseIssues, ...checked.issues], provider: pending.provider } : null,
+        requesting,
+        requestOptimization,
+        applyProposal,
+        rejectProposal
+    };
+};
+
+export type TopologyOptimizer = ReturnType<typeof useTopologyOptimizer>;
@@ -0,0 +1,283 @@
+import { AttackType, GraphNode } from '../types';
+import { SIMULATION_TICK_MS } from '../constants';
+import { SimulationEvent, SimulationOptions, ScheduledEvent, MitigationSettings } from './engine';
+import { TopologyConfig, TopologyKind, CustomTopology } from './topology';
+import { customTopologyIssues } from './topologyIO';
+import { HoppingConfig } from './hopping';
+import { JammerConfig, JAMMER_LABELS } from './jamming';
+import { TransportConfig } from './transport';
+import { KeyingConfig } from './keying';
+import { FaultConfig, FailureProfile } from './faults';
+import { QuarantineRelease } from './quarantine';
+import { GraphEdit } from './graphEdits';
+
+/**
+ * Shape checks for what arrives in files (scenarios and recordings) before it
+ * reaches the engine, which trusts its inputs. A check appends what is wrong
+ * to `issues`, prefixed with where it was found, and says whether the value
+ * can be used as its type.
+ */
+export type Check<T> = (value: unknown, where: string, issues: string[]) => value is T;
+
+// One check per field, so a field added to the type cannot go unchecked
+export type FieldChecks<T> = { [K in keyof T]-?: Check<T[K]> };
+
+export const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+export const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+export const isArray = (v: unknown): v is unknown[] => Array.isArray(v);
+export const isOneOf = <T>(values: readonly T[], v: unknown): v is T => (values as readonly unknown[]).includes(v);
+export const isKeyOf = <T extends object>(record: T, v: unknown): v is keyof T => typeof v === 'string' && v in record;
+
+const must = <T>(test: (v: unknown) => boolean, expected: string): Check<T> => (value, where, issues): value is T => {
+    if (test(value)) return true;
+    issues.push(`${where} must be ${expected}`);
+    return false;
+};
+
+export const checkBoolean = must<boolean>(v => typeof v === 'boolean', 'true or false');
+const checkText = must<string>(v => typeof v === 'string', 'a string');
+const checkNodeId = must<string>(v => typeof v === 'string' && v !== '', 'a node id');
+const finite = must<number>(isNumber, 'a number');
+export const between = (min: number, max: number) => must<number>(v => isNumber(v) && v >= min && v <= max, `a number from ${min} to ${max}`);
+export const atLeast = (min: number) => must<number>(v => isNumber(v) && v >= min, `a number >= ${min}`);
+export const positive = must<number>(v => isNumber(v) && v > 0, 'a positive number');
+export const wholeBetween = (min: number, max: number = Infinity) => must<number>(
+    v => isNumber(v) && Number.isInteger(v) && v >= min && v <= max,
+    max === Infinity ? `a whole number >= ${min}` : `a whole number from ${min} to ${max}`
+);
+
+export const oneOf = <T>(values: readonly T[]) => must<T>(v => isOneOf(values, v), `one of ${values.join(', ')}`);
+export const keyOf = <T extends object>(record: T) => must<keyof T>(v => isKeyOf(record, v), `one of ${Object.keys(record).join(', ')}`);
+
+// For fields that may be left out
+export const optional = <T>(check: Check<T>): Check<T | undefined> => (value, where, issues): value is T | undefined =>
+    value === undefined || check(value, where, issues);
+
+export const listOf = <T>(check: Check<T>, min = 0, max = Infinity): Check<T[]> => (value, where, issues): value is T[] => {
+    if (!isArray(value) || value.length < min || value.length > max) {
+        const size = max === Infinity ? (min > 0 ? ` of at least ${min}` : '') : ` of ${min} to ${max}`;
+        issues.push(`${where} must be a list${size}`);
+        return false;
+    }
+    const before = issues.length;
+    value.forEach((v, i) => check(v, `${where}[${i}]`, issues));
+    return issues.length === before;
+};
+
+const checkFields = <T>(checks: FieldChecks<T>, partial: boolean): Check<T> => (value, where, issues): value is T => {
+    if (!isObject(value)) {
+        issues.push(`${where} must be an object`);
+        return false;
+    }
+    const known = Object.keys(checks);
+    const before = issues.length;
+    Object.keys(value).filter(k => !known.includes(k)).forEach(k => issues.push(`${where}: unknown field "${k}"`));
+    (known as (keyof T & string)[]).forEach(k => {
+        if (!(partial && value[k] === undefined)) checks[k](value[k], `${where}.${k}`, issues);
+    });
+    return issues.length === before;
+};
+
+// Every field valid (wrap the ones that may be left out in `optional`), nothing else
+export const fields = <T>(checks: FieldChecks<T>): Check<T> => checkFields(checks, false);
+
+// Any of the fields, each valid if present; e.g. settings merged over the defaults
+export const partOf = <T>(checks: FieldChecks<T>): Check<Partial<T>> => checkFields(checks, true);
+
+const recordOf = <T>(check: Check<T>): Check<Record<string, T>> => (value, where, issues): value is Record<string, T> => {
+    if (!isObject(value)) {
+        issues.push(`${where} must be an object`);
+        return false;
+    }
+    const before = issues.length;
+    Object.entries(value).forEach(([key, v]) => check(v, `${where}.${key}`, issues));
+    return issues.length === before;
+};
+
+// For unions told apart by one field: its value picks the fields the rest must have
+const variants = <T extends Record<Tag, string>, Tag extends string>(
+    tag: Tag,
+    checks: { [V in T[Tag]]: Check<Omit<Extract<T, Record<Tag, V>>, Tag>> }
+): Check<T> => (value, where, issues): value is T => {
+    if (!isObject(value)) {
+        issues.push(`${where} must be an object`);
+        return false;
+    }
+    const { [tag]: kind, ...rest } = value;
+    if (!isKeyOf(checks, kind)) {
+        issues.push(`${where}: unknown ${tag} ${JSON.stringify(kind)}`);
+        return false;
+    }
+    return checks[kind](rest, where, issues);
+};
+
+// --- Settings ---
+
+export const checkMitigation = partOf<MitigationSettings>({
+    enabled: checkBoolean,
+    initialStrength: between(0, 1),
+    stepStrength: between(0, 1),
+    maxStrength: between(0, 1),
+    autoQuarantine: checkBoolean
+});
+
+// The key is drawn from the seed, so it is never part of the settings
+export const checkHopping = partOf<Omit<HoppingConfig, 'key'>>({
+    enabled: checkBoolean,
+    channels: listOf(positive, 1),
+    dwellMs: atLeast(SIMULATION_TICK_MS) // at most one hop per tick
+});
+
+export const checkJammers = listOf(fields<JammerConfig>({
+    kind: keyOf(JAMMER_LABELS),
+    centerMhz: positive,
+    bandwidthMhz: positive,
+    sweepMhzPerSecond: optional(finite),
+    reactionMs: optional(atLeast(0))
+}));
+
+export const checkTransport = partOf<TransportConfig>({
+    ttl: wholeBetween(1),
+    acks: checkBoolean,
+    retransmit: checkBoolean,
+    timeoutMs: positive,
+    maxRetries: wholeBetween(0)
+});
+
+export const checkKeying = partOf<KeyingConfig>({ rekeyEveryHops: wholeBetween(0) });
+
+const PROFILE: FieldChecks<FailureProfile> = { mtbfMs: atLeast(0), mttrMs: positive };
+
+export const checkFaults = partOf<FaultConfig>({
+    enabled: checkBoolean,
+    link: fields(PROFILE),
+    node: fields(PROFILE),
+    region: fields({ ...PROFILE, radius: wholeBetween(0, 3) }),
+    overrides: recordOf(fields(PROFILE))
+});
+
+// --- Topology ---
+
+type GeneratedTopology = Exclude<TopologyConfig, CustomTopology>;
+
+// The ranges each generator works in; it would quietly clamp anything outside them
+const GENERATOR_PARAMS: { [K in TopologyKind]: Check<Omit<Extract<GeneratedTopology, { kind: K }>, 'kind'>> } = {
+    'layered': fields({ layerWidths: listOf(wholeBetween(1, 12), 1, 8), crossConnectChance: between(0, 1) }),
+    'grid': fields({ rows: wholeBetween(1, 10), cols: wholeBetween(1, 10) }),
+    'erdos-renyi': fields({ routers: wholeBetween(2, 60), linkProbability: between(0, 1) }),
+    'barabasi-albert': fields({ routers: wholeBetween(2, 60), attachments: wholeBetween(1, 59) }),
+    'watts-strogatz': fields({ routers: wholeBetween(3, 60), neighbours: wholeBetween(2, 58), rewireProbability: between(0, 1) }),
+    'ring-of-rings': fields({ rings: wholeBetween(2, 8), ringSize: wholeBetween(2, 8) })
+};
+
+// Limits that depend on another parameter, once each is in range on its own
+const checkGeneratorLimits = (kind: TopologyKind, { routers, attachments, neighbours }: Record<string, unknown>, where: string, issues: string[]) => {
+    if (!isNumber(routers)) return;
+    if (kind === 'barabasi-albert' && isNumber(attachments) && attachments >= routers) {
+        issues.push(`${where}.attachments must be less than routers`);
+    }
+    if (kind === 'watts-strogatz' && isNumber(neighbours) && (neighbours % 2 !== 0 || neighbours >= routers)) {
+        issues.push(`${where}.neighbours must be even and less than routers`);
+    }
+};
+
+/**
+ * A generator with its parameters in range, or a custom graph that passes the
+ * same checks as an imported one: endpoints, link references, duplicates and
+ * a route from the source to the target.
+ */
+export const checkTopology: Check<TopologyConfig> = (value, where, issues): value is TopologyConfig => {
+    if (!isObject(value)) {
+        issues.push(`${where} must be an object`);
+        return false;
+    }
+    const before = issues.length;
+    const { kind, ...params } = value;
+
+    if (!isKeyOf(GENERATOR_PARAMS, kind) && kind !== 'custom') {
+        issues.push(`${where}.kind must be one of ${[...Object.keys(GENERATOR_PARAMS), 'custom'].join(', ')}`);
+    } else if (kind === 'custom') {
+        const { name, nodes, links } = params;
+        if (typeof name !== 'string' || !isArray(nodes) || !isArray(links)) {
+            issues.push(`${where} needs a "name" and "nodes" and "links" lists`);
+        } else {
+            customTopologyIssues(nodes, links).forEach(issue => issues.push(`${where}: ${issue}`));
+        }
+    } else if (GENERATOR_PARAMS[kind](params, where, issues)) {
+        checkGeneratorLimits(kind, params, where, issues);
+    }
+    return issues.length === before;
+};
+
+// Everything a run starts from, as a recording keeps it
+export const checkSettings = partOf<SimulationOptions>({
+    mitigation: checkMitigation,
+    topology: checkTopology,
+    hopping: checkHopping,
+    jammers: checkJammers,
+    transport: checkTransport,
+    encryption: checkBoolean,
+    keying: checkKeying,
+    faults: checkFaults
+});
+
+// --- Events ---
+
+const checkRelease = variants<QuarantineRelease, 'kind'>('kind', {
+    'manual': fields({}),
+    'timed': fields({ durationMs: positive }),
+    'neighbours-clean': fields({ minimumMs: atLeast(0) })
+});
+
+const NODE_TYPES: GraphNode['type'][] = ['source', 'target', 'router'];
+
+const checkEdit = variants<GraphEdit, 'kind'>('kind', {
+    addNode: fields({ nodeId: checkNodeId, label: checkText, peers: listOf(checkNodeId) }),
+    removeNode: fields({ nodeId: checkNodeId }),
+    addLink: fields({ source: checkNodeId, target: checkNodeId }),
+    removeLink: fields({ source: checkNodeId, target: checkNodeId }),
+    setNodeType: fields({ nodeId: checkNodeId, nodeType: oneOf(NODE_TYPES) }),
+    renameNode: fields({ nodeId: checkNodeId, label: checkText }),
+    hardenNode: fields({ nodeId: checkNodeId, hardened: checkBoolean })
+});
+
+const checkAttackType = oneOf(Object.values(AttackType));
+const checkNode = fields({ nodeId: checkNodeId });
+const checkLink = fields({ source: checkNodeId, target: checkNodeId });
+
+/**
+ * An event with the payload its type needs. Whether it applies to the graph
+ * at hand (the node exists, the link is up) is still up to the engine, which
+ * logs and skips what it cannot do.
+ */
+export const checkEvent: Check<SimulationEvent> = variants<SimulationEvent, 'type'>('type', {
+    RESET: fields({ seed: finite, topology: optional(checkTopology) }),
+    TOGGLE_ATTACK: fields({ attackType: checkAttackType }),
+    SET_ATTACK: fields({ attackType: checkAttackType, target: optional(checkNodeId) }),
+    PACKET_ARRIVAL: checkNode,
+    SET_HOPPING: fields({ hopping: checkHopping }),
+    SET_JAMMERS: fields({ jammers: checkJammers }),
+    SET_TRANSPORT: fields({ transport: checkTransport }),
+    SET_ENCRYPTION: fields({ enabled: checkBoolean }),
+    LEAK_SESSION_KEY: fields({}),
+    ROTATE_SESSION_KEY: fields({}),
+    SET_KEYING: fields({ keying: checkKeying }),
+    LOCK_NODE: fields({ nodeId: checkNodeId, release: checkRelease }),
+    UNLOCK_NODE: checkNode,
+    COMPROMISE_NODE: checkNode,
+    RESTORE_NODE: checkNode,
+    ISOLATE_NODE: checkNode,
+    RECONNECT_NODE: checkNode,
+    REMOVE_NODE: checkNode,
+    EDIT_GRAPH: fields({ edit: checkEdit }),
+    SET_MITIGATION: fields({ mitigation: checkMitigation }),
+    FAIL_LINK: fields({ source: checkNodeId, target: checkNodeId, selfHeal: optional(checkBoolean) }),
+    RESTORE_LINK: checkLink,
+    FAIL_NODE: fields({ nodeId: checkNodeId, selfHeal: optional(checkBoolean) }),
+    REPAIR_NODE: checkNode,
+    REGIONAL_OUTAGE: fields({ center: optional(checkNodeId) }),
+    SET_FAULTS: fields({ faults: checkFaults }),
+    SCHEDULE: fields({
+        events: listOf(fields<ScheduledEvent>({ at: atLeast(0), event: (value, where, issues): value is SimulationEvent => checkEvent(value, where, issues) }))
+    })
+});
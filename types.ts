@@ -4,14 +4,16 @@ export enum NodeState {
   ANALYZING = 'ANALYZING', // Turing Analysis
   HOPPING = 'HOPPING',     // Lamarr Frequency Hopping
   COMPROMISED = 'COMPROMISED',
-  LOCKED = 'LOCKED'
+  LOCKED = 'LOCKED',
+  FAILED = 'FAILED' // hardware fault, not an attack
 }
 
 export enum AttackType {
   NONE = 'NONE',
   SNIFFING = 'SNIFFING',
   MITM = 'MITM',
-  HIJACKING = 'HIJACKING'
+  HIJACKING = 'HIJACKING',
+  JAMMING = 'JAMMING'
 }
 
 export interface GraphNode {
@@ -25,6 +27,8 @@ export interface GraphNode {
   type: 'source' | 'target' | 'router';
   state: NodeState;
   label: string;
+  hardened?: boolean; // patched and monitored: harder to compromise
+  isolated?: boolean; // cut off by the operator: its links carry nothing, though none of them failed
 }
 
 export interface GraphLink {
@@ -33,16 +37,27 @@ export interface GraphLink {
   frequency: number; // 0-100 Hz (abstract)
   active: boolean;
   isCompromised: boolean;
+  isJammed: boolean; // inside an active jammer's band this slot
+  isFailed: boolean; // down: carries no traffic and holds no key
 }
 
 export interface Packet {
   id: string;
-  sourceId: string;
-  targetId: string;
+  kind: 'data' | 'ack';
+  seq: number; // segment number; ACKs and retransmissions reuse the data packet's
+  attempt: number; // 0 for the original transmission, n for the nth retransmission
+  ttl: number; // hops left before the packet is discarded
+  sourceId: string; // end-to-end origin (e.g. SRC)
+  targetId: string; // end-to-end destination (e.g. DST)
+  route: string[]; // planned node path, recomputed at every hop
+  hopIndex: number; // index into route of the node the packet is leaving
+  hops: number; // edges traversed so far
   currentEdgeId: string | null; // composite key source-target
-  progress: number; // 0 to 1
-  data: string;
-  isEncrypted: boolean;
+  progress: number; // 0 to 1 along the current edge
+  data: string; // cleartext payload; sealed copies live in the payload cipher
+  isEncrypted: boolean; // sealed with the key of session `sessionId`
+  sessionId: number;
+  tampering: 'ciphertext' | 'forged' | 'plaintext' | null; // see Tampering in simulation/crypto
 }
 
 export interface LogEntry {